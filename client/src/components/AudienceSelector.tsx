@@ -0,0 +1,74 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import {
+  AUDIENCE_LABELS,
+  AUDIENCES,
+  DEFAULT_AUDIENCE,
+  type Audience,
+} from "@shared/audience";
+import { toast } from "sonner";
+
+interface AudienceSelectorProps {
+  projectId: number;
+}
+
+/**
+ * 生成するマニュアルの想定読者（ステップの粒度・文章量・ナレーションの長さ）を選ぶ。
+ * 選んだ読者は次回の「AIでステップを生成」から反映される。
+ */
+export function AudienceSelector({ projectId }: AudienceSelectorProps) {
+  const { data: settings, isLoading } = trpc.project.getSettings.useQuery({
+    projectId,
+  });
+  const updateSettingsMutation = trpc.project.updateSettings.useMutation();
+  const utils = trpc.useUtils();
+
+  const handleChange = async (value: string) => {
+    const audience = value as Audience;
+    try {
+      await updateSettingsMutation.mutateAsync({
+        projectId,
+        audience: audience === DEFAULT_AUDIENCE ? null : audience,
+      });
+      await utils.project.getSettings.invalidate({ projectId });
+      toast.success(
+        `想定読者を${AUDIENCE_LABELS[audience]}にしました（次回のステップ生成から反映されます）`
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "想定読者の保存に失敗しました"
+      );
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Label htmlFor="audience" className="text-sm whitespace-nowrap">
+        想定読者
+      </Label>
+      <Select
+        value={settings?.audience ?? DEFAULT_AUDIENCE}
+        onValueChange={handleChange}
+        disabled={isLoading || updateSettingsMutation.isPending}
+      >
+        <SelectTrigger id="audience" className="w-72">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {AUDIENCES.map(audience => (
+            <SelectItem key={audience} value={audience}>
+              {AUDIENCE_LABELS[audience]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { Crop, Loader2, Save, Wand2, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  RegionDrawingSurface,
+  type NormalizedRect,
+  type RegionOverlay,
+} from "./RegionDrawingSurface";
+
+interface CropRegionEditorProps {
+  projectId: number;
+  /** 矩形を描く下敷きにする元動画 */
+  videoUrl: string;
+}
+
+function formatRect(rect: NormalizedRect): string {
+  return `x=${rect.x.toFixed(2)} y=${rect.y.toFixed(2)} w=${rect.w.toFixed(2)} h=${rect.h.toFixed(2)}`;
+}
+
+/**
+ * 証拠抽出と動画クリップの対象領域（クロップ）を元動画のフレーム上にドラッグで指定する。
+ * 全画面で抽出した直近の結果から、差分が集中していた領域を候補として提示する。
+ */
+export function CropRegionEditor({
+  projectId,
+  videoUrl,
+}: CropRegionEditorProps) {
+  const { data: settings, isLoading } = trpc.project.getSettings.useQuery({
+    projectId,
+  });
+  const { data: suggestion } = trpc.project.getCropSuggestion.useQuery({
+    projectId,
+  });
+  const updateSettingsMutation = trpc.project.updateSettings.useMutation();
+  const utils = trpc.useUtils();
+  const [cropRegion, setCropRegion] = useState<NormalizedRect | null>(null);
+
+  useEffect(() => {
+    setCropRegion(settings?.cropRegion ?? null);
+  }, [settings]);
+
+  const handleSave = async () => {
+    try {
+      await updateSettingsMutation.mutateAsync({ projectId, cropRegion });
+      await utils.project.getSettings.invalidate({ projectId });
+      toast.success(
+        cropRegion
+          ? "クロップ領域を保存しました（次回の動画処理から反映されます）"
+          : "クロップを解除しました（次回の動画処理から全画面で抽出します）"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "クロップ領域の保存に失敗しました"
+      );
+    }
+  };
+
+  const overlays: RegionOverlay[] = [];
+  if (suggestion && !cropRegion) {
+    overlays.push({
+      rect: suggestion,
+      className: "border-dashed border-amber-500 bg-amber-500/10",
+    });
+  }
+  if (cropRegion) {
+    overlays.push({
+      rect: cropRegion,
+      className: "border-primary bg-primary/10",
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Crop className="h-5 w-5" />
+          クロップ領域
+        </CardTitle>
+        <CardDescription>
+          ウルトラワイドやデュアルモニタの録画では、対象アプリが映っている範囲をドラッグで囲んでください。
+          保存すると次回の動画処理から差分検知・スクリーンショット・動画クリップがこの範囲に限定されます。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <RegionDrawingSurface
+              videoUrl={videoUrl}
+              ariaLabel="クロップ領域の編集"
+              overlays={overlays}
+              onRectDrawn={setCropRegion}
+            />
+            <div className="space-y-1 text-sm text-muted-foreground">
+              <p>現在: {cropRegion ? formatRect(cropRegion) : "全画面"}</p>
+              {suggestion && (
+                <p>候補（変化が集中している範囲）: {formatRect(suggestion)}</p>
+              )}
+            </div>
+            <div className="flex flex-wrap justify-end gap-2">
+              {suggestion && (
+                <Button
+                  variant="outline"
+                  onClick={() => setCropRegion(suggestion)}
+                >
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  候補を使う
+                </Button>
+              )}
+              {cropRegion && (
+                <Button variant="outline" onClick={() => setCropRegion(null)}>
+                  <X className="h-4 w-4 mr-2" />
+                  全画面に戻す
+                </Button>
+              )}
+              <Button
+                onClick={handleSave}
+                disabled={updateSettingsMutation.isPending}
+              >
+                {updateSettingsMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                クロップ領域を保存
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
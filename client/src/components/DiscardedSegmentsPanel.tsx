@@ -0,0 +1,136 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { ArchiveRestore, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface DiscardedSegment {
+  segment_id: string;
+  reason: string;
+  t_start: number;
+  t_end: number;
+  activity?: string;
+  thumbnails: { timestamp: number; image_url: string }[];
+}
+
+interface DiscardedSegmentsPanelProps {
+  projectId: number;
+  /** 編集の元にした steps.json の revision（古ければ競合として保存されない） */
+  revision: number;
+  segments: DiscardedSegment[];
+  /** 復元後にステップ一覧を読み直す */
+  onRestored: () => void;
+}
+
+function formatSeconds(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * 執筆で破棄されたセグメント（理由・操作前後のサムネイル）を一覧し、見落としの手順をステップとして復元する。
+ * 復元したセグメントは1セグメントだけで再執筆され、時系列の位置に差し込まれる。
+ */
+export function DiscardedSegmentsPanel({
+  projectId,
+  revision,
+  segments,
+  onRestored,
+}: DiscardedSegmentsPanelProps) {
+  const restoreMutation = trpc.step.restoreDiscarded.useMutation();
+  const [restoringSegmentId, setRestoringSegmentId] = useState<string | null>(
+    null
+  );
+
+  if (segments.length === 0) return null;
+
+  const handleRestore = async (segmentId: string) => {
+    setRestoringSegmentId(segmentId);
+    try {
+      await restoreMutation.mutateAsync({
+        projectId,
+        segmentId,
+        expectedRevision: revision,
+      });
+      toast.success("破棄されたセグメントをステップとして復元しました");
+      onRestored();
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "セグメントの復元に失敗しました"
+      );
+    } finally {
+      setRestoringSegmentId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ArchiveRestore className="h-5 w-5" />
+          破棄されたセグメント {segments.length} 件
+        </CardTitle>
+        <CardDescription>
+          AIがステップにしなかった操作区間です。必要な手順が抜けていれば復元してください。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {segments.map(segment => (
+          <div
+            key={segment.segment_id}
+            className="flex flex-col gap-3 rounded-md border p-3 sm:flex-row sm:items-center"
+          >
+            <div className="flex gap-2">
+              {segment.thumbnails.map(thumbnail => (
+                <img
+                  key={`${thumbnail.timestamp}-${thumbnail.image_url}`}
+                  src={thumbnail.image_url}
+                  alt={`${formatSeconds(thumbnail.timestamp)} の画面`}
+                  className="h-16 w-28 rounded object-cover bg-muted"
+                  loading="lazy"
+                />
+              ))}
+            </div>
+            <div className="min-w-0 flex-1 space-y-1 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">
+                  {formatSeconds(segment.t_start)}-
+                  {formatSeconds(segment.t_end)}
+                </span>
+                {segment.activity && segment.activity !== "action" && (
+                  <Badge variant="secondary">{segment.activity}</Badge>
+                )}
+              </div>
+              <p className="text-muted-foreground break-words">
+                {segment.reason}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRestore(segment.segment_id)}
+              disabled={restoreMutation.isPending}
+            >
+              {restoringSegmentId === segment.segment_id ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <ArchiveRestore className="h-4 w-4 mr-2" />
+              )}
+              ステップに復元
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
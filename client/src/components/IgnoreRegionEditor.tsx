@@ -0,0 +1,124 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { Loader2, Save, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  RegionDrawingSurface,
+  type NormalizedRect,
+} from "./RegionDrawingSurface";
+
+interface IgnoreRegionEditorProps {
+  projectId: number;
+  /** 矩形を描く下敷きにする元動画 */
+  videoUrl: string;
+}
+
+/**
+ * 証拠抽出の除外領域（時計・通知バッジ・動画プレイヤー等）を元動画のフレーム上にドラッグで描く。
+ * 保存した矩形は次回の動画処理（再試行を含む）から差分計算とOCRフォーカスに反映される。
+ */
+export function IgnoreRegionEditor({
+  projectId,
+  videoUrl,
+}: IgnoreRegionEditorProps) {
+  const { data: settings, isLoading } = trpc.project.getSettings.useQuery({
+    projectId,
+  });
+  const updateSettingsMutation = trpc.project.updateSettings.useMutation();
+  const utils = trpc.useUtils();
+  const [regions, setRegions] = useState<NormalizedRect[]>([]);
+
+  useEffect(() => {
+    setRegions(settings?.ignoreRegions ?? []);
+  }, [settings]);
+
+  const handleSave = async () => {
+    try {
+      await updateSettingsMutation.mutateAsync({
+        projectId,
+        ignoreRegions: regions.length > 0 ? regions : null,
+      });
+      await utils.project.getSettings.invalidate({ projectId });
+      toast.success("除外領域を保存しました（次回の動画処理から反映されます）");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "除外領域の保存に失敗しました"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">除外領域</CardTitle>
+        <CardDescription>
+          時計・通知バッジ・動画プレイヤーなど、操作と無関係に変化し続ける領域をドラッグで囲んでください。
+          保存すると次回の動画処理から差分検知とOCRの対象外になります。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <RegionDrawingSurface
+              videoUrl={videoUrl}
+              ariaLabel="除外領域の編集"
+              overlays={regions.map(rect => ({
+                rect,
+                className: "border-destructive bg-destructive/20",
+              }))}
+              onRectDrawn={rect => setRegions(prev => [...prev, rect])}
+            />
+            {regions.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {regions.map((region, index) => (
+                  <li key={index} className="flex items-center justify-between">
+                    <span className="text-muted-foreground">
+                      領域 {index + 1}: x={region.x.toFixed(2)} y=
+                      {region.y.toFixed(2)} w={region.w.toFixed(2)} h=
+                      {region.h.toFixed(2)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setRegions(prev => prev.filter((_, i) => i !== index))
+                      }
+                      aria-label={`領域 ${index + 1} を削除`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSave}
+                disabled={updateSettingsMutation.isPending}
+              >
+                {updateSettingsMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                除外領域を保存
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
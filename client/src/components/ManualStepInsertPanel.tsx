@@ -0,0 +1,84 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { VideoFramePicker } from "@/components/VideoFramePicker";
+import { trpc } from "@/lib/trpc";
+import { Plus } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface ManualStepInsertPanelProps {
+  projectId: number;
+  videoUrl: string;
+  /** 編集の元にした steps.json の revision（古ければ競合として保存されない） */
+  revision: number;
+  /** 追加後にステップ一覧を読み直す */
+  onInserted: () => void;
+}
+
+/**
+ * 自動の分割で見落とされた操作を、録画の任意の時点からステップとして追加する。
+ * 追加したステップは「手動で追加」として要レビューになる。
+ */
+export function ManualStepInsertPanel({
+  projectId,
+  videoUrl,
+  revision,
+  onInserted,
+}: ManualStepInsertPanelProps) {
+  const insertMutation = trpc.step.insertAt.useMutation();
+  const [author, setAuthor] = useState(true);
+
+  const handleInsert = async (timestamp: number) => {
+    try {
+      await insertMutation.mutateAsync({
+        projectId,
+        timestamp,
+        author,
+        expectedRevision: revision,
+      });
+      toast.success("ステップを追加しました。内容を確認してください");
+      onInserted();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "ステップの追加に失敗しました"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">録画からステップを追加</CardTitle>
+        <CardDescription>
+          ステップになっていない操作の時点まで動画を進めて追加します。その時点の画面を切り出して文字を読み取り、時系列の位置に差し込みます。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <VideoFramePicker
+          videoUrl={videoUrl}
+          actionLabel="この時点からステップを追加"
+          actionIcon={<Plus className="h-4 w-4 mr-2" />}
+          isPending={insertMutation.isPending}
+          onPick={handleInsert}
+        />
+        <div className="flex items-center gap-2">
+          <Switch
+            id="manual-step-author"
+            checked={author}
+            onCheckedChange={setAuthor}
+          />
+          <Label htmlFor="manual-step-author" className="text-sm">
+            読み取った画面から文面を AI で書く
+          </Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
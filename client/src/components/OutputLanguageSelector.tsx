@@ -0,0 +1,77 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import {
+  DEFAULT_OUTPUT_LANGUAGE,
+  OUTPUT_LANGUAGE_LABELS,
+  OUTPUT_LANGUAGES,
+  type OutputLanguage,
+} from "@shared/outputLanguage";
+import { toast } from "sonner";
+
+interface OutputLanguageSelectorProps {
+  projectId: number;
+}
+
+/**
+ * 生成するマニュアルの言語（ステップ文・スライド・ナレーション）を選ぶ。
+ * 選んだ言語は次回の「AIでステップを生成」から反映される。
+ */
+export function OutputLanguageSelector({
+  projectId,
+}: OutputLanguageSelectorProps) {
+  const { data: settings, isLoading } = trpc.project.getSettings.useQuery({
+    projectId,
+  });
+  const updateSettingsMutation = trpc.project.updateSettings.useMutation();
+  const utils = trpc.useUtils();
+
+  const handleChange = async (value: string) => {
+    const outputLanguage = value as OutputLanguage;
+    try {
+      await updateSettingsMutation.mutateAsync({
+        projectId,
+        outputLanguage:
+          outputLanguage === DEFAULT_OUTPUT_LANGUAGE ? null : outputLanguage,
+      });
+      await utils.project.getSettings.invalidate({ projectId });
+      toast.success(
+        `出力言語を${OUTPUT_LANGUAGE_LABELS[outputLanguage]}にしました（次回のステップ生成から反映されます）`
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "出力言語の保存に失敗しました"
+      );
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Label htmlFor="output-language" className="text-sm whitespace-nowrap">
+        出力言語
+      </Label>
+      <Select
+        value={settings?.outputLanguage ?? DEFAULT_OUTPUT_LANGUAGE}
+        onValueChange={handleChange}
+        disabled={isLoading || updateSettingsMutation.isPending}
+      >
+        <SelectTrigger id="output-language" className="w-56">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {OUTPUT_LANGUAGES.map(language => (
+            <SelectItem key={language} value={language}>
+              {OUTPUT_LANGUAGE_LABELS[language]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
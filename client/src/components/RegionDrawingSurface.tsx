@@ -0,0 +1,129 @@
+import { useRef, useState } from "react";
+
+export type NormalizedRect = { x: number; y: number; w: number; h: number };
+
+export interface RegionOverlay {
+  rect: NormalizedRect;
+  /** 矩形の枠・塗りのクラス（例: "border-destructive bg-destructive/20"） */
+  className: string;
+}
+
+interface RegionDrawingSurfaceProps {
+  /** 矩形を描く下敷きにする元動画（先頭付近のフレームを表示する） */
+  videoUrl: string;
+  overlays: RegionOverlay[];
+  /** ドラッグで描き終えた矩形（最小サイズ未満は通知しない） */
+  onRectDrawn: (rect: NormalizedRect) => void;
+  ariaLabel: string;
+}
+
+/** 最小サイズ（正規化座標）。クリックだけで極小矩形ができるのを防ぐ */
+const MIN_RECT_SIZE = 0.01;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function rectFromPoints(
+  a: { x: number; y: number },
+  b: { x: number; y: number }
+): NormalizedRect {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    w: Math.abs(a.x - b.x),
+    h: Math.abs(a.y - b.y),
+  };
+}
+
+export function toPercentStyle(rect: NormalizedRect) {
+  return {
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.w * 100}%`,
+    height: `${rect.h * 100}%`,
+  };
+}
+
+/**
+ * 元動画のフレーム上に正規化座標の矩形をドラッグで描く。
+ * 抽出済みフレームはクロップ後の画像になりうるため、座標の基準には常に元動画を使う。
+ */
+export function RegionDrawingSurface({
+  videoUrl,
+  overlays,
+  onRectDrawn,
+  ariaLabel,
+}: RegionDrawingSurfaceProps) {
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(
+    null
+  );
+  const [draft, setDraft] = useState<NormalizedRect | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const toNormalized = (
+    event: React.PointerEvent
+  ): { x: number; y: number } | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: clamp01((event.clientX - rect.left) / rect.width),
+      y: clamp01((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    const point = toNormalized(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragStart(point);
+    setDraft({ ...point, w: 0, h: 0 });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = toNormalized(event);
+    if (point) setDraft(rectFromPoints(dragStart, point));
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.w >= MIN_RECT_SIZE && draft.h >= MIN_RECT_SIZE) {
+      onRectDrawn(draft);
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative select-none cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {/* #t= で先頭付近のフレームを表示する（再生はしない） */}
+      <video
+        src={`${videoUrl}#t=0.1`}
+        aria-label={ariaLabel}
+        className="w-full h-auto rounded-md border pointer-events-none bg-black"
+        preload="metadata"
+        muted
+        playsInline
+      />
+      {overlays.map((overlay, index) => (
+        <div
+          key={index}
+          className={`absolute border-2 pointer-events-none ${overlay.className}`}
+          style={toPercentStyle(overlay.rect)}
+        />
+      ))}
+      {draft && (
+        <div
+          className="absolute border-2 border-dashed border-primary bg-primary/10 pointer-events-none"
+          style={toPercentStyle(draft)}
+        />
+      )}
+    </div>
+  );
+}
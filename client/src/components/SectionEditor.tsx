@@ -0,0 +1,218 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface StepSection {
+  title: string;
+  summary: string;
+  start_step_id: string;
+  end_step_id: string;
+}
+
+interface SectionDraft {
+  title: string;
+  summary: string;
+  /** 章の先頭ステップ番号（1始まり）。終わりは次の章の直前まで */
+  start: string;
+}
+
+interface SectionEditorProps {
+  projectId: number;
+  /** 編集の元にした steps.json の revision（古ければ競合として保存されない） */
+  revision: number;
+  stepCount: number;
+  sections: StepSection[];
+  /** 保存後に steps.json の情報を読み直す */
+  onSaved: () => void;
+}
+
+function toDrafts(sections: StepSection[]): SectionDraft[] {
+  return sections.map(section => ({
+    title: section.title,
+    summary: section.summary,
+    start: section.start_step_id.replace("step-", ""),
+  }));
+}
+
+/**
+ * steps.json の章立て（セクション）を編集する。各章は先頭ステップ番号だけを持ち、
+ * 範囲は次の章の直前（最後の章は末尾）までとして保存する。章を全て消すと章なしに戻る。
+ */
+export function SectionEditor({
+  projectId,
+  revision,
+  stepCount,
+  sections,
+  onSaved,
+}: SectionEditorProps) {
+  const updateMutation = trpc.step.updateSections.useMutation();
+  const [drafts, setDrafts] = useState<SectionDraft[]>(() =>
+    toDrafts(sections)
+  );
+
+  useEffect(() => {
+    setDrafts(toDrafts(sections));
+  }, [sections]);
+
+  const updateDraft = (index: number, patch: Partial<SectionDraft>) => {
+    setDrafts(current =>
+      current.map((draft, i) => (i === index ? { ...draft, ...patch } : draft))
+    );
+  };
+
+  const handleAdd = () => {
+    const lastStart = Number(drafts[drafts.length - 1]?.start ?? 0);
+    setDrafts(current => [
+      ...current,
+      {
+        title: "",
+        summary: "",
+        start: String(Math.min(stepCount, lastStart + 1)),
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const starts = drafts.map(draft => Number(draft.start));
+    const invalid = starts.some(
+      (start, index) =>
+        !Number.isInteger(start) ||
+        start > stepCount ||
+        (index === 0 ? start !== 1 : start <= starts[index - 1])
+    );
+    if (invalid) {
+      toast.error(
+        "最初の章はステップ1から始め、各章の先頭ステップは前の章より後ろにしてください"
+      );
+      return;
+    }
+    if (drafts.some(draft => draft.title.trim().length === 0)) {
+      toast.error("章のタイトルを入力してください");
+      return;
+    }
+    try {
+      await updateMutation.mutateAsync({
+        projectId,
+        expectedRevision: revision,
+        sections: drafts.map((draft, index) => ({
+          title: draft.title.trim(),
+          summary: draft.summary.trim(),
+          start_step_id: `step-${starts[index]}`,
+          end_step_id: `step-${(starts[index + 1] ?? stepCount + 1) - 1}`,
+        })),
+      });
+      toast.success("章立てを保存しました");
+      onSaved();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "章立ての保存に失敗しました"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">章立て</CardTitle>
+        <CardDescription>
+          長い手順を目的ごとの章に分けます。章はスライドの目次と中扉、動画の章タイトルとチャプターに使われます。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {drafts.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            章はありません（全ステップを1つの一覧として出力します）
+          </p>
+        )}
+        {drafts.map((draft, index) => {
+          const nextStart = Number(drafts[index + 1]?.start ?? stepCount + 1);
+          return (
+            <div key={index} className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`section-start-${index}`} className="text-sm">
+                  先頭ステップ
+                </Label>
+                <Input
+                  id={`section-start-${index}`}
+                  type="number"
+                  min={1}
+                  max={stepCount}
+                  value={draft.start}
+                  onChange={event =>
+                    updateDraft(index, { start: event.target.value })
+                  }
+                  className="w-24"
+                />
+              </div>
+              <div className="space-y-1 flex-1 min-w-[12rem]">
+                <Label htmlFor={`section-title-${index}`} className="text-sm">
+                  タイトル（〜ステップ {nextStart - 1}）
+                </Label>
+                <Input
+                  id={`section-title-${index}`}
+                  maxLength={100}
+                  value={draft.title}
+                  onChange={event =>
+                    updateDraft(index, { title: event.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1 flex-[2] min-w-[16rem]">
+                <Label htmlFor={`section-summary-${index}`} className="text-sm">
+                  概要
+                </Label>
+                <Input
+                  id={`section-summary-${index}`}
+                  maxLength={300}
+                  value={draft.summary}
+                  onChange={event =>
+                    updateDraft(index, { summary: event.target.value })
+                  }
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  setDrafts(current => current.filter((_, i) => i !== index))
+                }
+                aria-label="章を削除"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={handleAdd}
+            disabled={drafts.length >= Math.min(50, stepCount)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            章を追加
+          </Button>
+          <Button onClick={handleSave} disabled={updateMutation.isPending}>
+            {updateMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            章立てを保存
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { Loader2, Wand2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface StepRangeReauthorPanelProps {
+  projectId: number;
+  /** 編集の元にした steps.json の revision（古ければ競合として保存されない） */
+  revision: number;
+  stepCount: number;
+  /** 再執筆後にステップ一覧を読み直す */
+  onReauthored: () => void;
+}
+
+/**
+ * 選んだステップ範囲（N〜M番目）だけを根拠セグメントから再執筆する。
+ * 前後のステップは文脈として渡すだけで、範囲外のステップは変わらない。
+ */
+export function StepRangeReauthorPanel({
+  projectId,
+  revision,
+  stepCount,
+  onReauthored,
+}: StepRangeReauthorPanelProps) {
+  const reauthorMutation = trpc.step.reauthorRange.useMutation();
+  const [from, setFrom] = useState("1");
+  const [to, setTo] = useState("1");
+  const [guidance, setGuidance] = useState("");
+
+  const handleReauthor = async () => {
+    const fromNumber = Number(from);
+    const toNumber = Number(to);
+    if (
+      !Number.isInteger(fromNumber) ||
+      !Number.isInteger(toNumber) ||
+      fromNumber < 1 ||
+      toNumber < fromNumber ||
+      toNumber > stepCount
+    ) {
+      toast.error(
+        `1〜${stepCount} の範囲で開始・終了のステップ番号を指定してください`
+      );
+      return;
+    }
+    try {
+      const result = await reauthorMutation.mutateAsync({
+        projectId,
+        expectedRevision: revision,
+        from: fromNumber,
+        to: toNumber,
+        guidance: guidance.trim() || undefined,
+      });
+      toast.success(
+        `ステップ ${fromNumber}〜${toNumber} を再執筆しました（${result.stepCount} ステップ）`
+      );
+      onReauthored();
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "ステップの再執筆に失敗しました"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">範囲を指定して再執筆</CardTitle>
+        <CardDescription>
+          選んだステップだけを録画の証拠から書き直します。前後のステップとのつながりを保ち、範囲外のステップは変更しません。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="reauthor-from" className="text-sm">
+              開始ステップ
+            </Label>
+            <Input
+              id="reauthor-from"
+              type="number"
+              min={1}
+              max={stepCount}
+              value={from}
+              onChange={event => setFrom(event.target.value)}
+              className="w-24"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reauthor-to" className="text-sm">
+              終了ステップ
+            </Label>
+            <Input
+              id="reauthor-to"
+              type="number"
+              min={1}
+              max={stepCount}
+              value={to}
+              onChange={event => setTo(event.target.value)}
+              className="w-24"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="reauthor-guidance" className="text-sm">
+            追加の指示（任意）
+          </Label>
+          <Textarea
+            id="reauthor-guidance"
+            rows={2}
+            maxLength={500}
+            value={guidance}
+            onChange={event => setGuidance(event.target.value)}
+            placeholder="もっと簡潔に"
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={handleReauthor}
+            disabled={reauthorMutation.isPending}
+          >
+            {reauthorMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Wand2 className="h-4 w-4 mr-2" />
+            )}
+            再執筆
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
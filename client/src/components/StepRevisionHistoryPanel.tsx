@@ -0,0 +1,292 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { History, Loader2, Redo2, RotateCcw, Undo2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface StepRevisionHistoryPanelProps {
+  projectId: number;
+  /** 編集の元にした steps.json の revision（古ければ競合として保存されない） */
+  revision: number;
+  /** 値が変わるたびに履歴を読み直す（他の編集の後） */
+  refreshKey: unknown;
+  /** undo/redo・版の復元の後にステップ一覧を読み直す */
+  onChanged: () => void;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  generate: "AI生成",
+  import_db: "DBから取り込み",
+  update: "編集",
+  delete: "削除",
+  reorder: "並べ替え",
+  sections: "章立て",
+  regenerate: "再生成",
+  reauthor: "範囲の再執筆",
+  restore_discarded: "セグメントの復元",
+  split: "分割",
+  merge: "結合",
+  insert: "手動で追加",
+  screenshot: "画像の差し替え",
+  audio: "音声生成",
+  restore: "版の復元",
+  undo: "元に戻す",
+  redo: "やり直し",
+  save: "保存",
+};
+
+const CHANGE_LABELS = {
+  added: "追加",
+  removed: "削除",
+  modified: "変更",
+} as const;
+
+/** 履歴は新しい順に最大この件数まで表示する */
+const VISIBLE_REVISIONS = 20;
+
+/**
+ * steps.json の版の履歴。各版で変わったステップを一覧し、undo/redo と任意の版への復元を行う。
+ * 復元も新しい版として記録されるため、復元自体を元に戻せる。
+ */
+export function StepRevisionHistoryPanel({
+  projectId,
+  revision,
+  refreshKey,
+  onChanged,
+}: StepRevisionHistoryPanelProps) {
+  const { data: history, refetch } = trpc.step.revisions.useQuery({
+    projectId,
+  });
+  const undoMutation = trpc.step.undo.useMutation();
+  const redoMutation = trpc.step.redo.useMutation();
+  const restoreMutation = trpc.step.restoreRevision.useMutation();
+  const [compareRevision, setCompareRevision] = useState<number | null>(null);
+  const { data: diff, isFetching: diffLoading } =
+    trpc.step.diffRevisions.useQuery(
+      {
+        projectId,
+        from: compareRevision ?? 1,
+        to: history?.head ?? 1,
+      },
+      { enabled: compareRevision !== null && history?.head != null }
+    );
+
+  useEffect(() => {
+    refetch();
+  }, [refreshKey, refetch]);
+
+  if (!history || history.revisions.length === 0) return null;
+
+  const isPending =
+    undoMutation.isPending ||
+    redoMutation.isPending ||
+    restoreMutation.isPending;
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    try {
+      await action();
+      toast.success(message);
+      setCompareRevision(null);
+      await refetch();
+      onChanged();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "履歴の操作に失敗しました"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5" />
+              変更履歴
+            </CardTitle>
+            <CardDescription>
+              ステップの編集ごとに版を記録しています。元に戻す・やり直す、または任意の版に戻せます。
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                run(
+                  () =>
+                    undoMutation.mutateAsync({
+                      projectId,
+                      expectedRevision: revision,
+                    }),
+                  "直前の操作を元に戻しました"
+                )
+              }
+              disabled={isPending || history.undoTarget === null}
+            >
+              {undoMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Undo2 className="h-4 w-4 mr-2" />
+              )}
+              元に戻す
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                run(
+                  () =>
+                    redoMutation.mutateAsync({
+                      projectId,
+                      expectedRevision: revision,
+                    }),
+                  "操作をやり直しました"
+                )
+              }
+              disabled={isPending || history.redoTarget === null}
+            >
+              {redoMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Redo2 className="h-4 w-4 mr-2" />
+              )}
+              やり直す
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {history.revisions.slice(0, VISIBLE_REVISIONS).map(entry => (
+          <div
+            key={entry.revision}
+            className="space-y-2 rounded-md border p-3 text-sm"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">版 {entry.revision}</span>
+              <Badge variant="secondary">
+                {ACTION_LABELS[entry.action] ?? entry.action}
+              </Badge>
+              {entry.restored_from !== undefined && (
+                <span className="text-muted-foreground">
+                  （版 {entry.restored_from} の内容）
+                </span>
+              )}
+              {entry.head === history.head && entry.revision === entry.head && (
+                <Badge>現在</Badge>
+              )}
+              <span className="text-muted-foreground">
+                {new Date(entry.created_at).toLocaleString()}
+              </span>
+              <div className="ml-auto flex gap-2">
+                {history.head !== null && entry.revision !== history.head && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setCompareRevision(
+                        compareRevision === entry.revision
+                          ? null
+                          : entry.revision
+                      )
+                    }
+                  >
+                    現在との差分
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    run(
+                      () =>
+                        restoreMutation.mutateAsync({
+                          projectId,
+                          revision: entry.revision,
+                          expectedRevision: revision,
+                        }),
+                      `版 ${entry.revision} に戻しました`
+                    )
+                  }
+                  disabled={isPending || entry.revision === history.head}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  この版に戻す
+                </Button>
+              </div>
+            </div>
+            <ChangeSummary
+              changes={entry.changed_steps}
+              reordered={entry.reordered}
+              overviewChanged={entry.overview_changed}
+              sectionsChanged={entry.sections_changed}
+            />
+            {compareRevision === entry.revision && (
+              <div className="rounded bg-muted p-2">
+                <p className="text-xs text-muted-foreground mb-1">
+                  版 {entry.revision} → 現在（版 {history.head}）
+                </p>
+                {diffLoading || !diff ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <ChangeSummary
+                    changes={diff.steps}
+                    reordered={diff.reordered}
+                    overviewChanged={diff.overviewChanged}
+                    sectionsChanged={diff.sectionsChanged}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChangeSummary({
+  changes,
+  reordered,
+  overviewChanged,
+  sectionsChanged,
+}: {
+  changes: {
+    change: keyof typeof CHANGE_LABELS;
+    step_id: string;
+    title: string;
+    fields: string[];
+  }[];
+  reordered: boolean;
+  overviewChanged: boolean;
+  sectionsChanged: boolean;
+}) {
+  const notes = [
+    reordered && "並び順",
+    overviewChanged && "概要",
+    sectionsChanged && "章立て",
+  ].filter((note): note is string => Boolean(note));
+  if (changes.length === 0 && notes.length === 0) {
+    return <p className="text-muted-foreground">変更なし</p>;
+  }
+  return (
+    <ul className="space-y-0.5 text-muted-foreground">
+      {changes.map(change => (
+        <li key={`${change.change}-${change.step_id}`} className="break-words">
+          {CHANGE_LABELS[change.change]}: {change.step_id} {change.title}
+          {change.fields.length > 0 && `（${change.fields.join(", ")}）`}
+        </li>
+      ))}
+      {notes.length > 0 && <li>変更: {notes.join("・")}</li>}
+    </ul>
+  );
+}
@@ -0,0 +1,161 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { VideoFramePicker } from "@/components/VideoFramePicker";
+import { trpc } from "@/lib/trpc";
+import { ImageIcon, Loader2, RotateCcw, Upload } from "lucide-react";
+import { useRef } from "react";
+import { toast } from "sonner";
+
+interface StepScreenshotEditorProps {
+  projectId: number;
+  stepId: number;
+  videoUrl: string;
+  /** ピッカーで最初に表示する時刻（ms）。通常はステップの開始時刻 */
+  initialMs: number;
+  /** 編集の元にした steps.json の revision（古ければ競合として保存されない） */
+  revision: number;
+  /** 差し替え済みなら「元の画像に戻す」を表示する */
+  replaced: boolean;
+  /** 差し替え・復元の後にステップ一覧とフレームを読み直す */
+  onChanged: () => void;
+}
+
+/** data URL の接頭辞を除いた base64 としてファイルを読む */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result ?? "");
+      resolve(result.slice(result.indexOf(",") + 1));
+    };
+    reader.onerror = () =>
+      reject(new Error("画像ファイルを読み込めませんでした"));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * ステップのスクリーンショットを、録画の別の時点の画面かアップロードした画像に差し替える。
+ * 差し替えても元の画像は残るため、いつでも元に戻せる。
+ */
+export function StepScreenshotEditor({
+  projectId,
+  stepId,
+  videoUrl,
+  initialMs,
+  revision,
+  replaced,
+  onChanged,
+}: StepScreenshotEditorProps) {
+  const replaceMutation = trpc.step.replaceScreenshot.useMutation();
+  const revertMutation = trpc.step.revertScreenshot.useMutation();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const isPending = replaceMutation.isPending || revertMutation.isPending;
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    try {
+      await action();
+      toast.success(message);
+      onChanged();
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "スクリーンショットの差し替えに失敗しました"
+      );
+    }
+  };
+
+  const handleUpload = async () => {
+    const file = fileRef.current?.files?.[0];
+    if (!file) {
+      toast.error("差し替える画像ファイルを選択してください");
+      return;
+    }
+    await run(async () => {
+      await replaceMutation.mutateAsync({
+        projectId,
+        stepId,
+        imageBase64: await readFileAsBase64(file),
+        expectedRevision: revision,
+      });
+      if (fileRef.current) fileRef.current.value = "";
+    }, "スクリーンショットを差し替えました");
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label className="flex items-center gap-2">
+          <ImageIcon className="h-4 w-4" />
+          スクリーンショット
+        </Label>
+        {replaced && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={isPending}
+            onClick={() =>
+              run(
+                () =>
+                  revertMutation.mutateAsync({
+                    projectId,
+                    stepId,
+                    expectedRevision: revision,
+                  }),
+                "元のスクリーンショットに戻しました"
+              )
+            }
+          >
+            {revertMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            元の画像に戻す
+          </Button>
+        )}
+      </div>
+      <VideoFramePicker
+        videoUrl={videoUrl}
+        initialMs={initialMs}
+        actionLabel="この時点の画面に差し替え"
+        actionIcon={<ImageIcon className="h-4 w-4 mr-2" />}
+        isPending={isPending}
+        onPick={timestamp =>
+          run(
+            () =>
+              replaceMutation.mutateAsync({
+                projectId,
+                stepId,
+                timestamp,
+                expectedRevision: revision,
+              }),
+            "スクリーンショットを差し替えました"
+          )
+        }
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          ref={fileRef}
+          type="file"
+          accept="image/png,image/jpeg"
+          className="w-auto flex-1"
+          aria-label="差し替える画像ファイル"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={handleUpload}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          画像をアップロードして差し替え
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import {
+  OUTPUT_LANGUAGE_LABELS,
+  OUTPUT_LANGUAGES,
+  type OutputLanguage,
+} from "@shared/outputLanguage";
+import { Languages, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+const ORIGINAL = "original";
+
+interface StepTranslationPanelProps {
+  projectId: number;
+  /** スライド・動画の出力に使う翻訳版（undefined は原本） */
+  exportLanguage: OutputLanguage | undefined;
+  onExportLanguageChange: (language: OutputLanguage | undefined) => void;
+}
+
+/**
+ * レビュー済みのステップ（原本）から翻訳版を作り、スライド・動画の出力言語を選ぶ。
+ * 翻訳は原本の編集内容をそのまま訳すので、原本を直したら翻訳を作り直す。
+ */
+export function StepTranslationPanel({
+  projectId,
+  exportLanguage,
+  onExportLanguageChange,
+}: StepTranslationPanelProps) {
+  const { data: translations, isLoading } = trpc.translation.list.useQuery({
+    projectId,
+  });
+  const createTranslationMutation = trpc.translation.create.useMutation();
+  const utils = trpc.useUtils();
+  const [targetLanguage, setTargetLanguage] = useState<OutputLanguage>("en");
+  const outdatedExport = translations?.some(
+    translation =>
+      translation.language === exportLanguage && translation.outdated
+  );
+
+  const handleCreate = async () => {
+    try {
+      const result = await createTranslationMutation.mutateAsync({
+        projectId,
+        language: targetLanguage,
+      });
+      await utils.translation.list.invalidate({ projectId });
+      onExportLanguageChange(targetLanguage);
+      toast.success(
+        `${OUTPUT_LANGUAGE_LABELS[targetLanguage]}の翻訳を作成しました（${result.stepCount}ステップ）`
+      );
+      if (result.missingLabelCount > 0) {
+        toast.warning(
+          `${result.missingLabelCount}件のステップでUIラベルが訳文に残っていません。出力前に確認してください`
+        );
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "翻訳の作成に失敗しました"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Languages className="h-5 w-5" />
+          翻訳版
+        </CardTitle>
+        <CardDescription>
+          レビュー済みのステップを他の言語に翻訳し、スライド・動画をその言語で出力します。
+          原本を編集した場合は翻訳を作り直してください。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-end gap-6">
+        <div className="space-y-1">
+          <Label htmlFor="export-language" className="text-sm">
+            出力に使うステップ
+          </Label>
+          <Select
+            value={exportLanguage ?? ORIGINAL}
+            onValueChange={value =>
+              onExportLanguageChange(
+                value === ORIGINAL ? undefined : (value as OutputLanguage)
+              )
+            }
+            disabled={isLoading}
+          >
+            <SelectTrigger id="export-language" className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ORIGINAL}>原本</SelectItem>
+              {(translations ?? []).map(translation => (
+                <SelectItem
+                  key={translation.language}
+                  value={translation.language}
+                >
+                  {OUTPUT_LANGUAGE_LABELS[translation.language]}（
+                  {new Date(translation.translated_at).toLocaleString("ja-JP")}
+                  ）{translation.outdated && "・原本の編集前"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {outdatedExport && (
+            <p className="text-xs text-yellow-700">
+              この翻訳を作った後に原本が編集されています。原本の編集を反映するには翻訳を作り直してください
+            </p>
+          )}
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="translation-target" className="text-sm">
+              翻訳先
+            </Label>
+            <Select
+              value={targetLanguage}
+              onValueChange={value =>
+                setTargetLanguage(value as OutputLanguage)
+              }
+            >
+              <SelectTrigger id="translation-target" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OUTPUT_LANGUAGES.map(language => (
+                  <SelectItem key={language} value={language}>
+                    {OUTPUT_LANGUAGE_LABELS[language]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={createTranslationMutation.isPending}
+          >
+            {createTranslationMutation.isPending && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            翻訳を作成
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
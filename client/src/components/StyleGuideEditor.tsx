@@ -0,0 +1,209 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { Loader2, Save } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const UNSET = "unset";
+type Politeness = "polite" | "plain";
+
+interface StyleGuideEditorProps {
+  projectId: number;
+}
+
+function splitLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+}
+
+/** 「避ける表記 → 推奨表記」の行を解釈する（区切りは → / -> / =） */
+function parseGlossary(
+  text: string
+): { term: string; preferred: string }[] | string {
+  const entries: { term: string; preferred: string }[] = [];
+  for (const line of splitLines(text)) {
+    const [term, preferred, ...rest] = line
+      .split(/→|->|=/)
+      .map(part => part.trim());
+    if (!term || !preferred || rest.length > 0) {
+      return `用語集の行を解釈できません: ${line}`;
+    }
+    entries.push({ term, preferred });
+  }
+  return entries;
+}
+
+/**
+ * 社内の用語集・文体ルールを編集する。
+ * 保存した内容は次回の「AIでステップを生成」から執筆に渡され、違反したステップは要レビューになる。
+ */
+export function StyleGuideEditor({ projectId }: StyleGuideEditorProps) {
+  const { data: settings, isLoading } = trpc.project.getSettings.useQuery({
+    projectId,
+  });
+  const updateSettingsMutation = trpc.project.updateSettings.useMutation();
+  const utils = trpc.useUtils();
+  const [glossaryText, setGlossaryText] = useState("");
+  const [forbiddenText, setForbiddenText] = useState("");
+  const [politeness, setPoliteness] = useState<Politeness | typeof UNSET>(
+    UNSET
+  );
+  const [endingsText, setEndingsText] = useState("");
+
+  useEffect(() => {
+    const styleGuide = settings?.styleGuide;
+    setGlossaryText(
+      (styleGuide?.glossary ?? [])
+        .map(entry => `${entry.term} → ${entry.preferred}`)
+        .join("\n")
+    );
+    setForbiddenText((styleGuide?.forbiddenTerms ?? []).join("\n"));
+    setPoliteness(styleGuide?.politeness ?? UNSET);
+    setEndingsText((styleGuide?.sentenceEndings ?? []).join("\n"));
+  }, [settings]);
+
+  const handleSave = async () => {
+    const glossary = parseGlossary(glossaryText);
+    if (typeof glossary === "string") {
+      toast.error(glossary);
+      return;
+    }
+    const forbiddenTerms = splitLines(forbiddenText);
+    const sentenceEndings = splitLines(endingsText);
+    const styleGuide = {
+      ...(glossary.length > 0 ? { glossary } : {}),
+      ...(forbiddenTerms.length > 0 ? { forbiddenTerms } : {}),
+      ...(politeness !== UNSET ? { politeness } : {}),
+      ...(sentenceEndings.length > 0 ? { sentenceEndings } : {}),
+    };
+    try {
+      await updateSettingsMutation.mutateAsync({
+        projectId,
+        styleGuide: Object.keys(styleGuide).length > 0 ? styleGuide : null,
+      });
+      await utils.project.getSettings.invalidate({ projectId });
+      toast.success(
+        "用語集・文体ルールを保存しました（次回のステップ生成から反映されます）"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "用語集・文体ルールの保存に失敗しました"
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">用語集・文体ルール</CardTitle>
+        <CardDescription>
+          画面・ボタンの社内での呼び方や使ってはいけない表現を指定します。
+          次回のステップ生成から執筆に反映され、守られていないステップは要レビューになります。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="style-glossary" className="text-sm">
+                  用語集（1行に「避ける表記 → 推奨表記」）
+                </Label>
+                <Textarea
+                  id="style-glossary"
+                  rows={5}
+                  value={glossaryText}
+                  onChange={event => setGlossaryText(event.target.value)}
+                  placeholder={"ログオン → ログイン\n押下 → クリック"}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="style-forbidden" className="text-sm">
+                  使用禁止の表現（1行に1つ）
+                </Label>
+                <Textarea
+                  id="style-forbidden"
+                  rows={5}
+                  value={forbiddenText}
+                  onChange={event => setForbiddenText(event.target.value)}
+                  placeholder={"簡単に\n必ず"}
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="style-politeness" className="text-sm">
+                  説明文・ナレーションの文体（日本語のみ）
+                </Label>
+                <Select
+                  value={politeness}
+                  onValueChange={value =>
+                    setPoliteness(value as Politeness | typeof UNSET)
+                  }
+                >
+                  <SelectTrigger id="style-politeness" className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSET}>指定しない</SelectItem>
+                    <SelectItem value="polite">です・ます調</SelectItem>
+                    <SelectItem value="plain">である調（常体）</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="style-endings" className="text-sm">
+                  指示文の文末（1行に1つ。いずれかで終える）
+                </Label>
+                <Textarea
+                  id="style-endings"
+                  rows={2}
+                  value={endingsText}
+                  onChange={event => setEndingsText(event.target.value)}
+                  placeholder={"する\nしてください"}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSave}
+                disabled={updateSettingsMutation.isPending}
+              >
+                {updateSettingsMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                保存
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
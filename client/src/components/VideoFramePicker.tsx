@@ -0,0 +1,74 @@
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { useRef, useState, type ReactNode } from "react";
+
+interface VideoFramePickerProps {
+  videoUrl: string;
+  /** 最初に表示する時刻（ms） */
+  initialMs?: number;
+  actionLabel: string;
+  actionIcon?: ReactNode;
+  isPending?: boolean;
+  /** 表示中のフレームの時刻（ms）で呼ぶ */
+  onPick: (timestampMs: number) => void;
+}
+
+function formatTimestamp(ms: number): string {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, "0");
+  return `${minutes}:${seconds}`;
+}
+
+/** 元動画を再生・シークして、表示中のフレームの時刻を選ぶ */
+export function VideoFramePicker({
+  videoUrl,
+  initialMs = 0,
+  actionLabel,
+  actionIcon,
+  isPending = false,
+  onPick,
+}: VideoFramePickerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [currentMs, setCurrentMs] = useState(initialMs);
+
+  const syncCurrentTime = () => {
+    if (videoRef.current) {
+      setCurrentMs(Math.round(videoRef.current.currentTime * 1000));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <video
+        ref={videoRef}
+        src={`${videoUrl}#t=${(initialMs / 1000).toFixed(3)}`}
+        className="w-full h-auto rounded-md border bg-black"
+        preload="metadata"
+        controls
+        muted
+        playsInline
+        onTimeUpdate={syncCurrentTime}
+        onSeeked={syncCurrentTime}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">
+          表示中の時刻: {formatTimestamp(currentMs)}（{currentMs}ms）
+        </span>
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => onPick(currentMs)}
+          disabled={isPending}
+        >
+          {isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            actionIcon
+          )}
+          {actionLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { TRPCClientError } from "@trpc/client";
+import type { AppRouter } from "../../../server/routers";
+
+export type StepsConflict = {
+  projectId: number;
+  /** 編集の元にした版 */
+  expectedRevision: number;
+  /** 保存済みの最新の版 */
+  currentRevision: number;
+};
+
+/** steps.json の編集が競合した（他の編集が先に保存された）なら、その内容を返す */
+export function getStepsConflict(error: unknown): StepsConflict | null {
+  if (!(error instanceof TRPCClientError)) return null;
+  const { data } = error as TRPCClientError<AppRouter>;
+  // CONFLICT を返すのは steps.json の編集だけ（stepsEditProcedure）
+  return (data?.conflict as StepsConflict | null | undefined) ?? null;
+}
@@ -1,3 +1,4 @@
+import { getStepsConflict } from "@/lib/stepsConflict";
 import { trpc } from "@/lib/trpc";
 import { UNAUTHED_ERR_MSG } from '@shared/const';
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
@@ -45,6 +46,12 @@ const showMissingApiKeyHint = (error: unknown) => {
   );
 };
 
+// 他の編集が先に保存されていたら、ステップ関連の表示を最新の版に読み直す
+const refreshStepsOnConflict = (error: unknown) => {
+  if (!getStepsConflict(error)) return;
+  queryClient.invalidateQueries({ queryKey: [["step"]] });
+};
+
 queryClient.getQueryCache().subscribe(event => {
   if (event.type === "updated" && event.action.type === "error") {
     const error = event.query.state.error;
@@ -59,6 +66,7 @@ queryClient.getMutationCache().subscribe(event => {
     const error = event.mutation.state.error;
     redirectToLoginIfUnauthorized(error);
     showMissingApiKeyHint(error);
+    refreshStepsOnConflict(error);
     console.error("[API Mutation Error]", error);
   }
 });
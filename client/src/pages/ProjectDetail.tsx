@@ -10,7 +10,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Slider } from "@/components/ui/slider";
 import { trpc } from "@/lib/trpc";
-import { ArrowLeft, Image as ImageIcon, FileText, Download, Wand2, Loader2, CheckCircle, XCircle, Clock, RefreshCw, Settings, Play, Film, GripVertical, Presentation, Volume2, Pause, Pencil, Trash2, Gauge, Mic } from "lucide-react";
+import { getStepsConflict } from "@/lib/stepsConflict";
+import { ArrowLeft, Image as ImageIcon, FileText, Download, Wand2, Loader2, CheckCircle, XCircle, Clock, RefreshCw, Settings, Play, Film, GripVertical, Presentation, Volume2, Pause, Pencil, Trash2, Gauge, Mic, Scissors, Combine } from "lucide-react";
 import { Link, useParams } from "wouter";
 import { toast } from "sonner";
 import { useState, useEffect, useCallback, useRef } from "react";
@@ -34,6 +35,19 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { SlidePreview } from "@/components/SlidePreview";
+import { CropRegionEditor } from "@/components/CropRegionEditor";
+import { IgnoreRegionEditor } from "@/components/IgnoreRegionEditor";
+import { OutputLanguageSelector } from "@/components/OutputLanguageSelector";
+import { AudienceSelector } from "@/components/AudienceSelector";
+import { StyleGuideEditor } from "@/components/StyleGuideEditor";
+import { DiscardedSegmentsPanel } from "@/components/DiscardedSegmentsPanel";
+import { ManualStepInsertPanel } from "@/components/ManualStepInsertPanel";
+import { StepRangeReauthorPanel } from "@/components/StepRangeReauthorPanel";
+import { SectionEditor } from "@/components/SectionEditor";
+import { StepRevisionHistoryPanel } from "@/components/StepRevisionHistoryPanel";
+import { StepScreenshotEditor } from "@/components/StepScreenshotEditor";
+import { StepTranslationPanel } from "@/components/StepTranslationPanel";
+import type { OutputLanguage } from "@shared/outputLanguage";
 import NotFound from "./NotFound";
 
 // ソート可能なステップカードコンポーネント
@@ -73,6 +87,10 @@ function formatReviewReason(reason: string): string {
     "fallback:legacy_step_analysis_failed": "旧解析fallback",
     "verification:unverified_ui_label": "UIラベル未確認",
     "verification:low_confidence": "低信頼度",
+    "translation:missing_ui_label": "翻訳でUIラベル欠落",
+    "style:guide_violation": "用語・文体ルール違反",
+    "edit:split": "分割後の文面を確認",
+    "edit:human_added": "手動で追加",
   };
   return labels[reason] ?? reason;
 }
@@ -153,6 +171,12 @@ function SortableStepCard({
   onDelete,
   onRegenerate,
   isRegenerating,
+  onSplit,
+  onMergeNext,
+  onScreenshotChanged,
+  projectId,
+  videoUrl,
+  revision,
   frame,
   review,
 }: {
@@ -164,6 +188,14 @@ function SortableStepCard({
   onDelete: (id: number) => void;
   onRegenerate: (stepId: number, frameId: number) => void;
   isRegenerating: boolean;
+  onSplit: (stepId: number, timestamp: number) => void;
+  /** 次のステップと結合する（最後のステップでは undefined） */
+  onMergeNext?: (stepId: number) => void;
+  onScreenshotChanged: () => void;
+  projectId: number;
+  /** 元動画の URL（スクリーンショットを別の時点の画面に差し替えるときに使う） */
+  videoUrl?: string;
+  revision: number;
   frame?: FrameData;
   review?: {
     needsReview: boolean;
@@ -173,6 +205,7 @@ function SortableStepCard({
     tStart: number;
     tEnd: number;
     audioMode: string;
+    screenshotReplaced: boolean;
   };
 }) {
   const {
@@ -183,6 +216,7 @@ function SortableStepCard({
     transition,
     isDragging,
   } = useSortable({ id: step.id });
+  const splitAtRef = useRef<HTMLInputElement>(null);
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -323,6 +357,54 @@ function SortableStepCard({
                           <option value="silent">無音</option>
                         </select>
                       </div>
+                      <div>
+                        <Label htmlFor={`split-at-${step.id}`}>分割する時刻(ms)</Label>
+                        <div className="flex flex-wrap gap-2">
+                          <Input
+                            id={`split-at-${step.id}`}
+                            ref={splitAtRef}
+                            type="number"
+                            min={review.tStart}
+                            max={review.tEnd}
+                            defaultValue={Math.round((review.tStart + review.tEnd) / 2)}
+                            className="w-40"
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              const value = Number(splitAtRef.current?.value);
+                              if (Number.isFinite(value)) onSplit(step.id, Math.max(0, Math.round(value)));
+                            }}
+                          >
+                            <Scissors className="h-4 w-4 mr-2" />
+                            この時刻以降を別ステップに分割
+                          </Button>
+                          {onMergeNext && (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => onMergeNext(step.id)}
+                            >
+                              <Combine className="h-4 w-4 mr-2" />
+                              次のステップと結合
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      {videoUrl && (
+                        <StepScreenshotEditor
+                          projectId={projectId}
+                          stepId={step.id}
+                          videoUrl={videoUrl}
+                          initialMs={review.tStart}
+                          revision={revision}
+                          replaced={review.screenshotReplaced}
+                          onChanged={onScreenshotChanged}
+                        />
+                      )}
                       {review.needsReview && (
                         <Button
                           type="button"
@@ -491,6 +573,8 @@ export default function ProjectDetail() {
     { projectId },
     { enabled: !isNaN(projectId) }
   );
+  // 編集の元にした steps.json の版。読み込み前は 0 を送り、実際の版と違えば競合として保存されない
+  const artifactRevision = artifactInfo?.revision ?? 0;
   const { data: steps, isLoading: stepsLoading, refetch: refetchSteps } = trpc.step.listByProject.useQuery(
     { projectId },
     { enabled: isValidProjectId }
@@ -553,6 +637,8 @@ export default function ProjectDetail() {
   const deleteStepMutation = trpc.step.delete.useMutation();
   const reorderStepsMutation = trpc.step.reorder.useMutation();
   const regenerateStepMutation = trpc.step.regenerate.useMutation();
+  const splitStepMutation = trpc.step.split.useMutation();
+  const mergeStepsMutation = trpc.step.merge.useMutation();
   const retryProjectMutation = trpc.project.retry.useMutation();
 
   // ステップ再生成中の状態
@@ -588,17 +674,21 @@ export default function ProjectDetail() {
           const stepIds = newOrder.map((s) => s.id);
 
           try {
-            await reorderStepsMutation.mutateAsync({ projectId, stepIds });
+            await reorderStepsMutation.mutateAsync({
+              projectId,
+              stepIds,
+              expectedRevision: artifactRevision,
+            });
             refetchSteps();
             refetchArtifactInfo();
             toast.success("ステップの順序を更新しました");
           } catch (error) {
-            toast.error("順序の更新に失敗しました");
+            toast.error(getStepsConflict(error) ? (error as Error).message : "順序の更新に失敗しました");
           }
         }
       }
     },
-    [steps, projectId, reorderStepsMutation, refetchSteps, refetchArtifactInfo]
+    [steps, projectId, artifactRevision, reorderStepsMutation, refetchSteps, refetchArtifactInfo]
   );
 
   const [editingStepId, setEditingStepId] = useState<number | null>(null);
@@ -614,6 +704,8 @@ export default function ProjectDetail() {
   const [audioMode, setAudioMode] = useState<"auto" | "tts" | "original" | "mixed" | "silent">("auto");
   const [slideUrl, setSlideUrl] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  // スライド・動画の出力に使う翻訳版（undefined は原本）
+  const [exportLanguage, setExportLanguage] = useState<OutputLanguage | undefined>(undefined);
   const [retryParams, setRetryParams] = useState({
     threshold: 5.0,
     minInterval: 30,
@@ -687,10 +779,66 @@ export default function ProjectDetail() {
 
   const handleUpdateStep = async (stepId: number, data: StepUpdateData) => {
     try {
-      await updateStepMutation.mutateAsync({ projectId, id: stepId, ...data });
+      await updateStepMutation.mutateAsync({
+        projectId,
+        id: stepId,
+        ...data,
+        expectedRevision: artifactRevision,
+      });
       toast.success("ステップを更新しました");
       refetchSteps();
       refetchArtifactInfo();
+    } catch (error) {
+      if (getStepsConflict(error)) {
+        await retryStepUpdateAfterConflict(stepId, data);
+        return;
+      }
+      const message = error instanceof Error ? error.message : "ステップの更新に失敗しました";
+      toast.error(message);
+    }
+  };
+
+  // 競合したら最新の版を読み直し、編集した項目が他の人に変えられていなければ最新の版に対して送り直す
+  const retryStepUpdateAfterConflict = async (stepId: number, data: StepUpdateData) => {
+    const editableValues = (
+      step: StepData | undefined,
+      review: { tStart: number; tEnd: number; audioMode: string } | undefined,
+    ): Record<string, unknown> => ({
+      title: step?.title,
+      operation: step?.operation,
+      description: step?.description,
+      narration: step?.narration ?? "",
+      tStart: review?.tStart,
+      tEnd: review?.tEnd,
+      audioMode: review?.audioMode,
+    });
+    const seen = editableValues(
+      steps?.find((step) => step.id === stepId),
+      artifactInfo?.reviewByStepId?.[stepId],
+    );
+    const [{ data: latestSteps }, { data: latestInfo }] = await Promise.all([
+      refetchSteps(),
+      refetchArtifactInfo(),
+    ]);
+    const latestStep = latestSteps?.find((step) => step.id === stepId);
+    const latest = editableValues(latestStep, latestInfo?.reviewByStepId?.[stepId]);
+    const overlapping = Object.keys(data).filter(
+      (key) => key !== "markReviewed" && seen[key] !== latest[key],
+    );
+    if (!latestStep || !latestInfo || overlapping.length > 0) {
+      toast.error("他の人が同じステップの同じ項目を先に変更しました。最新の内容を確認してから編集し直してください");
+      return;
+    }
+    try {
+      await updateStepMutation.mutateAsync({
+        projectId,
+        id: stepId,
+        ...data,
+        expectedRevision: latestInfo.revision,
+      });
+      toast.success("他の人の変更を取り込んでステップを更新しました");
+      refetchSteps();
+      refetchArtifactInfo();
     } catch (error) {
       const message = error instanceof Error ? error.message : "ステップの更新に失敗しました";
       toast.error(message);
@@ -701,34 +849,74 @@ export default function ProjectDetail() {
     if (!confirm("このステップを削除しますか?")) return;
 
     try {
-      await deleteStepMutation.mutateAsync({ projectId, id: stepId });
+      await deleteStepMutation.mutateAsync({ projectId, id: stepId, expectedRevision: artifactRevision });
       toast.success("ステップを削除しました");
       refetchSteps();
       refetchArtifactInfo();
     } catch (error) {
-      toast.error("ステップの削除に失敗しました");
+      toast.error(getStepsConflict(error) ? (error as Error).message : "ステップの削除に失敗しました");
     }
   };
 
   const handleRegenerateStep = async (stepId: number, frameId: number) => {
     setRegeneratingStepId(stepId);
     try {
-      await regenerateStepMutation.mutateAsync({ projectId, stepId, frameId });
+      await regenerateStepMutation.mutateAsync({
+        projectId,
+        stepId,
+        frameId,
+        expectedRevision: artifactRevision,
+      });
       toast.success("ステップをAIで再生成しました");
       refetchSteps();
       refetchArtifactInfo();
     } catch (error) {
-      toast.error("ステップの再生成に失敗しました");
+      toast.error(getStepsConflict(error) ? (error as Error).message : "ステップの再生成に失敗しました");
     } finally {
       setRegeneratingStepId(null);
     }
   };
 
+  const handleSplitStep = async (stepId: number, timestamp: number) => {
+    try {
+      await splitStepMutation.mutateAsync({
+        projectId,
+        stepId,
+        timestamp,
+        expectedRevision: artifactRevision,
+      });
+      toast.success("ステップを分割しました。分割後の文面を確認してください");
+      refetchSteps();
+      refetchArtifactInfo();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "ステップの分割に失敗しました");
+    }
+  };
+
+  const handleMergeSteps = async (stepId: number, nextStepId: number) => {
+    if (!confirm("このステップと次のステップを結合しますか?")) return;
+
+    try {
+      await mergeStepsMutation.mutateAsync({
+        projectId,
+        stepId,
+        nextStepId,
+        expectedRevision: artifactRevision,
+      });
+      toast.success("ステップを結合しました");
+      setEditingStepId(null);
+      refetchSteps();
+      refetchArtifactInfo();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "ステップの結合に失敗しました");
+    }
+  };
+
   // スライド生成とダウンロード
   const handleGenerateSlides = async () => {
     setIsGeneratingSlides(true);
     try {
-      const result = await generateSlidesMutation.mutateAsync({ projectId });
+      const result = await generateSlidesMutation.mutateAsync({ projectId, language: exportLanguage });
       setSlideUrl(result.slideUrl);
       toast.success("スライドを生成しました");
       // 自動ダウンロード
@@ -750,6 +938,7 @@ export default function ProjectDetail() {
       const audioResult = await generateAudioMutation.mutateAsync({
         projectId,
         voice: selectedVoice,
+        language: exportLanguage,
       });
       if (audioResult.silentFallbackCount > 0) {
         toast.warning(
@@ -764,7 +953,7 @@ export default function ProjectDetail() {
 
       // 2. 動画を生成
       setVideoGenerationProgress({ progress: 60, message: "フレームと音声を結合中..." });
-      const result = await generateVideoMutation.mutateAsync({ projectId, audioMode });
+      const result = await generateVideoMutation.mutateAsync({ projectId, audioMode, language: exportLanguage });
       if (result.stillImageFallbackCount > 0) {
         toast.warning(
           `${result.stillImageFallbackCount}件のステップはクリップ切り出しに失敗し静止画になっています`,
@@ -1038,6 +1227,12 @@ export default function ProjectDetail() {
 
           {/* Frames Tab */}
           <TabsContent value="frames" className="space-y-4">
+            {frames && frames.length > 0 && project.videoUrl && (
+              <>
+                <CropRegionEditor projectId={projectId} videoUrl={project.videoUrl} />
+                <IgnoreRegionEditor projectId={projectId} videoUrl={project.videoUrl} />
+              </>
+            )}
             {framesLoading ? (
               <div className="flex items-center justify-center h-64">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -1079,7 +1274,9 @@ export default function ProjectDetail() {
 
           {/* Steps Tab */}
           <TabsContent value="steps" className="space-y-4">
-            <div className="flex justify-end">
+            <div className="flex flex-wrap items-center justify-end gap-3">
+              <AudienceSelector projectId={projectId} />
+              <OutputLanguageSelector projectId={projectId} />
               <Button
                 onClick={handleGenerateSteps}
                 disabled={generateStepsMutation.isPending || !frames || frames.length === 0}
@@ -1089,6 +1286,7 @@ export default function ProjectDetail() {
                 AIでステップを生成
               </Button>
             </div>
+            <StyleGuideEditor projectId={projectId} />
 
             {stepsLoading ? (
               <div className="flex items-center justify-center h-64">
@@ -1150,24 +1348,102 @@ export default function ProjectDetail() {
                   strategy={verticalListSortingStrategy}
                 >
                   <div className="space-y-4">
-                    {steps.map((step, index) => (
-                      <SortableStepCard
-                        key={step.id}
-                        step={step}
-                        index={index}
-                        isEditing={editingStepId === step.id}
-                        onToggleEdit={() => setEditingStepId(editingStepId === step.id ? null : step.id)}
-                        onUpdate={handleUpdateStep}
-                        onDelete={handleDeleteStep}
-                        onRegenerate={handleRegenerateStep}
-                        isRegenerating={regeneratingStepId === step.id}
-                        frame={frames?.find((f) => f.id === step.frameId)}
-                        review={artifactInfo?.reviewByStepId?.[step.id]}
-                      />
-                    ))}
+                    {steps.map((step, index) => {
+                      // 章の先頭ステップ（steps.json の step_id は並び順どおり）の前に章見出しを出す
+                      const sectionIndex = (artifactInfo?.sections ?? []).findIndex(
+                        (section) => section.start_step_id === `step-${index + 1}`,
+                      );
+                      const section = artifactInfo?.sections[sectionIndex];
+                      return (
+                        <div key={step.id} className="space-y-4">
+                          {section && (
+                            <div className="border-l-4 border-primary pl-3 pt-2">
+                              <p className="text-xs text-muted-foreground">セクション {sectionIndex + 1}</p>
+                              <h3 className="text-base font-semibold text-foreground">{section.title}</h3>
+                              {section.summary && (
+                                <p className="text-sm text-muted-foreground">{section.summary}</p>
+                              )}
+                            </div>
+                          )}
+                          <SortableStepCard
+                            step={step}
+                            index={index}
+                            isEditing={editingStepId === step.id}
+                            onToggleEdit={() => setEditingStepId(editingStepId === step.id ? null : step.id)}
+                            onUpdate={handleUpdateStep}
+                            onDelete={handleDeleteStep}
+                            onRegenerate={handleRegenerateStep}
+                            isRegenerating={regeneratingStepId === step.id}
+                            onSplit={handleSplitStep}
+                            onMergeNext={
+                              steps[index + 1]
+                                ? (stepId) => handleMergeSteps(stepId, steps[index + 1].id)
+                                : undefined
+                            }
+                            onScreenshotChanged={() => {
+                              refetchSteps();
+                              refetchFrames();
+                              refetchArtifactInfo();
+                            }}
+                            projectId={projectId}
+                            videoUrl={project.videoUrl}
+                            revision={artifactRevision}
+                            frame={frames?.find((f) => f.id === step.frameId)}
+                            review={artifactInfo?.reviewByStepId?.[step.id]}
+                          />
+                        </div>
+                      );
+                    })}
                   </div>
                 </SortableContext>
               </DndContext>
+              {artifactInfo?.overview && (
+                <SectionEditor
+                  projectId={projectId}
+                  revision={artifactRevision}
+                  stepCount={steps.length}
+                  sections={artifactInfo.sections}
+                  onSaved={() => refetchArtifactInfo()}
+                />
+              )}
+              <StepRangeReauthorPanel
+                projectId={projectId}
+                revision={artifactRevision}
+                stepCount={steps.length}
+                onReauthored={() => {
+                  refetchSteps();
+                  refetchArtifactInfo();
+                }}
+              />
+              <DiscardedSegmentsPanel
+                projectId={projectId}
+                revision={artifactRevision}
+                segments={artifactInfo?.discardedSegments ?? []}
+                onRestored={() => {
+                  refetchSteps();
+                  refetchArtifactInfo();
+                }}
+              />
+              {project.videoUrl && (
+                <ManualStepInsertPanel
+                  projectId={projectId}
+                  videoUrl={project.videoUrl}
+                  revision={artifactRevision}
+                  onInserted={() => {
+                    refetchSteps();
+                    refetchArtifactInfo();
+                  }}
+                />
+              )}
+              <StepRevisionHistoryPanel
+                projectId={projectId}
+                revision={artifactRevision}
+                refreshKey={artifactInfo}
+                onChanged={() => {
+                  refetchSteps();
+                  refetchArtifactInfo();
+                }}
+              />
               </>
             ) : (
               <Card>
@@ -1194,6 +1470,16 @@ export default function ProjectDetail() {
 
           {/* Preview Tab */}
           <TabsContent value="preview" className="space-y-4">
+            <StepTranslationPanel
+              projectId={projectId}
+              exportLanguage={exportLanguage}
+              onExportLanguageChange={(language) => {
+                setExportLanguage(language);
+                // 出力言語を切り替えたら、別言語の生成済みファイルを出さない
+                setSlideUrl(null);
+                setVideoUrl(null);
+              }}
+            />
             <div className="grid gap-6 lg:grid-cols-2">
               {/* 元動画 */}
               <Card>
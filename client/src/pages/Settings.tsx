@@ -130,8 +130,13 @@ export default function Settings() {
                       {systemInfo.llmProvider} / {systemInfo.llmModel}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      APIキー: {systemInfo.llmApiKeyConfigured ? "設定済み" : "未設定"}
+                      APIキー: {systemInfo.llmApiKeyConfigured ? "設定済み" : systemInfo.llmApiKeyRequired ? "未設定" : "不要"}
                     </p>
+                    {!systemInfo.llmVision && (
+                      <p className="text-xs text-muted-foreground">
+                        画像なし（OCRテキストのみで執筆）
+                      </p>
+                    )}
                   </div>
                   <div className="rounded-md border p-3 space-y-1">
                     <p className="text-sm text-muted-foreground">TTS</p>
@@ -144,13 +149,13 @@ export default function Settings() {
                   </div>
                 </div>
 
-                {(!systemInfo.llmApiKeyConfigured || !systemInfo.ttsApiKeyConfigured) && (
+                {((systemInfo.llmApiKeyRequired && !systemInfo.llmApiKeyConfigured) || !systemInfo.ttsApiKeyConfigured) && (
                   <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-amber-900">
                     <p className="text-sm font-medium">APIキーの設定が不足しています</p>
                     <p className="text-sm mt-1">
                       サーバーの <code>.env</code> を更新して再起動してください。
                     </p>
-                    {!systemInfo.llmApiKeyConfigured && (
+                    {systemInfo.llmApiKeyRequired && !systemInfo.llmApiKeyConfigured && (
                       <p className="text-sm mt-1">LLM: {llmKeyHint}</p>
                     )}
                     {!systemInfo.ttsApiKeyConfigured && (
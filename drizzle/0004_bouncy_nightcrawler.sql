@@ -0,0 +1 @@
+ALTER TABLE `projects` ADD `settings` text;
\ No newline at end of file
@@ -39,6 +39,7 @@ export const projects = mysqlTable("projects", {
   processingProgress: int("processingProgress").default(0), // 0-100の進捗率
   processingMessage: text("processingMessage"), // 現在の処理ステップメッセージ
   errorMessage: text("errorMessage"), // エラー発生時の詳細メッセージ
+  settings: text("settings"), // プロジェクト別設定のJSON（server/projectSettings.ts で検証）
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 }, (table) => ({
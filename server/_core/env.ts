@@ -2,18 +2,22 @@ import crypto from "crypto";
 import path from "path";
 
 type AuthMode = "none" | "oauth";
-type LLMProvider = "openai" | "gemini" | "claude";
+type LLMProvider = "openai" | "gemini" | "claude" | "openai_compatible";
 type AuthoringProvider = "llm" | "codex_app_server";
 type TTSProvider = "openai" | "gemini";
 type SlidePreset = "default" | "training";
 type ASRProvider = "none" | "openai" | "local_whisper";
 type OCRProvider = "none" | "llm" | "engine";
 type OcrEngineFallback = "llm" | "none";
+type TypedTextMasking = "secrets" | "all" | "none";
+type SegmentationStrategyName = "pixel-diff" | "ssim" | "hybrid";
 
 const DEFAULT_LLM_MODEL: Record<LLMProvider, string> = {
   openai: "gpt-5.4",
   gemini: "gemini-3-flash-preview",
   claude: "claude-sonnet-4-5",
+  // ローカルのOpenAI互換サーバーはモデル名が環境ごとに違うので LLM_MODEL を必須にする
+  openai_compatible: "",
 };
 
 const DEFAULT_TTS_MODEL: Record<TTSProvider, string> = {
@@ -86,6 +90,10 @@ function resolveLLMApiKey(provider: LLMProvider): string {
   if (provider === "gemini") {
     return process.env.GEMINI_API_KEY ?? "";
   }
+  if (provider === "openai_compatible") {
+    // ローカルサーバーは認証なしが多いので LLM_API_KEY のみ（未設定なら送らない）
+    return "";
+  }
   return process.env.ANTHROPIC_API_KEY ?? "";
 }
 
@@ -108,9 +116,14 @@ const authMode = parseEnumEnv<AuthMode>(
 );
 const llmProvider = parseEnumEnv<LLMProvider>(
   "LLM_PROVIDER",
-  ["openai", "gemini", "claude"],
+  ["openai", "gemini", "claude", "openai_compatible"],
   "openai"
 );
+// OpenAI互換エンドポイント（vLLM / llama.cpp server / Ollama 等）。例: http://localhost:8000/v1
+const llmBaseUrl = process.env.LLM_BASE_URL ?? "";
+// 画像を読めないモデルでは LLM_VISION=false にし、画像の代わりにOCRテキストだけで執筆する
+const llmVision =
+  llmProvider !== "openai_compatible" || process.env.LLM_VISION !== "false";
 const authoringProvider = parseEnumEnv<AuthoringProvider>(
   "AUTHORING_PROVIDER",
   ["llm", "codex_app_server"],
@@ -134,7 +147,7 @@ const ocrProvider = parseEnumEnv<OCRProvider>(
 const ocrEngineFallback = parseEnumEnv<OcrEngineFallback>(
   "OCR_ENGINE_FALLBACK",
   ["llm", "none"],
-  "llm",
+  llmVision ? "llm" : "none",
 );
 const slidePreset = parseEnumEnv<SlidePreset>(
   "SLIDE_PRESET",
@@ -223,6 +236,25 @@ const evidenceWaitingRunMinSpanMs = parseNumberEnv(
   10000,
   { min: 0 }
 );
+// サンプリング済みグレースケール列のキャッシュ（320x180 で1時間@4fpsが約830MB）の合計の上限
+const evidenceTimelineCacheMaxBytes =
+  parseNumberEnv("EVIDENCE_TIMELINE_CACHE_MAX_MB", 4096, { min: 0 }) *
+  1024 *
+  1024;
+const evidenceCursorTracking = process.env.EVIDENCE_CURSOR_TRACKING !== "false";
+const evidenceTypedText = process.env.EVIDENCE_TYPED_TEXT !== "false";
+const evidenceBoundaryRefinement =
+  process.env.EVIDENCE_BOUNDARY_REFINEMENT !== "false";
+const evidenceTypedTextMasking = parseEnumEnv<TypedTextMasking>(
+  "EVIDENCE_TYPED_TEXT_MASKING",
+  ["secrets", "all", "none"],
+  "secrets"
+);
+const evidenceSegmentationStrategy = parseEnumEnv<SegmentationStrategyName>(
+  "EVIDENCE_SEGMENTATION_STRATEGY",
+  ["pixel-diff", "ssim", "hybrid"],
+  "pixel-diff"
+);
 const asrLeadMs = parseNumberEnv("ASR_LEAD_MS", 3000, { min: 0 });
 
 // Phase 4: クリップ動画パラメータ（docs/plans/phase-4-clip-video.md）
@@ -242,6 +274,29 @@ function validateEnvOnStartup(): void {
     );
   }
 
+  if (llmProvider === "openai_compatible") {
+    if (!llmBaseUrl) {
+      throw new Error(
+        "LLM_PROVIDER=openai_compatible の場合は LLM_BASE_URL（例: http://localhost:8000/v1）が必須です"
+      );
+    }
+    if (!llmModel) {
+      throw new Error(
+        "LLM_PROVIDER=openai_compatible の場合は LLM_MODEL（サーバーで提供しているモデル名）が必須です"
+      );
+    }
+  }
+
+  if (
+    !llmVision &&
+    (ocrProvider === "llm" ||
+      (ocrProvider === "engine" && ocrEngineFallback === "llm"))
+  ) {
+    throw new Error(
+      "LLM_VISION=false ではLLMが画像を読めないため、OCR_PROVIDER=engine と OCR_ENGINE_FALLBACK=none（または OCR_PROVIDER=none）を設定してください"
+    );
+  }
+
   if (asrProvider === "openai" && !process.env.OPENAI_API_KEY) {
     throw new Error(
       "ASR_PROVIDER=openai の場合は OPENAI_API_KEY が必須です。利用しない場合は ASR_PROVIDER=none を設定してください"
@@ -271,7 +326,11 @@ function validateEnvOnStartup(): void {
       );
     }
 
-    if ((authoringProvider === "llm" || ocrProvider === "llm") && !llmApiKey) {
+    if (
+      (authoringProvider === "llm" || ocrProvider === "llm") &&
+      llmProvider !== "openai_compatible" &&
+      !llmApiKey
+    ) {
       throw new Error("本番環境では LLM 用の API キーが必須です");
     }
     if (!ttsApiKey) {
@@ -307,6 +366,8 @@ export const ENV = {
   llmProvider,
   llmModel,
   llmApiKey,
+  llmBaseUrl,
+  llmVision,
   authoringProvider,
   codexModel,
   ttsProvider,
@@ -328,6 +389,12 @@ export const ENV = {
   evidenceStallAfterMs,
   evidenceWaitingRunAreaRatio,
   evidenceWaitingRunMinSpanMs,
+  evidenceTimelineCacheMaxBytes,
+  evidenceCursorTracking,
+  evidenceTypedText,
+  evidenceBoundaryRefinement,
+  evidenceTypedTextMasking,
+  evidenceSegmentationStrategy,
   asrLeadMs,
   clipPadBeforeMs,
   clipPadAfterMs,
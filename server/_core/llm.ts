@@ -754,6 +754,166 @@ class ClaudeAdapter implements LLMAdapter {
   }
 }
 
+/**
+ * OpenAI互換の Chat Completions エンドポイント（vLLM / llama.cpp server / Ollama 等）。
+ * 画像を読めないモデル（LLM_VISION=false）では画像を送らず、省略した旨のテキストに置き換える。
+ */
+class OpenAICompatibleAdapter implements LLMAdapter {
+  async invoke(params: InvokeParams): Promise<InvokeResult> {
+    if (!ENV.llmBaseUrl) {
+      throw new Error("LLM base URL is not configured");
+    }
+
+    const responseFormat = normalizeResponseFormat(params);
+
+    const messages = await Promise.all(
+      params.messages.map(async (message) => {
+        const parts = ensureArray(message.content);
+        const content = await Promise.all(
+          parts.map(async (part) => {
+            if (typeof part === "string") {
+              return { type: "text", text: part };
+            }
+            if (part.type === "text") {
+              return { type: "text", text: part.text };
+            }
+            if (part.type === "image_url") {
+              if (!ENV.llmVision) {
+                return { type: "text", text: "[画像は省略（テキストのみのモデル）]" };
+              }
+              const payload = await loadBinaryPayload(part.image_url.url);
+              return {
+                type: "image_url",
+                image_url: { url: payload.dataUrl },
+              };
+            }
+            return {
+              type: "text",
+              text: `[file:${part.file_url.mime_type ?? "unknown"}] ${part.file_url.url}`,
+            };
+          })
+        );
+
+        const role =
+          message.role === "assistant"
+            ? "assistant"
+            : message.role === "system"
+              ? "system"
+              : "user";
+
+        // テキストだけのメッセージは文字列で送る（配列形式を受け付けないサーバーがある）
+        const textOnly = content.every((item) => item.type === "text");
+        return {
+          role,
+          content: textOnly
+            ? content.map((item) => item.text ?? "").join("\n")
+            : content,
+        };
+      })
+    );
+
+    const body: Record<string, unknown> = {
+      model: ENV.llmModel,
+      messages,
+      max_tokens: getMaxTokens(params),
+    };
+
+    if (responseFormat?.type === "json_schema") {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: responseFormat.json_schema.name,
+          schema: responseFormat.json_schema.schema,
+          strict: responseFormat.json_schema.strict ?? true,
+        },
+      };
+    } else if (responseFormat?.type === "json_object") {
+      body.response_format = { type: "json_object" };
+    }
+
+    if (params.tools && params.tools.length > 0) {
+      body.tools = params.tools;
+    }
+
+    const normalizedToolChoice = normalizeToolChoice(
+      params.toolChoice || params.tool_choice,
+      params.tools
+    );
+    if (normalizedToolChoice) {
+      body.tool_choice = normalizedToolChoice;
+    }
+
+    const headers: Record<string, string> = {
+      "content-type": "application/json",
+    };
+    if (ENV.llmApiKey) {
+      headers.authorization = `Bearer ${ENV.llmApiKey}`;
+    }
+
+    const response = await fetch(
+      `${ENV.llmBaseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`
+      );
+    }
+
+    const json = (await response.json()) as {
+      id?: string;
+      created?: number;
+      model?: string;
+      choices?: Array<{
+        message?: { content?: string | null; tool_calls?: ToolCall[] };
+        finish_reason?: string | null;
+      }>;
+      usage?: {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+        total_tokens?: number;
+      };
+    };
+
+    const choice = json.choices?.[0];
+    const promptTokens = json.usage?.prompt_tokens ?? 0;
+    const completionTokens = json.usage?.completion_tokens ?? 0;
+
+    return {
+      id: json.id ?? `openai-compatible-${Date.now()}`,
+      created: json.created ?? Date.now(),
+      model: json.model ?? ENV.llmModel,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: choice?.message?.content ?? "",
+            ...(choice?.message?.tool_calls
+              ? { tool_calls: choice.message.tool_calls }
+              : {}),
+          },
+          finish_reason: choice?.finish_reason ?? "stop",
+        },
+      ],
+      usage: json.usage
+        ? {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens:
+              json.usage.total_tokens ?? promptTokens + completionTokens,
+          }
+        : undefined,
+    };
+  }
+}
+
 function createLLMAdapter(provider: LLMProvider): LLMAdapter {
   if (provider === "openai") {
     return new OpenAIAdapter();
@@ -761,6 +921,9 @@ function createLLMAdapter(provider: LLMProvider): LLMAdapter {
   if (provider === "gemini") {
     return new GeminiAdapter();
   }
+  if (provider === "openai_compatible") {
+    return new OpenAICompatibleAdapter();
+  }
   return new ClaudeAdapter();
 }
 
@@ -12,6 +12,8 @@ export interface OcrRegion {
   y: number;
   w: number;
   h: number;
+  /** 行単位の認識スコア（ローカルエンジンのみ。LLM-OCRでは未定義） */
+  score?: number;
 }
 
 export interface OcrResult {
@@ -124,7 +126,7 @@ async function extractFrameOcrWithEngine(
   const cacheKey = {
     provider: "engine",
     engine: engine.engine ?? "unknown",
-    promptVersion: "ocr-engine-v2",
+    promptVersion: "ocr-engine-v3",
     imageHash: hashBinary(imageBuffer),
   };
   const cached = await getCachedJson<OcrResult>("ocr", cacheKey);
@@ -141,6 +143,7 @@ async function extractFrameOcrWithEngine(
       y: clamp(line.y, 0, 1),
       w: clamp(line.w, 0, 1),
       h: clamp(line.h, 0, 1),
+      score: clamp(line.score, 0, 1),
     }));
     const meanScore =
       lines.length > 0
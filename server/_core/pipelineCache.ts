@@ -84,3 +84,117 @@ export async function setCachedJson(
   await fs.mkdir(namespaceDir, { recursive: true });
   await fs.writeFile(filePath, JSON.stringify(value), "utf8");
 }
+
+/**
+ * キャッシュ済みバイナリのファイルパス（存在しなければ null）。
+ * 全体をメモリに載せずに少しずつ読みたい場合に使う。
+ */
+export async function getCachedBinaryPath(
+  namespace: string,
+  keyInput: unknown,
+): Promise<string | null> {
+  const digest = computeDigest(keyInput);
+  const filePath = path.join(getNamespaceDir(namespace), `${digest}.bin`);
+  try {
+    await fs.access(filePath);
+    return filePath;
+  } catch {
+    return null;
+  }
+}
+
+export interface CachedBinaryWriter {
+  write(chunk: Buffer): Promise<void>;
+  /** 書き込みを確定し、キャッシュとして見えるようにする */
+  commit(): Promise<void>;
+  /** 書きかけの一時ファイルを破棄する */
+  abort(): Promise<void>;
+}
+
+/**
+ * バイナリのキャッシュを少しずつ書き込む。書き込み途中のファイルを読まれないよう
+ * 一時ファイルへ書き、commit でリネームする。
+ */
+export async function createCachedBinaryWriter(
+  namespace: string,
+  keyInput: unknown,
+): Promise<CachedBinaryWriter> {
+  const digest = computeDigest(keyInput);
+  const namespaceDir = getNamespaceDir(namespace);
+  const filePath = path.join(namespaceDir, `${digest}.bin`);
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.mkdir(namespaceDir, { recursive: true });
+  const handle = await fs.open(tempPath, "w");
+  let closed = false;
+  const close = async () => {
+    if (closed) return;
+    closed = true;
+    await handle.close();
+  };
+  return {
+    async write(chunk) {
+      await handle.write(chunk);
+    },
+    async commit() {
+      await close();
+      await fs.rename(tempPath, filePath);
+    },
+    async abort() {
+      await close();
+      await fs.rm(tempPath, { force: true });
+    },
+  };
+}
+
+/** キャッシュ済みバイナリを使ったことを記録する（pruneCachedBinaries で最近使ったものを残す） */
+export async function touchCachedBinary(
+  namespace: string,
+  keyInput: unknown,
+): Promise<void> {
+  const digest = computeDigest(keyInput);
+  const filePath = path.join(getNamespaceDir(namespace), `${digest}.bin`);
+  const now = new Date();
+  await fs.utimes(filePath, now, now).catch(() => {});
+}
+
+/**
+ * 名前空間のバイナリキャッシュの合計が maxBytes を超えたら、最後に使ったのが古いもの（mtime 順）から消す。
+ * 同じキーの JSON（存在判定に使うメタ）を先に消す。keepKeyInput のキャッシュは消さない。
+ * 消したキャッシュの数を返す。
+ */
+export async function pruneCachedBinaries(
+  namespace: string,
+  maxBytes: number,
+  keepKeyInput?: unknown,
+): Promise<number> {
+  const namespaceDir = getNamespaceDir(namespace);
+  const keepFile = keepKeyInput === undefined ? null : `${computeDigest(keepKeyInput)}.bin`;
+  let names: string[];
+  try {
+    names = await fs.readdir(namespaceDir);
+  } catch {
+    return 0;
+  }
+
+  const entries: { name: string; size: number; usedAt: number }[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".bin")) continue;
+    const stat = await fs.stat(path.join(namespaceDir, name)).catch(() => null);
+    if (stat) {
+      entries.push({ name, size: stat.size, usedAt: stat.mtimeMs });
+    }
+  }
+
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  let removed = 0;
+  for (const entry of entries.sort((a, b) => a.usedAt - b.usedAt)) {
+    if (total <= maxBytes) break;
+    if (entry.name === keepFile) continue;
+    const digest = entry.name.slice(0, -".bin".length);
+    await fs.rm(path.join(namespaceDir, `${digest}.json`), { force: true });
+    await fs.rm(path.join(namespaceDir, entry.name), { force: true });
+    total -= entry.size;
+    removed += 1;
+  }
+  return removed;
+}
@@ -18,6 +18,9 @@ export const systemRouter = router({
     llmProvider: ENV.llmProvider,
     llmModel: ENV.llmModel,
     llmApiKeyConfigured: Boolean(ENV.llmApiKey),
+    // ローカルのOpenAI互換サーバーはAPIキー不要
+    llmApiKeyRequired: ENV.llmProvider !== "openai_compatible",
+    llmVision: ENV.llmVision,
     ttsProvider: ENV.ttsProvider,
     ttsModel: ENV.ttsModel,
     ttsApiKeyConfigured: Boolean(ENV.ttsApiKey),
@@ -6,6 +6,23 @@ import { checkRateLimit } from "./rateLimiter";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  errorFormatter({ shape, error }) {
+    const cause = error.cause as { conflict?: unknown } | undefined;
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        // CONFLICT の詳細（手続きが cause の conflict に載せたもの）。
+        // クライアントは最新を読み直してマージするか利用者に知らせる
+        conflict:
+          error.code === "CONFLICT" &&
+          typeof cause?.conflict === "object" &&
+          cause.conflict !== null
+            ? (cause.conflict as Record<string, unknown>)
+            : null,
+      },
+    };
+  },
 });
 
 export const router = t.router;
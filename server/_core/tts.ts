@@ -4,6 +4,10 @@ import path from "path";
 import { execFile } from "child_process";
 import { promisify } from "util";
 import { nanoid } from "nanoid";
+import {
+  OUTPUT_LANGUAGE_LABELS,
+  type OutputLanguage,
+} from "@shared/outputLanguage";
 import { ENV, type TTSProvider } from "./env";
 
 const execFileAsync = promisify(execFile);
@@ -18,6 +22,8 @@ export type TTSOptions = {
   model?: TTSModel;
   speed?: number;
   format?: TTSFormat;
+  /** 読み上げる言語。省略時は各サービスの自動判定 */
+  language?: OutputLanguage;
 };
 
 export type TTSResponse = {
@@ -38,6 +44,19 @@ interface TTSAdapter {
 
 const MAX_TEXT_LENGTH = 4096;
 
+/** Gemini TTS の speechConfig.languageCode に渡す BCP-47 コード */
+const SPEECH_LANGUAGE_CODES: Record<OutputLanguage, string> = {
+  ja: "ja-JP",
+  en: "en-US",
+  zh: "cmn-CN",
+  ko: "ko-KR",
+};
+
+/** instructions（話し方の指示）を受け付ける OpenAI TTS モデルか */
+function supportsSpeechInstructions(model: string): boolean {
+  return model.startsWith("gpt-4o");
+}
+
 const OPENAI_VOICES: Array<{ id: string; name: string; description: string }> = [
   { id: "alloy", name: "Alloy", description: "Neutral and calm" },
   { id: "echo", name: "Echo", description: "Deep male voice" },
@@ -157,6 +176,7 @@ class OpenAITTSAdapter implements TTSAdapter {
         model = ENV.ttsModel,
         speed = 1.0,
         format = "mp3",
+        language,
       } = options;
 
       const response = await fetch("https://api.openai.com/v1/audio/speech", {
@@ -171,6 +191,12 @@ class OpenAITTSAdapter implements TTSAdapter {
           voice,
           speed,
           response_format: format,
+          // tts-1 系は言語を指定できないため、指示に対応するモデルのときだけ渡す
+          ...(language && supportsSpeechInstructions(model)
+            ? {
+                instructions: `Speak naturally in ${OUTPUT_LANGUAGE_LABELS[language]}.`,
+              }
+            : {}),
         }),
       });
 
@@ -213,6 +239,7 @@ class GeminiTTSAdapter implements TTSAdapter {
         text,
         voice = "Kore",
         model = ENV.ttsModel,
+        language,
       } = options;
 
       const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(ENV.ttsApiKey)}`;
@@ -236,6 +263,9 @@ class GeminiTTSAdapter implements TTSAdapter {
                   voiceName: voice,
                 },
               },
+              ...(language
+                ? { languageCode: SPEECH_LANGUAGE_CODES[language] }
+                : {}),
             },
           },
         }),
@@ -36,6 +36,8 @@ function makeSegment(id: string): EvidenceSegment {
     changed_region_bbox: null,
     ocr_lines: ["保存"],
     ocr_focus: ["保存"],
+    ocr_line_details: [{ text: "保存", bbox: null, score: null }],
+    ocr_focus_details: [{ text: "保存", bbox: null, score: null }],
     transcript_snippet: "",
     coalesced_from: 1,
     warnings: [],
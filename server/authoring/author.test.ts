@@ -13,6 +13,7 @@ vi.mock("../_core/pipelineCache", () => ({
 }));
 
 import { authorSteps } from "./author";
+import { SYSTEM_PROMPT } from "./prompt";
 
 function makeSegment(
   id: string,
@@ -35,6 +36,11 @@ function makeSegment(
     changed_region_bbox: { x: 0.1, y: 0.1, w: 0.2, h: 0.1 },
     ocr_lines: ["保存", "キャンセル"],
     ocr_focus: ["保存"],
+    ocr_line_details: [
+      { text: "保存", bbox: null, score: null },
+      { text: "キャンセル", bbox: null, score: null },
+    ],
+    ocr_focus_details: [{ text: "保存", bbox: null, score: null }],
     transcript_snippet: "",
     coalesced_from: 1,
     warnings: [],
@@ -195,6 +201,29 @@ describe("authorSteps", () => {
     expect(fallback?.review_reasons).toEqual(["fallback:unassigned_segment"]);
   });
 
+  it("未割り当ての activity=scroll セグメントはフォールバックにせず discarded にする", async () => {
+    const evidence = makeEvidence([
+      makeSegment("seg-1", 0, 2000),
+      makeSegment("seg-2", 2000, 4000, { activity: "scroll" }),
+    ]);
+
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview,
+        steps: [validStep(["seg-1"], "操作1")],
+        discarded_segments: [],
+      })
+    );
+
+    const result = await authorSteps(evidence);
+    expect(result.steps).toHaveLength(1);
+    expect(result.steps.some(step => step.fallback)).toBe(false);
+    expect(result.discarded).toContainEqual({
+      segment_id: "seg-2",
+      reason: "activity=scroll",
+    });
+  });
+
   it("セグメントの整合違反（重複参照・未知ID・順序逆転）のステップは不採用→フォールバック", async () => {
     const evidence = makeEvidence([
       makeSegment("seg-1", 0, 2000),
@@ -235,6 +264,110 @@ describe("authorSteps", () => {
     expect(result.steps.every(step => step.review_reasons.includes("fallback:chunk_authoring_failed"))).toBe(true);
   });
 
+  it("出力言語を指定すると system prompt に言語指示を足し、フォールバック文もその言語にする", async () => {
+    const evidence = makeEvidence([
+      makeSegment("seg-1", 0, 2000),
+      makeSegment("seg-2", 2000, 4000),
+    ]);
+
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview,
+        steps: [validStep(["seg-1"], "保存する")],
+        discarded_segments: [],
+      })
+    );
+
+    const result = await authorSteps(evidence, { outputLanguage: "en" });
+
+    const systemPrompt = invokeLLMMock.mock.calls[0][0].messages[0].content;
+    expect(systemPrompt).toContain("生成開始");
+    expect(systemPrompt).toContain("英語（English）");
+    const fallback = result.steps.find(step => step.fallback);
+    expect(fallback?.title).toBe("Step 2");
+    expect(fallback?.description).toBe("Please edit this step manually.");
+  });
+
+  it("想定読者を指定すると粒度・ナレーション長の指示を足し、初心者向けは従来の system prompt のまま", async () => {
+    const evidence = makeEvidence([makeSegment("seg-1", 0, 2000)]);
+    const response = llmResponse({
+      overview,
+      steps: [validStep(["seg-1"], "保存する")],
+      discarded_segments: [],
+    });
+    invokeLLMMock
+      .mockResolvedValueOnce(response)
+      .mockResolvedValueOnce(response);
+
+    await authorSteps(evidence);
+    await authorSteps(evidence, { audience: "operator" });
+
+    const novicePrompt = invokeLLMMock.mock.calls[0][0].messages[0].content;
+    const operatorPrompt = invokeLLMMock.mock.calls[1][0].messages[0].content;
+    expect(novicePrompt).toBe(SYSTEM_PROMPT);
+    expect(operatorPrompt.startsWith(SYSTEM_PROMPT)).toBe(true);
+    expect(operatorPrompt).toContain("最大4セグメントまで1ステップにまとめてよい");
+    expect(operatorPrompt).toContain("narration は各ステップ1文・30字程度");
+  });
+
+  it("用語集・文体ルールを文脈に渡し、違反したステップは要レビューにする", async () => {
+    const evidence = makeEvidence([
+      makeSegment("seg-1", 0, 2000),
+      makeSegment("seg-2", 2000, 4000),
+    ]);
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview,
+        steps: [
+          validStep(["seg-1"], "保存する"),
+          {
+            ...validStep(["seg-2"], "もう一度保存する"),
+            description: "保存ボタンを押下する",
+          },
+        ],
+        discarded_segments: [],
+      })
+    );
+
+    const result = await authorSteps(evidence, {
+      styleGuide: { glossary: [{ term: "押下", preferred: "クリック" }] },
+    });
+
+    const userContent = invokeLLMMock.mock.calls[0][0].messages[1].content;
+    expect(JSON.stringify(userContent)).toContain("押下 → クリック");
+    expect(result.steps[0].review_reasons).not.toContain("style:guide_violation");
+    expect(result.steps[1].needs_review).toBe(true);
+    expect(result.steps[1].review_reasons).toContain("style:guide_violation");
+    expect(result.steps[1].warnings).toContain(
+      "用語集: 「押下」ではなく「クリック」を使う"
+    );
+  });
+
+  it("復元した入力値をダイジェストに渡し、マスク時は値を出さない", async () => {
+    const evidence = makeEvidence([
+      makeSegment("seg-1", 0, 2000, {
+        coalesced_from: 5,
+        typed_text: { value: "山田太郎", masked: false, secret_kind: null },
+      }),
+      makeSegment("seg-2", 2000, 4000, {
+        coalesced_from: 5,
+        typed_text: { value: null, masked: true, secret_kind: "password" },
+      }),
+    ]);
+
+    invokeLLMMock.mockRejectedValueOnce(new Error("rate limit"));
+
+    const result = await authorSteps(evidence);
+    const userContent = JSON.stringify(
+      invokeLLMMock.mock.calls[0][0].messages[1].content
+    );
+    expect(userContent).toContain("『山田太郎』");
+    expect(userContent).toContain("秘匿されたパスワード");
+    // 執筆に失敗しても入力値はフォールバックの instruction に残す
+    expect(result.steps[0].instruction).toBe("『山田太郎』と入力する");
+    expect(result.steps[1].instruction).toBe("画面の操作を確認する");
+  });
+
   it("チャンク分割時は暫定overviewを引き継ぎ、チャンク数分のLLM呼び出しになる", async () => {
     const segments = Array.from({ length: 5 }, (_, i) =>
       makeSegment(`seg-${i + 1}`, i * 1000, (i + 1) * 1000)
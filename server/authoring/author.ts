@@ -8,16 +8,23 @@
  * docs/plans/phase-2-step-authoring.md 参照。
  */
 
+import { DEFAULT_AUDIENCE, type Audience } from "@shared/audience";
+import {
+  DEFAULT_OUTPUT_LANGUAGE,
+  type OutputLanguage,
+} from "@shared/outputLanguage";
 import { ENV } from "../_core/env";
 import { createLogger } from "../_core/logger";
 import { getCachedJson, setCachedJson } from "../_core/pipelineCache";
 import type { EvidenceArtifact, EvidenceSegment } from "../evidence/types";
+import type { StyleGuideSettings } from "../projectSettings";
 import type { Overview, ReviewReasonCode } from "../stepsArtifact";
 import {
   buildGlobalContext,
   chunkSegments,
   DEFAULT_CHUNK_SIZE,
   type AuthoringChunk,
+  type RangeAuthoringContext,
 } from "./digest";
 import { AUTHORING_PROMPT_VERSION } from "./promptVersion";
 import { createAuthoringProvider } from "./providers";
@@ -29,9 +36,7 @@ import {
 import {
   checkCrossStepIntegrity,
   checkSegmentIntegrity,
-  computeCalibratedConfidence,
-  needsReview,
-  verifyCitedLabels,
+  verifyStep,
 } from "./verification";
 
 export { AUTHORING_PROMPT_VERSION };
@@ -57,11 +62,79 @@ export interface AuthoringResult {
 
 type FallbackReasonCode = "chunk_authoring_failed" | "unassigned_segment";
 
+/** LLMが空で返した項目・フォールバックステップに入れる定型文（出力言語別） */
+const DEFAULT_TEXTS: Record<
+  OutputLanguage,
+  {
+    stepTitle: (index: number) => string;
+    typedInstruction: (value: string) => string;
+    fallbackInstruction: string;
+    fallbackExpectedResult: string;
+    fallbackOperation: string;
+    fallbackDescription: string;
+    instruction: string;
+    expectedResult: string;
+    description: string;
+    taskTitle: string;
+  }
+> = {
+  ja: {
+    stepTitle: index => `ステップ ${index}`,
+    typedInstruction: value => `『${value}』と入力する`,
+    fallbackInstruction: "画面の操作を確認する",
+    fallbackExpectedResult: "画面が意図どおり更新される",
+    fallbackOperation: "操作を分析できませんでした",
+    fallbackDescription: "このステップは手動で編集してください。",
+    instruction: "操作を実行する",
+    expectedResult: "画面が更新される",
+    description: "画面の内容を確認してください。",
+    taskTitle: "操作手順",
+  },
+  en: {
+    stepTitle: index => `Step ${index}`,
+    typedInstruction: value => `Type "${value}"`,
+    fallbackInstruction: "Check the operation on the screen",
+    fallbackExpectedResult: "The screen updates as intended",
+    fallbackOperation: "The operation could not be analyzed",
+    fallbackDescription: "Please edit this step manually.",
+    instruction: "Perform the operation",
+    expectedResult: "The screen updates",
+    description: "Check the contents of the screen.",
+    taskTitle: "Procedure",
+  },
+  zh: {
+    stepTitle: index => `步骤 ${index}`,
+    typedInstruction: value => `输入“${value}”`,
+    fallbackInstruction: "确认画面上的操作",
+    fallbackExpectedResult: "画面按预期更新",
+    fallbackOperation: "无法分析该操作",
+    fallbackDescription: "请手动编辑此步骤。",
+    instruction: "执行操作",
+    expectedResult: "画面已更新",
+    description: "请确认画面内容。",
+    taskTitle: "操作步骤",
+  },
+  ko: {
+    stepTitle: index => `단계 ${index}`,
+    typedInstruction: value => `“${value}”을(를) 입력합니다`,
+    fallbackInstruction: "화면의 조작을 확인합니다",
+    fallbackExpectedResult: "화면이 의도대로 갱신됩니다",
+    fallbackOperation: "조작을 분석하지 못했습니다",
+    fallbackDescription: "이 단계는 직접 편집해 주세요.",
+    instruction: "조작을 실행합니다",
+    expectedResult: "화면이 갱신됩니다",
+    description: "화면 내용을 확인해 주세요.",
+    taskTitle: "조작 절차",
+  },
+};
+
 async function invokeAuthoringProvider(
   globalContext: string,
   chunk: AuthoringChunk,
   interimOverview: Overview | null,
-  cacheKeyBase: Record<string, unknown>
+  cacheKeyBase: Record<string, unknown>,
+  outputLanguage: OutputLanguage,
+  audience: Audience
 ): Promise<RawAuthoringResponse> {
   const useCache =
     ENV.authoringProvider !== "codex_app_server" ||
@@ -70,6 +143,8 @@ async function invokeAuthoringProvider(
     ...cacheKeyBase,
     chunkIndex: chunk.chunkIndex,
     segmentIds: chunk.digests.map(digest => digest.segment.segment_id),
+    // 同じ動画・同じセグメントIDでも再抽出で証拠（入力値等）が変われば引き直す
+    digests: chunk.digests.map(digest => digest.text),
     interimOverview,
   };
   if (useCache) {
@@ -85,6 +160,8 @@ async function invokeAuthoringProvider(
     globalContext,
     chunk,
     interimOverview,
+    outputLanguage,
+    audience,
   });
 
   if (useCache) {
@@ -98,15 +175,24 @@ export function buildFallbackStep(
   segment: EvidenceSegment,
   index: number,
   reasonCode: FallbackReasonCode,
-  reasonText: string
+  reasonText: string,
+  outputLanguage: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE
 ): AuthoredStep {
+  const texts = DEFAULT_TEXTS[outputLanguage];
+  // 入力値が復元できていれば、執筆に失敗しても何を入力したかは残す
+  const typedValue =
+    segment.typed_text && !segment.typed_text.masked
+      ? segment.typed_text.value
+      : null;
   return {
     source_segment_ids: [segment.segment_id],
-    title: `ステップ ${index + 1}`,
-    instruction: "画面の操作を確認する",
-    expected_result: "画面が意図どおり更新される",
-    operation: "操作を分析できませんでした",
-    description: "このステップは手動で編集してください。",
+    title: texts.stepTitle(index + 1),
+    instruction: typedValue
+      ? texts.typedInstruction(typedValue)
+      : texts.fallbackInstruction,
+    expected_result: texts.fallbackExpectedResult,
+    operation: texts.fallbackOperation,
+    description: texts.fallbackDescription,
     narration: "",
     cited_ui_labels: [],
     confidence: 0.2,
@@ -125,14 +211,28 @@ function sanitizeText(value: string | undefined, fallback: string): string {
 /**
  * 証拠アーティファクト全体からステップを執筆する。
  * LLM呼び出しは ceil(セグメント数/チャンクサイズ) 回 +（複数チャンク時のみ）overview確定1回。
+ * styleGuide（用語集・文体ルール）は文脈として渡し、執筆後に違反を要レビューにする。
+ * audience（想定読者）でステップの粒度・文章量・ナレーションの長さの指示を切り替える。
+ * rangeContext はステップ範囲の再執筆用（evidence を範囲のセグメントに絞って渡す）。
  */
 export async function authorSteps(
   evidence: EvidenceArtifact,
-  options: { chunkSize?: number } = {}
+  options: {
+    chunkSize?: number;
+    outputLanguage?: OutputLanguage;
+    styleGuide?: StyleGuideSettings;
+    audience?: Audience;
+    rangeContext?: RangeAuthoringContext;
+  } = {}
 ): Promise<AuthoringResult> {
   const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const outputLanguage = options.outputLanguage ?? DEFAULT_OUTPUT_LANGUAGE;
+  const audience = options.audience ?? DEFAULT_AUDIENCE;
+  const texts = DEFAULT_TEXTS[outputLanguage];
   const chunks = chunkSegments(evidence, chunkSize);
-  const globalContext = buildGlobalContext(evidence);
+  const styleGuide = options.styleGuide;
+  const rangeContext = options.rangeContext;
+  const globalContext = buildGlobalContext(evidence, styleGuide, rangeContext);
   const segmentById = new Map(
     evidence.segments.map(segment => [segment.segment_id, segment])
   );
@@ -152,7 +252,18 @@ export async function authorSteps(
         : ENV.codexModel || "codex-app-server-cache-disabled",
     promptVersion: AUTHORING_PROMPT_VERSION,
     videoSha256: evidence.video.sha256,
+    // 画像なし（OCRのみ）で執筆した結果は画像ありと混ぜない
+    ...(ENV.authoringProvider === "llm" && !ENV.llmVision
+      ? { vision: false }
+      : {}),
     chunkSize,
+    // 日本語は言語指定の導入前と同じキーにして既存キャッシュを使い続ける
+    ...(outputLanguage !== "ja" ? { outputLanguage } : {}),
+    // 用語集・文体ルールはプロンプトの文脈を変えるのでキーに含める（未設定なら従来のキー）
+    ...(styleGuide ? { styleGuide } : {}),
+    ...(audience !== DEFAULT_AUDIENCE ? { audience } : {}),
+    // 範囲再執筆は前後のステップ・追加指示ごとに引き直す
+    ...(rangeContext ? { rangeContext } : {}),
   };
 
   const allSteps: AuthoredStep[] = [];
@@ -172,7 +283,9 @@ export async function authorSteps(
         globalContext,
         chunk,
         overview,
-        cacheKeyBase
+        cacheKeyBase,
+        outputLanguage,
+        audience
       );
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -248,64 +361,39 @@ export async function authorSteps(
           continue;
         }
 
-        const labelCheck = verifyCitedLabels(
-          rawStep.cited_ui_labels ?? [],
-          sourceSegments
-        );
-        const hasTranscript = sourceSegments.some(
-          segment => segment.transcript_snippet.trim().length > 0
-        );
-        const confidence = computeCalibratedConfidence({
-          labelVerifiedRatio: labelCheck.verifiedRatio,
-          citedLabelCount: (rawStep.cited_ui_labels ?? []).length,
-          ocrConfidence: null,
-          hasTranscript,
-        });
-
-        const stepWarnings: string[] = [];
-        const reviewReasons: string[] = [];
-        if (labelCheck.unverified.length > 0) {
-          stepWarnings.push(
-            `OCRで確認できないUIラベル引用: ${labelCheck.unverified.join(", ")}`
-          );
-          reviewReasons.push(
-            "verification:unverified_ui_label" satisfies ReviewReasonCode
-          );
-        }
-        const stepNeedsReview = needsReview(
-          confidence,
-          labelCheck.unverified.length
-        );
-        if (stepNeedsReview && confidence < 0.5) {
-          reviewReasons.push(
-            "verification:low_confidence" satisfies ReviewReasonCode
-          );
-        }
-
-        allSteps.push({
+        const authored = {
           source_segment_ids: rawStep.source_segment_ids,
-          title: sanitizeText(rawStep.title, `ステップ ${allSteps.length + 1}`),
-          instruction: sanitizeText(rawStep.instruction, "操作を実行する"),
+          title: sanitizeText(
+            rawStep.title,
+            texts.stepTitle(allSteps.length + 1)
+          ),
+          instruction: sanitizeText(rawStep.instruction, texts.instruction),
           expected_result: sanitizeText(
             rawStep.expected_result,
-            "画面が更新される"
+            texts.expectedResult
           ),
           operation: sanitizeText(
             rawStep.operation,
-            rawStep.instruction ?? "操作を実行する"
-          ),
-          description: sanitizeText(
-            rawStep.description,
-            "画面の内容を確認してください。"
+            rawStep.instruction ?? texts.instruction
           ),
+          description: sanitizeText(rawStep.description, texts.description),
           narration: (rawStep.narration ?? "").trim(),
           cited_ui_labels: (rawStep.cited_ui_labels ?? [])
             .map(label => label.trim())
             .filter(Boolean),
-          confidence,
-          needs_review: stepNeedsReview,
-          review_reasons: Array.from(new Set(reviewReasons)),
-          warnings: stepWarnings,
+        };
+        const verification = verifyStep(authored, sourceSegments, {
+          citedLabels: rawStep.cited_ui_labels ?? [],
+          styleGuide,
+          language: outputLanguage,
+        });
+
+        allSteps.push({
+          ...authored,
+          confidence: verification.confidence,
+          needs_review: verification.needsReview,
+          review_reasons: verification.review_reasons,
+          warnings: verification.warnings,
           fallback: false,
         });
         acceptedSegmentLists.push(rawStep.source_segment_ids);
@@ -319,10 +407,11 @@ export async function authorSteps(
     for (const digest of chunk.digests) {
       const segmentId = digest.segment.segment_id;
       if (!handled.has(segmentId)) {
-        if ((digest.segment.activity ?? "action") === "waiting") {
+        const activity = digest.segment.activity ?? "action";
+        if (activity === "waiting" || activity === "scroll") {
           allDiscarded.push({
             segment_id: segmentId,
-            reason: "activity=waiting",
+            reason: `activity=${activity}`,
           });
         } else {
           allSteps.push(
@@ -332,7 +421,8 @@ export async function authorSteps(
               response ? "unassigned_segment" : "chunk_authoring_failed",
               response
                 ? "セグメントが割り当てられませんでした"
-                : "チャンク執筆失敗"
+                : "チャンク執筆失敗",
+              outputLanguage
             )
           );
         }
@@ -350,7 +440,7 @@ export async function authorSteps(
 
   return {
     overview: overview ?? {
-      task_title: "操作手順",
+      task_title: texts.taskTitle,
       preconditions: [],
       completion_criteria: "",
     },
@@ -5,7 +5,12 @@
  * 長尺対応のチャンク分割もここで行う。
  */
 
-import type { EvidenceArtifact, EvidenceSegment } from "../evidence/types";
+import type {
+  EvidenceArtifact,
+  EvidenceSegment,
+  EvidenceTypedText,
+} from "../evidence/types";
+import type { StyleGuideSettings } from "../projectSettings";
 
 export const DEFAULT_CHUNK_SIZE = 40;
 const MAX_OCR_LINES_PER_SEGMENT = 20;
@@ -24,6 +29,24 @@ function truncateList(lines: string[], max: number): string[] {
   return [...lines.slice(0, max), `…他${lines.length - max}行`];
 }
 
+const SECRET_KIND_LABELS: Record<
+  NonNullable<EvidenceTypedText["secret_kind"]>,
+  string
+> = {
+  password: "パスワード",
+  email: "メールアドレス",
+  other: "入力値",
+};
+
+/** 復元した入力値の行（マスク時は値を出さず、一般表現で書くよう指示する） */
+function formatTypedText(typedText: EvidenceTypedText): string {
+  if (typedText.masked || typedText.value === null) {
+    const label = SECRET_KIND_LABELS[typedText.secret_kind ?? "other"];
+    return `入力値: （秘匿された${label}。値は書かず「${label}を入力」のように書く）`;
+  }
+  return `入力値（入力欄の前後OCRから復元）: 『${typedText.value}』（instruction では『${typedText.value}』と入力 のように値を明記する）`;
+}
+
 function formatBBox(bbox: EvidenceSegment["changed_region_bbox"]): string {
   if (!bbox) return "(なし)";
   return `x=${bbox.x.toFixed(2)} y=${bbox.y.toFixed(2)} w=${bbox.w.toFixed(2)} h=${bbox.h.toFixed(2)}`;
@@ -37,6 +60,12 @@ export function buildSegmentDigest(segment: EvidenceSegment): SegmentDigest {
     `変化領域bbox: ${formatBBox(segment.changed_region_bbox)}`,
   ];
 
+  if (segment.scroll) {
+    lines.push(
+      `スクロール: ${segment.scroll.direction === "down" ? "下" : "上"}方向に約${segment.scroll.distance_ratio.toFixed(2)}画面分`
+    );
+  }
+
   if (
     segment.coalesced_from > 1 ||
     segment.t_end - segment.transition_start > 3000
@@ -46,6 +75,10 @@ export function buildSegmentDigest(segment: EvidenceSegment): SegmentDigest {
     );
   }
 
+  if (segment.typed_text) {
+    lines.push(formatTypedText(segment.typed_text));
+  }
+
   const focus = truncateList(segment.ocr_focus, MAX_FOCUS_LINES_PER_SEGMENT);
   lines.push(
     `変化領域周辺のOCR（操作対象ラベルの候補）: ${focus.length > 0 ? focus.join(" | ") : "(なし)"}`
@@ -55,6 +88,15 @@ export function buildSegmentDigest(segment: EvidenceSegment): SegmentDigest {
   lines.push(`画面全体のOCR: ${ocr.length > 0 ? ocr.join(" | ") : "(なし)"}`);
   lines.push(`発話: ${segment.transcript_snippet || "(なし)"}`);
 
+  const clicks = segment.cursor?.clicks ?? [];
+  if (clicks.length > 0) {
+    const formatted = clicks.map(
+      click =>
+        `x=${click.x.toFixed(2)} y=${click.y.toFixed(2)} @${click.t}ms${click.screen_changed ? "" : "（画面変化なし）"}`
+    );
+    lines.push(`クリック推定位置: ${formatted.join(" | ")}`);
+  }
+
   const imageUrls: string[] = [];
   if (segment.before_frame && segment.changed_region_bbox) {
     imageUrls.push(segment.before_frame.image_url);
@@ -93,8 +135,93 @@ export function chunkSegments(
   return chunks;
 }
 
-/** 動画全体の文脈テキスト（チャンク共通ヘッダー） */
-export function buildGlobalContext(artifact: EvidenceArtifact): string {
+/** 用語集・文体ルールの指示（設定が空なら空配列） */
+function formatStyleGuide(styleGuide: StyleGuideSettings): string[] {
+  const lines: string[] = [];
+  const glossary = styleGuide.glossary ?? [];
+  if (glossary.length > 0) {
+    lines.push(
+      "用語集（左の表記は使わず右の表記に統一する。「」で引用するUIラベルはOCRの表記を優先）:"
+    );
+    for (const entry of glossary) {
+      lines.push(`- ${entry.term} → ${entry.preferred}`);
+    }
+  }
+  const forbidden = styleGuide.forbiddenTerms ?? [];
+  if (forbidden.length > 0) {
+    lines.push(`使用禁止の表現: ${forbidden.join(" / ")}`);
+  }
+  if (styleGuide.politeness) {
+    lines.push(
+      styleGuide.politeness === "polite"
+        ? "文体: description・narration は です・ます調で書く"
+        : "文体: description・narration は である調（常体）で書き、です・ますを使わない"
+    );
+  }
+  const endings = styleGuide.sentenceEndings ?? [];
+  if (endings.length > 0) {
+    lines.push(
+      `instruction の文末: ${endings.map(ending => `「${ending}」`).join("・")}のいずれかで終える`
+    );
+  }
+  return lines;
+}
+
+/** 範囲再執筆で前後に残るステップ（参照のみで書き換えない） */
+export interface NeighbourStepText {
+  title: string;
+  instruction: string;
+  narration: string;
+}
+
+/** ステップ範囲の再執筆に渡す文脈 */
+export interface RangeAuthoringContext {
+  previousStep?: NeighbourStepText;
+  nextStep?: NeighbourStepText;
+  /** 利用者の追加指示（例: もっと簡潔に） */
+  guidance?: string;
+}
+
+function formatNeighbourStep(label: string, step: NeighbourStepText): string {
+  const narration = step.narration.trim();
+  return `- ${label}: ${step.title} / ${step.instruction}${narration ? ` / ナレーション: ${narration}` : ""}`;
+}
+
+/** 範囲再執筆の指示（前後のステップとの接続・追加指示） */
+function formatRangeContext(rangeContext: RangeAuthoringContext): string[] {
+  const lines = [
+    "これは既存の手順書の一部の書き直しです。以下のセグメントだけをステップにし、前後のステップは書き換えたり重複させたりしない:",
+  ];
+  if (rangeContext.previousStep) {
+    lines.push(
+      formatNeighbourStep("直前のステップ", rangeContext.previousStep)
+    );
+  } else {
+    lines.push("- 直前のステップ: なし（手順の先頭）");
+  }
+  if (rangeContext.nextStep) {
+    lines.push(formatNeighbourStep("直後のステップ", rangeContext.nextStep));
+  } else {
+    lines.push("- 直後のステップ: なし（手順の末尾）");
+  }
+  lines.push("narration は前後のステップと自然につながるようにする");
+  const guidance = rangeContext.guidance?.trim();
+  if (guidance) {
+    lines.push(`追加の指示（上記の制約と矛盾しない範囲で従う）: ${guidance}`);
+  }
+  return lines;
+}
+
+/**
+ * 動画全体の文脈テキスト（チャンク共通ヘッダー）。
+ * プロジェクトの用語集・文体ルールがあれば末尾に足す。
+ * ステップ範囲の再執筆では前後のステップと追加指示も足す。
+ */
+export function buildGlobalContext(
+  artifact: EvidenceArtifact,
+  styleGuide?: StyleGuideSettings,
+  rangeContext?: RangeAuthoringContext
+): string {
   const durationSec = Math.round(artifact.video.duration_ms / 1000);
   const lines = [
     `動画の長さ: ${durationSec}秒 / 操作セグメント数: ${artifact.segments.length}`,
@@ -108,5 +235,11 @@ export function buildGlobalContext(artifact: EvidenceArtifact): string {
   } else {
     lines.push("ナレーション: なし（無音録画）");
   }
+  if (styleGuide) {
+    lines.push(...formatStyleGuide(styleGuide));
+  }
+  if (rangeContext) {
+    lines.push(...formatRangeContext(rangeContext));
+  }
   return lines.join("\n");
 }
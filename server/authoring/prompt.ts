@@ -1,3 +1,8 @@
+import type { Audience } from "@shared/audience";
+import {
+  OUTPUT_LANGUAGE_LABELS,
+  type OutputLanguage,
+} from "@shared/outputLanguage";
 import type { Overview } from "../stepsArtifact";
 import type { AuthoringChunk } from "./digest";
 
@@ -33,12 +38,76 @@ export const SYSTEM_PROMPT = `あなたは業務画面チュートリアルの
 - title は重複させない
 - すべてのセグメントを steps か discarded_segments のどちらかに必ず割り当てる`;
 
+/** UIラベルを引用するときの括弧（日本語以外では「」の代わりに使う） */
+export const LABEL_QUOTES: Record<OutputLanguage, [string, string]> = {
+  ja: ["「", "」"],
+  en: ['"', '"'],
+  zh: ["“", "”"],
+  ko: ["“", "”"],
+};
+
+/**
+ * 想定読者ごとの追加指示（ステップの粒度・文章量・ナレーションの長さ）。
+ * novice は SYSTEM_PROMPT の粒度（source_segment_ids は原則1〜2個）のままなので指示を足さない。
+ */
+const AUDIENCE_INSTRUCTIONS: Record<Exclude<Audience, "novice">, string> = {
+  operator: `想定読者: 業務に慣れたオペレーター（簡潔なチェックリスト）
+- 上記の「source_segment_ids は原則1〜2個」は適用せず、同じ画面で一続きに行う操作（入力→選択→保存など）は最大4セグメントまで1ステップにまとめてよい。異なる目的の操作を統合しない制約は維持する
+- title と instruction は1行で済む短い表現にし、クリック方法など基本操作の説明は省く
+- description は画面から読み取れない注意点だけを1文で書く
+- narration は各ステップ1文・30字程度にする`,
+  admin: `想定読者: システム管理者
+- 上記の「source_segment_ids は原則1〜2個」は適用せず、同じ設定画面で行う一連の操作は最大6セグメントまで1ステップにまとめてよい。異なる目的の操作を統合しない制約は維持する
+- description には変更する設定項目・値と、その変更が及ぼす影響を書く。クリック方法など基本操作の説明は省く
+- narration は各ステップ1〜2文・60字程度にする`,
+};
+
+/**
+ * 出力言語・想定読者に応じたシステムプロンプト。
+ * 日本語・初心者向けは SYSTEM_PROMPT そのもの（AUTHORING_PROMPT_VERSION の対象）。
+ * 想定読者を指定すると粒度・文章量の指示を、他の言語では出力言語の指定を末尾に足す。
+ * 他の言語でもUIラベルは翻訳せず画面の表記のまま引用させる
+ * （cited_ui_labels をOCRテキストと照合するため）。
+ */
+export function buildSystemPrompt(
+  language: OutputLanguage = "ja",
+  audience: Audience = "novice"
+): string {
+  const base =
+    audience === "novice"
+      ? SYSTEM_PROMPT
+      : `${SYSTEM_PROMPT}
+
+${AUDIENCE_INSTRUCTIONS[audience]}`;
+  if (language === "ja") return base;
+  const name = OUTPUT_LANGUAGE_LABELS[language];
+  const [open, close] = LABEL_QUOTES[language];
+  return `${base}
+
+出力言語: ${name}
+- overview・title・instruction・expected_result・operation・description・narration・discarded_segments の reason はすべて${name}で書く
+- 上記の「」による引用は ${open}…${close} に読み替える。引用するUIラベルは翻訳・言い換えをせず、OCRテキストの表記のまま引用する
+- cited_ui_labels もOCRテキストの表記のまま（翻訳しない）列挙する
+- narration は${name}の話し言葉として自然な文体にする`;
+}
+
+/**
+ * チャンクのユーザーメッセージ（ダイジェスト + 操作前後のフレーム画像）。
+ * 画像を読めないモデル（includeImages: false）では画像を付けず、OCRテキストを根拠にするよう指示する。
+ */
 export function buildChunkUserContent(
   globalContext: string,
   chunk: AuthoringChunk,
-  interimOverview: Overview | null
+  interimOverview: Overview | null,
+  options: { includeImages?: boolean } = {}
 ): AuthoringMessageContent[] {
+  const includeImages = options.includeImages ?? true;
   const header: string[] = [globalContext];
+  if (!includeImages) {
+    header.push(
+      "画面の画像は添付されません。各セグメントのOCR（変化領域周辺・画面全体）を画面の根拠とし、OCRに無いUIラベルは引用しないでください。"
+    );
+  }
   if (chunk.totalChunks > 1) {
     header.push(
       `これは ${chunk.totalChunks} チャンク中 ${chunk.chunkIndex + 1} 番目のセグメント群です。`
@@ -56,6 +125,7 @@ export function buildChunkUserContent(
 
   for (const digest of chunk.digests) {
     content.push({ type: "text", text: digest.text });
+    if (!includeImages) continue;
     for (const url of digest.imageUrls) {
       content.push({ type: "image_url", image_url: { url, detail: "high" } });
     }
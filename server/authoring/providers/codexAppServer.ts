@@ -5,7 +5,7 @@ import {
   resolveLocalStoragePathFromUrl,
 } from "../../storage";
 import { ENV } from "../../_core/env";
-import { buildChunkUserContent, SYSTEM_PROMPT } from "../prompt";
+import { buildChunkUserContent, buildSystemPrompt } from "../prompt";
 import { AUTHORING_JSON_SCHEMA } from "../schema";
 import { parseAuthoringResponseText } from "./json";
 import type { AuthoringMessageContent } from "../prompt";
@@ -207,7 +207,7 @@ class CodexAppServerJsonlClient {
     this.write({ method: "initialized" });
   }
 
-  async startThread(): Promise<string> {
+  async startThread(systemPrompt = buildSystemPrompt()): Promise<string> {
     const result = (await this.request("thread/start", {
       cwd: process.cwd(),
       runtimeWorkspaceRoots: [process.cwd()],
@@ -217,7 +217,7 @@ class CodexAppServerJsonlClient {
       serviceName: "tutorialgen-authoring",
       baseInstructions:
         "You are an API-free authoring engine for TutorialGen. Do not run shell commands, edit files, or ask questions. Return the requested JSON only.",
-      developerInstructions: `${SYSTEM_PROMPT}\n\n最終応答は tutorial_authoring schema に合うJSONオブジェクトだけにしてください。Markdown、コードフェンス、説明文を含めないでください。`,
+      developerInstructions: `${systemPrompt}\n\n最終応答は tutorial_authoring schema に合うJSONオブジェクトだけにしてください。Markdown、コードフェンス、説明文を含めないでください。`,
       threadSource: "user",
       experimentalRawEvents: false,
       persistExtendedHistory: false,
@@ -516,11 +516,15 @@ export function createCodexAppServerAuthoringProvider(
       globalContext,
       chunk,
       interimOverview,
+      outputLanguage,
+      audience,
     }: AuthoringProviderInput) {
       const client = new CodexAppServerJsonlClient(options);
       try {
         await client.initialize();
-        const threadId = await client.startThread();
+        const threadId = await client.startThread(
+          buildSystemPrompt(outputLanguage, audience)
+        );
         const input = toCodexUserInput(
           buildChunkUserContent(globalContext, chunk, interimOverview)
         );
@@ -0,0 +1,168 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuthoringChunk } from "../digest";
+
+const originalEnv = { ...process.env };
+const tinyPngDataUrl =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMCAO6s8QAAAABJRU5ErkJggg==";
+
+const authoredResponse = {
+  overview: {
+    task_title: "ログイン",
+    preconditions: [],
+    completion_criteria: "ホームが表示される",
+  },
+  steps: [
+    {
+      source_segment_ids: ["seg-1"],
+      title: "ログインする",
+      instruction: "「ログイン」をクリックする",
+      expected_result: "ホームが表示される",
+      operation: "クリック",
+      description: "ログインボタンを押す",
+      narration: "ログインします",
+      cited_ui_labels: ["ログイン"],
+    },
+  ],
+  discarded_segments: [],
+};
+
+const chunk = {
+  digests: [
+    {
+      segment: { segment_id: "seg-1" },
+      text: "セグメント seg-1\n画面全体のOCR: ログイン | パスワード",
+      imageUrls: [tinyPngDataUrl],
+    },
+  ],
+  chunkIndex: 0,
+  totalChunks: 1,
+} as unknown as AuthoringChunk;
+
+interface StubRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: {
+    model: string;
+    messages: Array<{ role: string; content: unknown }>;
+    response_format?: { type: string; json_schema?: { name: string } };
+  };
+}
+
+// ローカルの OpenAI 互換サーバー（vLLM / llama.cpp server / Ollama）の代わり
+let server: http.Server;
+let requests: StubRequest[];
+
+beforeEach(async () => {
+  requests = [];
+  server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", data => {
+      raw += data;
+    });
+    req.on("end", () => {
+      requests.push({
+        url: req.url ?? "",
+        headers: req.headers,
+        body: JSON.parse(raw),
+      });
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-stub",
+          created: 1,
+          model: "local-model",
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: "assistant",
+                content: JSON.stringify(authoredResponse),
+              },
+              finish_reason: "stop",
+            },
+          ],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        })
+      );
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+});
+
+afterEach(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  process.env = { ...originalEnv };
+  vi.resetModules();
+});
+
+async function loadProvider(overrides: Record<string, string>) {
+  const { port } = server.address() as AddressInfo;
+  process.env = {
+    ...originalEnv,
+    NODE_ENV: "test",
+    AUTHORING_PROVIDER: "llm",
+    LLM_PROVIDER: "openai_compatible",
+    LLM_BASE_URL: `http://127.0.0.1:${port}/v1/`,
+    LLM_MODEL: "local-model",
+    LLM_API_KEY: "",
+    ...overrides,
+  };
+  vi.resetModules();
+  const { createLLMAuthoringProvider } = await import("./llm");
+  return createLLMAuthoringProvider();
+}
+
+describe("OpenAI互換エンドポイントでの執筆", () => {
+  it("Chat Completions に画像と JSON Schema を送り、応答を執筆結果として読む", async () => {
+    const provider = await loadProvider({ OCR_PROVIDER: "llm" });
+
+    const result = await provider.invokeChunk({
+      globalContext: "全体の文脈",
+      chunk,
+      interimOverview: null,
+    });
+
+    expect(result.steps[0].title).toBe("ログインする");
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request.url).toBe("/v1/chat/completions");
+    expect(request.headers.authorization).toBeUndefined();
+    expect(request.body.model).toBe("local-model");
+    expect(request.body.response_format).toMatchObject({
+      type: "json_schema",
+      json_schema: { name: expect.any(String) },
+    });
+    const userContent = request.body.messages[1].content as Array<{
+      type: string;
+      image_url?: { url: string };
+    }>;
+    expect(userContent).toContainEqual({
+      type: "image_url",
+      image_url: { url: tinyPngDataUrl },
+    });
+  });
+
+  it("LLM_VISION=false では画像を送らず、OCRテキストを根拠にするよう指示する", async () => {
+    const provider = await loadProvider({
+      LLM_VISION: "false",
+      OCR_PROVIDER: "engine",
+      LLM_API_KEY: "local-key",
+    });
+
+    await provider.invokeChunk({
+      globalContext: "全体の文脈",
+      chunk,
+      interimOverview: null,
+    });
+
+    const [request] = requests;
+    expect(request.headers.authorization).toBe("Bearer local-key");
+    const userContent = request.body.messages[1].content;
+    expect(typeof userContent).toBe("string");
+    expect(userContent).toContain("画面の画像は添付されません");
+    expect(userContent).toContain("画面全体のOCR: ログイン | パスワード");
+    expect(JSON.stringify(request.body)).not.toContain("data:image/png");
+  });
+});
@@ -1,5 +1,6 @@
+import { ENV } from "../../_core/env";
 import { invokeLLM } from "../../_core/llm";
-import { buildChunkUserContent, SYSTEM_PROMPT } from "../prompt";
+import { buildChunkUserContent, buildSystemPrompt } from "../prompt";
 import { AUTHORING_JSON_SCHEMA } from "../schema";
 import { parseAuthoringResponseText } from "./json";
 import type { AuthoringProvider, AuthoringProviderInput } from "./types";
@@ -10,16 +11,23 @@ export function createLLMAuthoringProvider(): AuthoringProvider {
       globalContext,
       chunk,
       interimOverview,
+      outputLanguage,
+      audience,
     }: AuthoringProviderInput) {
       const response = await invokeLLM({
         messages: [
-          { role: "system", content: SYSTEM_PROMPT },
+          {
+            role: "system",
+            content: buildSystemPrompt(outputLanguage, audience),
+          },
           {
             role: "user",
+            // 画像を読めないモデルではOCRテキストだけで執筆させる
             content: buildChunkUserContent(
               globalContext,
               chunk,
-              interimOverview
+              interimOverview,
+              { includeImages: ENV.llmVision }
             ),
           },
         ],
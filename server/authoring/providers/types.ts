@@ -1,3 +1,5 @@
+import type { Audience } from "@shared/audience";
+import type { OutputLanguage } from "@shared/outputLanguage";
 import type { Overview } from "../../stepsArtifact";
 import type { AuthoringChunk } from "../digest";
 import type { RawAuthoringResponse } from "../schema";
@@ -6,6 +8,10 @@ export interface AuthoringProviderInput {
   globalContext: string;
   chunk: AuthoringChunk;
   interimOverview: Overview | null;
+  /** 執筆する言語（未指定は日本語） */
+  outputLanguage?: OutputLanguage;
+  /** 想定読者（未指定は初心者向け） */
+  audience?: Audience;
 }
 
 export interface AuthoringProvider {
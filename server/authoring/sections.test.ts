@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { StepArtifact } from "../stepsArtifact";
+
+const invokeLLMMock = vi.hoisted(() => vi.fn());
+vi.mock("../_core/llm", () => ({ invokeLLM: invokeLLMMock }));
+// キャッシュはテスト間の干渉を避けるため無効化
+vi.mock("../_core/pipelineCache", () => ({
+  getCachedJson: vi.fn(async () => null),
+  setCachedJson: vi.fn(async () => {}),
+}));
+
+import {
+  authorSections,
+  buildSectionsFromStarts,
+  MIN_STEPS_FOR_SECTIONS,
+} from "./sections";
+
+// 章立ては step_id・sort_order・title・instruction だけを見る
+function makeSteps(count: number): StepArtifact[] {
+  return Array.from(
+    { length: count },
+    (_, index) =>
+      ({
+        step_id: `step-${index + 1}`,
+        sort_order: index,
+        title: `手順${index + 1}`,
+        instruction: `「項目${index + 1}」を押す`,
+      }) as StepArtifact
+  );
+}
+
+const config = {
+  asr_provider: "none",
+  ocr_provider: "llm",
+  llm_provider: "openai",
+  llm_model: "gpt-5.4",
+  prompt_version: "authoring-v2-grounded-4",
+  output_language: "ja",
+  audience: "novice",
+} as const;
+
+function llmResponse(payload: unknown) {
+  return { choices: [{ message: { content: JSON.stringify(payload) } }] };
+}
+
+beforeEach(() => {
+  invokeLLMMock.mockReset();
+});
+
+describe("buildSectionsFromStarts", () => {
+  it("各章を次の章の直前まで広げ、最初の章は先頭ステップから始める", () => {
+    const sections = buildSectionsFromStarts(
+      [
+        { title: " 準備 ", summary: "画面を開く", start_step_id: "step-2" },
+        { title: "入力", summary: "値を入れる", start_step_id: "step-4" },
+      ],
+      makeSteps(6)
+    );
+    expect(sections).toEqual([
+      {
+        title: "準備",
+        summary: "画面を開く",
+        start_step_id: "step-1",
+        end_step_id: "step-3",
+      },
+      {
+        title: "入力",
+        summary: "値を入れる",
+        start_step_id: "step-4",
+        end_step_id: "step-6",
+      },
+    ]);
+  });
+
+  it("存在しない・順序が逆の区切りはエラーにする", () => {
+    const steps = makeSteps(6);
+    expect(() =>
+      buildSectionsFromStarts(
+        [{ title: "準備", summary: "", start_step_id: "step-9" }],
+        steps
+      )
+    ).toThrow("章の先頭ステップが見つかりません: step-9");
+    expect(() =>
+      buildSectionsFromStarts(
+        [
+          { title: "準備", summary: "", start_step_id: "step-1" },
+          { title: "入力", summary: "", start_step_id: "step-4" },
+          { title: "保存", summary: "", start_step_id: "step-3" },
+        ],
+        steps
+      )
+    ).toThrow("章の先頭ステップが手順の順に並んでいません");
+  });
+});
+
+describe("authorSections", () => {
+  it("ステップが少なければLLMを呼ばずに章なしにする", async () => {
+    await expect(
+      authorSections({
+        overview: null,
+        steps: makeSteps(MIN_STEPS_FOR_SECTIONS - 1),
+        config,
+      })
+    ).resolves.toEqual([]);
+    expect(invokeLLMMock).not.toHaveBeenCalled();
+  });
+
+  it("執筆済みのステップを送り、応答の区切りから章を組み立てる", async () => {
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        sections: [
+          { title: "準備", summary: "開く", start_step_id: "step-1" },
+          { title: "入力", summary: "入れる", start_step_id: "step-5" },
+        ],
+      })
+    );
+
+    const sections = await authorSections({
+      overview: {
+        task_title: "設定を保存する",
+        preconditions: [],
+        completion_criteria: "保存される",
+      },
+      steps: makeSteps(MIN_STEPS_FOR_SECTIONS),
+      config,
+    });
+
+    expect(sections.map(section => section.end_step_id)).toEqual([
+      "step-4",
+      `step-${MIN_STEPS_FOR_SECTIONS}`,
+    ]);
+    const payload = JSON.parse(
+      invokeLLMMock.mock.calls[0][0].messages[1].content
+    );
+    expect(payload.task_title).toBe("設定を保存する");
+    expect(payload.steps[4]).toEqual({
+      step_id: "step-5",
+      title: "手順5",
+      instruction: "「項目5」を押す",
+    });
+  });
+});
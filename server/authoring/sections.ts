@@ -0,0 +1,187 @@
+/**
+ * 章立て（セクション）の執筆
+ *
+ * 長い録画ではステップが数十件の平坦な一覧になるため、執筆・検証済みのステップを
+ * 目的のまとまりごとの章に区切る。ステップ執筆のプロンプト（AUTHORING_PROMPT_VERSION）は
+ * 変えずに別の呼び出しで行い、章の区切りは各章の先頭 step_id として受け取って決定的に検証する。
+ */
+
+import { z } from "zod";
+import {
+  OUTPUT_LANGUAGE_LABELS,
+  type OutputLanguage,
+} from "@shared/outputLanguage";
+import { ENV } from "../_core/env";
+import { invokeLLM } from "../_core/llm";
+import { getCachedJson, setCachedJson } from "../_core/pipelineCache";
+import type {
+  Overview,
+  StepArtifact,
+  StepSection,
+  StepsArtifact,
+} from "../stepsArtifact";
+
+export const SECTIONS_PROMPT_VERSION = "sections-v1";
+/** これより少ないステップは章に分けない（目次だけで見渡せる） */
+export const MIN_STEPS_FOR_SECTIONS = 8;
+
+const AuthoredSectionSchema = z
+  .object({
+    title: z.string(),
+    summary: z.string(),
+    start_step_id: z.string(),
+  })
+  .strict();
+
+const SectionsResponseSchema = z
+  .object({
+    sections: z.array(AuthoredSectionSchema),
+  })
+  .strict();
+
+type AuthoredSection = z.infer<typeof AuthoredSectionSchema>;
+type SectionsResponse = z.infer<typeof SectionsResponseSchema>;
+
+const SECTIONS_JSON_SCHEMA = {
+  name: "tutorial_sections",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      sections: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            summary: { type: "string" },
+            start_step_id: { type: "string" },
+          },
+          required: ["title", "summary", "start_step_id"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["sections"],
+    additionalProperties: false,
+  },
+} as const;
+
+export function buildSectionsSystemPrompt(language: OutputLanguage): string {
+  const languageRule =
+    language === "ja"
+      ? ""
+      : `\n- title・summary は${OUTPUT_LANGUAGE_LABELS[language]}で書く`;
+  return `あなたは業務画面チュートリアルの編集者です。執筆済みの手順（ステップ一覧）を、目的のまとまりごとの章（セクション）に区切ってください。
+
+必ず守る制約:
+- ステップの追加・削除・並べ替えはしない。各章の先頭ステップの step_id を start_step_id に入れる
+- 最初の章は先頭のステップから始め、start_step_id は手順の順に並べる（章はその次の章の直前まで続く）
+- 1章はおおむね3〜12ステップにし、画面や目的が切り替わるところで区切る
+- title は章の目的を表す短い名詞句、summary はその章で行うことを1文で書く${languageRule}`;
+}
+
+function toSectionsPayload(overview: Overview | null, steps: StepArtifact[]) {
+  return {
+    task_title: overview?.task_title ?? "",
+    steps: steps.map(step => ({
+      step_id: step.step_id,
+      title: step.title,
+      instruction: step.instruction,
+    })),
+  };
+}
+
+async function invokeSections(
+  systemPrompt: string,
+  payload: ReturnType<typeof toSectionsPayload>,
+  cacheKeyBase: Record<string, unknown>
+): Promise<SectionsResponse> {
+  const cacheKey = { ...cacheKeyBase, payload };
+  const cached = await getCachedJson<SectionsResponse>("sections", cacheKey);
+  if (cached) return SectionsResponseSchema.parse(cached);
+
+  const response = await invokeLLM({
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: JSON.stringify(payload, null, 2) },
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: SECTIONS_JSON_SCHEMA,
+    },
+  });
+  const content = response.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error("LLM応答が空です");
+  }
+  const parsed = SectionsResponseSchema.parse(
+    typeof content === "string" ? JSON.parse(content) : content
+  );
+  await setCachedJson("sections", cacheKey, parsed);
+  return parsed;
+}
+
+/**
+ * 章の先頭 step_id の列から、ステップ範囲付きのセクションを組み立てる（純関数）。
+ * 最初の章は先頭ステップから始まるものとして扱う。存在しない・順序が逆の区切りはエラー。
+ */
+export function buildSectionsFromStarts(
+  authored: AuthoredSection[],
+  steps: StepArtifact[]
+): StepSection[] {
+  const stepIds = steps
+    .slice()
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(step => step.step_id);
+  const starts = authored.map(section =>
+    stepIds.indexOf(section.start_step_id)
+  );
+  starts.forEach((start, index) => {
+    if (start < 0) {
+      throw new Error(
+        `章の先頭ステップが見つかりません: ${authored[index].start_step_id}`
+      );
+    }
+    if (index > 0 && start <= starts[index - 1]) {
+      throw new Error("章の先頭ステップが手順の順に並んでいません");
+    }
+    if (authored[index].title.trim().length === 0) {
+      throw new Error("章のタイトルが空です");
+    }
+  });
+  return authored.map((section, index) => ({
+    title: section.title.trim(),
+    summary: section.summary.trim(),
+    start_step_id: index === 0 ? stepIds[0] : section.start_step_id,
+    end_step_id: stepIds[(starts[index + 1] ?? stepIds.length) - 1],
+  }));
+}
+
+/**
+ * 執筆済みのステップを章に区切る。ステップ数が MIN_STEPS_FOR_SECTIONS 未満なら章なし（空配列）。
+ * 区切りが不正な応答はエラーにし、呼び出し側で章なしとして続行する。
+ */
+export async function authorSections(
+  artifact: Pick<StepsArtifact, "overview" | "steps" | "config">
+): Promise<StepSection[]> {
+  if (artifact.steps.length < MIN_STEPS_FOR_SECTIONS) {
+    return [];
+  }
+  const language = artifact.config.output_language;
+  const payload = toSectionsPayload(
+    artifact.overview,
+    artifact.steps.slice().sort((a, b) => a.sort_order - b.sort_order)
+  );
+  const parsed = await invokeSections(
+    buildSectionsSystemPrompt(language),
+    payload,
+    {
+      provider: ENV.llmProvider,
+      model: ENV.llmModel,
+      promptVersion: SECTIONS_PROMPT_VERSION,
+      language,
+    }
+  );
+  return buildSectionsFromStarts(parsed.sections, artifact.steps);
+}
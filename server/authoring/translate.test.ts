@@ -0,0 +1,256 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  StepsArtifactSchema,
+  type StepArtifact,
+  type StepsArtifact,
+} from "../stepsArtifact";
+
+const invokeLLMMock = vi.hoisted(() => vi.fn());
+vi.mock("../_core/llm", () => ({ invokeLLM: invokeLLMMock }));
+// キャッシュはテスト間の干渉を避けるため無効化
+vi.mock("../_core/pipelineCache", () => ({
+  getCachedJson: vi.fn(async () => null),
+  setCachedJson: vi.fn(async () => {}),
+}));
+
+import { findMissingUiLabels, translateStepsArtifact } from "./translate";
+
+function makeStep(index: number, overrides: Partial<StepArtifact> = {}) {
+  return {
+    step_id: `step-${index + 1}`,
+    sort_order: index,
+    legacy_step_db_id: 200 + index,
+    t_start: index * 2000,
+    t_end: index * 2000 + 1500,
+    representative_frames: [
+      {
+        frame_id: 100 + index,
+        frame_number: index,
+        timestamp: index * 2000,
+        image_url: `/api/storage/p/f${index}.jpg`,
+      },
+    ],
+    changed_region_bbox: null,
+    ocr_text: ["保存"],
+    transcript_snippet: "",
+    instruction: "「保存」を押す",
+    expected_result: "保存される",
+    warnings: [],
+    confidence: 0.8,
+    title: "保存する",
+    operation: "「保存」を押す",
+    description: "人手で直した説明",
+    narration: "保存します",
+    audio_url: `/api/storage/p/a${index}.mp3`,
+    audio_key: `p/a${index}.mp3`,
+    source_segment_ids: [`seg-${index + 1}`],
+    cited_ui_labels: ["保存"],
+    ...overrides,
+  };
+}
+
+function makeArtifact(steps: ReturnType<typeof makeStep>[]): StepsArtifact {
+  return StepsArtifactSchema.parse({
+    version: "2.0",
+    project_id: 1,
+    generated_at: "2026-10-01T00:00:00.000Z",
+    revision: 5,
+    config: {
+      asr_provider: "none",
+      ocr_provider: "paddle",
+      llm_provider: "openai",
+      llm_model: "gpt-5.2",
+      prompt_version: "authoring-v2-grounded-4",
+    },
+    overview: {
+      task_title: "データを保存する",
+      preconditions: ["ログイン済み"],
+      completion_criteria: "保存済みと表示される",
+    },
+    steps,
+  });
+}
+
+function llmResponse(payload: unknown) {
+  return {
+    choices: [{ message: { content: JSON.stringify(payload) } }],
+  };
+}
+
+const englishOverview = {
+  task_title: "Save data",
+  preconditions: ["Signed in"],
+  completion_criteria: "Saved is shown",
+};
+
+const englishStep = (stepId: string, label = "保存") => ({
+  step_id: stepId,
+  title: "Save",
+  instruction: `Click "${label}"`,
+  expected_result: "The data is saved",
+  operation: `Click "${label}"`,
+  description: "Manually fixed description",
+  narration: "Now save it.",
+});
+
+beforeEach(() => {
+  invokeLLMMock.mockReset();
+});
+
+describe("translateStepsArtifact", () => {
+  it("文章だけを訳し、step_id・時刻・根拠リンク・引用ラベルは原本のまま保つ", async () => {
+    const source = makeArtifact([makeStep(0), makeStep(1)]);
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview: englishOverview,
+        steps: [englishStep("step-1"), englishStep("step-2")],
+        sections: [],
+      })
+    );
+
+    const translated = await translateStepsArtifact(source, "en");
+
+    const userPayload = JSON.parse(
+      invokeLLMMock.mock.calls[0][0].messages[1].content
+    );
+    expect(userPayload.steps[0]).toMatchObject({
+      step_id: "step-1",
+      ui_labels: ["保存"],
+      description: "人手で直した説明",
+    });
+    expect(translated.config.output_language).toBe("en");
+    expect(translated.translation).toMatchObject({
+      source_language: "ja",
+      source_generated_at: "2026-10-01T00:00:00.000Z",
+      source_revision: 5,
+    });
+    expect(translated.overview).toEqual(englishOverview);
+    expect(translated.steps[1]).toMatchObject({
+      step_id: "step-2",
+      legacy_step_db_id: 201,
+      t_start: 2000,
+      t_end: 3500,
+      source_segment_ids: ["seg-2"],
+      cited_ui_labels: ["保存"],
+      title: "Save",
+      description: "Manually fixed description",
+      needs_review: false,
+    });
+    // 原本の音声は別言語なので引き継がない
+    expect(translated.steps[1].audio_url).toBeUndefined();
+    expect(StepsArtifactSchema.parse(translated).steps).toHaveLength(2);
+  });
+
+  it("章の title・summary は最初のチャンクで訳し、範囲は原本のまま保つ", async () => {
+    const source = {
+      ...makeArtifact([makeStep(0), makeStep(1)]),
+      sections: [
+        {
+          title: "保存",
+          summary: "データを保存する",
+          start_step_id: "step-1",
+          end_step_id: "step-2",
+        },
+      ],
+    };
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview: englishOverview,
+        steps: [englishStep("step-1"), englishStep("step-2")],
+        sections: [{ title: "Saving", summary: "Save the data" }],
+      })
+    );
+
+    const translated = await translateStepsArtifact(source, "en");
+
+    const userPayload = JSON.parse(
+      invokeLLMMock.mock.calls[0][0].messages[1].content
+    );
+    expect(userPayload.sections).toEqual([
+      { title: "保存", summary: "データを保存する" },
+    ]);
+    expect(translated.sections).toEqual([
+      {
+        title: "Saving",
+        summary: "Save the data",
+        start_step_id: "step-1",
+        end_step_id: "step-2",
+      },
+    ]);
+  });
+
+  it("訳文からUIラベルが消えたステップは要レビューにする", async () => {
+    const source = makeArtifact([makeStep(0)]);
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview: englishOverview,
+        steps: [englishStep("step-1", "Save")],
+        sections: [],
+      })
+    );
+
+    const [step] = (await translateStepsArtifact(source, "en")).steps;
+
+    expect(step.needs_review).toBe(true);
+    expect(step.review_reasons).toContain("translation:missing_ui_label");
+    expect(step.warnings).toContain("翻訳後の文にUIラベル「保存」がありません");
+  });
+
+  it("チャンクごとに呼び出し、ステップが原本と一致しなければエラー", async () => {
+    const source = makeArtifact([makeStep(0), makeStep(1), makeStep(2)]);
+    invokeLLMMock
+      .mockResolvedValueOnce(
+        llmResponse({
+          overview: englishOverview,
+          steps: [englishStep("step-1"), englishStep("step-2")],
+          sections: [],
+        })
+      )
+      .mockResolvedValueOnce(
+        llmResponse({ overview: englishOverview, steps: [], sections: [] })
+      );
+
+    await expect(
+      translateStepsArtifact(source, "en", { chunkSize: 2 })
+    ).rejects.toThrow("翻訳結果のステップが原本と一致しません（チャンク 2/2）");
+    expect(invokeLLMMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("原本と同じ言語・翻訳版からの翻訳は受け付けない", async () => {
+    const source = makeArtifact([makeStep(0)]);
+    await expect(translateStepsArtifact(source, "ja")).rejects.toThrow(
+      "翻訳先が原本と同じ言語です"
+    );
+
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview: englishOverview,
+        steps: [englishStep("step-1")],
+        sections: [],
+      })
+    );
+    const translated = await translateStepsArtifact(source, "en");
+    await expect(translateStepsArtifact(translated, "ko")).rejects.toThrow(
+      "翻訳版をさらに翻訳することはできません"
+    );
+  });
+});
+
+describe("findMissingUiLabels", () => {
+  it("原文の本文に引用されていたラベルだけを確かめる", () => {
+    const original = {
+      title: "保存する",
+      instruction: "「保存」を押す",
+      operation: "「保存」を押す",
+      description: "完了を待つ",
+      cited_ui_labels: ["保存", "送信"],
+    };
+    const translated = {
+      title: "Save",
+      instruction: "Click Save",
+      operation: "Click Save",
+      description: "Wait",
+    };
+    expect(findMissingUiLabels(original, translated)).toEqual(["保存"]);
+  });
+});
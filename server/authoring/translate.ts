@@ -0,0 +1,403 @@
+/**
+ * 既存 steps.json の翻訳
+ *
+ * レビューで人手修正した steps.json を原本として他言語へ訳し、steps.<lang>.json として保存する。
+ * 証拠からの再執筆ではなく翻訳にすることで、レビュー時の編集を失わずに
+ * step_id・時刻・source_segment_ids・cited_ui_labels の対応を原本のまま保つ。
+ * LLM に渡すのは文章フィールドだけで、構造フィールドは原本から引き継ぐ。
+ */
+
+import { z } from "zod";
+import {
+  OUTPUT_LANGUAGE_LABELS,
+  type OutputLanguage,
+} from "@shared/outputLanguage";
+import { ENV } from "../_core/env";
+import { invokeLLM } from "../_core/llm";
+import { createLogger } from "../_core/logger";
+import { getCachedJson, setCachedJson } from "../_core/pipelineCache";
+import {
+  OverviewSchema,
+  type Overview,
+  type ReviewReasonCode,
+  type StepArtifact,
+  type StepSection,
+  type StepsArtifact,
+} from "../stepsArtifact";
+import { LABEL_QUOTES } from "./prompt";
+
+const logger = createLogger("Translation");
+
+export const TRANSLATION_PROMPT_VERSION = "translate-v2";
+const DEFAULT_TRANSLATION_CHUNK_SIZE = 20;
+
+const TranslatedStepSchema = z
+  .object({
+    step_id: z.string(),
+    title: z.string(),
+    instruction: z.string(),
+    expected_result: z.string(),
+    operation: z.string(),
+    description: z.string(),
+    narration: z.string(),
+  })
+  .strict();
+
+const TranslatedSectionSchema = z
+  .object({
+    title: z.string(),
+    summary: z.string(),
+  })
+  .strict();
+
+const TranslationResponseSchema = z
+  .object({
+    overview: OverviewSchema,
+    steps: z.array(TranslatedStepSchema),
+    sections: z.array(TranslatedSectionSchema),
+  })
+  .strict();
+
+type TranslationResponse = z.infer<typeof TranslationResponseSchema>;
+
+const TRANSLATION_JSON_SCHEMA = {
+  name: "tutorial_translation",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      overview: {
+        type: "object",
+        properties: {
+          task_title: { type: "string" },
+          preconditions: { type: "array", items: { type: "string" } },
+          completion_criteria: { type: "string" },
+        },
+        required: ["task_title", "preconditions", "completion_criteria"],
+        additionalProperties: false,
+      },
+      steps: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            step_id: { type: "string" },
+            title: { type: "string" },
+            instruction: { type: "string" },
+            expected_result: { type: "string" },
+            operation: { type: "string" },
+            description: { type: "string" },
+            narration: { type: "string" },
+          },
+          required: [
+            "step_id",
+            "title",
+            "instruction",
+            "expected_result",
+            "operation",
+            "description",
+            "narration",
+          ],
+          additionalProperties: false,
+        },
+      },
+      sections: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            summary: { type: "string" },
+          },
+          required: ["title", "summary"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["overview", "steps", "sections"],
+    additionalProperties: false,
+  },
+} as const;
+
+export function buildTranslationSystemPrompt(
+  sourceLanguage: OutputLanguage,
+  targetLanguage: OutputLanguage
+): string {
+  const source = OUTPUT_LANGUAGE_LABELS[sourceLanguage];
+  const target = OUTPUT_LANGUAGE_LABELS[targetLanguage];
+  const [open, close] = LABEL_QUOTES[targetLanguage];
+  return `あなたは業務画面チュートリアルの翻訳者です。レビュー済みの手順マニュアル（${source}）を${target}に翻訳してください。
+
+必ず守る制約:
+- 各ステップの step_id はそのまま返し、ステップの追加・削除・統合・並べ替えをしない
+- 内容を足したり省いたりせず原文どおりに訳す（人手で修正された箇所を含め、原文を正とする）
+- ui_labels に列挙したUIラベル（ボタン名・項目名）は翻訳・言い換えをせず、画面の表記のまま ${open}…${close} で引用する
+- instruction は短い命令文1文、expected_result は画面変化を1文で
+- narration は全ステップ通して読み上げたとき自然につながる${target}の話し言葉にする
+- overview（task_title・preconditions・completion_criteria）も同じ方針で翻訳する
+- sections（章の title・summary）も同じ数・同じ順のまま翻訳する`;
+}
+
+function toSourcePayload(
+  overview: Overview | null,
+  steps: StepArtifact[],
+  sections: StepSection[]
+) {
+  return {
+    overview: overview ?? {
+      task_title: "",
+      preconditions: [],
+      completion_criteria: "",
+    },
+    sections: sections.map(section => ({
+      title: section.title,
+      summary: section.summary,
+    })),
+    steps: steps.map(step => ({
+      step_id: step.step_id,
+      ui_labels: step.cited_ui_labels,
+      title: step.title,
+      instruction: step.instruction,
+      expected_result: step.expected_result,
+      operation: step.operation,
+      description: step.description,
+      narration: step.narration,
+    })),
+  };
+}
+
+async function invokeTranslation(
+  systemPrompt: string,
+  payload: ReturnType<typeof toSourcePayload>,
+  cacheKeyBase: Record<string, unknown>
+): Promise<TranslationResponse> {
+  const cacheKey = { ...cacheKeyBase, payload };
+  const cached = await getCachedJson<TranslationResponse>(
+    "translation",
+    cacheKey
+  );
+  if (cached) return TranslationResponseSchema.parse(cached);
+
+  const response = await invokeLLM({
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: JSON.stringify(payload, null, 2) },
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: TRANSLATION_JSON_SCHEMA,
+    },
+  });
+  const content = response.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error("LLM応答が空です");
+  }
+  const parsed = TranslationResponseSchema.parse(
+    typeof content === "string" ? JSON.parse(content) : content
+  );
+  await setCachedJson("translation", cacheKey, parsed);
+  return parsed;
+}
+
+function pickText(translated: string, original: string): string {
+  const trimmed = translated.trim();
+  return trimmed.length > 0 ? trimmed : original;
+}
+
+/**
+ * 原文で本文に引用されていたUIラベルが訳文から消えていないか確かめる（純関数）。
+ * 訳文でもラベルは画面の表記のまま残す約束なので、消えていれば訳し込まれたとみなす。
+ */
+export function findMissingUiLabels(
+  original: Pick<
+    StepArtifact,
+    "title" | "instruction" | "operation" | "description" | "cited_ui_labels"
+  >,
+  translated: Pick<
+    StepArtifact,
+    "title" | "instruction" | "operation" | "description"
+  >
+): string[] {
+  const originalText = [
+    original.title,
+    original.instruction,
+    original.operation,
+    original.description,
+  ].join("\n");
+  const translatedText = [
+    translated.title,
+    translated.instruction,
+    translated.operation,
+    translated.description,
+  ].join("\n");
+  return original.cited_ui_labels.filter(
+    label => originalText.includes(label) && !translatedText.includes(label)
+  );
+}
+
+/**
+ * steps.json（原本）を targetLanguage に翻訳した artifact を返す。
+ * ステップ数・順序・step_id・時刻・根拠リンク・引用ラベルは原本のまま。
+ * 訳文は原本と別の言語になるため、原本の音声（audio_url/audio_key）は引き継がない。
+ */
+export async function translateStepsArtifact(
+  source: StepsArtifact,
+  targetLanguage: OutputLanguage,
+  options: { chunkSize?: number } = {}
+): Promise<StepsArtifact> {
+  const sourceLanguage = source.config.output_language;
+  if (sourceLanguage === targetLanguage) {
+    throw new Error("翻訳先が原本と同じ言語です");
+  }
+  if (source.translation) {
+    throw new Error(
+      "翻訳版をさらに翻訳することはできません。原本から翻訳してください"
+    );
+  }
+
+  const chunkSize = options.chunkSize ?? DEFAULT_TRANSLATION_CHUNK_SIZE;
+  const systemPrompt = buildTranslationSystemPrompt(
+    sourceLanguage,
+    targetLanguage
+  );
+  const cacheKeyBase = {
+    provider: ENV.llmProvider,
+    model: ENV.llmModel,
+    promptVersion: TRANSLATION_PROMPT_VERSION,
+    sourceLanguage,
+    targetLanguage,
+  };
+  const orderedSteps = [...source.steps].sort(
+    (a, b) => a.sort_order - b.sort_order
+  );
+
+  let translatedOverview: Overview | null = null;
+  let translatedSections = source.sections;
+  const translatedById = new Map<
+    string,
+    z.infer<typeof TranslatedStepSchema>
+  >();
+  const chunkCount = Math.max(1, Math.ceil(orderedSteps.length / chunkSize));
+  for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+    const chunkSteps = orderedSteps.slice(
+      chunkIndex * chunkSize,
+      (chunkIndex + 1) * chunkSize
+    );
+    // overview は毎回原文を渡して用語をそろえ、訳は最初のチャンクのものを採用する
+    // 章は最初のチャンクでだけ訳す
+    const response = await invokeTranslation(
+      systemPrompt,
+      toSourcePayload(
+        source.overview,
+        chunkSteps,
+        chunkIndex === 0 ? source.sections : []
+      ),
+      cacheKeyBase
+    );
+    const expectedIds = chunkSteps.map(step => step.step_id);
+    const returnedIds = response.steps.map(step => step.step_id);
+    if (
+      returnedIds.length !== expectedIds.length ||
+      returnedIds.some(id => !expectedIds.includes(id))
+    ) {
+      throw new Error(
+        `翻訳結果のステップが原本と一致しません（チャンク ${chunkIndex + 1}/${chunkCount}）`
+      );
+    }
+    for (const step of response.steps) {
+      translatedById.set(step.step_id, step);
+    }
+    if (
+      chunkIndex === 0 &&
+      response.sections.length === source.sections.length
+    ) {
+      translatedSections = source.sections.map((section, index) => ({
+        ...section,
+        title: pickText(response.sections[index].title, section.title),
+        summary: pickText(response.sections[index].summary, section.summary),
+      }));
+    }
+    if (chunkIndex === 0 && source.overview) {
+      translatedOverview = {
+        task_title: pickText(
+          response.overview.task_title,
+          source.overview.task_title
+        ),
+        preconditions:
+          response.overview.preconditions.length ===
+          source.overview.preconditions.length
+            ? response.overview.preconditions
+            : source.overview.preconditions,
+        completion_criteria: pickText(
+          response.overview.completion_criteria,
+          source.overview.completion_criteria
+        ),
+      };
+    }
+  }
+
+  const steps = source.steps.map(step => {
+    const translated = translatedById.get(step.step_id);
+    if (!translated) return step;
+    const texts = {
+      title: pickText(translated.title, step.title),
+      instruction: pickText(translated.instruction, step.instruction),
+      expected_result: pickText(
+        translated.expected_result,
+        step.expected_result
+      ),
+      operation: pickText(translated.operation, step.operation),
+      description: pickText(translated.description, step.description),
+      narration: translated.narration.trim(),
+    };
+    const missingLabels = findMissingUiLabels(step, texts);
+    const reviewReason: ReviewReasonCode = "translation:missing_ui_label";
+    return {
+      ...step,
+      ...texts,
+      audio_url: undefined,
+      audio_key: undefined,
+      ...(missingLabels.length > 0
+        ? {
+            warnings: [
+              ...step.warnings,
+              ...missingLabels.map(
+                label => `翻訳後の文にUIラベル「${label}」がありません`
+              ),
+            ],
+            needs_review: true,
+            review_reasons: Array.from(
+              new Set([...step.review_reasons, reviewReason])
+            ),
+          }
+        : {}),
+    };
+  });
+
+  logger.info("Translation complete", {
+    projectId: source.project_id,
+    sourceLanguage,
+    targetLanguage,
+    stepCount: steps.length,
+    needsReview: steps.filter(step => step.needs_review).length,
+  });
+
+  const translatedAt = new Date().toISOString();
+  return {
+    ...source,
+    generated_at: translatedAt,
+    config: { ...source.config, output_language: targetLanguage },
+    overview: translatedOverview,
+    sections: translatedSections,
+    translation: {
+      source_language: sourceLanguage,
+      source_generated_at: source.generated_at,
+      source_revision: source.revision,
+      translated_at: translatedAt,
+      llm_provider: ENV.llmProvider,
+      llm_model: ENV.llmModel,
+      prompt_version: TRANSLATION_PROMPT_VERSION,
+    },
+    steps,
+  };
+}
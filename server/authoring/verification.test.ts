@@ -3,9 +3,13 @@ import {
   checkCrossStepIntegrity,
   checkSegmentIntegrity,
   computeCalibratedConfidence,
+  findStyleGuideViolations,
+  meanOcrScore,
   needsReview,
   normalizeLabel,
+  unionOcrLineBoxes,
   verifyCitedLabels,
+  verifyStep,
 } from "./verification";
 
 const segment = (lines: string[], focus: string[] = []) => ({
@@ -52,6 +56,25 @@ describe("verifyCitedLabels", () => {
     expect(result.unverified).toEqual([]);
   });
 
+  it("照合したOCR行は ocr_focus の完全一致を優先し、位置とスコアを返す", () => {
+    const button = { text: "保存", bbox: { x: 0.4, y: 0.5, w: 0.08, h: 0.05 }, score: 0.9 };
+    const result = verifyCitedLabels(
+      ["保存"],
+      [
+        {
+          ocr_lines: ["変更を保存する", "保存"],
+          ocr_focus: ["保存"],
+          ocr_line_details: [
+            { text: "変更を保存する", bbox: { x: 0, y: 0, w: 0.5, h: 0.05 }, score: 0.8 },
+            button,
+          ],
+          ocr_focus_details: [button],
+        },
+      ],
+    );
+    expect(result.citedLines).toEqual([{ label: "保存", line: button }]);
+  });
+
   it("ocr_focus も照合対象に含める", () => {
     const result = verifyCitedLabels(["設定"], [segment([], ["設定"])]);
     expect(result.verified).toEqual(["設定"]);
@@ -141,3 +164,127 @@ describe("computeCalibratedConfidence / needsReview", () => {
     expect(normalizeLabel("ステップ (12)")).toBe("ステップ");
   });
 });
+
+describe("meanOcrScore / unionOcrLineBoxes", () => {
+  const line = (x: number, score: number | null) => ({
+    text: "ラベル",
+    bbox: { x, y: 0.5, w: 0.1, h: 0.05 },
+    score,
+  });
+
+  it("スコアのある行だけを平均し、なければ null", () => {
+    expect(meanOcrScore([line(0, 0.8), line(0.2, null), line(0.4, 0.6)])).toBeCloseTo(0.7);
+    expect(meanOcrScore([line(0, null)])).toBeNull();
+  });
+
+  it("bbox の外接矩形を返し、bbox がなければ null", () => {
+    const union = unionOcrLineBoxes([line(0.1, 0.9), line(0.4, 0.9)]);
+    expect(union?.x).toBeCloseTo(0.1);
+    expect(union?.w).toBeCloseTo(0.4);
+    expect(unionOcrLineBoxes([{ text: "x", bbox: null, score: null }])).toBeNull();
+  });
+});
+
+describe("findStyleGuideViolations", () => {
+  const step = {
+    title: "保存する",
+    instruction: "「ログオン」を押下する",
+    expected_result: "ホーム画面が表示される",
+    operation: "「ログオン」を押下する",
+    description: "ログインボタンを押します。ホーム画面が開きます。",
+    narration: "まずログインします。",
+    cited_ui_labels: ["ログオン"],
+  };
+
+  it("避ける表記・使用禁止の表現を検出し、引用したUIラベル内の一致は無視する", () => {
+    const violations = findStyleGuideViolations(step, {
+      glossary: [
+        { term: "ログオン", preferred: "ログイン" },
+        { term: "押下", preferred: "クリック" },
+      ],
+      forbiddenTerms: ["ホーム画面"],
+    });
+    expect(violations).toEqual([
+      "用語集: 「押下」ではなく「クリック」を使う",
+      "使用禁止の表現: 「ホーム画面」",
+    ]);
+  });
+
+  it("推奨表記が避ける表記を含む場合は推奨表記の出現を違反にしない", () => {
+    expect(
+      findStyleGuideViolations(
+        { ...step, instruction: "保存ボタンを押す", operation: "", cited_ui_labels: [] },
+        { glossary: [{ term: "保存", preferred: "保存ボタン" }] },
+      ),
+    ).toEqual(["用語集: 「保存」ではなく「保存ボタン」を使う"]);
+    expect(
+      findStyleGuideViolations(
+        { ...step, title: "", instruction: "保存ボタンを押す", operation: "", cited_ui_labels: [] },
+        { glossary: [{ term: "保存", preferred: "保存ボタン" }] },
+      ),
+    ).toEqual([]);
+  });
+
+  it("文体は日本語の description・narration の文末で判定する", () => {
+    expect(findStyleGuideViolations(step, { politeness: "polite" })).toEqual([]);
+    expect(
+      findStyleGuideViolations(
+        { ...step, narration: "まずログインする。" },
+        { politeness: "polite" },
+      ),
+    ).toEqual(["文体: です・ます調でない文「まずログインする」"]);
+    expect(findStyleGuideViolations(step, { politeness: "plain" })).toEqual([
+      "文体: である調でない文「ログインボタンを押します」",
+    ]);
+    expect(findStyleGuideViolations(step, { politeness: "plain" }, "en")).toEqual([]);
+  });
+
+  it("instruction の文末が指定のいずれでもなければ違反", () => {
+    expect(findStyleGuideViolations(step, { sentenceEndings: ["する"] })).toEqual([]);
+    expect(
+      findStyleGuideViolations(step, { sentenceEndings: ["してください"] }),
+    ).toEqual(["instruction の文末が指定と異なる: 「「ログオン」を押下する」"]);
+  });
+});
+
+describe("verifyStep", () => {
+  const step = {
+    title: "ログインする",
+    instruction: "「ログイン」をクリックする",
+    expected_result: "ホーム画面が表示される",
+    operation: "「ログイン」をクリックする",
+    description: "ログインボタンを押します。",
+    narration: "ログインします。",
+    cited_ui_labels: ["ログイン"],
+  };
+
+  it("照合できたラベルと発話根拠があれば要レビューにしない", () => {
+    const result = verifyStep(step, [
+      { ...segment(["ログイン", "パスワード"]), transcript_snippet: "ログインします" },
+    ]);
+    expect(result).toEqual({
+      confidence: 0.75,
+      needsReview: false,
+      review_reasons: [],
+      warnings: [],
+    });
+  });
+
+  it("未照合ラベル・低信頼度・用語集違反を要レビュー理由にまとめる", () => {
+    const result = verifyStep(
+      { ...step, cited_ui_labels: ["サインイン"] },
+      [{ ...segment(["ログイン"]), transcript_snippet: "" }],
+      { styleGuide: { forbiddenTerms: ["クリック"] } },
+    );
+    expect(result.needsReview).toBe(true);
+    expect(result.review_reasons).toEqual([
+      "verification:unverified_ui_label",
+      "verification:low_confidence",
+      "style:guide_violation",
+    ]);
+    expect(result.warnings).toEqual([
+      "OCRで確認できないUIラベル引用: サインイン",
+      "使用禁止の表現: 「クリック」",
+    ]);
+  });
+});
@@ -4,11 +4,20 @@
  * 1. UIラベル照合: cited_ui_labels が根拠セグメントのOCR実測に存在するか
  * 2. 根拠整合: source_segment_ids の存在・重複・順序を検証
  * 3. 較正済みconfidence: LLM自己申告は使わず決定的な式で算出
+ * 4. 用語集・文体ルール: プロジェクトの styleGuide に反する表記を検出
  *
  * docs/plans/phase-2-step-authoring.md 参照。
  */
 
-import type { EvidenceSegment } from "../evidence/types";
+import type { OutputLanguage } from "@shared/outputLanguage";
+import {
+  toOcrLinesWithoutGeometry,
+  type EvidenceOcrLine,
+  type EvidenceSegment,
+  type NormalizedRect,
+} from "../evidence/types";
+import type { StyleGuideSettings } from "../projectSettings";
+import type { ReviewReasonCode } from "../stepsArtifact";
 
 /** ラベル照合用の正規化（NFKC・空白除去・小文字化）。eval/metrics.ts と同一規則 */
 export function normalizeLabel(label: string): string {
@@ -26,31 +35,46 @@ export interface LabelVerification {
   unverified: string[];
   /** 引用なし=1.0 / 全照合=1.0 / 一部不一致 < 1.0 */
   verifiedRatio: number;
+  /** verified の各ラベルが照合したOCR行（verified と同じ順序。位置・スコアは v1.1 のみ） */
+  citedLines: Array<{ label: string; line: EvidenceOcrLine }>;
 }
 
+type VerifiableSegment = Pick<EvidenceSegment, "ocr_lines" | "ocr_focus"> &
+  Partial<Pick<EvidenceSegment, "ocr_line_details" | "ocr_focus_details">>;
+
 /**
  * cited_ui_labels を根拠セグメントの OCR実測（ocr_lines ∪ ocr_focus）と照合する。
  * OCR行の部分文字列一致も許容する（OCRは周辺文字を巻き込むことがあるため）。
+ * 照合先の行は ocr_focus を優先し、完全一致を部分一致より優先する（ボタンそのものの位置を指すため）。
  */
 export function verifyCitedLabels(
   citedLabels: string[],
-  sourceSegments: Array<Pick<EvidenceSegment, "ocr_lines" | "ocr_focus">>,
+  sourceSegments: VerifiableSegment[],
 ): LabelVerification {
   const haystack = sourceSegments
-    .flatMap((segment) => [...segment.ocr_lines, ...segment.ocr_focus])
-    .map(normalizeLabel)
-    .filter((line) => line.length > 0);
+    .flatMap((segment) => [
+      ...(segment.ocr_focus_details ?? toOcrLinesWithoutGeometry(segment.ocr_focus)),
+      ...(segment.ocr_line_details ?? toOcrLinesWithoutGeometry(segment.ocr_lines)),
+    ])
+    .map((line) => ({ normalized: normalizeLabel(line.text), line }))
+    .filter((entry) => entry.normalized.length > 0);
 
   const verified: string[] = [];
   const unverified: string[] = [];
+  const citedLines: LabelVerification["citedLines"] = [];
 
   for (const label of citedLabels) {
     const normalized = normalizeLabel(label);
     if (normalized.length === 0) continue;
-    const found = haystack.some(
-      (line) => line === normalized || line.includes(normalized),
-    );
-    (found ? verified : unverified).push(label);
+    const match =
+      haystack.find((entry) => entry.normalized === normalized) ??
+      haystack.find((entry) => entry.normalized.includes(normalized));
+    if (match) {
+      verified.push(label);
+      citedLines.push({ label, line: match.line });
+    } else {
+      unverified.push(label);
+    }
   }
 
   const total = verified.length + unverified.length;
@@ -58,6 +82,32 @@ export function verifyCitedLabels(
     verified,
     unverified,
     verifiedRatio: total === 0 ? 1 : verified.length / total,
+    citedLines,
+  };
+}
+
+/** 照合したOCR行のスコア平均（スコアのある行がなければ null） */
+export function meanOcrScore(lines: EvidenceOcrLine[]): number | null {
+  const scores = lines
+    .map((line) => line.score)
+    .filter((score): score is number => score !== null);
+  if (scores.length === 0) return null;
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+/** 照合したOCR行の bbox の外接矩形（bbox のある行がなければ null） */
+export function unionOcrLineBoxes(lines: EvidenceOcrLine[]): NormalizedRect | null {
+  const boxes = lines
+    .map((line) => line.bbox)
+    .filter((bbox): bbox is NormalizedRect => bbox !== null);
+  if (boxes.length === 0) return null;
+  const x = Math.min(...boxes.map((box) => box.x));
+  const y = Math.min(...boxes.map((box) => box.y));
+  return {
+    x,
+    y,
+    w: Math.max(...boxes.map((box) => box.x + box.w)) - x,
+    h: Math.max(...boxes.map((box) => box.y + box.h)) - y,
   };
 }
 
@@ -147,3 +197,157 @@ export function computeCalibratedConfidence(input: ConfidenceInput): number {
 export function needsReview(confidence: number, unverifiedLabelCount: number): boolean {
   return confidence < NEEDS_REVIEW_THRESHOLD || unverifiedLabelCount > 0;
 }
+
+export interface StyleCheckedStep {
+  title: string;
+  instruction: string;
+  expected_result: string;
+  operation: string;
+  description: string;
+  narration: string;
+  cited_ui_labels: string[];
+}
+
+const POLITE_ENDING = /(です|ます|ました|でした|ません|ましょう|ください|ませんか)$/;
+
+function normalizeForStyle(text: string): string {
+  return text.normalize("NFKC").toLowerCase();
+}
+
+function removeAll(text: string, phrase: string): string {
+  return phrase.length === 0 ? text : text.split(phrase).join(" ");
+}
+
+/** 文単位に分割し、文末の句読点・閉じ括弧を落とす */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/[。！？!?\n]/)
+    .map((sentence) => sentence.trim().replace(/[」』）)"'”’…．.、,\s]+$/, ""))
+    .filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * 用語集・文体ルールに反する箇所を検出する（違反ごとの警告文を返す）。
+ * - 用語集の「避ける表記」・使用禁止の表現: 本文全体から、引用したUIラベル（OCRの表記）と推奨表記を除いて探す
+ * - 文体（です・ます / である）: 日本語出力の description・narration の各文の文末で判定
+ * - instruction の文末: 句読点を除いた末尾が指定のいずれかで終わるか
+ */
+export function findStyleGuideViolations(
+  step: StyleCheckedStep,
+  styleGuide: StyleGuideSettings,
+  language: OutputLanguage = "ja",
+): string[] {
+  const violations: string[] = [];
+  let body = normalizeForStyle(
+    [
+      step.title,
+      step.instruction,
+      step.expected_result,
+      step.operation,
+      step.description,
+      step.narration,
+    ].join("\n"),
+  );
+  for (const label of step.cited_ui_labels) {
+    body = removeAll(body, normalizeForStyle(label.trim()));
+  }
+
+  for (const entry of styleGuide.glossary ?? []) {
+    const term = normalizeForStyle(entry.term);
+    if (removeAll(body, normalizeForStyle(entry.preferred)).includes(term)) {
+      violations.push(`用語集: 「${entry.term}」ではなく「${entry.preferred}」を使う`);
+    }
+  }
+  for (const forbidden of styleGuide.forbiddenTerms ?? []) {
+    if (body.includes(normalizeForStyle(forbidden))) {
+      violations.push(`使用禁止の表現: 「${forbidden}」`);
+    }
+  }
+
+  if (styleGuide.politeness && language === "ja") {
+    const expectPolite = styleGuide.politeness === "polite";
+    const offending = [step.description, step.narration]
+      .flatMap(splitSentences)
+      .find((sentence) => POLITE_ENDING.test(sentence) !== expectPolite);
+    if (offending) {
+      violations.push(
+        `文体: ${expectPolite ? "です・ます調" : "である調"}でない文「${offending}」`,
+      );
+    }
+  }
+
+  const endings = styleGuide.sentenceEndings ?? [];
+  if (endings.length > 0) {
+    const instruction = normalizeForStyle(step.instruction)
+      .trim()
+      .replace(/[。．.！!？?\s]+$/, "");
+    if (!endings.some((ending) => instruction.endsWith(normalizeForStyle(ending)))) {
+      violations.push(`instruction の文末が指定と異なる: 「${step.instruction}」`);
+    }
+  }
+
+  return violations;
+}
+
+export interface StepVerification {
+  confidence: number;
+  needsReview: boolean;
+  review_reasons: ReviewReasonCode[];
+  warnings: string[];
+}
+
+export interface StepVerificationOptions {
+  /** 照合する引用ラベル（未指定なら step.cited_ui_labels。執筆直後は整形前のLLM出力を渡す） */
+  citedLabels?: string[];
+  styleGuide?: StyleGuideSettings | null;
+  language?: OutputLanguage;
+}
+
+/**
+ * 1ステップ分の機械検証（UIラベル照合 → 較正済みconfidence → 用語集・文体ルール）をまとめて行う。
+ * 執筆直後のほか、分割・結合で根拠セグメントが変わったステップの再検証にも使う。
+ */
+export function verifyStep(
+  step: StyleCheckedStep,
+  sourceSegments: Array<VerifiableSegment & Pick<EvidenceSegment, "transcript_snippet">>,
+  options: StepVerificationOptions = {},
+): StepVerification {
+  const citedLabels = options.citedLabels ?? step.cited_ui_labels;
+  const labelCheck = verifyCitedLabels(citedLabels, sourceSegments);
+  const hasTranscript = sourceSegments.some(
+    (segment) => segment.transcript_snippet.trim().length > 0,
+  );
+  const confidence = computeCalibratedConfidence({
+    labelVerifiedRatio: labelCheck.verifiedRatio,
+    citedLabelCount: citedLabels.length,
+    // 引用ラベルが照合したOCR行の認識スコア（旧evidenceやLLM-OCRでは null）
+    ocrConfidence: meanOcrScore(labelCheck.citedLines.map((cited) => cited.line)),
+    hasTranscript,
+  });
+
+  const warnings: string[] = [];
+  const reviewReasons: ReviewReasonCode[] = [];
+  if (labelCheck.unverified.length > 0) {
+    warnings.push(`OCRで確認できないUIラベル引用: ${labelCheck.unverified.join(", ")}`);
+    reviewReasons.push("verification:unverified_ui_label");
+  }
+  const stepNeedsReview = needsReview(confidence, labelCheck.unverified.length);
+  if (stepNeedsReview && confidence < 0.5) {
+    reviewReasons.push("verification:low_confidence");
+  }
+
+  const styleViolations = options.styleGuide
+    ? findStyleGuideViolations(step, options.styleGuide, options.language)
+    : [];
+  if (styleViolations.length > 0) {
+    warnings.push(...styleViolations);
+    reviewReasons.push("style:guide_violation");
+  }
+
+  return {
+    confidence,
+    needsReview: stepNeedsReview || styleViolations.length > 0,
+    review_reasons: Array.from(new Set(reviewReasons)),
+    warnings,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * 証拠抽出結果の比較CLI — 閾値調整前後の evidence.json を比べる
+ *
+ * 使用方法:
+ *   pnpm evidence:diff -- --base ./outputs/before/evidence.json --target ./outputs/after/evidence.json
+ *   オプション: --json（差分レポートをJSONで出力） --out <path>（標準出力の代わりにファイルへ書く）
+ *             --min-overlap 0.3（同じ操作とみなす操作区間の重なり率）
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { diffEvidenceArtifacts, formatEvidenceDiff } from "../evidence/diff";
+import {
+  parseEvidenceArtifact,
+  type EvidenceArtifact,
+} from "../evidence/types";
+
+function parseArgs(argv: string[]): {
+  values: Record<string, string>;
+  flags: Set<string>;
+} {
+  const values: Record<string, string> = {};
+  const flags = new Set<string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    if (argv[i + 1] && !argv[i + 1].startsWith("--")) {
+      values[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    } else {
+      flags.add(argv[i].slice(2));
+    }
+  }
+  return { values, flags };
+}
+
+async function readArtifact(filePath: string): Promise<EvidenceArtifact> {
+  const raw = await fs.readFile(path.resolve(filePath), "utf8");
+  try {
+    return parseEvidenceArtifact(JSON.parse(raw));
+  } catch (error) {
+    throw new Error(
+      `evidence.json として読み込めません: ${filePath}（${error instanceof Error ? error.message : String(error)}）`
+    );
+  }
+}
+
+async function main() {
+  const { values, flags } = parseArgs(process.argv.slice(2));
+  if (!values.base || !values.target) {
+    console.error(
+      "--base <evidence.json> と --target <evidence.json> を指定してください"
+    );
+    process.exit(1);
+  }
+
+  const base = await readArtifact(values.base);
+  const target = await readArtifact(values.target);
+  const report = diffEvidenceArtifacts(
+    base,
+    target,
+    values["min-overlap"]
+      ? { minOverlapRatio: Number(values["min-overlap"]) }
+      : {}
+  );
+
+  const output = flags.has("json")
+    ? `${JSON.stringify(report, null, 2)}\n`
+    : `${formatEvidenceDiff(report)}\n`;
+  if (values.out) {
+    await fs.mkdir(path.dirname(path.resolve(values.out)), { recursive: true });
+    await fs.writeFile(values.out, output);
+    console.log(`出力: ${values.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.stack : error);
+  process.exit(1);
+});
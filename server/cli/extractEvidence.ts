@@ -4,6 +4,13 @@
  * 使用方法:
  *   pnpm evidence:extract -- --video ./sample.mp4 --outdir ./outputs/evidence
  *   オプション: --fps 4 --ocr-provider engine|llm|none --asr-provider none|openai|local_whisper
+ *             --cursor on|off（ポインタ追跡とクリック推定）
+ *             --ignore "x,y,w,h;x,y,w,h"（差分・OCRフォーカスから除外する正規化矩形）
+ *             --crop "x,y,w,h"（この領域だけを抽出対象にする。未指定なら差分の分布から候補を提案）
+ *             --typed-text on|off（タイピング区間の入力値復元） --mask-typed secrets|all|none（入力値のマスク）
+ *             --refine on|off（操作の開始・終了時刻を元動画のフレームレートで補正）
+ *             --strategy pixel-diff|ssim|hybrid（変化信号の計算方法）
+ *             --out <path>（evidence.json の出力先。戦略比較では evidence.<strategy>.json として並べる）
  *
  * 出力:
  *   <outdir>/evidence.json
@@ -13,6 +20,8 @@
 import fs from "fs/promises";
 import path from "path";
 import { extractEvidence } from "../evidence/extract";
+import type { NormalizedRect } from "../evidence/segmentation";
+import { SEGMENTATION_STRATEGY_NAMES, type SegmentationStrategyName } from "../evidence/strategies";
 import { getSharedOcrEngine } from "../_core/ocrEngine";
 import type { ENV } from "../_core/env";
 
@@ -27,6 +36,30 @@ function parseArgs(argv: string[]): Record<string, string> {
   return args;
 }
 
+function parseRect(part: string, flag: string): NormalizedRect {
+  const [x, y, w, h] = part.split(",").map(Number);
+  if ([x, y, w, h].some(n => !Number.isFinite(n))) {
+    throw new Error(`${flag} の形式が不正です: ${part}（x,y,w,h を正規化座標で指定）`);
+  }
+  return { x, y, w, h };
+}
+
+/** "x,y,w,h;x,y,w,h" 形式の除外矩形を解釈する */
+function parseIgnoreRegions(value: string): NormalizedRect[] {
+  return value
+    .split(";")
+    .filter(part => part.trim().length > 0)
+    .map(part => parseRect(part, "--ignore"));
+}
+
+function parseStrategy(value: string): SegmentationStrategyName {
+  const name = SEGMENTATION_STRATEGY_NAMES.find(candidate => candidate === value);
+  if (!name) {
+    throw new Error(`--strategy の値が不正です: ${value}（${SEGMENTATION_STRATEGY_NAMES.join(" / ")}）`);
+  }
+  return name;
+}
+
 async function main() {
   const args = parseArgs(process.argv.slice(2));
   const videoPath = args.video;
@@ -43,21 +76,47 @@ async function main() {
   const { artifact } = await extractEvidence(path.resolve(videoPath), {
     framesDir: path.resolve(framesDir),
     sampleFps: args.fps ? Number(args.fps) : undefined,
+    segmentationStrategy: args.strategy ? parseStrategy(args.strategy) : undefined,
     ocrProvider: (args["ocr-provider"] as typeof ENV.ocrProvider) ?? undefined,
     asrProvider: (args["asr-provider"] as typeof ENV.asrProvider) ?? undefined,
+    cursorTracking: args.cursor ? args.cursor !== "off" : undefined,
+    ignoreRegions: args.ignore ? parseIgnoreRegions(args.ignore) : undefined,
+    cropRegion: args.crop ? parseRect(args.crop, "--crop") : undefined,
+    typedTextReconstruction: args["typed-text"] ? args["typed-text"] !== "off" : undefined,
+    typedTextMasking: (args["mask-typed"] as typeof ENV.evidenceTypedTextMasking) ?? undefined,
+    boundaryRefinement: args.refine ? args.refine !== "off" : undefined,
     onProgress: (ratio, message) => {
       process.stdout.write(`\r[${Math.round(ratio * 100).toString().padStart(3)}%] ${message}        `);
     },
   });
   process.stdout.write("\n");
 
-  const outPath = path.join(outdir, "evidence.json");
-  await fs.mkdir(outdir, { recursive: true });
+  const outPath = args.out ? path.resolve(args.out) : path.join(outdir, "evidence.json");
+  await fs.mkdir(path.dirname(outPath), { recursive: true });
   await fs.writeFile(outPath, `${JSON.stringify(artifact, null, 2)}\n`);
 
-  console.log(`セグメント数: ${artifact.segments.length}`);
+  console.log(`セグメント数: ${artifact.segments.length}（戦略: ${artifact.config.segmentation_strategy}）`);
   console.log(`OCRプロバイダー: ${artifact.config.ocr_provider}（engine: ${artifact.config.ocr_engine ?? "-"}）`);
   console.log(`ASRプロバイダー: ${artifact.config.asr_provider}`);
+  const clickCount = artifact.segments.reduce(
+    (sum, segment) => sum + (segment.cursor?.clicks.length ?? 0),
+    0,
+  );
+  console.log(`クリック推定: ${artifact.config.cursor_tracking ? `${clickCount}件` : "無効"}`);
+  const typedSegments = artifact.segments.filter(segment => segment.typed_text);
+  console.log(
+    `入力値復元: ${artifact.config.typed_text_reconstruction ? `${typedSegments.length}件（うちマスク${typedSegments.filter(segment => segment.typed_text?.masked).length}件）` : "無効"}`,
+  );
+  const refinedSegments = artifact.segments.filter(segment => segment.boundary_refinement);
+  console.log(
+    `境界補正: ${artifact.config.boundary_refinement ? `${refinedSegments.length}件` : "無効"}`,
+  );
+  const suggested = artifact.config.suggested_crop_region;
+  if (suggested) {
+    console.log(
+      `クロップ候補: --crop "${[suggested.x, suggested.y, suggested.w, suggested.h].join(",")}"（変化の大半がこの領域に集中しています）`,
+    );
+  }
   console.log(`処理時間: ${((Date.now() - started) / 1000).toFixed(1)}s`);
   console.log(`出力: ${outPath}`);
 
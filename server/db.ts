@@ -147,6 +147,12 @@ export async function updateProjectError(id: number, errorMessage: string) {
   }).where(eq(projects.id, id));
 }
 
+export async function updateProjectSettings(id: number, settings: string | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(projects).set({ settings }).where(eq(projects.id, id));
+}
+
 // Frame queries
 export async function createFrame(data: InsertFrame) {
   const db = await getDb();
@@ -266,6 +272,12 @@ export async function reorderSteps(projectId: number, stepIds: number[]) {
   }
 }
 
+export async function deleteFrame(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(frames).where(eq(frames.id, id));
+}
+
 // 再試行機能用のヘルパー関数
 export async function deleteFramesByProjectId(projectId: number) {
   const db = await getDb();
@@ -10,10 +10,13 @@
  *   pnpm eval -- --steps path/to/steps.json --case <case-id>     # 任意のsteps.jsonを単発評価
  *   pnpm eval -- --evidence path/to/evidence.json --case <case-id> # セグメント境界Recallのみ
  *   pnpm eval -- --save-baseline               # 今回の結果を eval/baseline.json として保存
+ *   pnpm eval -- --compare-strategies          # セグメンテーション戦略ごとの境界Recallを横並びで比較
  *
  * 生成物の置き場所（デフォルトモード）:
  *   eval/results/generated/<case-id>/steps.json     … パイプライン出力（artifact v1/v2）
  *   eval/results/generated/<case-id>/evidence.json  … 証拠抽出出力（Phase 1以降）
+ *   eval/results/generated/<case-id>/evidence.<strategy>.json … 戦略比較用の証拠抽出出力
+ *     （pnpm evidence:extract -- --strategy ssim --out .../evidence.ssim.json）
  *   実パイプラインでの生成には DB と LLM APIキーが必要（CLI: pnpm pipeline:generate）。
  */
 
@@ -190,6 +193,72 @@ async function evaluateCase(
   return metrics;
 }
 
+/** 戦略比較の1ケース分: 戦略名 → 境界Recall */
+interface StrategyComparisonRow {
+  caseId: string;
+  byStrategy: Record<
+    string,
+    { recall: number; matchedBoundaries: number; totalBoundaries: number }
+  >;
+}
+
+/**
+ * ケースの生成物ディレクトリにある evidence.json / evidence.<strategy>.json を読み、
+ * config.segmentation_strategy ごとに境界Recallを計算する（未記録は pixel-diff）。
+ */
+async function compareStrategiesForCase(caseId: string): Promise<StrategyComparisonRow> {
+  const gt = await readJson<GroundTruthFile>(
+    path.join(DATASET_DIR, caseId, "ground_truth.json"),
+  );
+  const caseDir = path.join(GENERATED_DIR, caseId);
+  const files = (await fs.readdir(caseDir).catch(() => []))
+    .filter((name) => /^evidence(\.[\w-]+)?\.json$/.test(name))
+    .sort();
+  const row: StrategyComparisonRow = { caseId, byStrategy: {} };
+  for (const file of files) {
+    const evidence = await readJson<{ config?: { segmentation_strategy?: string } }>(
+      path.join(caseDir, file),
+    );
+    const strategy = evidence.config?.segmentation_strategy ?? "pixel-diff";
+    if (row.byStrategy[strategy]) continue;
+    row.byStrategy[strategy] = computeBoundaryRecall(
+      extractSegmentBoundaries(evidence),
+      gt.steps,
+    );
+  }
+  return row;
+}
+
+function printStrategyTable(rows: StrategyComparisonRow[]) {
+  const strategies = Array.from(
+    new Set(rows.flatMap((row) => Object.keys(row.byStrategy))),
+  ).sort();
+  console.log("");
+  console.log("case".padEnd(28), ...strategies.map((name) => name.padEnd(12)));
+  console.log("-".repeat(28 + strategies.length * 13));
+  for (const row of rows) {
+    console.log(
+      row.caseId.padEnd(28),
+      ...strategies.map((name) => formatPercent(row.byStrategy[name]?.recall).padEnd(12)),
+    );
+  }
+  // 平均は全戦略の結果がそろったケースだけで取る（欠けたケースで有利不利が出ないように）
+  const complete = rows.filter((row) => strategies.every((name) => row.byStrategy[name]));
+  if (complete.length > 0) {
+    console.log("-".repeat(28 + strategies.length * 13));
+    console.log(
+      `平均 (${complete.length}ケース)`.padEnd(28),
+      ...strategies.map((name) =>
+        formatPercent(
+          complete.reduce((sum, row) => sum + row.byStrategy[name].recall, 0) /
+            complete.length,
+        ).padEnd(12),
+      ),
+    );
+  }
+  console.log("");
+}
+
 function formatPercent(value: number | undefined): string {
   return value === undefined ? "  -  " : `${(value * 100).toFixed(1)}%`;
 }
@@ -254,6 +323,29 @@ async function main() {
     process.exit(1);
   }
 
+  if (args["compare-strategies"]) {
+    const rows: StrategyComparisonRow[] = [];
+    for (const caseId of targetCases) {
+      rows.push(await compareStrategiesForCase(caseId));
+    }
+    if (rows.every((row) => Object.keys(row.byStrategy).length === 0)) {
+      console.error(
+        "比較できる evidence.json がありません（eval/results/generated/<case-id>/evidence.<strategy>.json を配置してください）",
+      );
+      process.exit(1);
+    }
+    printStrategyTable(rows);
+    await fs.mkdir(RESULTS_DIR, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const outPath = path.join(RESULTS_DIR, `strategies-${timestamp}.json`);
+    await fs.writeFile(
+      outPath,
+      `${JSON.stringify({ generated_at: new Date().toISOString(), cases: targetCases, strategies: rows }, null, 2)}\n`,
+    );
+    console.log(`結果を保存: ${path.relative(ROOT, outPath)}`);
+    return;
+  }
+
   const results: CaseMetrics[] = [];
   for (const caseId of targetCases) {
     results.push(
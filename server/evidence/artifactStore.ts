@@ -7,7 +7,11 @@
 
 import { createLogger } from "../_core/logger";
 import { readBinaryFromSource, storageGet, storagePut } from "../storage";
-import { parseEvidenceArtifact, type EvidenceArtifact } from "./types";
+import {
+  EVIDENCE_ARTIFACT_VERSION,
+  parseEvidenceArtifact,
+  type EvidenceArtifact,
+} from "./types";
 
 const logger = createLogger("EvidenceStore");
 
@@ -15,20 +19,81 @@ export function getEvidenceStorageKey(projectId: number): string {
   return `projects/${projectId}/artifacts/evidence.json`;
 }
 
+/** 直前の抽出結果（閾値調整前後の比較用）。1世代だけ保持する */
+export function getPreviousEvidenceStorageKey(projectId: number): string {
+  return `projects/${projectId}/artifacts/evidence.previous.json`;
+}
+
+/**
+ * 上書き前の evidence.json を1世代退避する。
+ * retry で無効化済みのものも中身は残っているので、元のバージョンに戻して退避する。
+ */
+async function archiveCurrentEvidenceArtifact(projectId: number): Promise<void> {
+  let current: Record<string, unknown>;
+  try {
+    const file = await storageGet(getEvidenceStorageKey(projectId));
+    current = JSON.parse(
+      (await readBinaryFromSource(file.url)).toString("utf8"),
+    ) as Record<string, unknown>;
+  } catch {
+    // 初回抽出（ファイルなし）は正常系
+    return;
+  }
+  if (!Array.isArray(current.segments)) return;
+
+  const { invalidated_at: _invalidatedAt, invalidated_from_version, ...rest } = current;
+  const archived = {
+    ...rest,
+    version:
+      current.version === "invalidated"
+        ? (invalidated_from_version ?? EVIDENCE_ARTIFACT_VERSION)
+        : current.version,
+  };
+  try {
+    await storagePut(
+      getPreviousEvidenceStorageKey(projectId),
+      JSON.stringify(archived, null, 2),
+      "application/json",
+    );
+  } catch (error) {
+    // 退避に失敗しても新しい抽出結果の保存は止めない
+    logger.warn("直前の evidence.json の退避に失敗しました", {
+      projectId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 export async function saveEvidenceArtifact(
   projectId: number,
   artifact: EvidenceArtifact,
 ): Promise<{ key: string; url: string }> {
   const normalized: EvidenceArtifact = { ...artifact, project_id: projectId };
   const key = getEvidenceStorageKey(projectId);
+  await archiveCurrentEvidenceArtifact(projectId);
   return storagePut(key, JSON.stringify(normalized, null, 2), "application/json");
 }
 
 export async function loadEvidenceArtifact(
   projectId: number,
 ): Promise<EvidenceArtifact | null> {
-  const key = getEvidenceStorageKey(projectId);
+  return loadEvidenceArtifactFromKey(projectId, getEvidenceStorageKey(projectId));
+}
+
+/** 直前の抽出結果（なければ null） */
+export async function loadPreviousEvidenceArtifact(
+  projectId: number,
+): Promise<EvidenceArtifact | null> {
+  return loadEvidenceArtifactFromKey(
+    projectId,
+    getPreviousEvidenceStorageKey(projectId),
+  );
+}
 
+async function loadEvidenceArtifactFromKey(
+  projectId: number,
+  key: string,
+): Promise<EvidenceArtifact | null> {
   let raw: string;
   try {
     const file = await storageGet(key);
@@ -49,6 +114,7 @@ export async function loadEvidenceArtifact(
     // パース失敗・未知バージョンはデータ問題なので必ず警告を残す
     logger.warn("evidence.json の読み込みに失敗しました", {
       projectId,
+      key,
       message: error instanceof Error ? error.message : String(error),
     });
     return null;
@@ -61,9 +127,13 @@ export async function invalidateEvidenceArtifact(projectId: number): Promise<voi
   try {
     const file = await storageGet(key);
     const raw = (await readBinaryFromSource(file.url)).toString("utf8");
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
     const invalidated = {
-      ...(JSON.parse(raw) as Record<string, unknown>),
+      ...parsed,
       version: "invalidated",
+      // 次の抽出時に直前の結果として退避できるよう元のバージョンを残す
+      invalidated_from_version:
+        parsed.version === "invalidated" ? parsed.invalidated_from_version : parsed.version,
       invalidated_at: new Date().toISOString(),
     };
     await storagePut(key, JSON.stringify(invalidated, null, 2), "application/json");
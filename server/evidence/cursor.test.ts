@@ -0,0 +1,295 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignCursorToSegments,
+  buildArrowCursorTemplate,
+  matchCursorTemplate,
+  splitSegmentsAtClicks,
+  trackCursor,
+  type CursorClick,
+  type CursorTemplate,
+} from "./cursor";
+import {
+  computeDiffTimeline,
+  type GrayFrame,
+  type OperationSegment,
+} from "./segmentation";
+
+const W = 120;
+const H = 60;
+const template = buildArrowCursorTemplate(7);
+
+/** 背景にテンプレート形状のポインタ（輪郭=黒 / 塗り=白）を描く */
+function frameWithCursor(
+  x: number,
+  y: number,
+  background = 128,
+  cursor: CursorTemplate = template
+): GrayFrame {
+  const pixels = Buffer.alloc(W * H, background);
+  for (let ty = 0; ty < cursor.height; ty++) {
+    for (let tx = 0; tx < cursor.width; tx++) {
+      const kind = cursor.mask[ty * cursor.width + tx];
+      if (kind === 0) continue;
+      pixels[(y + ty) * W + (x + tx)] = kind === 1 ? 0 : 255;
+    }
+  }
+  return { pixels };
+}
+
+function withRect(
+  base: GrayFrame,
+  rect: { x: number; y: number; w: number; h: number },
+  value: number
+): GrayFrame {
+  const pixels = Buffer.from(base.pixels);
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      pixels[y * W + x] = value;
+    }
+  }
+  return { pixels };
+}
+
+describe("matchCursorTemplate", () => {
+  it("ポインタ位置で高スコア、平坦な背景では0", () => {
+    const frame = frameWithCursor(30, 20);
+    expect(
+      matchCursorTemplate(frame.pixels, W, H, template, 30, 20)
+    ).toBeGreaterThan(0.9);
+    expect(matchCursorTemplate(frame.pixels, W, H, template, 80, 40)).toBe(0);
+  });
+
+  it("画面外にはみ出す位置は0", () => {
+    const frame = frameWithCursor(30, 20);
+    expect(matchCursorTemplate(frame.pixels, W, H, template, W - 1, 0)).toBe(0);
+  });
+});
+
+describe("trackCursor", () => {
+  it("移動するポインタを追跡し、停止をクリック候補として記録する", () => {
+    // fps=4: 移動 3フレーム → 停止 4フレーム（1000ms）
+    const frames = [
+      frameWithCursor(10, 10),
+      frameWithCursor(16, 14),
+      frameWithCursor(22, 18),
+      frameWithCursor(28, 22),
+      frameWithCursor(28, 22),
+      frameWithCursor(28, 22),
+      frameWithCursor(28, 22),
+    ];
+    const diffs = computeDiffTimeline(frames, W, H);
+    const track = trackCursor(frames, diffs, W, H, { fps: 4 });
+
+    expect(track.samples).toHaveLength(frames.length);
+    expect(track.samples[3].x).toBeCloseTo(28 / W);
+    expect(track.samples[3].y).toBeCloseTo(22 / H);
+    expect(track.clicks).toHaveLength(1);
+    expect(track.clicks[0]).toMatchObject({
+      tMs: 750,
+      confidence: 0.5,
+      screenChanged: false,
+    });
+  });
+
+  it("停止中にポインタ近傍の画面変化があればconfidenceを上げる", () => {
+    const still = frameWithCursor(28, 22);
+    const changed = withRect(still, { x: 33, y: 24, w: 6, h: 4 }, 220);
+    const frames = [
+      frameWithCursor(10, 10),
+      frameWithCursor(20, 16),
+      still,
+      changed,
+      changed,
+      changed,
+    ];
+    const diffs = computeDiffTimeline(frames, W, H);
+    const track = trackCursor(frames, diffs, W, H, { fps: 4 });
+
+    expect(track.clicks).toHaveLength(1);
+    expect(track.clicks[0].screenChanged).toBe(true);
+    expect(track.clicks[0].confidence).toBe(0.8);
+  });
+
+  it("一度も動かないポインタはクリック扱いしない", () => {
+    const frames = Array.from({ length: 6 }, () => frameWithCursor(28, 22));
+    const diffs = computeDiffTimeline(frames, W, H);
+    const track = trackCursor(frames, diffs, W, H, { fps: 4 });
+
+    expect(track.samples.length).toBeGreaterThan(0);
+    expect(track.clicks).toEqual([]);
+  });
+
+  it("ポインタが無い動画ではサンプルもクリックも空", () => {
+    const frames = Array.from({ length: 4 }, () => ({
+      pixels: Buffer.alloc(W * H, 128),
+    }));
+    const track = trackCursor(frames, computeDiffTimeline(frames, W, H), W, H, {
+      fps: 4,
+    });
+    expect(track).toEqual({ samples: [], clicks: [] });
+  });
+});
+
+describe("assignCursorToSegments", () => {
+  const segments = [
+    { tStartMs: 0, tEndMs: 1000 },
+    { tStartMs: 1000, tEndMs: 3000 },
+  ];
+
+  it("クリックと位置を時刻の属するセグメントへ割り当てる", () => {
+    const result = assignCursorToSegments(segments, {
+      samples: [
+        { index: 1, tMs: 250, x: 0.1, y: 0.2, score: 0.9 },
+        { index: 5, tMs: 1250, x: 0.4, y: 0.5, score: 0.9 },
+      ],
+      clicks: [
+        { tMs: 1250, x: 0.4, y: 0.5, confidence: 0.5, screenChanged: false },
+      ],
+    });
+
+    expect(result[0]).toEqual({
+      positions: [{ t: 250, x: 0.1, y: 0.2 }],
+      clicks: [],
+    });
+    expect(result[1]?.clicks).toEqual([
+      { t: 1250, x: 0.4, y: 0.5, confidence: 0.5, screen_changed: false },
+    ]);
+  });
+
+  it("最終セグメント以降の時刻は最終セグメントへ寄せ、情報がなければ null", () => {
+    const result = assignCursorToSegments(segments, {
+      samples: [{ index: 20, tMs: 5000, x: 0.3, y: 0.3, score: 0.9 }],
+      clicks: [],
+    });
+    expect(result[0]).toBeNull();
+    expect(result[1]?.positions).toEqual([{ t: 5000, x: 0.3, y: 0.3 }]);
+  });
+
+  it("静止中の重複位置を間引く", () => {
+    const samples = Array.from({ length: 5 }, (_, i) => ({
+      index: i,
+      tMs: i * 250,
+      x: 0.5,
+      y: 0.5,
+      score: 0.9,
+    }));
+    const result = assignCursorToSegments([{ tStartMs: 0, tEndMs: 2000 }], {
+      samples,
+      clicks: [],
+    });
+    expect(result[0]?.positions).toEqual([{ t: 0, x: 0.5, y: 0.5 }]);
+  });
+});
+
+describe("splitSegmentsAtClicks", () => {
+  /** 遷移開始 transitionStartMs の操作セグメント */
+  function operation(
+    tStartMs: number,
+    transitionStartMs: number,
+    tEndMs: number
+  ): OperationSegment {
+    return {
+      tStartMs,
+      tEndMs,
+      transitionStartMs,
+      beforeFrameIndex: transitionStartMs / 250 - 1,
+      afterFrameIndex: tEndMs / 250,
+      changedBBox: { x: 0.5, y: 0.5, w: 0.2, h: 0.2 },
+      coalescedFrom: 1,
+      activity: "action",
+    };
+  }
+
+  function click(tMs: number): CursorClick {
+    return { tMs, x: 0.3, y: 0.4, confidence: 0.5, screenChanged: false };
+  }
+
+  it("画面が変わらないクリックは遷移前の安定区間を切ってクリックだけのセグメントにする", () => {
+    // 移動して入力欄の上で止まるだけで、画面には何も変化がない
+    const frames = [
+      frameWithCursor(10, 10),
+      frameWithCursor(16, 14),
+      frameWithCursor(22, 18),
+      frameWithCursor(28, 22),
+      frameWithCursor(28, 22),
+      frameWithCursor(28, 22),
+      frameWithCursor(28, 22),
+    ];
+    const track = trackCursor(frames, computeDiffTimeline(frames, W, H), W, H, {
+      fps: 4,
+    });
+    expect(track.clicks).toMatchObject([{ tMs: 750, screenChanged: false }]);
+
+    const segment = operation(0, 3000, 3500);
+    const result = splitSegmentsAtClicks([segment], track.clicks, 250);
+
+    expect(result).toEqual([
+      {
+        segment: {
+          tStartMs: 0,
+          tEndMs: 1000,
+          transitionStartMs: 750,
+          beforeFrameIndex: 2,
+          afterFrameIndex: 3,
+          changedBBox: null,
+          coalescedFrom: 1,
+          activity: "action",
+        },
+        sourceIndex: null,
+      },
+      { segment: { ...segment, tStartMs: 1000 }, sourceIndex: 0 },
+    ]);
+    const cursors = assignCursorToSegments(
+      result.map(entry => entry.segment),
+      track
+    );
+    expect(cursors[0]?.clicks).toMatchObject([
+      { t: 750, screen_changed: false },
+    ]);
+    expect(cursors[1]?.clicks).toEqual([]);
+  });
+
+  it("遷移中や遷移の直前のクリックは遷移の操作とみなして分割しない", () => {
+    const segments = [operation(0, 3000, 3500), operation(3500, 6000, 6500)];
+    const result = splitSegmentsAtClicks(
+      segments,
+      [click(2250), click(3250), click(5500)],
+      250
+    );
+    expect(result).toEqual([
+      { segment: segments[0], sourceIndex: 0 },
+      { segment: segments[1], sourceIndex: 1 },
+    ]);
+  });
+
+  it("1区間の複数クリックは順に切り、最終セグメント以降のクリックは末尾へ追加する", () => {
+    const segments = [operation(0, 5000, 5500)];
+    const result = splitSegmentsAtClicks(
+      segments,
+      [click(7000), click(2000), click(500)],
+      250
+    );
+    expect(
+      result.map(({ segment, sourceIndex }) => [
+        segment.tStartMs,
+        segment.tEndMs,
+        sourceIndex,
+      ])
+    ).toEqual([
+      [0, 750, null],
+      [750, 2250, null],
+      [2250, 5500, 0],
+      [5500, 7250, null],
+    ]);
+  });
+
+  it("セグメントのない動画でもクリックごとにセグメントを作る", () => {
+    const result = splitSegmentsAtClicks([], [click(1000)], 250);
+    expect(result).toMatchObject([
+      {
+        segment: { tStartMs: 0, tEndMs: 1250, transitionStartMs: 1000 },
+        sourceIndex: null,
+      },
+    ]);
+  });
+});
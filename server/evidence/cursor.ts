@@ -0,0 +1,552 @@
+/**
+ * カーソル追跡とクリック推定（Phase 1 補助信号）
+ *
+ * 一様サンプリングしたグレースケールフレーム列から、テンプレートマッチングで
+ * マウスポインタの位置を追跡し、「移動 → 停止（dwell）」をクリック候補として記録する。
+ * 画面変化を伴わないクリック（既にフォーカス済みの入力欄の再クリック等）は
+ * ピクセル差分のセグメンテーションでは検出できないため、独立した信号として扱い、
+ * 画面遷移と対応しないクリックはクリックだけの操作セグメントとして追加する。
+ *
+ * 探索は「直前位置の近傍」と「フレーム差分の小領域」に限定し、
+ * 全画面探索は見失い時の再捕捉にだけ使う（長尺でも計算量を抑えるため）。
+ * すべて純関数（ファイルI/O・ffmpeg非依存）でテスト可能。
+ */
+
+import {
+  rectsIntersect,
+  type FrameDiff,
+  type GrayFrame,
+  type NormalizedRect,
+  type OperationSegment,
+} from "./segmentation";
+
+export interface CursorTemplate {
+  width: number;
+  height: number;
+  /** 0=透過 / 1=輪郭（暗） / 2=塗り（明）。width*height 要素 */
+  mask: Uint8Array;
+}
+
+export interface CursorTrackingOptions {
+  /** サンプリングfps（インデックス→時刻変換用） */
+  fps: number;
+  template: CursorTemplate;
+  /** ポインタとみなすマッチングスコアの下限（0..1） */
+  minScore: number;
+  /** 直前位置からの探索半径（サンプル解像度のpx） */
+  searchRadiusPx: number;
+  /** ポインタ移動由来とみなすフレーム差分bboxの最大面積比（大きな画面遷移は探索窓にしない） */
+  motionMaxAreaRatio: number;
+  /** 見失い時に全画面探索で再捕捉する間隔（フレーム数） */
+  reacquireIntervalFrames: number;
+  /** 停止とみなす位置ずれの許容量（px） */
+  moveTolerancePx: number;
+  /** クリック候補とみなす最短停止時間（ms） */
+  dwellMs: number;
+  /** 停止の直前に必要な最小移動量（px）。静止したままのポインタをクリック扱いしない */
+  minTravelPx: number;
+  /** クリック候補周辺の画面変化判定に使うパディング（正規化座標） */
+  clickChangePadRatio: number;
+}
+
+/** 追跡結果の1サンプル（座標はポインタ先端の正規化座標） */
+export interface CursorSample {
+  index: number;
+  tMs: number;
+  x: number;
+  y: number;
+  score: number;
+}
+
+export interface CursorClick {
+  tMs: number;
+  x: number;
+  y: number;
+  /** 停止のみ: 0.5 / 停止中にポインタ近傍の画面変化あり: 0.8 */
+  confidence: number;
+  /** 停止中にポインタ近傍で画面変化が起きたか */
+  screenChanged: boolean;
+}
+
+export interface CursorTrack {
+  samples: CursorSample[];
+  clicks: CursorClick[];
+}
+
+/** evidence.json のセグメント単位に割り当てたカーソル情報 */
+export interface SegmentCursor {
+  positions: Array<{ t: number; x: number; y: number }>;
+  clicks: Array<{
+    t: number;
+    x: number;
+    y: number;
+    confidence: number;
+    screen_changed: boolean;
+  }>;
+}
+
+/** 1セグメントに記録する位置サンプルの上限（evidence.json の肥大化防止） */
+export const MAX_CURSOR_POSITIONS_PER_SEGMENT = 24;
+
+/** クリックから画面遷移の開始までの許容時間（ms）。これより前のクリックは遷移と対応しない */
+export const CLICK_TRANSITION_MATCH_MS = 1000;
+
+/**
+ * 標準的な矢印ポインタのテンプレートを作る。
+ * 既定の高さ7pxは 320x180 サンプリングにフルHD録画の標準ポインタを縮小した大きさに相当する。
+ */
+export function buildArrowCursorTemplate(height = 7): CursorTemplate {
+  const h = Math.max(4, Math.round(height));
+  const maxRowWidth = Math.ceil(h * 0.6);
+  const width = maxRowWidth;
+  const mask = new Uint8Array(width * h);
+  for (let row = 0; row < h; row++) {
+    const rowWidth = Math.min(row + 1, maxRowWidth);
+    for (let col = 0; col < rowWidth; col++) {
+      const outline = col === 0 || col === rowWidth - 1 || row === h - 1;
+      mask[row * width + col] = outline ? 1 : 2;
+    }
+  }
+  return { width, height: h, mask };
+}
+
+export const DEFAULT_CURSOR_TRACKING_OPTIONS: Omit<
+  CursorTrackingOptions,
+  "fps"
+> = {
+  template: buildArrowCursorTemplate(),
+  minScore: 0.55,
+  searchRadiusPx: 12,
+  motionMaxAreaRatio: 0.05,
+  reacquireIntervalFrames: 20,
+  moveTolerancePx: 1,
+  dwellMs: 500,
+  minTravelPx: 4,
+  clickChangePadRatio: 0.05,
+};
+
+/**
+ * (x, y) を先端としたテンプレートの一致度（0..1）。
+ * 輪郭が暗く塗りが明るいほど、また各領域の輝度が揃っているほど高い。
+ * 背景色に依存しないよう絶対輝度ではなく輪郭/塗りのコントラストで評価する。
+ */
+export function matchCursorTemplate(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  template: CursorTemplate,
+  x: number,
+  y: number
+): number {
+  if (
+    x < 0 ||
+    y < 0 ||
+    x + template.width > width ||
+    y + template.height > height
+  ) {
+    return 0;
+  }
+
+  let outlineSum = 0;
+  let outlineCount = 0;
+  let fillSum = 0;
+  let fillCount = 0;
+  for (let ty = 0; ty < template.height; ty++) {
+    for (let tx = 0; tx < template.width; tx++) {
+      const kind = template.mask[ty * template.width + tx];
+      if (kind === 0) continue;
+      const value = pixels[(y + ty) * width + (x + tx)];
+      if (kind === 1) {
+        outlineSum += value;
+        outlineCount += 1;
+      } else {
+        fillSum += value;
+        fillCount += 1;
+      }
+    }
+  }
+  if (outlineCount === 0 || fillCount === 0) return 0;
+
+  const outlineMean = outlineSum / outlineCount;
+  const fillMean = fillSum / fillCount;
+  const contrast = (fillMean - outlineMean) / 255;
+  if (contrast <= 0) return 0;
+
+  let deviation = 0;
+  for (let ty = 0; ty < template.height; ty++) {
+    for (let tx = 0; tx < template.width; tx++) {
+      const kind = template.mask[ty * template.width + tx];
+      if (kind === 0) continue;
+      const value = pixels[(y + ty) * width + (x + tx)];
+      deviation += Math.abs(value - (kind === 1 ? outlineMean : fillMean));
+    }
+  }
+  const meanDeviation = deviation / (outlineCount + fillCount) / 255;
+  return Math.max(0, Math.min(1, contrast - meanDeviation));
+}
+
+interface PixelWindow {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+function findBestMatch(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  template: CursorTemplate,
+  windows: PixelWindow[]
+): { x: number; y: number; score: number } | null {
+  let best: { x: number; y: number; score: number } | null = null;
+  for (const window of windows) {
+    const x0 = Math.max(0, window.x0);
+    const y0 = Math.max(0, window.y0);
+    const x1 = Math.min(width - template.width, window.x1);
+    const y1 = Math.min(height - template.height, window.y1);
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const score = matchCursorTemplate(
+          pixels,
+          width,
+          height,
+          template,
+          x,
+          y
+        );
+        if (!best || score > best.score) {
+          best = { x, y, score };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+function rectToWindow(
+  rect: NormalizedRect,
+  width: number,
+  height: number,
+  template: CursorTemplate
+): PixelWindow {
+  return {
+    x0: Math.floor(rect.x * width) - template.width,
+    y0: Math.floor(rect.y * height) - template.height,
+    x1: Math.ceil((rect.x + rect.w) * width),
+    y1: Math.ceil((rect.y + rect.h) * height),
+  };
+}
+
+/** フレームを逐次投入するポインタ追跡器（ストリーミング抽出用。フレーム自体は保持しない） */
+export interface CursorTracker {
+  /** frameIndex 番目のフレームと、その直前フレームとの差分（先頭フレームは undefined）を投入する */
+  push(frame: GrayFrame, frameIndex: number, diff: FrameDiff | undefined): void;
+  /** 入力終了。diffs は computeDiffTimeline の結果（クリック周辺の画面変化判定に使う） */
+  finish(diffs: FrameDiff[]): CursorTrack;
+}
+
+export function createCursorTracker(
+  width: number,
+  height: number,
+  options: Partial<CursorTrackingOptions> & Pick<CursorTrackingOptions, "fps">
+): CursorTracker {
+  const opts: CursorTrackingOptions = {
+    ...DEFAULT_CURSOR_TRACKING_OPTIONS,
+    ...options,
+  };
+  const template = opts.template;
+  const frameMs = 1000 / opts.fps;
+
+  const samples: CursorSample[] = [];
+  let last: { x: number; y: number } | null = null;
+  let lostSince = 0;
+
+  return {
+    push(frame, i, diff) {
+      const windows: PixelWindow[] = [];
+      if (last) {
+        windows.push({
+          x0: last.x - opts.searchRadiusPx,
+          y0: last.y - opts.searchRadiusPx,
+          x1: last.x + opts.searchRadiusPx,
+          y1: last.y + opts.searchRadiusPx,
+        });
+      }
+      if (
+        diff?.changedBBox &&
+        diff.changedBBox.w * diff.changedBBox.h <= opts.motionMaxAreaRatio
+      ) {
+        windows.push(rectToWindow(diff.changedBBox, width, height, template));
+      }
+      if (!last && (i === 0 || i - lostSince >= opts.reacquireIntervalFrames)) {
+        windows.push({ x0: 0, y0: 0, x1: width, y1: height });
+        lostSince = i;
+      }
+      if (windows.length === 0) return;
+
+      const best = findBestMatch(
+        frame.pixels,
+        width,
+        height,
+        template,
+        windows
+      );
+      if (best && best.score >= opts.minScore) {
+        last = { x: best.x, y: best.y };
+        samples.push({
+          index: i,
+          tMs: Math.round(i * frameMs),
+          x: best.x / width,
+          y: best.y / height,
+          score: best.score,
+        });
+      } else if (last) {
+        last = null;
+        lostSince = i;
+      }
+    },
+    finish(diffs) {
+      return {
+        samples,
+        clicks: detectCursorClicks(samples, diffs, width, height, opts),
+      };
+    },
+  };
+}
+
+/**
+ * フレーム列全体でポインタを追跡し、クリック候補を推定する（createCursorTracker のバッチ版）。
+ * diffs は computeDiffTimeline の結果（diffs[i].index = 後フレーム側のインデックス）。
+ */
+export function trackCursor(
+  frames: GrayFrame[],
+  diffs: FrameDiff[],
+  width: number,
+  height: number,
+  options: Partial<CursorTrackingOptions> & Pick<CursorTrackingOptions, "fps">
+): CursorTrack {
+  const tracker = createCursorTracker(width, height, options);
+  const diffByIndex = new Map(diffs.map(diff => [diff.index, diff]));
+  frames.forEach((frame, i) => tracker.push(frame, i, diffByIndex.get(i)));
+  return tracker.finish(diffs);
+}
+
+/**
+ * 追跡サンプルからクリック候補を推定する。
+ * 連続フレームで位置がほぼ動かない区間が dwellMs 以上続き、
+ * その直前に minTravelPx 以上の移動があれば、停止開始時刻をクリック候補とする。
+ */
+export function detectCursorClicks(
+  samples: CursorSample[],
+  diffs: FrameDiff[],
+  width: number,
+  height: number,
+  options: Pick<
+    CursorTrackingOptions,
+    | "fps"
+    | "moveTolerancePx"
+    | "dwellMs"
+    | "minTravelPx"
+    | "clickChangePadRatio"
+  >
+): CursorClick[] {
+  const frameMs = 1000 / options.fps;
+  const dwellFrames = Math.max(1, Math.ceil(options.dwellMs / frameMs));
+  const clicks: CursorClick[] = [];
+
+  const toPx = (sample: CursorSample) => ({
+    x: sample.x * width,
+    y: sample.y * height,
+  });
+  const distance = (a: CursorSample, b: CursorSample) => {
+    const pa = toPx(a);
+    const pb = toPx(b);
+    return Math.hypot(pa.x - pb.x, pa.y - pb.y);
+  };
+
+  let travelOrigin: CursorSample | null = samples[0] ?? null;
+  let i = 0;
+  while (i < samples.length) {
+    const anchor = samples[i];
+    let end = i;
+    while (
+      end + 1 < samples.length &&
+      samples[end + 1].index === samples[end].index + 1 &&
+      distance(samples[end + 1], anchor) <= options.moveTolerancePx
+    ) {
+      end += 1;
+    }
+
+    const dwellLength = samples[end].index - anchor.index + 1;
+    const traveled =
+      travelOrigin !== null &&
+      distance(anchor, travelOrigin) >= options.minTravelPx;
+    if (dwellLength >= dwellFrames && traveled) {
+      const pointRect: NormalizedRect = {
+        x: anchor.x - options.clickChangePadRatio,
+        y: anchor.y - options.clickChangePadRatio,
+        w: options.clickChangePadRatio * 2,
+        h: options.clickChangePadRatio * 2,
+      };
+      const screenChanged = diffs.some(
+        diff =>
+          diff.index > anchor.index &&
+          diff.index <= samples[end].index + 1 &&
+          diff.changedBBox !== null &&
+          rectsIntersect(pointRect, diff.changedBBox)
+      );
+      clicks.push({
+        tMs: anchor.tMs,
+        x: anchor.x,
+        y: anchor.y,
+        confidence: screenChanged ? 0.8 : 0.5,
+        screenChanged,
+      });
+      travelOrigin = anchor;
+    } else if (dwellLength >= dwellFrames) {
+      // 移動なしの長い静止は次の移動量の起点だけ更新する
+      travelOrigin = anchor;
+    }
+    i = end + 1;
+  }
+
+  return clicks;
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/** 位置サンプルを移動点だけに間引き、上限を超える場合は等間隔に抜き出す */
+function simplifyPositions(samples: CursorSample[]): CursorSample[] {
+  const moved: CursorSample[] = [];
+  for (const sample of samples) {
+    const previous = moved[moved.length - 1];
+    if (!previous || previous.x !== sample.x || previous.y !== sample.y) {
+      moved.push(sample);
+    }
+  }
+  if (moved.length <= MAX_CURSOR_POSITIONS_PER_SEGMENT) return moved;
+  const step = (moved.length - 1) / (MAX_CURSOR_POSITIONS_PER_SEGMENT - 1);
+  return Array.from(
+    { length: MAX_CURSOR_POSITIONS_PER_SEGMENT },
+    (_, k) => moved[Math.round(k * step)]
+  );
+}
+
+/**
+ * 追跡結果をセグメント区間へ割り当てる（純関数）。
+ * セグメント区間は [tStart, tEnd) で連続しているため、各時刻は1セグメントにだけ属する。
+ * 先頭セグメントより前は先頭へ、最終セグメント以降は最終へ寄せる。
+ */
+export function assignCursorToSegments(
+  segments: Array<{ tStartMs: number; tEndMs: number }>,
+  track: CursorTrack
+): Array<SegmentCursor | null> {
+  if (segments.length === 0) return [];
+
+  const segmentIndexAt = (tMs: number): number => {
+    for (let i = 0; i < segments.length; i++) {
+      if (tMs < segments[i].tEndMs) return i;
+    }
+    return segments.length - 1;
+  };
+
+  const samplesBySegment: CursorSample[][] = segments.map(() => []);
+  for (const sample of track.samples) {
+    samplesBySegment[segmentIndexAt(sample.tMs)].push(sample);
+  }
+  const clicksBySegment: CursorClick[][] = segments.map(() => []);
+  for (const click of track.clicks) {
+    clicksBySegment[segmentIndexAt(click.tMs)].push(click);
+  }
+
+  return segments.map((_, i) => {
+    if (samplesBySegment[i].length === 0 && clicksBySegment[i].length === 0) {
+      return null;
+    }
+    return {
+      positions: simplifyPositions(samplesBySegment[i]).map(sample => ({
+        t: sample.tMs,
+        x: roundRatio(sample.x),
+        y: roundRatio(sample.y),
+      })),
+      clicks: clicksBySegment[i].map(click => ({
+        t: click.tMs,
+        x: roundRatio(click.x),
+        y: roundRatio(click.y),
+        confidence: click.confidence,
+        screen_changed: click.screenChanged,
+      })),
+    };
+  });
+}
+
+/**
+ * 対応する画面遷移のないクリックをクリックだけの操作セグメントにする（純関数）。
+ * 画面変化を伴わないクリックはピクセル差分の境界にならないため、
+ * クリックを含むセグメントの遷移前の安定区間をクリックの直後で切り、前半をクリックのセグメントにする。
+ * 遷移中か遷移開始の CLICK_TRANSITION_MATCH_MS 以内のクリックはその遷移の操作とみなして分割しない。
+ * 最終セグメント以降（セグメントがない動画ではすべて）のクリックは末尾へ追加する。
+ * sourceIndex は元のセグメントの位置（クリックで追加したセグメントは null）。
+ */
+export function splitSegmentsAtClicks(
+  segments: OperationSegment[],
+  clicks: CursorClick[],
+  frameMs: number
+): Array<{ segment: OperationSegment; sourceIndex: number | null }> {
+  const sortedClicks = clicks.slice().sort((a, b) => a.tMs - b.tMs);
+  const result: Array<{
+    segment: OperationSegment;
+    sourceIndex: number | null;
+  }> = [];
+
+  const clickSegment = (
+    click: CursorClick,
+    tStartMs: number
+  ): OperationSegment => {
+    const index = Math.round(click.tMs / frameMs);
+    return {
+      tStartMs,
+      tEndMs: Math.round((index + 1) * frameMs),
+      transitionStartMs: click.tMs,
+      beforeFrameIndex: index > 0 ? index - 1 : null,
+      afterFrameIndex: index,
+      changedBBox: null,
+      coalescedFrom: 1,
+      activity: "action",
+    };
+  };
+
+  let clickIndex = 0;
+  let tStartMs = segments[0]?.tStartMs ?? 0;
+  segments.forEach((segment, sourceIndex) => {
+    tStartMs = Math.max(tStartMs, segment.tStartMs);
+    while (
+      clickIndex < sortedClicks.length &&
+      sortedClicks[clickIndex].tMs < segment.tEndMs
+    ) {
+      const click = sortedClicks[clickIndex];
+      clickIndex += 1;
+      if (
+        click.tMs < tStartMs ||
+        segment.transitionStartMs - click.tMs <= CLICK_TRANSITION_MATCH_MS
+      ) {
+        continue;
+      }
+      const split = clickSegment(click, tStartMs);
+      result.push({ segment: split, sourceIndex: null });
+      tStartMs = split.tEndMs;
+    }
+    result.push({ segment: { ...segment, tStartMs }, sourceIndex });
+    tStartMs = segment.tEndMs;
+  });
+  for (const click of sortedClicks.slice(clickIndex)) {
+    if (click.tMs < tStartMs) continue;
+    const split = clickSegment(click, tStartMs);
+    result.push({ segment: split, sourceIndex: null });
+    tStartMs = split.tEndMs;
+  }
+  return result;
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { diffEvidenceArtifacts, formatEvidenceDiff } from "./diff";
+import type { EvidenceArtifact, EvidenceSegment } from "./types";
+
+function makeSegment(
+  id: string,
+  transitionStart: number,
+  tEnd: number,
+  overrides: Partial<EvidenceSegment> = {}
+): EvidenceSegment {
+  return {
+    segment_id: id,
+    t_start: Math.max(0, transitionStart - 500),
+    t_end: tEnd,
+    transition_start: transitionStart,
+    before_frame: null,
+    after_frame: {
+      t: tEnd,
+      image_key: `frames/${id}.jpg`,
+      image_url: `/frames/${id}.jpg`,
+      frame_id: null,
+    },
+    changed_region_bbox: null,
+    ocr_lines: [],
+    ocr_focus: ["保存"],
+    ocr_line_details: [],
+    ocr_focus_details: [{ text: "保存", bbox: null, score: null }],
+    transcript_snippet: "",
+    coalesced_from: 1,
+    warnings: [],
+    ...overrides,
+  };
+}
+
+function makeEvidence(
+  segments: EvidenceSegment[],
+  config: Partial<EvidenceArtifact["config"]> = {}
+): EvidenceArtifact {
+  return {
+    version: "1.0",
+    project_id: null,
+    video: { duration_ms: 20000, fps_sampled: 4, sha256: "abc" },
+    config: {
+      diff_high: 0.0004,
+      diff_low: 0.00015,
+      stable_frames: 2,
+      coalesce_max_gap_ms: 1000,
+      asr_lead_ms: 3000,
+      asr_provider: "none",
+      ocr_provider: "engine",
+      ocr_engine: "tesseract",
+      ...config,
+    },
+    transcript: { provider: "none", segments: [] },
+    segments,
+    generated_at: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("diffEvidenceArtifacts", () => {
+  it("同じ操作は境界が少しずれても matched とし、OCRフォーカスの変化を拾う", () => {
+    const base = makeEvidence([makeSegment("seg-1", 1000, 2000)]);
+    const target = makeEvidence([
+      makeSegment("seg-1", 1250, 2250, { ocr_focus: ["保存する"] }),
+    ]);
+
+    const report = diffEvidenceArtifacts(base, target);
+
+    expect(report.entries).toHaveLength(1);
+    expect(report.entries[0]).toMatchObject({
+      kind: "matched",
+      shift_ms: { start: 250, end: 250 },
+      ocr_focus: { added: ["保存する"], removed: ["保存"] },
+      warnings: null,
+    });
+    expect(report.summary.ocr_focus_changed).toBe(1);
+  });
+
+  it("重ならないセグメントは added / removed になる", () => {
+    const base = makeEvidence([
+      makeSegment("seg-1", 1000, 2000),
+      makeSegment("seg-2", 5000, 6000),
+    ]);
+    const target = makeEvidence([
+      makeSegment("seg-1", 1000, 2000),
+      makeSegment("seg-2", 9000, 10000),
+    ]);
+
+    const report = diffEvidenceArtifacts(base, target);
+
+    expect(report.entries.map(entry => entry.kind)).toEqual([
+      "matched",
+      "removed",
+      "added",
+    ]);
+    expect(report.entries[1].base_segment_ids).toEqual(["seg-2"]);
+    expect(report.entries[2].target_segment_ids).toEqual(["seg-2"]);
+  });
+
+  it("1つの操作区間に複数が重なれば split、逆は merged", () => {
+    const whole = makeEvidence([makeSegment("seg-1", 1000, 4000)]);
+    const parts = makeEvidence([
+      makeSegment("seg-1", 1000, 2200),
+      makeSegment("seg-2", 2600, 4000, { warnings: ["ocr_empty"] }),
+    ]);
+
+    const split = diffEvidenceArtifacts(whole, parts);
+    expect(split.entries).toHaveLength(1);
+    expect(split.entries[0]).toMatchObject({
+      kind: "split",
+      base_segment_ids: ["seg-1"],
+      target_segment_ids: ["seg-1", "seg-2"],
+      t_start: 1000,
+      t_end: 4000,
+      warnings: { added: ["ocr_empty"], removed: [] },
+    });
+
+    const merged = diffEvidenceArtifacts(parts, whole);
+    expect(merged.entries[0].kind).toBe("merged");
+    expect(merged.summary.merged).toBe(1);
+  });
+
+  it("config の変更と動画の違いを報告する", () => {
+    const base = makeEvidence([], { diff_high: 0.0004 });
+    const target = {
+      ...makeEvidence([], { diff_high: 0.001 }),
+      video: { duration_ms: 20000, fps_sampled: 4, sha256: "other" },
+    };
+
+    const report = diffEvidenceArtifacts(base, target);
+
+    expect(report.same_video).toBe(false);
+    expect(report.config_changes).toEqual([
+      { key: "diff_high", base: 0.0004, target: 0.001 },
+    ]);
+  });
+});
+
+describe("formatEvidenceDiff", () => {
+  it("変化のあったセグメントと設定の変更だけを列挙する", () => {
+    const base = makeEvidence(
+      [makeSegment("seg-1", 1000, 2000), makeSegment("seg-2", 5000, 6000)],
+      { coalesce_max_gap_ms: 1000 }
+    );
+    const target = makeEvidence([makeSegment("seg-1", 1000, 2000)], {
+      coalesce_max_gap_ms: 1500,
+    });
+
+    const text = formatEvidenceDiff(diffEvidenceArtifacts(base, target));
+
+    expect(text).toContain("coalesce_max_gap_ms: 1000 → 1500");
+    expect(text).toContain("概要: 一致 1 / 追加 0 / 削除 1");
+    expect(text).toContain("[削除] 5.00s〜6.00s  seg-2 → -");
+    expect(text).not.toContain("[変更]");
+  });
+
+  it("違いがなければその旨を出す", () => {
+    const evidence = makeEvidence([makeSegment("seg-1", 1000, 2000)]);
+    const text = formatEvidenceDiff(diffEvidenceArtifacts(evidence, evidence));
+    expect(text).toContain("セグメントの違いはありません");
+  });
+});
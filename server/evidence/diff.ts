@@ -0,0 +1,360 @@
+/**
+ * 2回の証拠抽出結果（evidence.json）の比較
+ *
+ * 閾値を調整したときに「どのセグメントが増えた・消えた・割れた・まとまったか」を
+ * JSONを目で追わずに確認するためのもの。セグメントIDは実行ごとに振り直されるため、
+ * 操作区間 [transition_start, t_end] の時間的な重なりで対応づける。
+ * 純関数（ストレージ非依存）。CLI（server/cli/diffEvidence.ts）と tRPC の両方から使う。
+ */
+
+import type { EvidenceArtifact, EvidenceSegment } from "./types";
+
+export type EvidenceDiffKind =
+  | "matched"
+  | "added"
+  | "removed"
+  | "split"
+  | "merged"
+  | "regrouped";
+
+export interface StringSetChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface EvidenceDiffEntry {
+  /**
+   * matched: 1対1 / added: 比較先にだけある / removed: 比較元にだけある /
+   * split: 1つが複数に分かれた / merged: 複数が1つにまとまった / regrouped: 複数対複数
+   */
+  kind: EvidenceDiffKind;
+  base_segment_ids: string[];
+  target_segment_ids: string[];
+  /** 対応グループ全体の操作区間（ms） */
+  t_start: number;
+  t_end: number;
+  /** 操作区間の開始・終了のずれ（matched のみ。target - base） */
+  shift_ms: { start: number; end: number } | null;
+  /** activity が変わった場合のみ（matched のみ） */
+  activity: { base: string; target: string } | null;
+  /** グループ内の ocr_focus の和集合の差分。変化なしなら null */
+  ocr_focus: StringSetChange | null;
+  /** グループ内の warnings の和集合の差分。変化なしなら null */
+  warnings: StringSetChange | null;
+}
+
+export interface EvidenceDiffReport {
+  base: { sha256: string; segment_count: number; generated_at: string };
+  target: { sha256: string; segment_count: number; generated_at: string };
+  /** 同じ動画からの抽出か（違う場合は時間対応に意味がない） */
+  same_video: boolean;
+  config_changes: Array<{ key: string; base: unknown; target: unknown }>;
+  summary: Record<EvidenceDiffKind, number> & {
+    ocr_focus_changed: number;
+    warnings_changed: number;
+  };
+  /** 時刻順 */
+  entries: EvidenceDiffEntry[];
+}
+
+export interface EvidenceDiffOptions {
+  /**
+   * 重なりが短い方の操作区間のこの割合以上なら同じ操作とみなす。
+   * 低すぎると隣接操作まで連結され、高すぎると境界が少しずれただけで added/removed になる。
+   */
+  minOverlapRatio: number;
+  /** 操作区間がこれより短い場合はこの長さとして扱う（ms。1サンプル分の揺れを吸収する） */
+  minSpanMs: number;
+}
+
+export const DEFAULT_EVIDENCE_DIFF_OPTIONS: EvidenceDiffOptions = {
+  minOverlapRatio: 0.3,
+  minSpanMs: 250,
+};
+
+interface OperationSpan {
+  start: number;
+  end: number;
+}
+
+function operationSpan(
+  segment: EvidenceSegment,
+  minSpanMs: number
+): OperationSpan {
+  const start = segment.transition_start;
+  const end = Math.max(segment.t_end, start + minSpanMs);
+  return { start, end };
+}
+
+function spansOverlap(
+  a: OperationSpan,
+  b: OperationSpan,
+  minOverlapRatio: number
+): boolean {
+  const overlap = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  if (overlap <= 0) return false;
+  const shorter = Math.min(a.end - a.start, b.end - b.start);
+  return overlap >= shorter * minOverlapRatio;
+}
+
+function diffStringSets(
+  base: string[],
+  target: string[]
+): StringSetChange | null {
+  const baseSet = new Set(base);
+  const targetSet = new Set(target);
+  const added = Array.from(targetSet).filter(value => !baseSet.has(value));
+  const removed = Array.from(baseSet).filter(value => !targetSet.has(value));
+  return added.length > 0 || removed.length > 0 ? { added, removed } : null;
+}
+
+function classifyGroup(
+  baseCount: number,
+  targetCount: number
+): EvidenceDiffKind {
+  if (baseCount === 0) return "added";
+  if (targetCount === 0) return "removed";
+  if (baseCount === 1 && targetCount === 1) return "matched";
+  if (baseCount === 1) return "split";
+  if (targetCount === 1) return "merged";
+  return "regrouped";
+}
+
+/** config の値が変わった項目（キー順） */
+function diffConfig(
+  base: EvidenceArtifact["config"],
+  target: EvidenceArtifact["config"]
+): EvidenceDiffReport["config_changes"] {
+  const keys = Array.from(
+    new Set([...Object.keys(base), ...Object.keys(target)])
+  ).sort();
+  const baseRecord = base as Record<string, unknown>;
+  const targetRecord = target as Record<string, unknown>;
+  return keys
+    .filter(
+      key =>
+        JSON.stringify(baseRecord[key] ?? null) !==
+        JSON.stringify(targetRecord[key] ?? null)
+    )
+    .map(key => ({
+      key,
+      base: baseRecord[key] ?? null,
+      target: targetRecord[key] ?? null,
+    }));
+}
+
+/**
+ * 2つの evidence.json を操作区間の重なりで対応づけて比較する。
+ * 重なりでつながるセグメントを連結成分としてまとめ、成分ごとに
+ * 比較元・比較先のセグメント数から added / removed / split / merged 等を判定する。
+ */
+export function diffEvidenceArtifacts(
+  base: EvidenceArtifact,
+  target: EvidenceArtifact,
+  options: Partial<EvidenceDiffOptions> = {}
+): EvidenceDiffReport {
+  const opts = { ...DEFAULT_EVIDENCE_DIFF_OPTIONS, ...options };
+  const baseSpans = base.segments.map(segment =>
+    operationSpan(segment, opts.minSpanMs)
+  );
+  const targetSpans = target.segments.map(segment =>
+    operationSpan(segment, opts.minSpanMs)
+  );
+
+  // 比較元 i → ノード i、比較先 j → ノード base.length + j として union-find で連結する
+  const parent = Array.from(
+    { length: base.segments.length + target.segments.length },
+    (_, i) => i
+  );
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node]];
+      node = parent[node];
+    }
+    return node;
+  };
+  for (let i = 0; i < baseSpans.length; i++) {
+    for (let j = 0; j < targetSpans.length; j++) {
+      if (spansOverlap(baseSpans[i], targetSpans[j], opts.minOverlapRatio)) {
+        parent[find(base.segments.length + j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, { base: number[]; target: number[] }>();
+  const groupOf = (node: number) => {
+    const root = find(node);
+    let group = groups.get(root);
+    if (!group) {
+      group = { base: [], target: [] };
+      groups.set(root, group);
+    }
+    return group;
+  };
+  base.segments.forEach((_, i) => groupOf(i).base.push(i));
+  target.segments.forEach((_, j) =>
+    groupOf(base.segments.length + j).target.push(j)
+  );
+
+  const entries: EvidenceDiffEntry[] = Array.from(groups.values()).map(
+    group => {
+      const baseSegments = group.base.map(i => base.segments[i]);
+      const targetSegments = group.target.map(j => target.segments[j]);
+      const spans = [
+        ...group.base.map(i => baseSpans[i]),
+        ...group.target.map(j => targetSpans[j]),
+      ];
+      const kind = classifyGroup(baseSegments.length, targetSegments.length);
+      const matchedPair =
+        kind === "matched"
+          ? { base: baseSegments[0], target: targetSegments[0] }
+          : null;
+      const baseActivity = matchedPair?.base.activity ?? "action";
+      const targetActivity = matchedPair?.target.activity ?? "action";
+
+      return {
+        kind,
+        base_segment_ids: baseSegments.map(segment => segment.segment_id),
+        target_segment_ids: targetSegments.map(segment => segment.segment_id),
+        t_start: Math.min(...spans.map(span => span.start)),
+        t_end: Math.max(...spans.map(span => span.end)),
+        shift_ms: matchedPair
+          ? {
+              start:
+                matchedPair.target.transition_start -
+                matchedPair.base.transition_start,
+              end: matchedPair.target.t_end - matchedPair.base.t_end,
+            }
+          : null,
+        activity:
+          matchedPair && baseActivity !== targetActivity
+            ? { base: baseActivity, target: targetActivity }
+            : null,
+        ocr_focus: diffStringSets(
+          baseSegments.flatMap(segment => segment.ocr_focus),
+          targetSegments.flatMap(segment => segment.ocr_focus)
+        ),
+        warnings: diffStringSets(
+          baseSegments.flatMap(segment => segment.warnings),
+          targetSegments.flatMap(segment => segment.warnings)
+        ),
+      };
+    }
+  );
+  entries.sort((a, b) => a.t_start - b.t_start || a.t_end - b.t_end);
+
+  const summary: EvidenceDiffReport["summary"] = {
+    matched: 0,
+    added: 0,
+    removed: 0,
+    split: 0,
+    merged: 0,
+    regrouped: 0,
+    ocr_focus_changed: 0,
+    warnings_changed: 0,
+  };
+  for (const entry of entries) {
+    summary[entry.kind] += 1;
+    if (entry.ocr_focus) summary.ocr_focus_changed += 1;
+    if (entry.warnings) summary.warnings_changed += 1;
+  }
+
+  return {
+    base: {
+      sha256: base.video.sha256,
+      segment_count: base.segments.length,
+      generated_at: base.generated_at,
+    },
+    target: {
+      sha256: target.video.sha256,
+      segment_count: target.segments.length,
+      generated_at: target.generated_at,
+    },
+    same_video: base.video.sha256 === target.video.sha256,
+    config_changes: diffConfig(base.config, target.config),
+    summary,
+    entries,
+  };
+}
+
+const KIND_LABELS: Record<EvidenceDiffKind, string> = {
+  matched: "変更",
+  added: "追加",
+  removed: "削除",
+  split: "分割",
+  merged: "統合",
+  regrouped: "再構成",
+};
+
+function formatMs(ms: number): string {
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+function formatSetChange(label: string, change: StringSetChange): string[] {
+  return [
+    ...change.added.map(value => `    ${label} + ${value}`),
+    ...change.removed.map(value => `    ${label} - ${value}`),
+  ];
+}
+
+/** 差分レポートを人が読むテキストにする（変化のない matched は省略） */
+export function formatEvidenceDiff(report: EvidenceDiffReport): string {
+  const lines: string[] = [];
+  lines.push(
+    `比較元: ${report.base.segment_count}セグメント (${report.base.generated_at})`,
+    `比較先: ${report.target.segment_count}セグメント (${report.target.generated_at})`
+  );
+  if (!report.same_video) {
+    lines.push(
+      "注意: 動画の sha256 が異なります（時刻の対応づけは参考値です）"
+    );
+  }
+
+  if (report.config_changes.length > 0) {
+    lines.push("", "設定の変更:");
+    for (const change of report.config_changes) {
+      lines.push(
+        `  ${change.key}: ${JSON.stringify(change.base)} → ${JSON.stringify(change.target)}`
+      );
+    }
+  }
+
+  const { summary } = report;
+  lines.push(
+    "",
+    `概要: 一致 ${summary.matched} / 追加 ${summary.added} / 削除 ${summary.removed} / ` +
+      `分割 ${summary.split} / 統合 ${summary.merged} / 再構成 ${summary.regrouped}` +
+      ` （OCRフォーカス変化 ${summary.ocr_focus_changed}、警告変化 ${summary.warnings_changed}）`
+  );
+
+  const changed = report.entries.filter(
+    entry =>
+      entry.kind !== "matched" ||
+      entry.ocr_focus !== null ||
+      entry.warnings !== null ||
+      entry.activity !== null
+  );
+  if (changed.length === 0) {
+    lines.push("", "セグメントの違いはありません");
+    return lines.join("\n");
+  }
+
+  lines.push("");
+  for (const entry of changed) {
+    const baseIds = entry.base_segment_ids.join(",") || "-";
+    const targetIds = entry.target_segment_ids.join(",") || "-";
+    lines.push(
+      `[${KIND_LABELS[entry.kind]}] ${formatMs(entry.t_start)}〜${formatMs(entry.t_end)}  ${baseIds} → ${targetIds}`
+    );
+    if (entry.activity) {
+      lines.push(
+        `    activity: ${entry.activity.base} → ${entry.activity.target}`
+      );
+    }
+    if (entry.ocr_focus)
+      lines.push(...formatSetChange("ocr_focus", entry.ocr_focus));
+    if (entry.warnings)
+      lines.push(...formatSetChange("warning", entry.warnings));
+  }
+  return lines.join("\n");
+}
@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { assignTranscriptSnippets, computeOcrFocus } from "./extract";
+import {
+  assignTranscriptSnippets,
+  buildOcrLineDetails,
+  computeOcrFocus,
+  resolveAfterFrameTimeMs,
+} from "./extract";
 
 describe("assignTranscriptSnippets", () => {
   const segments = [
@@ -74,4 +79,40 @@ describe("computeOcrFocus", () => {
   it("bboxがnullなら空配列", () => {
     expect(computeOcrFocus(regions, null)).toEqual([]);
   });
+
+  it("中心が除外矩形に入るOCR行は候補にしない", () => {
+    const focus = computeOcrFocus(
+      regions,
+      { x: 0.4, y: 0.5, w: 0.08, h: 0.05 },
+      0.08,
+      [{ x: 0.5, y: 0.45, w: 0.2, h: 0.15 }]
+    );
+    expect(focus).toEqual(["保存"]);
+  });
+});
+
+describe("buildOcrLineDetails", () => {
+  it("ocr_lines と同じ順序で位置とスコアを対応づけ、領域のない行は null にする", () => {
+    const details = buildOcrLineDetails(
+      ["保存", "説明文", "保存"],
+      [
+        { text: "保存", x: 0.4, y: 0.5, w: 0.08, h: 0.05, score: 0.9 },
+        { text: "保存", x: 0.4, y: 0.8, w: 0.08, h: 0.05 },
+      ]
+    );
+    expect(details).toEqual([
+      { text: "保存", bbox: { x: 0.4, y: 0.5, w: 0.08, h: 0.05 }, score: 0.9 },
+      { text: "説明文", bbox: null, score: null },
+      { text: "保存", bbox: { x: 0.4, y: 0.8, w: 0.08, h: 0.05 }, score: null },
+    ]);
+  });
+});
+
+describe("resolveAfterFrameTimeMs", () => {
+  it("境界を精密化したセグメントは、粗いサンプルではなく精密化した t_end で代表フレームを切り出す", () => {
+    // 4fps の粗い検出では 1250ms（5フレーム目）、精密化で 1133ms に最終状態が表示された
+    const segment = { afterFrameIndex: 5, tEndMs: 1133 };
+    expect(resolveAfterFrameTimeMs(segment, 250, true)).toBe(1133);
+    expect(resolveAfterFrameTimeMs(segment, 250, false)).toBe(1250);
+  });
 });
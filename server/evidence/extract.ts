@@ -3,6 +3,8 @@
  *
  * 動画ファイル → サンプリング → セグメント検出 → 代表フレーム抽出 →
  * OCR / ASR割り当て → evidence.json 相当の構造を組み立てる。
+ * フレームは1枚ずつ読み、閉じたセグメントから順に代表フレーム抽出とOCRを行うため、
+ * 長時間の録画でもメモリに載るのは直前フレームと抽出済みの結果だけになる。
  *
  * このモジュールはDB・ストレージに依存しない（ローカルファイルで完結）。
  * プロジェクトフローへの組み込み（ストレージ保存・frames テーブル同期・
@@ -13,8 +15,8 @@ import fs from "fs/promises";
 import path from "path";
 import { ENV } from "../_core/env";
 import { createLogger } from "../_core/logger";
-import { hashFile } from "../_core/pipelineCache";
-import { extractFrameOcrUnified } from "../_core/ocr";
+import { getCachedJson, hashFile, setCachedJson } from "../_core/pipelineCache";
+import { extractFrameOcrUnified, type OcrRegion } from "../_core/ocr";
 import { getSharedOcrEngine } from "../_core/ocrEngine";
 import {
   transcribeVideoSource,
@@ -22,16 +24,57 @@ import {
   type TranscriptSegment,
 } from "../_core/asr";
 import {
-  detectSegments,
+  assignCursorToSegments,
+  createCursorTracker,
+  splitSegmentsAtClicks,
+} from "./cursor";
+import {
+  annotateScrollShift,
+  DEFAULT_SEGMENTATION_OPTIONS,
+  projectRectIntoCrop,
   rectsIntersect,
+  suggestCropRegion,
+  type FrameDiff,
+  type GrayFrame,
   type NormalizedRect,
   type OperationSegment,
+  type SegmentationOptions,
 } from "./segmentation";
-import { extractFullFrame, sampleGrayTimeline } from "./timeline";
+import {
+  chainSegmentStart,
+  refineSegmentBoundaries,
+  resolveRefinementFps,
+  type BoundaryRefinementContext,
+} from "./refine";
+import {
+  getSegmentationStrategy,
+  type SegmentationStrategyName,
+} from "./strategies";
+import {
+  cropImageRegion,
+  extractFullFrame,
+  getVideoFrameRate,
+} from "./timeline";
+import {
+  getCachedDiffTimeline,
+  openGrayFrameStream,
+  setCachedDiffTimeline,
+} from "./timelineCache";
+import {
+  applyTypedTextMasking,
+  isTypingCandidate,
+  paddedTypingRegion,
+  reconstructTypedText,
+  redactSecretValues,
+  type TypedTextMasking,
+} from "./typing";
 import {
   EVIDENCE_ARTIFACT_VERSION,
   type EvidenceArtifact,
+  type EvidenceBoundaryRefinement,
+  type EvidenceOcrLine,
   type EvidenceSegment,
+  type EvidenceTypedText,
 } from "./types";
 
 const logger = createLogger("Evidence");
@@ -49,6 +92,23 @@ export interface ExtractEvidenceOptions {
   stallAfterMs?: number;
   waitingRunAreaRatio?: number;
   waitingRunMinSpanMs?: number;
+  /** 変化信号の計算方法（pixel-diff / ssim / hybrid） */
+  segmentationStrategy?: SegmentationStrategyName;
+  /** 差分計算・OCRフォーカスから除外する矩形（正規化座標。時計・通知バッジ等） */
+  ignoreRegions?: NormalizedRect[];
+  /**
+   * 元フレームのこの領域だけを対象にする（ウルトラワイド・デュアルモニタ録画向け）。
+   * サンプリング・代表フレームの両方に同じクロップを適用する。
+   */
+  cropRegion?: NormalizedRect | null;
+  /** ポインタ追跡とクリック推定を行うか */
+  cursorTracking?: boolean;
+  /** タイピング区間の変化領域を前後でOCRし、入力値（typed_text）を復元するか */
+  typedTextReconstruction?: boolean;
+  /** 復元した入力値のマスク: secrets=パスワード・メール等のみ / all=すべて / none=マスクしない */
+  typedTextMasking?: TypedTextMasking;
+  /** 検出した transition_start / t_end を境界付近だけ元動画のフレームレートで補正するか */
+  boundaryRefinement?: boolean;
   asrLeadMs?: number;
   asrProvider?: typeof ENV.asrProvider;
   ocrProvider?: typeof ENV.ocrProvider;
@@ -98,12 +158,16 @@ export function assignTranscriptSnippets(
   return assigned.map(texts => texts.filter(Boolean).join(" "));
 }
 
-/** 差分bbox周辺（パディング付き）に重なるOCR行を抽出する（純関数） */
-export function computeOcrFocus(
-  regions: Array<{ text: string; x: number; y: number; w: number; h: number }>,
+/**
+ * 差分bbox周辺（パディング付き）に重なるOCR領域を抽出する（純関数）。
+ * 中心が除外矩形に入るOCR行（時計・通知バッジの文字等）は候補にしない。
+ */
+export function selectOcrFocusRegions<T extends OcrRegion>(
+  regions: T[],
   bbox: NormalizedRect | null,
-  padRatio = 0.04
-): string[] {
+  padRatio = 0.04,
+  ignoreRegions: NormalizedRect[] = []
+): T[] {
   if (!bbox) return [];
   const padded: NormalizedRect = {
     x: bbox.x - padRatio,
@@ -111,9 +175,377 @@ export function computeOcrFocus(
     w: bbox.w + padRatio * 2,
     h: bbox.h + padRatio * 2,
   };
-  return regions
-    .filter(region => rectsIntersect(padded, region))
-    .map(region => region.text);
+  const isIgnored = (region: NormalizedRect): boolean => {
+    const cx = region.x + region.w / 2;
+    const cy = region.y + region.h / 2;
+    return ignoreRegions.some(
+      rect =>
+        cx >= rect.x &&
+        cx <= rect.x + rect.w &&
+        cy >= rect.y &&
+        cy <= rect.y + rect.h
+    );
+  };
+  return regions.filter(
+    region => rectsIntersect(padded, region) && !isIgnored(region)
+  );
+}
+
+/** selectOcrFocusRegions のテキストだけを返す版 */
+export function computeOcrFocus(
+  regions: OcrRegion[],
+  bbox: NormalizedRect | null,
+  padRatio = 0.04,
+  ignoreRegions: NormalizedRect[] = []
+): string[] {
+  return selectOcrFocusRegions(regions, bbox, padRatio, ignoreRegions).map(
+    region => region.text
+  );
+}
+
+function toEvidenceOcrLine(region: OcrRegion): EvidenceOcrLine {
+  return {
+    text: region.text,
+    bbox: { x: region.x, y: region.y, w: region.w, h: region.h },
+    score: region.score ?? null,
+  };
+}
+
+/**
+ * ocr_lines と同じ順序・件数で位置・スコアを対応づける（純関数）。
+ * ローカルエンジンは lines と regions が1対1だが、LLM-OCR は別々に返すため
+ * テキスト一致で先頭から割り当て、対応する領域がない行は bbox/score を null にする。
+ */
+export function buildOcrLineDetails(
+  lines: string[],
+  regions: OcrRegion[]
+): EvidenceOcrLine[] {
+  const used = new Set<number>();
+  return lines.map(text => {
+    const index = regions.findIndex(
+      (region, i) => !used.has(i) && region.text === text
+    );
+    if (index < 0) return { text, bbox: null, score: null };
+    used.add(index);
+    return toEvidenceOcrLine(regions[index]);
+  });
+}
+
+/**
+ * 動画sha256をキーに文字起こし結果をキャッシュする。
+ * 音声抽出（ffmpeg）ごと省略するため、プロバイダー内部のキャッシュより手前で引く。
+ */
+async function transcribeWithCache(
+  videoPath: string,
+  videoSha256: string,
+  provider: typeof ENV.asrProvider
+): Promise<TranscriptionResult> {
+  if (provider === "none") {
+    return transcribeVideoSource(videoPath, provider);
+  }
+  const cacheKey = {
+    version: "evidence-asr-v1",
+    videoSha256,
+    provider,
+    model: ENV.asrModel,
+  };
+  const cached = await getCachedJson<TranscriptionResult>(
+    "evidence-asr",
+    cacheKey
+  );
+  if (cached) return cached;
+
+  const transcript = await transcribeVideoSource(videoPath, provider);
+  await setCachedJson("evidence-asr", cacheKey, transcript);
+  return transcript;
+}
+
+/**
+ * 代表フレーム（操作後の画像。OCR もこの画像で行う）を切り出す時刻（純関数）。
+ * 境界を精密化したセグメントは t_end が最終状態の表示された最初のフレームなので、
+ * 粗いサンプリングの afterFrameIndex ではなく t_end で切り出す。
+ */
+export function resolveAfterFrameTimeMs(
+  segment: Pick<OperationSegment, "afterFrameIndex" | "tEndMs">,
+  frameMs: number,
+  refined: boolean
+): number {
+  return refined
+    ? segment.tEndMs
+    : Math.round(segment.afterFrameIndex * frameMs);
+}
+
+/**
+ * 確定した1セグメントの代表フレーム抽出とOCR。
+ * 発話スニペットとカーソル情報は全セグメント確定後に割り当てる。
+ * maskedValue はマスクした入力値の原文（全セグメントのOCR行から伏せ字にするために返す。保存しない）。
+ */
+async function extractSegmentEvidence(
+  videoPath: string,
+  segment: OperationSegment,
+  segmentId: string,
+  context: {
+    framesDir: string;
+    frameMs: number;
+    durationMs: number;
+    ocrProvider: typeof ENV.ocrProvider;
+    ignoreRegions: NormalizedRect[];
+    cropRegion: NormalizedRect | null;
+    typedTextReconstruction: boolean;
+    typedTextMasking: TypedTextMasking;
+    /** 境界を精密化したか（代表フレームを精密化した t_end で切り出す） */
+    refined: boolean;
+  }
+): Promise<{ evidence: EvidenceSegment; maskedValue: string | null }> {
+  const { frameMs, durationMs } = context;
+  const warnings: string[] = [];
+
+  const rawAfterTimeMs = resolveAfterFrameTimeMs(
+    segment,
+    frameMs,
+    context.refined
+  );
+  const afterPath = path.join(context.framesDir, `${segmentId}_after.jpg`);
+  const afterTimeMs = await extractFullFrame(
+    videoPath,
+    rawAfterTimeMs,
+    afterPath,
+    durationMs,
+    context.cropRegion
+  );
+  if (afterTimeMs !== rawAfterTimeMs) {
+    warnings.push(
+      `afterFrame timestamp adjusted from ${rawAfterTimeMs}ms to ${afterTimeMs}ms (video duration: ${durationMs}ms)`
+    );
+  }
+
+  let beforePath: string | null = null;
+  let beforeTimeMs: number | null = null;
+  if (segment.beforeFrameIndex !== null) {
+    const rawBeforeTimeMs = Math.round(segment.beforeFrameIndex * frameMs);
+    beforePath = path.join(context.framesDir, `${segmentId}_before.jpg`);
+    beforeTimeMs = await extractFullFrame(
+      videoPath,
+      rawBeforeTimeMs,
+      beforePath,
+      durationMs,
+      context.cropRegion
+    );
+    if (beforeTimeMs !== rawBeforeTimeMs) {
+      warnings.push(
+        `beforeFrame timestamp adjusted from ${rawBeforeTimeMs}ms to ${beforeTimeMs}ms (video duration: ${durationMs}ms)`
+      );
+    }
+  }
+
+  let ocrLines: EvidenceOcrLine[] = [];
+  let ocrFocus: EvidenceOcrLine[] = [];
+  try {
+    const ocr = await extractFrameOcrUnified(
+      afterPath,
+      segment.afterFrameIndex,
+      context.ocrProvider
+    );
+    ocrLines = buildOcrLineDetails(ocr.lines, ocr.regions);
+    ocrFocus = selectOcrFocusRegions(
+      ocr.regions,
+      segment.changedBBox,
+      undefined,
+      context.ignoreRegions
+    ).map(toEvidenceOcrLine);
+    warnings.push(...ocr.warnings);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    warnings.push(`OCR failed: ${message.substring(0, 120)}`);
+  }
+
+  let typedText: EvidenceTypedText | null = null;
+  let maskedValue: string | null = null;
+  if (
+    context.typedTextReconstruction &&
+    beforePath !== null &&
+    segment.changedBBox &&
+    isTypingCandidate(segment)
+  ) {
+    try {
+      const reconstructed = await reconstructSegmentTypedText(
+        beforePath,
+        afterPath,
+        segment,
+        segmentId,
+        ocrFocus.map(line => line.text),
+        context
+      );
+      typedText = reconstructed?.typedText ?? null;
+      maskedValue = reconstructed?.maskedValue ?? null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      warnings.push(
+        `typed text reconstruction failed: ${message.substring(0, 120)}`
+      );
+    }
+  }
+
+  const evidence: EvidenceSegment = {
+    segment_id: segmentId,
+    t_start: segment.tStartMs,
+    t_end: segment.tEndMs,
+    transition_start: segment.transitionStartMs,
+    before_frame:
+      beforePath !== null && beforeTimeMs !== null
+        ? {
+            t: beforeTimeMs,
+            image_key: beforePath,
+            image_url: beforePath,
+            frame_id: null,
+          }
+        : null,
+    after_frame: {
+      t: afterTimeMs,
+      image_key: afterPath,
+      image_url: afterPath,
+      frame_id: null,
+    },
+    changed_region_bbox: segment.changedBBox,
+    ocr_lines: ocrLines.map(line => line.text),
+    ocr_focus: ocrFocus.map(line => line.text),
+    ocr_line_details: ocrLines,
+    ocr_focus_details: ocrFocus,
+    transcript_snippet: "",
+    coalesced_from: segment.coalescedFrom,
+    activity: segment.activity,
+    scroll: segment.scroll
+      ? {
+          direction: segment.scroll.direction,
+          distance_ratio: segment.scroll.distanceRatio,
+        }
+      : null,
+    cursor: null,
+    typed_text: typedText,
+    boundary_refinement: null,
+    warnings,
+  };
+  return { evidence, maskedValue };
+}
+
+/**
+ * 変化領域を操作前後のフレームから切り出してOCRし、入力値を復元する。
+ * 切り出し画像は OCR 後に削除する（代表フレームとしては使わない）。
+ */
+async function reconstructSegmentTypedText(
+  beforePath: string,
+  afterPath: string,
+  segment: OperationSegment,
+  segmentId: string,
+  focusLines: string[],
+  context: {
+    framesDir: string;
+    ocrProvider: typeof ENV.ocrProvider;
+    typedTextMasking: TypedTextMasking;
+  }
+): Promise<{
+  typedText: EvidenceTypedText;
+  maskedValue: string | null;
+} | null> {
+  if (!segment.changedBBox) return null;
+  const region = paddedTypingRegion(segment.changedBBox);
+  const crops = {
+    before: path.join(context.framesDir, `${segmentId}_typing_before.jpg`),
+    after: path.join(context.framesDir, `${segmentId}_typing_after.jpg`),
+  };
+  try {
+    await cropImageRegion(beforePath, crops.before, region);
+    await cropImageRegion(afterPath, crops.after, region);
+    const beforeOcr = await extractFrameOcrUnified(
+      crops.before,
+      segment.beforeFrameIndex ?? segment.afterFrameIndex,
+      context.ocrProvider
+    );
+    const afterOcr = await extractFrameOcrUnified(
+      crops.after,
+      segment.afterFrameIndex,
+      context.ocrProvider
+    );
+    const typed = reconstructTypedText(beforeOcr.lines, afterOcr.lines);
+    if (typed === null) return null;
+    // 入力欄のラベル（パスワード等）は切り出し範囲の外にあることが多いので周辺OCRも見る
+    const typedText = applyTypedTextMasking(
+      typed,
+      [...beforeOcr.lines, ...focusLines],
+      context.typedTextMasking
+    );
+    return { typedText, maskedValue: typedText.masked ? typed : null };
+  } finally {
+    await Promise.all(
+      Object.values(crops).map(file => fs.rm(file, { force: true }))
+    );
+  }
+}
+
+/**
+ * マスクした入力値が画面全体・変化領域周辺のOCR行に写っていれば伏せ字にする。
+ * 入力後の画面には値が表示され続けるため、入力したセグメントに限らず全セグメントを対象にする。
+ */
+function redactMaskedTypedValues(
+  segments: EvidenceSegment[],
+  maskedValues: string[]
+): void {
+  if (maskedValues.length === 0) return;
+  const redactDetails = (lines: EvidenceOcrLine[]) => {
+    const texts = redactSecretValues(
+      lines.map(line => line.text),
+      maskedValues
+    );
+    return lines.map((line, i) => ({ ...line, text: texts[i] }));
+  };
+  for (const segment of segments) {
+    segment.ocr_lines = redactSecretValues(segment.ocr_lines, maskedValues);
+    segment.ocr_focus = redactSecretValues(segment.ocr_focus, maskedValues);
+    segment.ocr_line_details = redactDetails(segment.ocr_line_details);
+    segment.ocr_focus_details = redactDetails(segment.ocr_focus_details);
+  }
+}
+
+/**
+ * 粗く検出したセグメントの境界を補正する。
+ * 待機区間はスピナー等で変化し続けており境界が定まらないため補正しない。
+ * デコードに失敗した場合は粗い時刻のまま警告を返す（抽出全体は止めない）。
+ */
+async function refineSegment(
+  videoPath: string,
+  segment: OperationSegment,
+  context: BoundaryRefinementContext
+): Promise<{
+  segment: OperationSegment;
+  boundaryRefinement: EvidenceBoundaryRefinement | null;
+  warning: string | null;
+}> {
+  if (segment.activity === "waiting") {
+    return { segment, boundaryRefinement: null, warning: null };
+  }
+  try {
+    const refined = await refineSegmentBoundaries(videoPath, segment, context);
+    return {
+      segment: {
+        ...segment,
+        transitionStartMs: refined.transitionStartMs,
+        tEndMs: refined.tEndMs,
+      },
+      boundaryRefinement: {
+        coarse_transition_start: segment.transitionStartMs,
+        coarse_t_end: segment.tEndMs,
+        fps: context.fps,
+      },
+      warning: null,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      segment,
+      boundaryRefinement: null,
+      warning: `boundary refinement failed: ${message.substring(0, 120)}`,
+    };
+  }
 }
 
 export async function extractEvidence(
@@ -134,6 +566,23 @@ export async function extractEvidence(
     options.waitingRunAreaRatio ?? ENV.evidenceWaitingRunAreaRatio;
   const waitingRunMinSpanMs =
     options.waitingRunMinSpanMs ?? ENV.evidenceWaitingRunMinSpanMs;
+  const strategy = getSegmentationStrategy(
+    options.segmentationStrategy ?? ENV.evidenceSegmentationStrategy
+  );
+  const cropRegion = options.cropRegion ?? null;
+  // 除外矩形は元フレーム座標で保存されているので、クロップ後の座標系へ写す
+  const ignoreRegions = (options.ignoreRegions ?? []).flatMap(region => {
+    if (!cropRegion) return [region];
+    const projected = projectRectIntoCrop(region, cropRegion);
+    return projected ? [projected] : [];
+  });
+  const cursorTracking = options.cursorTracking ?? ENV.evidenceCursorTracking;
+  const typedTextReconstruction =
+    options.typedTextReconstruction ?? ENV.evidenceTypedText;
+  const typedTextMasking =
+    options.typedTextMasking ?? ENV.evidenceTypedTextMasking;
+  const boundaryRefinement =
+    options.boundaryRefinement ?? ENV.evidenceBoundaryRefinement;
   const asrLeadMs = options.asrLeadMs ?? ENV.asrLeadMs;
   const asrProvider = options.asrProvider ?? ENV.asrProvider;
   const ocrProvider = options.ocrProvider ?? ENV.ocrProvider;
@@ -143,142 +592,242 @@ export async function extractEvidence(
 
   const videoSha256 = await hashFile(videoPath);
 
-  // 1. サンプリングとセグメント検出
-  await onProgress(0.05, "動画をサンプリングしています...");
-  const timeline = await sampleGrayTimeline(videoPath, { fps: sampleFps });
-  logger.info(
-    `Sampled ${timeline.frames.length} frames @${sampleFps}fps (${timeline.durationMs}ms)`
-  );
-
-  const segments = detectSegments(
-    timeline.frames,
-    timeline.width,
-    timeline.height,
-    {
-      fps: sampleFps,
-      highThreshold: diffHigh,
-      lowThreshold: diffLow,
-      stableFrames,
-      coalesceMaxGapMs,
-      stallWindowFrames,
-      stallAreaRatio,
-      stallAfterMs,
-      waitingRunAreaRatio,
-      waitingRunMinSpanMs,
-    }
-  );
-  logger.info(`Detected ${segments.length} operation segments`);
-  await onProgress(0.2, `${segments.length}個の操作セグメントを検出しました`);
-
-  // 2. ASR（音声なし動画は警告付きでスキップされる）
-  const transcript: TranscriptionResult = await transcribeVideoSource(
+  // 1. ASR（音声なし動画は警告付きでスキップされる）。
+  //    発話の割り当ては全セグメントが確定してから行う
+  await onProgress(0.05, "音声を文字起こししています...");
+  const transcript = await transcribeWithCache(
     videoPath,
+    videoSha256,
     asrProvider
   );
-  const snippets = assignTranscriptSnippets(
-    segments,
-    transcript.segments,
-    asrLeadMs
+  await onProgress(0.1, "音声の文字起こしが完了しました");
+
+  // 2. サンプリング → 差分 → セグメント検出 → 代表フレーム抽出 + OCR を1パスで進める。
+  // サンプリング結果と差分タイムラインは動画sha256でキャッシュし、
+  // 閾値だけを変えた再処理では遷移検出以降だけを再計算する。
+  // OCR結果は画像ハッシュでキャッシュされるため、閾値変更後も同じ時刻のフレームは再OCRされない
+  const stream = await openGrayFrameStream(videoPath, videoSha256, {
+    fps: sampleFps,
+    crop: cropRegion,
+  });
+  const { width, height, durationMs } = stream;
+  logger.info(
+    `${stream.cacheHit ? "Reading cached" : "Sampling"} frames @${sampleFps}fps (${durationMs}ms, strategy: ${strategy.name})`
   );
-  await onProgress(0.35, "音声の文字起こしが完了しました");
+  const diffSpec = {
+    fps: sampleFps,
+    width,
+    height,
+    crop: cropRegion,
+    ignoreRegions,
+    strategy: strategy.name,
+  };
+  const cachedDiffs = await getCachedDiffTimeline(videoSha256, diffSpec);
+  const refinementFps = boundaryRefinement
+    ? resolveRefinementFps(await getVideoFrameRate(videoPath), sampleFps)
+    : null;
+  const refinementContext: BoundaryRefinementContext | null =
+    refinementFps !== null
+      ? {
+          fps: refinementFps,
+          sampleFps,
+          width,
+          height,
+          crop: cropRegion,
+          ignoreRegions,
+          changeThreshold: diffLow,
+          strategy,
+          durationMs,
+        }
+      : null;
+  if (boundaryRefinement && !refinementContext) {
+    logger.info(
+      "Skipping boundary refinement (source frame rate unavailable or close to sample rate)"
+    );
+  }
+
+  // セグメント検出とスクロール推定は同じ解決済みの設定（プロジェクト設定 → ENV → 既定値）を使う
+  const segmentationOptions: SegmentationOptions = {
+    ...DEFAULT_SEGMENTATION_OPTIONS,
+    fps: sampleFps,
+    highThreshold: diffHigh,
+    lowThreshold: diffLow,
+    stableFrames,
+    coalesceMaxGapMs,
+    stallWindowFrames,
+    stallAreaRatio,
+    stallAfterMs,
+    waitingRunAreaRatio,
+    waitingRunMinSpanMs,
+  };
+  const segmenter = strategy.createSegmenter(height, segmentationOptions);
+  const scrollOptions = { ...segmentationOptions, ignoreRegions };
+  // ポインタ追跡（画面変化を伴わないクリックの手がかり）
+  const cursorTracker = cursorTracking
+    ? createCursorTracker(width, height, { fps: sampleFps })
+    : null;
 
-  // 3. 代表フレーム抽出 + OCR
   const frameMs = 1000 / sampleFps;
+  const expectedFrameCount = Math.max(
+    1,
+    Math.floor((durationMs / 1000) * sampleFps)
+  );
+  const diffTimeline: FrameDiff[] = [];
+  const segments: OperationSegment[] = [];
   const evidenceSegments: EvidenceSegment[] = [];
+  const maskedTypedValues: string[] = [];
   const frameFiles = new Map<
     string,
     { before: string | null; after: string }
   >();
 
-  for (let i = 0; i < segments.length; i++) {
-    const segment = segments[i];
-    const segmentId = `seg-${i + 1}`;
-    const warnings: string[] = [];
+  const evidenceContext = {
+    framesDir: options.framesDir,
+    frameMs,
+    durationMs,
+    ocrProvider,
+    ignoreRegions,
+    cropRegion,
+    typedTextReconstruction,
+    typedTextMasking,
+  };
 
-    const rawAfterTimeMs = Math.round(segment.afterFrameIndex * frameMs);
-    const afterPath = path.join(options.framesDir, `${segmentId}_after.jpg`);
-    const afterTimeMs = await extractFullFrame(
-      videoPath,
-      rawAfterTimeMs,
-      afterPath,
-      timeline.durationMs
-    );
-    if (afterTimeMs !== rawAfterTimeMs) {
-      warnings.push(
-        `afterFrame timestamp adjusted from ${rawAfterTimeMs}ms to ${afterTimeMs}ms (video duration: ${timeline.durationMs}ms)`
+  const processClosedSegments = async (
+    closed: OperationSegment[],
+    frameIndex: number
+  ) => {
+    if (closed.length === 0) return;
+    for (const closedSegment of closed) {
+      const coarse = chainSegmentStart(
+        closedSegment,
+        segments.length > 0 ? segments[segments.length - 1].tEndMs : null
       );
-    }
-
-    let beforePath: string | null = null;
-    let beforeTimeMs: number | null = null;
-    if (segment.beforeFrameIndex !== null) {
-      const rawBeforeTimeMs = Math.round(segment.beforeFrameIndex * frameMs);
-      beforePath = path.join(options.framesDir, `${segmentId}_before.jpg`);
-      beforeTimeMs = await extractFullFrame(
+      const refined = refinementContext
+        ? await refineSegment(videoPath, coarse, refinementContext)
+        : { segment: coarse, boundaryRefinement: null, warning: null };
+      const segment = refined.segment;
+      segments.push(segment);
+      const segmentId = `seg-${segments.length}`;
+      const { evidence, maskedValue } = await extractSegmentEvidence(
         videoPath,
-        rawBeforeTimeMs,
-        beforePath,
-        timeline.durationMs
+        segment,
+        segmentId,
+        { ...evidenceContext, refined: refined.boundaryRefinement !== null }
       );
-      if (beforeTimeMs !== rawBeforeTimeMs) {
-        warnings.push(
-          `beforeFrame timestamp adjusted from ${rawBeforeTimeMs}ms to ${beforeTimeMs}ms (video duration: ${timeline.durationMs}ms)`
-        );
-      }
+      evidence.boundary_refinement = refined.boundaryRefinement;
+      if (refined.warning) evidence.warnings.push(refined.warning);
+      evidenceSegments.push(evidence);
+      if (maskedValue) maskedTypedValues.push(maskedValue);
+      frameFiles.set(segmentId, {
+        before: evidence.before_frame?.image_key ?? null,
+        after: evidence.after_frame.image_key,
+      });
     }
+    await onProgress(
+      0.1 + 0.85 * Math.min(1, frameIndex / expectedFrameCount),
+      `証拠を抽出中 (${segments.length}セグメント)`
+    );
+  };
 
-    let ocrLines: string[] = [];
-    let ocrFocus: string[] = [];
-    try {
-      const ocr = await extractFrameOcrUnified(
-        afterPath,
-        segment.afterFrameIndex,
-        ocrProvider
+  let previous: GrayFrame | null = null;
+  let frameCount = 0;
+  for await (const frame of stream.frames) {
+    const index = frameCount;
+    frameCount += 1;
+    let diff: FrameDiff | undefined;
+    if (previous) {
+      const cached = cachedDiffs?.[index - 1];
+      diff =
+        cached && cached.index === index
+          ? cached
+          : {
+              index,
+              ...strategy.computeDiff(
+                previous.pixels,
+                frame.pixels,
+                width,
+                height,
+                ignoreRegions
+              ),
+            };
+      diffTimeline.push(diff);
+      const closed = segmenter.push(
+        annotateScrollShift(diff, previous, frame, width, height, scrollOptions)
       );
-      ocrLines = ocr.lines;
-      ocrFocus = computeOcrFocus(ocr.regions, segment.changedBBox);
-      warnings.push(...ocr.warnings);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      warnings.push(`OCR failed: ${message.substring(0, 120)}`);
+      await processClosedSegments(closed, index);
     }
+    cursorTracker?.push(frame, index, diff);
+    previous = frame;
+  }
+  await processClosedSegments(segmenter.finish(frameCount), frameCount);
+  logger.info(
+    `Processed ${frameCount} frames; detected ${segments.length} operation segments`
+  );
+  if (cachedDiffs?.length !== diffTimeline.length) {
+    await setCachedDiffTimeline(videoSha256, diffSpec, diffTimeline);
+  }
 
-    evidenceSegments.push({
-      segment_id: segmentId,
-      t_start: segment.tStartMs,
-      t_end: segment.tEndMs,
-      transition_start: segment.transitionStartMs,
-      before_frame:
-        beforePath !== null && beforeTimeMs !== null
-          ? {
-              t: beforeTimeMs,
-              image_key: beforePath,
-              image_url: beforePath,
-              frame_id: null,
-            }
-          : null,
-      after_frame: {
-        t: afterTimeMs,
-        image_key: afterPath,
-        image_url: afterPath,
-        frame_id: null,
-      },
-      changed_region_bbox: segment.changedBBox,
-      ocr_lines: ocrLines,
-      ocr_focus: ocrFocus,
-      transcript_snippet: snippets[i] ?? "",
-      coalesced_from: segment.coalescedFrom,
-      activity: segment.activity,
-      warnings,
-    });
-    frameFiles.set(segmentId, { before: beforePath, after: afterPath });
+  // クロップ未設定なら、変化の集中する領域をクロップ候補として記録する（UIで提案する）
+  const suggestedCropRegion = cropRegion
+    ? null
+    : suggestCropRegion(diffTimeline, { minDiffRate: diffLow });
+  if (suggestedCropRegion) {
+    logger.info("Suggested crop region", { ...suggestedCropRegion });
+  }
 
-    await onProgress(
-      0.35 + 0.6 * ((i + 1) / segments.length),
-      `証拠を抽出中 (${i + 1}/${segments.length})`
-    );
+  // 画面遷移と対応しないクリック（画面変化を伴わないクリック）をクリックだけのセグメントにする
+  const cursorTrack = cursorTracker?.finish(diffTimeline) ?? null;
+  if (cursorTrack) {
+    const split = splitSegmentsAtClicks(segments, cursorTrack.clicks, frameMs);
+    if (split.length > segments.length) {
+      const splitEvidence: EvidenceSegment[] = [];
+      let nextSegmentNumber = segments.length + 1;
+      for (const { segment, sourceIndex } of split) {
+        if (sourceIndex !== null) {
+          const evidence = evidenceSegments[sourceIndex];
+          evidence.t_start = segment.tStartMs;
+          splitEvidence.push(evidence);
+          continue;
+        }
+        // 既存のフレーム出力名と重ならないよう、番号は検出済みセグメントの後ろから振る
+        const segmentId = `seg-${nextSegmentNumber}`;
+        nextSegmentNumber += 1;
+        const { evidence, maskedValue } = await extractSegmentEvidence(
+          videoPath,
+          segment,
+          segmentId,
+          { ...evidenceContext, refined: false }
+        );
+        splitEvidence.push(evidence);
+        if (maskedValue) maskedTypedValues.push(maskedValue);
+        frameFiles.set(segmentId, {
+          before: evidence.before_frame?.image_key ?? null,
+          after: evidence.after_frame.image_key,
+        });
+      }
+      logger.info(
+        `Added ${split.length - segments.length} click segments without a matching transition`
+      );
+      segments.splice(0, segments.length, ...split.map(entry => entry.segment));
+      evidenceSegments.splice(0, evidenceSegments.length, ...splitEvidence);
+    }
   }
 
+  // 3. 発話スニペットとカーソル情報の割り当て
+  const snippets = assignTranscriptSnippets(
+    segments,
+    transcript.segments,
+    asrLeadMs
+  );
+  const segmentCursors = cursorTrack
+    ? assignCursorToSegments(segments, cursorTrack)
+    : segments.map(() => null);
+  evidenceSegments.forEach((evidence, i) => {
+    evidence.transcript_snippet = snippets[i] ?? "";
+    evidence.cursor = segmentCursors[i] ?? null;
+  });
+  redactMaskedTypedValues(evidenceSegments, maskedTypedValues);
+
   const ocrEngineName =
     ocrProvider === "engine" ? getSharedOcrEngine().engine : null;
 
@@ -286,19 +835,32 @@ export async function extractEvidence(
     version: EVIDENCE_ARTIFACT_VERSION,
     project_id: null,
     video: {
-      duration_ms: timeline.durationMs,
+      duration_ms: durationMs,
       fps_sampled: sampleFps,
       sha256: videoSha256,
     },
     config: {
+      segmentation_strategy: strategy.name,
       diff_high: diffHigh,
       diff_low: diffLow,
       stable_frames: stableFrames,
       coalesce_max_gap_ms: coalesceMaxGapMs,
+      stall_window_frames: stallWindowFrames,
+      stall_area_ratio: stallAreaRatio,
+      stall_after_ms: stallAfterMs,
+      waiting_run_area_ratio: waitingRunAreaRatio,
+      waiting_run_min_span_ms: waitingRunMinSpanMs,
       asr_lead_ms: asrLeadMs,
       asr_provider: transcript.provider,
       ocr_provider: ocrProvider,
       ocr_engine: ocrEngineName,
+      cursor_tracking: cursorTracking,
+      typed_text_reconstruction: typedTextReconstruction,
+      typed_text_masking: typedTextMasking,
+      boundary_refinement: refinementContext !== null,
+      ignore_regions: options.ignoreRegions ?? [],
+      crop_region: cropRegion,
+      suggested_crop_region: suggestedCropRegion,
     },
     transcript: {
       provider: transcript.provider,
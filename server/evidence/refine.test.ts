@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+  chainSegmentStart,
+  findChangedFrameIndices,
+  resolveRefinementFps,
+  snapBoundaries,
+} from "./refine";
+import type { GrayFrame, OperationSegment } from "./segmentation";
+
+const W = 40;
+const H = 20;
+
+function flatFrame(value: number): GrayFrame {
+  return { pixels: Buffer.alloc(W * H, value) };
+}
+
+describe("resolveRefinementFps", () => {
+  it("元動画の fps を上限で頭打ちにする", () => {
+    expect(resolveRefinementFps(30, 4)).toBe(30);
+    expect(resolveRefinementFps(120, 4)).toBe(60);
+  });
+
+  it("fps が取れない・サンプリングと大差ない場合は補正しない", () => {
+    expect(resolveRefinementFps(null, 4)).toBeNull();
+    expect(resolveRefinementFps(5, 4)).toBeNull();
+    expect(resolveRefinementFps(0, 4)).toBeNull();
+  });
+});
+
+describe("findChangedFrameIndices", () => {
+  it("直前フレームから変化したフレームのインデックスを返す", () => {
+    const frames = [
+      flatFrame(0),
+      flatFrame(0),
+      flatFrame(200),
+      flatFrame(200),
+      flatFrame(50),
+    ];
+    expect(findChangedFrameIndices(frames, W, H, 0.001)).toEqual([2, 4]);
+  });
+
+  it("除外矩形内の変化は数えない", () => {
+    const changed = Buffer.alloc(W * H, 0);
+    changed.fill(200, 0, 4);
+    const frames = [flatFrame(0), { pixels: changed }];
+    expect(
+      findChangedFrameIndices(frames, W, H, 0.001, [
+        { x: 0, y: 0, w: 0.5, h: 0.5 },
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe("snapBoundaries", () => {
+  const coarse = { tStartMs: 500, transitionStartMs: 1250, tEndMs: 2000 };
+  const frameMs = 1000 / 30;
+
+  it("開始は最初の変化フレーム、終了は最後の変化フレームの時刻に合わせる", () => {
+    const refined = snapBoundaries(
+      coarse,
+      { startMs: 967, frameMs, changed: [5, 6] },
+      { startMs: 1467, frameMs, changed: [3, 8] }
+    );
+    expect(refined).toEqual({
+      transitionStartMs: Math.round(967 + 5 * frameMs),
+      tEndMs: Math.round(1467 + 8 * frameMs),
+      refinedStart: true,
+      refinedEnd: true,
+    });
+  });
+
+  it("変化が見つからない窓は粗い時刻のまま", () => {
+    const refined = snapBoundaries(
+      coarse,
+      { startMs: 967, frameMs, changed: [] },
+      { startMs: 1467, frameMs, changed: [] }
+    );
+    expect(refined).toEqual({
+      transitionStartMs: 1250,
+      tEndMs: 2000,
+      refinedStart: false,
+      refinedEnd: false,
+    });
+  });
+
+  it("t_start より前や開始より前の終了にはならない", () => {
+    const refined = snapBoundaries(
+      { tStartMs: 1000, transitionStartMs: 1250, tEndMs: 1500 },
+      { startMs: 900, frameMs, changed: [1] },
+      { startMs: 500, frameMs, changed: [1] }
+    );
+    expect(refined.transitionStartMs).toBe(1000);
+    expect(refined.tEndMs).toBe(1000);
+  });
+});
+
+describe("chainSegmentStart", () => {
+  const frameMs = 1000 / 30;
+
+  function coarseSegment(
+    tStartMs: number,
+    transitionStartMs: number,
+    tEndMs: number
+  ): OperationSegment {
+    return {
+      tStartMs,
+      transitionStartMs,
+      tEndMs,
+      beforeFrameIndex: null,
+      afterFrameIndex: 0,
+      changedBBox: null,
+      coalescedFrom: 1,
+      activity: "action",
+    };
+  }
+
+  it("精密化した t_end を次のセグメントの t_start に引き継ぎ、区間を隙間なく連続させる", () => {
+    const coarse = [
+      coarseSegment(0, 750, 1500),
+      coarseSegment(1500, 2250, 3000),
+      coarseSegment(3000, 3250, 4000),
+    ];
+    const windows = [
+      { start: [10], end: [2] },
+      { start: [4], end: [] },
+      { start: [], end: [6] },
+    ];
+    const refined: OperationSegment[] = [];
+    coarse.forEach((segment, i) => {
+      const chained = chainSegmentStart(
+        segment,
+        refined.length > 0 ? refined[refined.length - 1].tEndMs : null
+      );
+      const boundaries = snapBoundaries(
+        chained,
+        {
+          startMs: chained.transitionStartMs - 300,
+          frameMs,
+          changed: windows[i].start,
+        },
+        { startMs: chained.tEndMs - 550, frameMs, changed: windows[i].end }
+      );
+      refined.push({
+        ...chained,
+        transitionStartMs: boundaries.transitionStartMs,
+        tEndMs: boundaries.tEndMs,
+      });
+    });
+
+    // 1つ目の t_end は粗い値より前に補正される
+    expect(refined[0].tEndMs).toBeLessThan(1500);
+    for (let i = 1; i < refined.length; i++) {
+      expect(refined[i].tStartMs).toBe(refined[i - 1].tEndMs);
+    }
+    for (const segment of refined) {
+      expect(segment.transitionStartMs).toBeGreaterThanOrEqual(
+        segment.tStartMs
+      );
+      expect(segment.tEndMs).toBeGreaterThanOrEqual(segment.transitionStartMs);
+    }
+  });
+
+  it("先頭のセグメントや t_end が補正されていない場合はそのまま", () => {
+    const segment = coarseSegment(1500, 2250, 3000);
+    expect(chainSegmentStart(segment, null)).toBe(segment);
+    expect(chainSegmentStart(segment, 1500)).toBe(segment);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * セグメント境界のフレーム精度化
+ *
+ * 操作の検出は一様サンプリング（既定 4fps）で行うため、transition_start と t_end は
+ * 最大で1サンプル間隔（250ms）ずれる。粗い検出の後、各境界の前後だけを元動画の
+ * フレームレートでデコードし、実際に画面が変わり始めた・変わり終えたフレームへ合わせる。
+ * 全編を高fpsでデコードせずに済むよう、デコードはセグメントごとの短い窓に限る。
+ */
+
+import {
+  type GrayFrame,
+  type NormalizedRect,
+  type OperationSegment,
+} from "./segmentation";
+import {
+  getSegmentationStrategy,
+  type SegmentationStrategy,
+} from "./strategies";
+import { iterateGrayFrames } from "./timeline";
+
+/** これより高いフレームレートの録画も、精密化はこの fps で行う（デコード量の上限） */
+export const MAX_REFINEMENT_FPS = 60;
+
+/** 元動画の fps がサンプリング fps のこの倍率以下なら、補正しても精度が上がらないので行わない */
+const MIN_FPS_GAIN = 1.5;
+
+/**
+ * 精密化に使う fps を決める（純関数）。
+ * 元動画の fps が取れない・サンプリング fps と大差ない場合は null（補正しない）。
+ */
+export function resolveRefinementFps(
+  nativeFps: number | null,
+  sampleFps: number
+): number | null {
+  if (nativeFps === null || !Number.isFinite(nativeFps) || nativeFps <= 0) {
+    return null;
+  }
+  const fps = Math.min(nativeFps, MAX_REFINEMENT_FPS);
+  return fps > sampleFps * MIN_FPS_GAIN ? fps : null;
+}
+
+export interface BoundaryRefinementContext {
+  /** 精密化に使うフレームレート（元動画の fps を MAX_REFINEMENT_FPS で頭打ちにしたもの） */
+  fps: number;
+  /** 粗い検出のサンプリング fps */
+  sampleFps: number;
+  width: number;
+  height: number;
+  crop: NormalizedRect | null;
+  ignoreRegions: NormalizedRect[];
+  /** フレーム間でこの変化率以上なら「変化した」とみなす（粗い検出の lowThreshold） */
+  changeThreshold: number;
+  /** 粗い検出と同じ変化信号で判定する */
+  strategy: SegmentationStrategy;
+  durationMs: number;
+}
+
+export interface RefinedBoundaries {
+  transitionStartMs: number;
+  tEndMs: number;
+  /** 窓内で変化フレームが見つかり、粗い値から置き換えたか */
+  refinedStart: boolean;
+  refinedEnd: boolean;
+}
+
+/**
+ * 窓内で直前のフレームから変化したフレームのインデックス（1始まり側）を返す（純関数）。
+ * インデックス j は「フレーム j-1 → j で変化した」= フレーム j の時刻に変化が見えたことを表す。
+ */
+export function findChangedFrameIndices(
+  frames: GrayFrame[],
+  width: number,
+  height: number,
+  changeThreshold: number,
+  ignoreRegions: NormalizedRect[] = [],
+  strategy: SegmentationStrategy = getSegmentationStrategy()
+): number[] {
+  const changed: number[] = [];
+  for (let j = 1; j < frames.length; j++) {
+    const { diffRate } = strategy.computeDiff(
+      frames[j - 1].pixels,
+      frames[j].pixels,
+      width,
+      height,
+      ignoreRegions
+    );
+    if (diffRate >= changeThreshold) changed.push(j);
+  }
+  return changed;
+}
+
+/**
+ * 粗い境界と窓内の変化フレームから精密な境界を決める（純関数）。
+ * - transition_start: 開始窓で最初に変化したフレームの時刻
+ * - t_end: 終了窓で最後に変化したフレームの時刻（= 最終状態が表示された最初のフレーム）
+ * 変化が見つからない窓は粗い値のまま。区間が逆転しないよう t_start 以上・開始以上に丸める。
+ */
+export function snapBoundaries(
+  coarse: Pick<OperationSegment, "tStartMs" | "transitionStartMs" | "tEndMs">,
+  startWindow: { startMs: number; frameMs: number; changed: number[] },
+  endWindow: { startMs: number; frameMs: number; changed: number[] }
+): RefinedBoundaries {
+  const firstChange = startWindow.changed[0];
+  const lastChange = endWindow.changed[endWindow.changed.length - 1];
+  const transitionStartMs =
+    firstChange !== undefined
+      ? Math.max(
+          coarse.tStartMs,
+          Math.round(startWindow.startMs + firstChange * startWindow.frameMs)
+        )
+      : coarse.transitionStartMs;
+  const tEndMs =
+    lastChange !== undefined
+      ? Math.max(
+          transitionStartMs,
+          Math.round(endWindow.startMs + lastChange * endWindow.frameMs)
+        )
+      : Math.max(transitionStartMs, coarse.tEndMs);
+  return {
+    transitionStartMs,
+    tEndMs,
+    refinedStart: firstChange !== undefined,
+    refinedEnd: lastChange !== undefined,
+  };
+}
+
+/**
+ * 直前のセグメントの（精密化後の）t_end を次のセグメントの t_start に引き継ぐ（純関数）。
+ * t_start は直前の安定化時刻なので、直前の t_end を補正したら次の t_start も合わせないと
+ * 区間が重なる・空く。開始・終了は新しい t_start を下回らないよう丸める。
+ */
+export function chainSegmentStart(
+  segment: OperationSegment,
+  previousTEndMs: number | null
+): OperationSegment {
+  if (previousTEndMs === null || previousTEndMs === segment.tStartMs) {
+    return segment;
+  }
+  const transitionStartMs = Math.max(segment.transitionStartMs, previousTEndMs);
+  return {
+    ...segment,
+    tStartMs: previousTEndMs,
+    transitionStartMs,
+    tEndMs: Math.max(segment.tEndMs, transitionStartMs),
+  };
+}
+
+async function decodeWindow(
+  videoPath: string,
+  startMs: number,
+  endMs: number,
+  context: BoundaryRefinementContext
+): Promise<{ startMs: number; frameMs: number; frames: GrayFrame[] }> {
+  const clampedStart = Math.max(0, startMs);
+  const clampedEnd = Math.min(context.durationMs, endMs);
+  const frames: GrayFrame[] = [];
+  if (clampedEnd > clampedStart) {
+    for await (const frame of iterateGrayFrames(videoPath, {
+      fps: context.fps,
+      width: context.width,
+      height: context.height,
+      crop: context.crop,
+      startMs: clampedStart,
+      durationMs: clampedEnd - clampedStart,
+    })) {
+      frames.push(frame);
+    }
+  }
+  return { startMs: clampedStart, frameMs: 1000 / context.fps, frames };
+}
+
+/**
+ * 1セグメントの transition_start / t_end を元動画のフレームレートで精密化する。
+ * 粗い検出では、開始は (t_start-1サンプル, transition_start] に、最後の変化は
+ * (t_end-2サンプル, t_end-1サンプル] にある。前後に1フレーム分の余裕を持たせてその範囲だけデコードする。
+ */
+export async function refineSegmentBoundaries(
+  videoPath: string,
+  segment: OperationSegment,
+  context: BoundaryRefinementContext
+): Promise<RefinedBoundaries> {
+  const sampleMs = 1000 / context.sampleFps;
+  const marginMs = 1000 / context.fps;
+
+  const startWindow = await decodeWindow(
+    videoPath,
+    segment.transitionStartMs - sampleMs - marginMs,
+    segment.transitionStartMs + marginMs,
+    context
+  );
+  const endWindow = await decodeWindow(
+    videoPath,
+    segment.tEndMs - 2 * sampleMs - marginMs,
+    segment.tEndMs,
+    context
+  );
+
+  const changedIn = (window: { frames: GrayFrame[] }) =>
+    findChangedFrameIndices(
+      window.frames,
+      context.width,
+      context.height,
+      context.changeThreshold,
+      context.ignoreRegions,
+      context.strategy
+    );
+  return snapBoundaries(
+    segment,
+    { ...startWindow, changed: changedIn(startWindow) },
+    { ...endWindow, changed: changedIn(endWindow) }
+  );
+}
@@ -1,15 +1,24 @@
 import { describe, expect, it } from "vitest";
 import {
+  annotateScrollShifts,
+  classifyScrollTransitions,
   classifyWaitingRuns,
   coalesceTransitions,
   computeDiffTimeline,
+  createSegmentStream,
+  createTransitionDetector,
   computeFrameDiff,
   computeFullFrameDHash,
+  DEFAULT_SEGMENTATION_OPTIONS,
   detectSegments,
   detectTransitions,
+  estimateVerticalShift,
   hammingDistance,
+  projectRectIntoCrop,
   rectsIntersect,
+  suggestCropRegion,
   unionBBox,
+  type FrameDiff,
   type GrayFrame,
 } from "./segmentation";
 
@@ -36,6 +45,19 @@ function withRect(
   return { pixels };
 }
 
+/** 縦に長いページを offset 行目から表示したフレームを作る（行ごとに異なる模様） */
+function pageFrame(offset: number): GrayFrame {
+  const pixels = Buffer.alloc(W * H);
+  for (let y = 0; y < H; y++) {
+    const row = y + offset;
+    for (let x = 0; x < W; x++) {
+      pixels[y * W + x] =
+        ((row * row * 7 + row * 13 + (x >> 3) * 29) % 220) + 20;
+    }
+  }
+  return { pixels };
+}
+
 describe("computeFrameDiff", () => {
   it("同一フレームで diffRate=0 / bbox=null", () => {
     const a = flatFrame(100);
@@ -63,6 +85,21 @@ describe("computeFrameDiff", () => {
     const result = computeFrameDiff(a.pixels, b.pixels, W, H, 24);
     expect(result.diffRate).toBe(0);
   });
+
+  it("除外矩形内の変化（右上の時計など）は数えない", () => {
+    const a = flatFrame(100);
+    const clock = withRect(a, { x: 90, y: 0, w: 10, h: 4 }, 200);
+    const b = withRect(clock, { x: 10, y: 20, w: 5, h: 5 }, 200);
+    const ignore = [{ x: 0.88, y: 0, w: 0.12, h: 0.1 }];
+
+    expect(computeFrameDiff(a.pixels, clock.pixels, W, H, 24, ignore)).toEqual({
+      diffRate: 0,
+      changedBBox: null,
+    });
+    const result = computeFrameDiff(a.pixels, b.pixels, W, H, 24, ignore);
+    expect(result.diffRate).toBeCloseTo(25 / (W * H));
+    expect(result.changedBBox).toEqual({ x: 0.1, y: 0.4, w: 0.05, h: 0.1 });
+  });
 });
 
 describe("detectTransitions", () => {
@@ -103,6 +140,30 @@ describe("detectTransitions", () => {
   });
 });
 
+describe("createTransitionDetector", () => {
+  const opts = { highThreshold: 0.002, lowThreshold: 0.0008, stableFrames: 2 };
+
+  it("逐次投入でもバッチ版と同じ遷移を返し、安定化後は入力終了を待たない", () => {
+    const base = flatFrame(100);
+    const changed = withRect(base, { x: 0, y: 0, w: 50, h: 25 }, 200);
+    const frames = [base, base, changed, ...Array(10).fill(changed)];
+    const diffs = computeDiffTimeline(frames, W, H);
+
+    const detector = createTransitionDetector({ ...opts, fps: 4 });
+    const emittedAt: number[] = [];
+    const streamed = diffs.flatMap(diff => {
+      const transitions = detector.push(diff);
+      if (transitions.length > 0) emittedAt.push(diff.index);
+      return transitions;
+    });
+    streamed.push(...detector.finish(frames.length));
+
+    expect(streamed).toEqual(detectTransitions(diffs, frames.length, opts));
+    // 後続1秒分（4フレーム）の先読みだけ遅れて確定する
+    expect(emittedAt[0]).toBeLessThan(frames.length - 1);
+  });
+});
+
 describe("coalesceTransitions", () => {
   const opts = { fps: 4, coalesceMaxGapMs: 1000, coalesceBBoxPadRatio: 0.04 };
   const bboxAt = (
@@ -156,6 +217,108 @@ describe("coalesceTransitions", () => {
   });
 });
 
+describe("estimateVerticalShift / annotateScrollShifts", () => {
+  const scrollOpts = {
+    scrollMinDiffRate: 0.05,
+    scrollMaxShiftRatio: 0.35,
+    scrollResidualRatio: 0.5,
+  };
+
+  it("ページの縦シフトを符号付きで推定する（正=下方向へのスクロール）", () => {
+    const down = estimateVerticalShift(
+      pageFrame(0).pixels,
+      pageFrame(6).pixels,
+      W,
+      H,
+      15
+    );
+    expect(down.shiftPx).toBe(6);
+    expect(down.residual).toBe(0);
+    expect(down.zeroResidual).toBeGreaterThan(0);
+
+    const up = estimateVerticalShift(
+      pageFrame(6).pixels,
+      pageFrame(2).pixels,
+      W,
+      H,
+      15
+    );
+    expect(up.shiftPx).toBe(-4);
+  });
+
+  it("除外矩形内の変化を比較から外してスクロールを推定する", () => {
+    // 画面の6割を占める動画プレイヤーがスクロールと無関係に切り替わる
+    const player = { x: 0, y: 0, w: 60, h: H };
+    const frames = [
+      withRect(pageFrame(0), player, 0),
+      withRect(pageFrame(6), player, 250),
+    ];
+    const diffs = computeDiffTimeline(frames, W, H);
+
+    const [withoutIgnore] = annotateScrollShifts(
+      diffs,
+      frames,
+      W,
+      H,
+      scrollOpts
+    );
+    expect(withoutIgnore.scrollShiftPx).toBeUndefined();
+
+    const [withIgnore] = annotateScrollShifts(diffs, frames, W, H, {
+      ...scrollOpts,
+      ignoreRegions: [{ x: 0, y: 0, w: 0.6, h: 1 }],
+    });
+    expect(withIgnore.scrollShiftPx).toBe(6);
+  });
+
+  it("シフトで説明できない全画面変化にはスクロール推定を付けない", () => {
+    const frames = [
+      pageFrame(0),
+      withRect(pageFrame(0), { x: 0, y: 0, w: W, h: H }, 90),
+    ];
+    const diffs = annotateScrollShifts(
+      computeDiffTimeline(frames, W, H),
+      frames,
+      W,
+      H,
+      scrollOpts
+    );
+    expect(diffs[0].diffRate).toBeGreaterThan(0.05);
+    expect(diffs[0].scrollShiftPx).toBeUndefined();
+  });
+
+  it("スクロールが主な遷移を activity=scroll に分類する", () => {
+    const frames = [
+      pageFrame(0),
+      pageFrame(0),
+      pageFrame(5),
+      pageFrame(10),
+      pageFrame(10),
+      pageFrame(10),
+    ];
+    const diffs = annotateScrollShifts(
+      computeDiffTimeline(frames, W, H),
+      frames,
+      W,
+      H,
+      scrollOpts
+    );
+    const [transition] = classifyScrollTransitions(
+      [
+        {
+          startIndex: 2,
+          stabilizedIndex: 4,
+          changedBBox: { x: 0, y: 0, w: 1, h: 1 },
+        },
+      ],
+      diffs,
+      { lowThreshold: 0.00015 }
+    );
+    expect(transition.activity).toBe("scroll");
+    expect(transition.scrollShiftPx).toBe(10);
+  });
+});
+
 describe("detectSegments (end-to-end pure)", () => {
   it("2操作の動画から2セグメントを検出し、区間規約に従う", () => {
     const base = flatFrame(100);
@@ -190,6 +353,66 @@ describe("detectSegments (end-to-end pure)", () => {
     expect(segments[1].changedBBox).not.toBeNull();
   });
 
+  it("途中で止まるスクロールを方向と合計量つきの1セグメントに合体する", () => {
+    const frames = [
+      pageFrame(0),
+      pageFrame(0),
+      pageFrame(0),
+      pageFrame(0),
+      pageFrame(4),
+      pageFrame(8),
+      pageFrame(12),
+      pageFrame(12),
+      pageFrame(12), // 短い停止（coalesceMaxGapMs 以内）
+      pageFrame(16),
+      pageFrame(20),
+      pageFrame(20),
+      pageFrame(20),
+      pageFrame(20),
+    ];
+    const segments = detectSegments(frames, W, H, { fps: 4 });
+    expect(segments).toHaveLength(1);
+    expect(segments[0].activity).toBe("scroll");
+    expect(segments[0].coalescedFrom).toBe(2);
+    expect(segments[0].scroll).toEqual({
+      direction: "down",
+      distanceRatio: 0.4,
+    });
+  });
+
+  it("逆方向のスクロールは合体しない", () => {
+    const frames = [
+      pageFrame(0),
+      pageFrame(0),
+      pageFrame(5),
+      pageFrame(10),
+      pageFrame(10),
+      pageFrame(10),
+      pageFrame(5),
+      pageFrame(0),
+      pageFrame(0),
+      pageFrame(0),
+    ];
+    const segments = detectSegments(frames, W, H, { fps: 4 });
+    expect(segments.map(segment => segment.scroll?.direction)).toEqual([
+      "down",
+      "up",
+    ]);
+  });
+
+  it("除外矩形内で点滅し続ける領域からは遷移を検出しない", () => {
+    const base = flatFrame(100);
+    const blink = withRect(base, { x: 0, y: 46, w: 8, h: 4 }, 220);
+    const frames = [base, blink, base, blink, base, blink, base, blink];
+    const ignoreRegions = [{ x: 0, y: 0.9, w: 0.1, h: 0.1 }];
+
+    // 除外なしでは点滅が遷移として検出される
+    expect(detectSegments(frames, W, H, { fps: 4 })[0].beforeFrameIndex).not.toBeNull();
+    const segments = detectSegments(frames, W, H, { fps: 4, ignoreRegions });
+    expect(segments).toHaveLength(1);
+    expect(segments[0].beforeFrameIndex).toBeNull();
+  });
+
   it("変化のない動画は先頭フレームの単一セグメント", () => {
     const base = flatFrame(100);
     const segments = detectSegments([base, base, base], W, H, { fps: 4 });
@@ -367,6 +590,98 @@ describe("detectSegments (end-to-end pure)", () => {
   });
 });
 
+describe("createSegmentStream", () => {
+  it("差分を1件ずつ投入しても全差分を使ったバッチ処理と同じ区間になる", () => {
+    const base = flatFrame(100);
+    const action = withRect(base, { x: 0, y: 0, w: 50, h: 25 }, 150);
+    const spinnerA = withRect(action, { x: 40, y: 18, w: 6, h: 6 }, 220);
+    const spinnerB = withRect(action, { x: 41, y: 18, w: 6, h: 6 }, 220);
+    const typed = withRect(action, { x: 60, y: 30, w: 2, h: 3 }, 30);
+    const frames = [
+      base,
+      base,
+      action,
+      spinnerA,
+      spinnerB,
+      spinnerA,
+      spinnerB,
+      spinnerA,
+      action,
+      action,
+      action,
+      typed,
+      typed,
+      typed,
+      pageFrame(0),
+      pageFrame(5),
+      pageFrame(10),
+      pageFrame(10),
+      pageFrame(10),
+    ];
+    const options = {
+      fps: 4,
+      stallWindowFrames: 3,
+      stallAfterMs: 500,
+      stallAreaRatio: 0.02,
+    };
+
+    const stream = createSegmentStream(H, options);
+    const diffs = annotateScrollShifts(
+      computeDiffTimeline(frames, W, H),
+      frames,
+      W,
+      H,
+      DEFAULT_SEGMENTATION_OPTIONS
+    );
+    const streamed = [
+      ...diffs.flatMap(diff => stream.push(diff)),
+      ...stream.finish(frames.length),
+    ];
+
+    const opts = { ...DEFAULT_SEGMENTATION_OPTIONS, ...options };
+    const batch = coalesceTransitions(
+      classifyScrollTransitions(
+        detectTransitions(diffs, frames.length, opts),
+        diffs,
+        opts
+      ),
+      opts
+    );
+    expect(streamed.map(segment => segment.afterFrameIndex)).toEqual(
+      batch.map(transition => transition.stabilizedIndex)
+    );
+    expect(streamed.map(segment => segment.activity)).toEqual(
+      batch.map(transition => transition.activity ?? "action")
+    );
+  });
+
+  it("合体ギャップを過ぎて閉じたセグメントは入力終了を待たずに返す", () => {
+    const base = flatFrame(100);
+    const screen1 = flatFrame(200);
+    const screen2 = withRect(screen1, { x: 0, y: 0, w: 50, h: 25 }, 30);
+    const frames = [
+      base,
+      base,
+      screen1, // 2: 画面遷移 → 3から安定
+      ...Array(13).fill(screen1),
+      screen2, // 16: 次の操作
+      ...Array(3).fill(screen2),
+    ];
+    const stream = createSegmentStream(H, { fps: 4, coalesceMaxGapMs: 1000 });
+    let firstEmittedAt: number | null = null;
+    for (const diff of computeDiffTimeline(frames, W, H)) {
+      if (stream.push(diff).length > 0 && firstEmittedAt === null) {
+        firstEmittedAt = diff.index;
+      }
+    }
+    const rest = stream.finish(frames.length);
+
+    expect(firstEmittedAt).not.toBeNull();
+    expect(firstEmittedAt).toBeLessThan(16);
+    expect(rest).toHaveLength(1);
+  });
+});
+
 describe("classifyWaitingRuns", () => {
   const segment = (
     index: number,
@@ -448,6 +763,53 @@ describe("unionBBox / rectsIntersect", () => {
   });
 });
 
+describe("suggestCropRegion / projectRectIntoCrop", () => {
+  const diffAt = (
+    index: number,
+    bbox: { x: number; y: number; w: number; h: number }
+  ): FrameDiff => ({ index, diffRate: 0.01, changedBBox: bbox });
+
+  it("変化が画面の左半分に集中していれば左半分をクロップ候補にする", () => {
+    const diffs = [
+      diffAt(1, { x: 0.05, y: 0.1, w: 0.3, h: 0.2 }),
+      diffAt(2, { x: 0.1, y: 0.5, w: 0.2, h: 0.1 }),
+      diffAt(3, { x: 0.2, y: 0.3, w: 0.25, h: 0.4 }),
+      diffAt(4, { x: 0.02, y: 0.8, w: 0.1, h: 0.1 }),
+      diffAt(5, { x: 0.3, y: 0.05, w: 0.15, h: 0.05 }),
+      // 全画面の遷移は位置の手がかりにしない
+      diffAt(6, { x: 0, y: 0, w: 1, h: 1 }),
+    ];
+    const crop = suggestCropRegion(diffs);
+    expect(crop).not.toBeNull();
+    expect(crop!.x).toBeLessThanOrEqual(0.05);
+    expect(crop!.x + crop!.w).toBeGreaterThanOrEqual(0.45);
+    expect(crop!.x + crop!.w).toBeLessThan(0.6);
+  });
+
+  it("変化が画面全体に散らばる・変化が少ない場合は提案しない", () => {
+    const spread = [0, 1, 2, 3, 4, 5].map(i =>
+      diffAt(i + 1, { x: (i % 3) * 0.33, y: Math.floor(i / 3) * 0.5, w: 0.3, h: 0.45 })
+    );
+    expect(suggestCropRegion(spread)).toBeNull();
+    expect(
+      suggestCropRegion([diffAt(1, { x: 0.1, y: 0.1, w: 0.1, h: 0.1 })])
+    ).toBeNull();
+  });
+
+  it("元フレーム座標の矩形をクロップ内の座標へ写し、範囲外は null", () => {
+    const crop = { x: 0.5, y: 0, w: 0.5, h: 1 };
+    const projected = projectRectIntoCrop(
+      { x: 0.9, y: 0, w: 0.1, h: 0.05 },
+      crop
+    );
+    expect(projected?.x).toBeCloseTo(0.8);
+    expect(projected?.y).toBeCloseTo(0);
+    expect(projected?.w).toBeCloseTo(0.2);
+    expect(projected?.h).toBeCloseTo(0.05);
+    expect(projectRectIntoCrop({ x: 0.1, y: 0.1, w: 0.2, h: 0.2 }, crop)).toBeNull();
+  });
+});
+
 describe("computeFullFrameDHash（比較実験用）", () => {
   it("同一フレームのハッシュは一致する", () => {
     const a = flatFrame(100);
@@ -29,6 +29,11 @@ export interface FrameDiff {
   diffRate: number;
   /** 変化ピクセルのバウンディングボックス（正規化座標、変化なしなら null） */
   changedBBox: NormalizedRect | null;
+  /**
+   * 縦スクロールの推定量（サンプル解像度のpx、正=下方向へのスクロール）。
+   * annotateScrollShifts でスクロールと判定された差分にのみ付く
+   */
+  scrollShiftPx?: number;
 }
 
 export interface SegmentationOptions {
@@ -54,6 +59,12 @@ export interface SegmentationOptions {
   waitingRunAreaRatio: number;
   /** 反復待機runの最短スパン。短いタイピング連続をwaiting化しない */
   waitingRunMinSpanMs: number;
+  /** スクロール推定を試みる最小変化率。全画面級の変化だけを対象にして計算量を抑える */
+  scrollMinDiffRate: number;
+  /** 探索する最大シフト量（フレーム高さ比）。1サンプル間隔で動き得るスクロール量の上限 */
+  scrollMaxShiftRatio: number;
+  /** シフト後の残差がシフトなし残差のこの比率未満ならスクロールとみなす */
+  scrollResidualRatio: number;
 }
 
 export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
@@ -72,9 +83,19 @@ export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
   stallAfterMs: 6000,
   waitingRunAreaRatio: 0.35,
   waitingRunMinSpanMs: 10000,
+  // 固定ヘッダー・サイドバーが残差に残っても判定できるよう比率は緩めにとる
+  scrollMinDiffRate: 0.05,
+  scrollMaxShiftRatio: 0.35,
+  scrollResidualRatio: 0.5,
 };
 
-export type OperationActivity = "action" | "waiting";
+export type OperationActivity = "action" | "waiting" | "scroll";
+
+export interface ScrollMotion {
+  direction: "up" | "down";
+  /** 合計スクロール量（フレーム高さ比。1.0 = 1画面分） */
+  distanceRatio: number;
+}
 
 export interface OperationSegment {
   /** セグメント区間: 直前の安定開始（または0）〜 遷移後の安定化時刻（ms） */
@@ -90,19 +111,41 @@ export interface OperationSegment {
   changedBBox: NormalizedRect | null;
   /** coalescingで合体した変化点の数（1 = 合体なし） */
   coalescedFrom: number;
-  /** 操作セグメントか、進捗バー・スピナー等の待機区間か */
+  /** 操作セグメントか、進捗バー・スピナー等の待機区間か、スクロールか */
   activity: OperationActivity;
+  /** activity=scroll の方向と量 */
+  scroll?: ScrollMotion;
+}
+
+/** 正規化矩形をピクセル範囲（右端・下端は排他）へ変換する */
+export function toPixelRects(
+  rects: NormalizedRect[],
+  width: number,
+  height: number
+): Array<{ x0: number; y0: number; x1: number; y1: number }> {
+  return rects.map(rect => ({
+    x0: Math.floor(rect.x * width),
+    y0: Math.floor(rect.y * height),
+    x1: Math.ceil((rect.x + rect.w) * width),
+    y1: Math.ceil((rect.y + rect.h) * height),
+  }));
 }
 
-/** 2フレーム間の変化率と変化領域bboxを計算する */
+/**
+ * 2フレーム間の変化率と変化領域bboxを計算する。
+ * ignoreRegions（時計・通知バッジ・動画プレイヤー等の除外矩形）内の変化は数えない。
+ * 変化率の分母は全画素のまま（閾値の較正を除外矩形の大きさに依存させない）。
+ */
 export function computeFrameDiff(
   prev: Buffer,
   curr: Buffer,
   width: number,
   height: number,
-  pixelThreshold: number
+  pixelThreshold: number,
+  ignoreRegions: NormalizedRect[] = []
 ): { diffRate: number; changedBBox: NormalizedRect | null } {
   const total = width * height;
+  const ignored = toPixelRects(ignoreRegions, width, height);
   let changed = 0;
   let minX = width;
   let minY = height;
@@ -112,9 +155,16 @@ export function computeFrameDiff(
   for (let i = 0; i < total; i++) {
     const delta = Math.abs(prev[i] - curr[i]);
     if (delta > pixelThreshold) {
-      changed += 1;
       const x = i % width;
       const y = (i / width) | 0;
+      if (
+        ignored.some(
+          rect => x >= rect.x0 && x < rect.x1 && y >= rect.y0 && y < rect.y1
+        )
+      ) {
+        continue;
+      }
+      changed += 1;
       if (x < minX) minX = x;
       if (x > maxX) maxX = x;
       if (y < minY) minY = y;
@@ -142,7 +192,8 @@ export function computeDiffTimeline(
   frames: GrayFrame[],
   width: number,
   height: number,
-  pixelThreshold = 24
+  pixelThreshold = 24,
+  ignoreRegions: NormalizedRect[] = []
 ): FrameDiff[] {
   const diffs: FrameDiff[] = [];
   for (let i = 1; i < frames.length; i++) {
@@ -151,13 +202,137 @@ export function computeDiffTimeline(
       frames[i].pixels,
       width,
       height,
-      pixelThreshold
+      pixelThreshold,
+      ignoreRegions
     );
     diffs.push({ index: i, diffRate, changedBBox });
   }
   return diffs;
 }
 
+/**
+ * 縦方向の行シフト相関でスクロール量を推定する。
+ * curr の行 y が prev の行 y+shift と最も一致する shift を重なり行の平均絶対差で探す。
+ * シフトで画面外に出た行の変化を「説明できた」と誤認しないよう、シフトなし残差も
+ * 同じ重なり行で測り、両者の比が最小の shift を採る。列は2pxおきに比較する。
+ * ignoreRegions（時計・動画プレイヤー等）の画素は、スクロールと無関係に変わるので比較しない。
+ */
+export function estimateVerticalShift(
+  prev: Buffer,
+  curr: Buffer,
+  width: number,
+  height: number,
+  maxShiftPx: number,
+  ignoreRegions: NormalizedRect[] = []
+): { shiftPx: number; residual: number; zeroResidual: number } {
+  const ignored = toPixelRects(ignoreRegions, width, height);
+  const isIgnored = (x: number, y: number) =>
+    ignored.some(
+      rect => x >= rect.x0 && x < rect.x1 && y >= rect.y0 && y < rect.y1
+    );
+  const residualAt = (
+    shift: number
+  ): { residual: number; zeroResidual: number } => {
+    const yStart = Math.max(0, -shift);
+    const yEnd = Math.min(height, height - shift);
+    let shifted = 0;
+    let zero = 0;
+    let count = 0;
+    for (let y = yStart; y < yEnd; y++) {
+      const currRow = y * width;
+      const prevRow = (y + shift) * width;
+      for (let x = 0; x < width; x += 2) {
+        if (ignored.length > 0 && (isIgnored(x, y) || isIgnored(x, y + shift)))
+          continue;
+        shifted += Math.abs(curr[currRow + x] - prev[prevRow + x]);
+        zero += Math.abs(curr[currRow + x] - prev[currRow + x]);
+        count += 1;
+      }
+    }
+    return count > 0
+      ? { residual: shifted / count, zeroResidual: zero / count }
+      : { residual: 0, zeroResidual: 0 };
+  };
+
+  const noShift = residualAt(0);
+  let best = { shiftPx: 0, ...noShift };
+  let bestRatio = 1;
+  const limit = Math.min(maxShiftPx, Math.floor(height / 2));
+  for (let distance = 1; distance <= limit; distance++) {
+    // 同率なら小さいシフト（重なり行が多い方）を優先する
+    for (const shift of [distance, -distance]) {
+      const candidate = residualAt(shift);
+      if (candidate.zeroResidual <= 0) continue;
+      const ratio = candidate.residual / candidate.zeroResidual;
+      if (ratio < bestRatio) {
+        best = { shiftPx: shift, ...candidate };
+        bestRatio = ratio;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * 全画面級の差分に縦スクロール推定を付与する（入力は変更しない）。
+ * シフト後の残差が十分小さい場合のみ scrollShiftPx を付ける。
+ */
+export function annotateScrollShifts(
+  diffs: FrameDiff[],
+  frames: GrayFrame[],
+  width: number,
+  height: number,
+  options: ScrollEstimateOptions
+): FrameDiff[] {
+  return diffs.map(diff =>
+    annotateScrollShift(
+      diff,
+      frames[diff.index - 1],
+      frames[diff.index],
+      width,
+      height,
+      options
+    )
+  );
+}
+
+type ScrollEstimateOptions = Pick<
+  SegmentationOptions,
+  "scrollMinDiffRate" | "scrollMaxShiftRatio" | "scrollResidualRatio"
+> & {
+  /** 差分計算と同じ除外矩形（正規化座標） */
+  ignoreRegions?: NormalizedRect[];
+};
+
+/** 差分1件分のスクロール推定（ストリーミング抽出では直前フレームだけを保持して呼ぶ） */
+export function annotateScrollShift(
+  diff: FrameDiff,
+  prev: GrayFrame | undefined,
+  curr: GrayFrame | undefined,
+  width: number,
+  height: number,
+  options: ScrollEstimateOptions
+): FrameDiff {
+  if (diff.diffRate < options.scrollMinDiffRate) return diff;
+  if (!prev || !curr) return diff;
+  const maxShiftPx = Math.max(
+    1,
+    Math.round(height * options.scrollMaxShiftRatio)
+  );
+  const estimate = estimateVerticalShift(
+    prev.pixels,
+    curr.pixels,
+    width,
+    height,
+    maxShiftPx,
+    options.ignoreRegions
+  );
+  const isScroll =
+    estimate.shiftPx !== 0 &&
+    estimate.residual < estimate.zeroResidual * options.scrollResidualRatio;
+  return isScroll ? { ...diff, scrollShiftPx: estimate.shiftPx } : diff;
+}
+
 export function unionBBox(
   a: NormalizedRect | null,
   b: NormalizedRect | null
@@ -223,14 +398,161 @@ export function rectsIntersect(a: NormalizedRect, b: NormalizedRect): boolean {
   );
 }
 
+/**
+ * 元フレーム座標の矩形をクロップ領域内の正規化座標へ写す。
+ * クロップ領域と重ならなければ null。
+ */
+export function projectRectIntoCrop(
+  rect: NormalizedRect,
+  crop: NormalizedRect
+): NormalizedRect | null {
+  const x1 = Math.max(rect.x, crop.x);
+  const y1 = Math.max(rect.y, crop.y);
+  const x2 = Math.min(rect.x + rect.w, crop.x + crop.w);
+  const y2 = Math.min(rect.y + rect.h, crop.y + crop.h);
+  if (x2 <= x1 || y2 <= y1) return null;
+  return {
+    x: (x1 - crop.x) / crop.w,
+    y: (y1 - crop.y) / crop.h,
+    w: (x2 - x1) / crop.w,
+    h: (y2 - y1) / crop.h,
+  };
+}
+
+export interface CropSuggestionOptions {
+  /** 集計対象とする差分の下限（既定: lowThreshold の既定値） */
+  minDiffRate: number;
+  /** 提案に必要な変化フレーム数の下限 */
+  minActiveDiffs: number;
+  /** 変化bboxがこの面積比を超える差分（アプリ切替・全画面遷移）は位置の手がかりにならないので数えない */
+  maxDiffAreaRatio: number;
+  /** 外れ値として左右・上下それぞれから切り捨てる変化量の割合 */
+  trimRatio: number;
+  /** 提案領域の余白（正規化座標） */
+  padRatio: number;
+  /** 提案領域がこの面積比を超えるならクロップの効果が薄いので提案しない */
+  maxAreaRatio: number;
+}
+
+const CROP_SUGGESTION_GRID = 64;
+
+const DEFAULT_CROP_SUGGESTION_OPTIONS: CropSuggestionOptions = {
+  minDiffRate: DEFAULT_SEGMENTATION_OPTIONS.lowThreshold,
+  minActiveDiffs: 5,
+  maxDiffAreaRatio: 0.5,
+  trimRatio: 0.03,
+  padRatio: 0.02,
+  maxAreaRatio: 0.8,
+};
+
+/**
+ * 差分タイムラインから「変化の大半が起きている領域」をクロップ候補として提案する。
+ * ウルトラワイド・デュアルモニタ録画で対象アプリが画面の一部にしかない場合向け。
+ * 各差分bboxを列・行の周辺分布へ（bboxの幅で割って）積み、両端の外れ値を切り捨てた範囲を返す。
+ * 大きなbboxほど1列あたりの寄与が薄くなるため、局所的な操作の位置が支配的になる。
+ */
+export function suggestCropRegion(
+  diffs: FrameDiff[],
+  options: Partial<CropSuggestionOptions> = {}
+): NormalizedRect | null {
+  const opts = { ...DEFAULT_CROP_SUGGESTION_OPTIONS, ...options };
+  const active = diffs.filter(
+    diff =>
+      diff.changedBBox !== null &&
+      diff.diffRate >= opts.minDiffRate &&
+      rectArea(diff.changedBBox) <= opts.maxDiffAreaRatio
+  );
+  if (active.length < opts.minActiveDiffs) return null;
+
+  const columns = new Array<number>(CROP_SUGGESTION_GRID).fill(0);
+  const rows = new Array<number>(CROP_SUGGESTION_GRID).fill(0);
+  const accumulate = (mass: number[], start: number, size: number) => {
+    const first = Math.max(0, Math.floor(start * CROP_SUGGESTION_GRID));
+    const last = Math.min(
+      CROP_SUGGESTION_GRID - 1,
+      Math.ceil((start + size) * CROP_SUGGESTION_GRID) - 1
+    );
+    for (let i = first; i <= last; i++) {
+      mass[i] += 1 / (last - first + 1);
+    }
+  };
+  for (const diff of active) {
+    const bbox = diff.changedBBox as NormalizedRect;
+    accumulate(columns, bbox.x, bbox.w);
+    accumulate(rows, bbox.y, bbox.h);
+  }
+
+  const trimmedRange = (mass: number[]): [number, number] => {
+    const total = mass.reduce((sum, value) => sum + value, 0);
+    const limit = total * opts.trimRatio;
+    let start = 0;
+    let removed = mass[0];
+    while (start < mass.length - 1 && removed <= limit) {
+      start += 1;
+      removed += mass[start];
+    }
+    let end = mass.length - 1;
+    removed = mass[end];
+    while (end > start && removed <= limit) {
+      end -= 1;
+      removed += mass[end];
+    }
+    return [
+      Math.max(0, start / CROP_SUGGESTION_GRID - opts.padRatio),
+      Math.min(1, (end + 1) / CROP_SUGGESTION_GRID + opts.padRatio),
+    ];
+  };
+  const [x1, x2] = trimmedRange(columns);
+  const [y1, y2] = trimmedRange(rows);
+  if ((x2 - x1) * (y2 - y1) > opts.maxAreaRatio) return null;
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    x: round(x1),
+    y: round(y1),
+    w: round(x2 - x1),
+    h: round(y2 - y1),
+  };
+}
+
 /** 遷移区間の生検出結果（coalescing前） */
-interface RawTransition {
+export interface RawTransition {
   /** 遷移開始フレーム（このフレームで最初にhighを超えた） */
   startIndex: number;
   /** 安定化フレーム（このフレーム以降 stableFrames 連続で low 未満） */
   stabilizedIndex: number;
   changedBBox: NormalizedRect | null;
   activity?: OperationActivity;
+  /** activity=scroll の合計シフト量（px、符号付き） */
+  scrollShiftPx?: number;
+}
+
+type TransitionDetectorOptions = Pick<
+  SegmentationOptions,
+  "highThreshold" | "lowThreshold" | "stableFrames"
+> &
+  Partial<
+    Pick<
+      SegmentationOptions,
+      | "fps"
+      | "stallWindowFrames"
+      | "stallAreaRatio"
+      | "stallAfterMs"
+      | "coalesceBBoxPadRatio"
+    >
+  >;
+
+/** 差分を逐次投入する遷移検出器（ストリーミング抽出用） */
+export interface TransitionDetector {
+  /**
+   * 差分を1件投入し、確定した遷移を返す。
+   * 微小入力の判定に後続 fps フレーム分の差分を使うため、判定は最大1秒遅れる。
+   */
+  push(diff: FrameDiff): RawTransition[];
+  /** 入力終了。安定化していない遷移は最終フレームで強制安定化して返す */
+  finish(frameCount: number): RawTransition[];
+  /** 未確定の遷移が取りうる startIndex の下限（これより前の差分はもう参照されない） */
+  pendingStartIndex(): number;
 }
 
 /**
@@ -239,25 +561,10 @@ interface RawTransition {
  * 遷移中に diffRate < low が stableFrames 連続 → その先頭フレームで安定化。
  * 動画末尾まで安定化しない場合は最終フレームで強制安定化する。
  */
-export function detectTransitions(
-  diffs: FrameDiff[],
-  frameCount: number,
-  options: Pick<
-    SegmentationOptions,
-    "highThreshold" | "lowThreshold" | "stableFrames"
-  > &
-    Partial<
-      Pick<
-        SegmentationOptions,
-        | "fps"
-        | "stallWindowFrames"
-        | "stallAreaRatio"
-        | "stallAfterMs"
-        | "coalesceBBoxPadRatio"
-      >
-    >
-): RawTransition[] {
-  const transitions: RawTransition[] = [];
+export function createTransitionDetector(
+  options: TransitionDetectorOptions
+): TransitionDetector {
+  let transitions: RawTransition[] = [];
   const fps = options.fps ?? DEFAULT_SEGMENTATION_OPTIONS.fps;
   const stallWindowFrames =
     options.stallWindowFrames ?? DEFAULT_SEGMENTATION_OPTIONS.stallWindowFrames;
@@ -287,27 +594,25 @@ export function detectTransitions(
       area <= microInputAreaRatio
     );
   };
-  const microStartIndices = new Set<number>();
-  for (let i = 0; i < diffs.length; i++) {
-    const diff = diffs[i];
-    if (!isMicroInputCandidate(diff) || diff.changedBBox === null) continue;
+  // 判定待ちの差分（先頭の差分の後続 fps フレーム分がそろうまで保持する）
+  const lookahead: FrameDiff[] = [];
+  let nextIndex = 1;
+  // 1秒以内に近傍で微小変化が続く差分（タイピング等）を遷移開始とみなす
+  const isMicroInputStart = (diff: FrameDiff): boolean => {
+    if (!isMicroInputCandidate(diff) || diff.changedBBox === null) return false;
     const padded = padRect(diff.changedBBox, coalesceBBoxPadRatio);
-    for (
-      let j = i + 1;
-      j < diffs.length && diffs[j].index - diff.index <= fps;
-      j++
-    ) {
-      const next = diffs[j];
+    for (const next of lookahead) {
+      if (next.index - diff.index > fps) break;
       if (
         isMicroInputCandidate(next) &&
         next.changedBBox !== null &&
         rectsIntersect(padded, padRect(next.changedBBox, coalesceBBoxPadRatio))
       ) {
-        microStartIndices.add(diff.index);
-        break;
+        return true;
       }
     }
-  }
+    return false;
+  };
   const isTransitionStart = (diff: FrameDiff): boolean => {
     if (diff.diffRate > options.highThreshold) return true;
     const area = rectArea(diff.changedBBox);
@@ -315,8 +620,7 @@ export function detectTransitions(
       diff.diffRate > options.lowThreshold &&
       area >= mediumStartAreaRatio &&
       area <= stallAreaRatio;
-    const microInputChange = microStartIndices.has(diff.index);
-    return mediumLocalChange || microInputChange;
+    return mediumLocalChange || isMicroInputStart(diff);
   };
   let state: "stable" | "transition" | "stalled" = "stable";
   let transitionStart = 0;
@@ -332,7 +636,8 @@ export function detectTransitions(
   // stall領域外の中間diffを蓄積し、stableFrames回連続でwaitingをエスケープする（P2-1）
   let stalledEscapeDiffs: FrameDiff[] = [];
 
-  for (const diff of diffs) {
+  // 判定待ちから取り出した差分1件で状態機械を進める
+  const step = (diff: FrameDiff): void => {
     if (state === "stable") {
       if (isTransitionStart(diff)) {
         state = "transition";
@@ -343,7 +648,7 @@ export function detectTransitions(
         stallWindow = [diff];
         stallCandidateStart = null;
       }
-      continue;
+      return;
     }
 
     if (state === "stalled") {
@@ -362,7 +667,7 @@ export function detectTransitions(
           stalledRegion = null;
           stalledBBox = null;
         }
-        continue;
+        return;
       }
 
       stalledCalmRun = 0;
@@ -374,7 +679,7 @@ export function detectTransitions(
       if (insideStallRegion) {
         stalledBBox = unionBBox(stalledBBox, diff.changedBBox);
         stalledEscapeDiffs = []; // stall領域内ならエスケープrun をリセット
-        continue;
+        return;
       }
       // (3) isTransitionStart: 明確な遷移開始でwaitingをクローズ
       if (isTransitionStart(diff)) {
@@ -392,7 +697,7 @@ export function detectTransitions(
         stallWindow = [diff];
         stallCandidateStart = null;
         stalledEscapeDiffs = []; // 遷移移行時もリセット
-        continue;
+        return;
       }
       // (4) 中間diff: stall領域外かつisTransitionStart未満の変化
       // stableFrames回連続したらwaitingをクローズして遷移再開する
@@ -419,7 +724,7 @@ export function detectTransitions(
         stalledBBox = null;
         stalledEscapeDiffs = [];
       }
-      continue;
+      return;
     }
 
     if (diff.diffRate < options.lowThreshold) {
@@ -486,7 +791,7 @@ export function detectTransitions(
             stallWindow = [];
             stallCandidateStart = null;
             stalledEscapeDiffs = [];
-            continue;
+            return;
           } else {
             // pre-stall actionなし（スピナーのみ等）: 遷移全体をwaitingとしてstalled状態へ
             stalledStart = transitionStart;
@@ -506,7 +811,7 @@ export function detectTransitions(
             stallWindow = [];
             stallCandidateStart = null;
             stalledEscapeDiffs = [];
-            continue;
+            return;
           }
         }
       } else {
@@ -514,25 +819,100 @@ export function detectTransitions(
       }
       bbox = unionBBox(bbox, diff.changedBBox);
     }
-  }
+  };
 
-  if (state === "transition") {
-    transitions.push({
-      startIndex: transitionStart,
-      stabilizedIndex: frameCount - 1,
-      changedBBox: bbox,
-      activity: "action",
-    });
-  } else if (state === "stalled") {
-    transitions.push({
-      startIndex: stalledStart,
-      stabilizedIndex: frameCount - 1,
-      changedBBox: stalledBBox,
-      activity: "waiting",
-    });
-  }
+  // 後続 fps フレーム分がそろった差分（finish時は残り全部）を状態機械へ流す
+  const drain = (latestIndex: number | null): RawTransition[] => {
+    while (
+      lookahead.length > 0 &&
+      (latestIndex === null || latestIndex - lookahead[0].index > fps)
+    ) {
+      step(lookahead.shift() as FrameDiff);
+    }
+    const emitted = transitions;
+    transitions = [];
+    return emitted;
+  };
+
+  return {
+    push(diff) {
+      lookahead.push(diff);
+      nextIndex = diff.index + 1;
+      return drain(diff.index);
+    },
+    finish(frameCount) {
+      const emitted = drain(null);
+      if (state === "transition") {
+        transitions.push({
+          startIndex: transitionStart,
+          stabilizedIndex: frameCount - 1,
+          changedBBox: bbox,
+          activity: "action",
+        });
+      } else if (state === "stalled") {
+        transitions.push({
+          startIndex: stalledStart,
+          stabilizedIndex: frameCount - 1,
+          changedBBox: stalledBBox,
+          activity: "waiting",
+        });
+      }
+      state = "stable";
+      return [...emitted, ...drain(null)];
+    },
+    pendingStartIndex() {
+      if (state === "transition") return transitionStart;
+      if (state === "stalled") return stalledStart;
+      return lookahead[0]?.index ?? nextIndex;
+    },
+  };
+}
 
-  return transitions;
+/** 差分タイムライン全体から遷移を検出する（createTransitionDetector のバッチ版） */
+export function detectTransitions(
+  diffs: FrameDiff[],
+  frameCount: number,
+  options: TransitionDetectorOptions
+): RawTransition[] {
+  const detector = createTransitionDetector(options);
+  const transitions = diffs.flatMap(diff => detector.push(diff));
+  return [...transitions, ...detector.finish(frameCount)];
+}
+
+/**
+ * 遷移中の変化の大半がスクロール推定付きの差分なら activity=scroll に分類する。
+ * waiting は対象外（スクロールとは独立の分類を優先する）。
+ */
+export function classifyScrollTransitions(
+  transitions: RawTransition[],
+  diffs: FrameDiff[],
+  options: Pick<SegmentationOptions, "lowThreshold">
+): RawTransition[] {
+  const scrollMajority = 0.6;
+  return transitions.map(transition => {
+    if ((transition.activity ?? "action") !== "action") return transition;
+    const active = diffs.filter(
+      diff =>
+        diff.index >= transition.startIndex &&
+        diff.index < transition.stabilizedIndex &&
+        diff.diffRate >= options.lowThreshold
+    );
+    const scrollDiffs = active.filter(diff => diff.scrollShiftPx !== undefined);
+    if (
+      active.length === 0 ||
+      scrollDiffs.length < Math.ceil(active.length * scrollMajority)
+    ) {
+      return transition;
+    }
+    return {
+      ...transition,
+      activity: "scroll",
+      scrollShiftPx: scrollDiffs.reduce(
+        (sum, diff) => sum + (diff.scrollShiftPx ?? 0),
+        0
+      ),
+    };
+  });
 }
 
 /**
@@ -540,50 +920,72 @@ export function detectTransitions(
  * 安定ギャップが coalesceMaxGapMs 未満かつ変化領域が近接
  * （bboxをpadRatio拡張して交差）する遷移を1操作に合体する（タイピング等）。
  * bboxが欠けている場合は誤合体を避けるため合体しない。
+ * スクロール同士は画面全体が動くためbbox近接を問わず、同じ方向なら合体する
+ * （慣性スクロールの途中停止で1回のスクロールが分割されるのを防ぐ）。
  */
 export function coalesceTransitions(
   transitions: RawTransition[],
-  options: Pick<
-    SegmentationOptions,
-    "fps" | "coalesceMaxGapMs" | "coalesceBBoxPadRatio"
-  >
-): Array<RawTransition & { coalescedFrom: number }> {
-  const result: Array<RawTransition & { coalescedFrom: number }> = [];
-  const frameMs = 1000 / options.fps;
+  options: CoalesceOptions
+): CoalescedTransition[] {
+  const result: CoalescedTransition[] = [];
 
   for (const transition of transitions) {
     const last = result[result.length - 1];
-    if (last) {
-      const gapMs = (transition.startIndex - last.stabilizedIndex) * frameMs;
-      const bothHaveBBox =
-        last.changedBBox !== null && transition.changedBBox !== null;
-      const sameActivity =
-        (last.activity ?? "action") === (transition.activity ?? "action");
-      const nearby =
-        bothHaveBBox &&
-        rectsIntersect(
-          padRect(
-            last.changedBBox as NormalizedRect,
-            options.coalesceBBoxPadRatio
-          ),
-          padRect(
-            transition.changedBBox as NormalizedRect,
-            options.coalesceBBoxPadRatio
-          )
-        );
-      if (sameActivity && gapMs < options.coalesceMaxGapMs && nearby) {
-        last.stabilizedIndex = transition.stabilizedIndex;
-        last.changedBBox = unionBBox(last.changedBBox, transition.changedBBox);
-        last.coalescedFrom += 1;
-        continue;
-      }
-    }
+    if (last && mergeIntoTransition(last, transition, options)) continue;
     result.push({ ...transition, coalescedFrom: 1 });
   }
 
   return result;
 }
 
+type CoalesceOptions = Pick<
+  SegmentationOptions,
+  "fps" | "coalesceMaxGapMs" | "coalesceBBoxPadRatio"
+>;
+
+type CoalescedTransition = RawTransition & { coalescedFrom: number };
+
+/** 合体条件を満たせば transition を last に合体して true を返す */
+function mergeIntoTransition(
+  last: CoalescedTransition,
+  transition: RawTransition,
+  options: CoalesceOptions
+): boolean {
+  const frameMs = 1000 / options.fps;
+  const gapMs = (transition.startIndex - last.stabilizedIndex) * frameMs;
+  const bothHaveBBox =
+    last.changedBBox !== null && transition.changedBBox !== null;
+  const sameActivity =
+    (last.activity ?? "action") === (transition.activity ?? "action");
+  const nearby =
+    bothHaveBBox &&
+    rectsIntersect(
+      padRect(last.changedBBox as NormalizedRect, options.coalesceBBoxPadRatio),
+      padRect(
+        transition.changedBBox as NormalizedRect,
+        options.coalesceBBoxPadRatio
+      )
+    );
+  const bothScroll =
+    last.activity === "scroll" && transition.activity === "scroll";
+  const sameScrollDirection =
+    bothScroll &&
+    Math.sign(last.scrollShiftPx ?? 0) ===
+      Math.sign(transition.scrollShiftPx ?? 0);
+  const mergeable = bothScroll ? sameScrollDirection : nearby;
+  if (!sameActivity || gapMs >= options.coalesceMaxGapMs || !mergeable) {
+    return false;
+  }
+  last.stabilizedIndex = transition.stabilizedIndex;
+  last.changedBBox = unionBBox(last.changedBBox, transition.changedBBox);
+  last.coalescedFrom += 1;
+  if (bothScroll) {
+    last.scrollShiftPx =
+      (last.scrollShiftPx ?? 0) + (transition.scrollShiftPx ?? 0);
+  }
+  return true;
+}
+
 function rectIoU(a: NormalizedRect, b: NormalizedRect): number {
   const x1 = Math.max(a.x, b.x);
   const y1 = Math.max(a.y, b.y);
@@ -594,6 +996,27 @@ function rectIoU(a: NormalizedRect, b: NormalizedRect): number {
   return union > 0 ? intersection / union : 0;
 }
 
+function isWaitingRunCandidate(
+  segment: OperationSegment,
+  waitingRunAreaRatio: number
+): boolean {
+  return (
+    segment.changedBBox !== null &&
+    rectArea(segment.changedBBox) <= waitingRunAreaRatio
+  );
+}
+
+function continuesWaitingRun(
+  previous: OperationSegment,
+  current: OperationSegment
+): boolean {
+  return (
+    previous.changedBBox !== null &&
+    current.changedBBox !== null &&
+    rectIoU(previous.changedBBox, current.changedBBox) >= 0.4
+  );
+}
+
 /**
  * detectTransitions の stall 検出とは独立した第二のヒューリスティック（セグメント単位の反復小領域 run の検出）。
  * stall 起源で既に activity="waiting" のセグメントも再走査対象に含める。
@@ -620,13 +1043,6 @@ export function classifyWaitingRuns(
   }));
   let runStart = 0;
 
-  function isSmall(segment: OperationSegment): boolean {
-    return (
-      segment.changedBBox !== null &&
-      rectArea(segment.changedBBox) <= waitingRunAreaRatio
-    );
-  }
-
   function markRun(endExclusive: number): void {
     const runLength = endExclusive - runStart;
     if (runLength < 3) return;
@@ -639,19 +1055,14 @@ export function classifyWaitingRuns(
 
   for (let i = 0; i < result.length; i++) {
     const current = result[i];
-    if (!isSmall(current)) {
+    if (!isWaitingRunCandidate(current, waitingRunAreaRatio)) {
       markRun(i);
       runStart = i + 1;
       continue;
     }
 
     if (i > runStart) {
-      const previous = result[i - 1];
-      const adjacent =
-        previous.changedBBox !== null &&
-        current.changedBBox !== null &&
-        rectIoU(previous.changedBBox, current.changedBBox) >= 0.4;
-      if (!adjacent) {
+      if (!continuesWaitingRun(result[i - 1], current)) {
         markRun(i);
         runStart = i;
       }
@@ -662,19 +1073,30 @@ export function classifyWaitingRuns(
   return result;
 }
 
+/** 差分を逐次投入し、閉じた操作セグメントから順に返すセグメンタ（ストリーミング抽出用） */
+export interface SegmentStream {
+  /**
+   * スクロール推定済みの差分を1件投入し、確定したセグメントを返す。
+   * 後続の遷移との合体や waiting run の判定が済むまで返却は遅れる。
+   */
+  push(diff: FrameDiff): OperationSegment[];
+  /** 入力終了。残りのセグメントをすべて返す */
+  finish(frameCount: number): OperationSegment[];
+}
+
 /**
- * フレーム列から操作セグメントを検出する（エントリーポイント）。
+ * detectTransitions → classifyScrollTransitions → coalesceTransitions → classifyWaitingRuns を
+ * 差分1件ずつ進める。保持するのは未確定の遷移が参照しうる差分と、判定中の waiting run だけなので、
+ * 長時間の録画でもメモリは動画長に比例しない。
  *
  * セグメント区間の規約: 各操作セグメントは
  * 「直前の操作の安定化時刻（先頭は0）〜 この操作の遷移後の安定化時刻」。
  * before = 遷移開始直前の安定フレーム、after = 安定化した最初のフレーム。
  */
-export function detectSegments(
-  frames: GrayFrame[],
-  width: number,
+export function createSegmentStream(
   height: number,
-  options: Partial<SegmentationOptions> & { pixelThreshold?: number } = {}
-): OperationSegment[] {
+  options: Partial<SegmentationOptions> = {}
+): SegmentStream {
   const opts: SegmentationOptions = {
     ...DEFAULT_SEGMENTATION_OPTIONS,
     ...options,
@@ -683,21 +1105,38 @@ export function detectSegments(
     throw new Error("lowThreshold は highThreshold より小さい必要があります");
   }
   const frameMs = 1000 / opts.fps;
+  const detector = createTransitionDetector(opts);
+  // 未確定の遷移のスクロール判定に使う差分
+  let pendingDiffs: FrameDiff[] = [];
+  // 後続の遷移と合体しうる遷移
+  let pendingTransition: CoalescedTransition | null = null;
+  // 判定中の waiting run 候補（小領域で隣接するセグメントの連続）
+  let waitingRun: OperationSegment[] = [];
+  let prevStabilized = 0;
+  let segmentCount = 0;
 
-  const diffs = computeDiffTimeline(
-    frames,
-    width,
-    height,
-    options.pixelThreshold ?? 24
-  );
-  const transitions = detectTransitions(diffs, frames.length, opts);
-  const coalesced = coalesceTransitions(transitions, opts);
+  const flushWaitingRun = (): OperationSegment[] => {
+    const flushed = classifyWaitingRuns(waitingRun, opts);
+    waitingRun = [];
+    return flushed;
+  };
 
-  const segments: OperationSegment[] = [];
-  let prevStabilized = 0;
+  const emitSegment = (segment: OperationSegment): OperationSegment[] => {
+    segmentCount += 1;
+    if (!isWaitingRunCandidate(segment, opts.waitingRunAreaRatio)) {
+      return [...flushWaitingRun(), segment];
+    }
+    const last = waitingRun[waitingRun.length - 1];
+    const flushed =
+      last && !continuesWaitingRun(last, segment) ? flushWaitingRun() : [];
+    waitingRun.push(segment);
+    return flushed;
+  };
 
-  for (const transition of coalesced) {
-    segments.push({
+  const closeTransition = (
+    transition: CoalescedTransition
+  ): OperationSegment[] => {
+    const segment: OperationSegment = {
       tStartMs: Math.round(prevStabilized * frameMs),
       tEndMs: Math.round(transition.stabilizedIndex * frameMs),
       transitionStartMs: Math.round(transition.startIndex * frameMs),
@@ -706,33 +1145,128 @@ export function detectSegments(
       changedBBox: transition.changedBBox,
       coalescedFrom: transition.coalescedFrom,
       activity: transition.activity ?? "action",
-    });
+      ...(transition.activity === "scroll"
+        ? {
+            scroll: {
+              direction:
+                (transition.scrollShiftPx ?? 0) >= 0
+                  ? ("down" as const)
+                  : ("up" as const),
+              distanceRatio:
+                Math.round(
+                  (Math.abs(transition.scrollShiftPx ?? 0) / height) * 1000
+                ) / 1000,
+            },
+          }
+        : {}),
+    };
     prevStabilized = transition.stabilizedIndex;
-  }
+    return emitSegment(segment);
+  };
 
-  // 操作が一つもない動画: 先頭フレームのみの単一セグメント
-  if (segments.length === 0 && frames.length > 0) {
-    segments.push({
-      tStartMs: 0,
-      tEndMs: Math.round((frames.length - 1) * frameMs),
-      transitionStartMs: 0,
-      beforeFrameIndex: null,
-      afterFrameIndex: 0,
-      changedBBox: null,
-      coalescedFrom: 1,
-      activity: "action",
-    });
-  } else if (segments.length > 0) {
-    // 先頭セグメントの before は「初期画面」なので null 扱いにしない
-    // （初期画面 = before、操作後 = after が成立する）。
-    // ただし遷移開始が0フレーム目ならbeforeは存在しない。
-    const first = segments[0];
-    if (first.beforeFrameIndex !== null && first.beforeFrameIndex < 0) {
-      first.beforeFrameIndex = null;
+  const acceptTransitions = (
+    transitions: RawTransition[]
+  ): OperationSegment[] => {
+    const closed: OperationSegment[] = [];
+    for (const transition of classifyScrollTransitions(
+      transitions,
+      pendingDiffs,
+      opts
+    )) {
+      if (
+        pendingTransition &&
+        mergeIntoTransition(pendingTransition, transition, opts)
+      ) {
+        continue;
+      }
+      if (pendingTransition) closed.push(...closeTransition(pendingTransition));
+      pendingTransition = { ...transition, coalescedFrom: 1 };
     }
-  }
+    return closed;
+  };
+
+  return {
+    push(diff) {
+      pendingDiffs.push(diff);
+      const closed = acceptTransitions(detector.push(diff));
+      const earliestStart = detector.pendingStartIndex();
+      if (pendingDiffs.length > 0 && pendingDiffs[0].index < earliestStart) {
+        pendingDiffs = pendingDiffs.filter(d => d.index >= earliestStart);
+      }
+      // 以降の遷移が合体ギャップ内に始まりえなくなったら確定する
+      if (
+        pendingTransition &&
+        (earliestStart - pendingTransition.stabilizedIndex) * frameMs >=
+          opts.coalesceMaxGapMs
+      ) {
+        closed.push(...closeTransition(pendingTransition));
+        pendingTransition = null;
+      }
+      return closed;
+    },
+    finish(frameCount) {
+      const closed = acceptTransitions(detector.finish(frameCount));
+      if (pendingTransition) {
+        closed.push(...closeTransition(pendingTransition));
+        pendingTransition = null;
+      }
+      closed.push(...flushWaitingRun());
+      pendingDiffs = [];
+      // 操作が一つもない動画: 先頭フレームのみの単一セグメント
+      if (segmentCount === 0 && frameCount > 0) {
+        segmentCount = 1;
+        closed.push({
+          tStartMs: 0,
+          tEndMs: Math.round((frameCount - 1) * frameMs),
+          transitionStartMs: 0,
+          beforeFrameIndex: null,
+          afterFrameIndex: 0,
+          changedBBox: null,
+          coalescedFrom: 1,
+          activity: "action",
+        });
+      }
+      return closed;
+    },
+  };
+}
 
-  return classifyWaitingRuns(segments, opts);
+/**
+ * フレーム列から操作セグメントを検出する（エントリーポイント。createSegmentStream のバッチ版）。
+ */
+export function detectSegments(
+  frames: GrayFrame[],
+  width: number,
+  height: number,
+  options: Partial<SegmentationOptions> & {
+    pixelThreshold?: number;
+    /** 差分計算から除外する矩形（正規化座標） */
+    ignoreRegions?: NormalizedRect[];
+    /** 計算済みの差分タイムライン（キャッシュ再利用時。指定時は pixelThreshold / ignoreRegions を使わない） */
+    diffs?: FrameDiff[];
+  } = {}
+): OperationSegment[] {
+  const opts: SegmentationOptions = {
+    ...DEFAULT_SEGMENTATION_OPTIONS,
+    ...options,
+  };
+  const stream = createSegmentStream(height, opts);
+  const diffs = annotateScrollShifts(
+    options.diffs ??
+      computeDiffTimeline(
+        frames,
+        width,
+        height,
+        options.pixelThreshold ?? 24,
+        options.ignoreRegions
+      ),
+    frames,
+    width,
+    height,
+    { ...opts, ignoreRegions: options.ignoreRegions }
+  );
+  const segments = diffs.flatMap(diff => stream.push(diff));
+  return [...segments, ...stream.finish(frames.length)];
 }
 
 /**
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { GrayFrame } from "./segmentation";
+import {
+  computeHybridDiff,
+  computeSsimDiff,
+  getSegmentationStrategy,
+  SEGMENTATION_STRATEGY_NAMES,
+} from "./strategies";
+
+const W = 64;
+const H = 32;
+
+/** 縦縞の模様（SSIM が構造を比べられるよう分散のあるフレーム） */
+function stripedFrame(offset = 0): GrayFrame {
+  const pixels = Buffer.alloc(W * H);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      pixels[y * W + x] = Math.min(255, ((x >> 1) % 2 ? 180 : 60) + offset);
+    }
+  }
+  return { pixels };
+}
+
+/** 矩形内を単色で塗りつぶしたフレーム（ボタン・文字の出現に相当） */
+function withBlock(
+  base: GrayFrame,
+  rect: { x: number; y: number; w: number; h: number }
+): GrayFrame {
+  const pixels = Buffer.from(base.pixels);
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      pixels[y * W + x] = 255;
+    }
+  }
+  return { pixels };
+}
+
+describe("computeSsimDiff", () => {
+  it("構造が変わったブロックの面積比と bbox を返す", () => {
+    const before = stripedFrame();
+    const after = withBlock(before, { x: 16, y: 8, w: 8, h: 8 });
+
+    const diff = computeSsimDiff(before.pixels, after.pixels, W, H);
+
+    expect(diff.diffRate).toBeCloseTo(64 / (W * H));
+    expect(diff.changedBBox).toEqual({ x: 0.25, y: 0.25, w: 0.125, h: 0.25 });
+  });
+
+  it("同じフレームと除外矩形内の変化は変化なし", () => {
+    const before = stripedFrame();
+    const after = withBlock(before, { x: 16, y: 8, w: 8, h: 8 });
+
+    expect(computeSsimDiff(before.pixels, before.pixels, W, H).diffRate).toBe(
+      0
+    );
+    expect(
+      computeSsimDiff(before.pixels, after.pixels, W, H, [
+        { x: 0.2, y: 0.2, w: 0.3, h: 0.4 },
+      ])
+    ).toEqual({ diffRate: 0, changedBBox: null });
+  });
+});
+
+describe("computeHybridDiff", () => {
+  it("構造の変わらない明るさ変化は数えず、画素差分で局所変化を拾う", () => {
+    const before = stripedFrame();
+    const brighter = stripedFrame(30);
+
+    const pixelDiff = getSegmentationStrategy("pixel-diff").computeDiff(
+      before.pixels,
+      brighter.pixels,
+      W,
+      H,
+      []
+    );
+    expect(pixelDiff.diffRate).toBe(1);
+    expect(computeHybridDiff(before.pixels, brighter.pixels, W, H)).toEqual({
+      diffRate: 0,
+      changedBBox: null,
+    });
+
+    const after = withBlock(before, { x: 16, y: 8, w: 4, h: 4 });
+    const hybrid = computeHybridDiff(before.pixels, after.pixels, W, H);
+    // 塗った16画素のうち、元が暗い縞（60）の画素だけが閾値を超える
+    expect(hybrid.diffRate).toBeCloseTo(8 / (W * H));
+    expect(hybrid.changedBBox?.x).toBeCloseTo(16 / W);
+  });
+});
+
+describe("getSegmentationStrategy", () => {
+  it("既定は pixel-diff で、すべての戦略名を引ける", () => {
+    expect(getSegmentationStrategy().name).toBe("pixel-diff");
+    for (const name of SEGMENTATION_STRATEGY_NAMES) {
+      expect(getSegmentationStrategy(name).name).toBe(name);
+    }
+  });
+});
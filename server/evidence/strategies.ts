@@ -0,0 +1,272 @@
+/**
+ * セグメンテーション戦略（変化信号の計算方法）
+ *
+ * 「安定 → 遷移 → 安定」の状態機械（createSegmentStream）に投入する
+ * フレーム間の変化信号（変化率とbbox）を戦略ごとに差し替える。
+ * - pixel-diff: 画素ごとの輝度差（既定。1文字タイピングまで拾える）
+ * - ssim: 8x8 ブロックごとの構造類似度（SSIM）が下がったブロックの面積
+ * - hybrid: SSIM が下がったブロック内の画素差分だけを数える（フェード・明るさ変化を無視）
+ *
+ * どの戦略も変化率は「画面の何割が変わったか」の尺度にそろえ、
+ * 既定の閾値（diff_high / diff_low）をそのまま使えるようにしている。
+ * すべて純関数（ファイルI/O・ffmpeg非依存）。
+ */
+
+import {
+  computeFrameDiff,
+  createSegmentStream,
+  toPixelRects,
+  type NormalizedRect,
+  type SegmentationOptions,
+  type SegmentStream,
+} from "./segmentation";
+
+export const SEGMENTATION_STRATEGY_NAMES = [
+  "pixel-diff",
+  "ssim",
+  "hybrid",
+] as const;
+export type SegmentationStrategyName =
+  (typeof SEGMENTATION_STRATEGY_NAMES)[number];
+
+export interface SegmentationStrategy {
+  name: SegmentationStrategyName;
+  /** 連続する2フレームの変化率と変化領域bboxを計算する（ignoreRegions 内の変化は数えない） */
+  computeDiff(
+    prev: Buffer,
+    curr: Buffer,
+    width: number,
+    height: number,
+    ignoreRegions: NormalizedRect[]
+  ): { diffRate: number; changedBBox: NormalizedRect | null };
+  /** 変化信号から操作セグメントを組み立てるセグメンタを作る */
+  createSegmenter(
+    height: number,
+    options: Partial<SegmentationOptions>
+  ): SegmentStream;
+}
+
+const PIXEL_THRESHOLD = 24;
+const SSIM_BLOCK_SIZE = 8;
+/** これ未満の SSIM のブロックを「構造が変わった」とみなす */
+const SSIM_CHANGED_THRESHOLD = 0.9;
+// SSIM の安定化定数（8bit 輝度、K1=0.01, K2=0.03）
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+interface ChangedBlocks {
+  cols: number;
+  rows: number;
+  /** cols*rows。1 = 構造変化あり */
+  mask: Uint8Array;
+}
+
+function blockSsim(
+  prev: Buffer,
+  curr: Buffer,
+  width: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): number {
+  const n = (x1 - x0) * (y1 - y0);
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  let sumXY = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const a = prev[y * width + x];
+      const b = curr[y * width + x];
+      sumX += a;
+      sumY += b;
+      sumXX += a * a;
+      sumYY += b * b;
+      sumXY += a * b;
+    }
+  }
+  const meanX = sumX / n;
+  const meanY = sumY / n;
+  const varX = sumXX / n - meanX * meanX;
+  const varY = sumYY / n - meanY * meanY;
+  const cov = sumXY / n - meanX * meanY;
+  return (
+    ((2 * meanX * meanY + SSIM_C1) * (2 * cov + SSIM_C2)) /
+    ((meanX * meanX + meanY * meanY + SSIM_C1) * (varX + varY + SSIM_C2))
+  );
+}
+
+/** ブロックごとの SSIM を計算し、構造が変わったブロックを返す。中心が除外矩形内のブロックは数えない */
+export function findStructurallyChangedBlocks(
+  prev: Buffer,
+  curr: Buffer,
+  width: number,
+  height: number,
+  ignoreRegions: NormalizedRect[] = []
+): ChangedBlocks {
+  const ignored = toPixelRects(ignoreRegions, width, height);
+  const cols = Math.ceil(width / SSIM_BLOCK_SIZE);
+  const rows = Math.ceil(height / SSIM_BLOCK_SIZE);
+  const mask = new Uint8Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    const y0 = row * SSIM_BLOCK_SIZE;
+    const y1 = Math.min(height, y0 + SSIM_BLOCK_SIZE);
+    for (let col = 0; col < cols; col++) {
+      const x0 = col * SSIM_BLOCK_SIZE;
+      const x1 = Math.min(width, x0 + SSIM_BLOCK_SIZE);
+      const cx = (x0 + x1) / 2;
+      const cy = (y0 + y1) / 2;
+      if (
+        ignored.some(
+          rect => cx >= rect.x0 && cx < rect.x1 && cy >= rect.y0 && cy < rect.y1
+        )
+      ) {
+        continue;
+      }
+      if (
+        blockSsim(prev, curr, width, x0, y0, x1, y1) < SSIM_CHANGED_THRESHOLD
+      ) {
+        mask[row * cols + col] = 1;
+      }
+    }
+  }
+  return { cols, rows, mask };
+}
+
+/** 変化ブロックの面積比と合併bbox（ssim 戦略の変化信号） */
+export function computeSsimDiff(
+  prev: Buffer,
+  curr: Buffer,
+  width: number,
+  height: number,
+  ignoreRegions: NormalizedRect[] = []
+): { diffRate: number; changedBBox: NormalizedRect | null } {
+  const { cols, rows, mask } = findStructurallyChangedBlocks(
+    prev,
+    curr,
+    width,
+    height,
+    ignoreRegions
+  );
+  let area = 0;
+  let minX = width;
+  let minY = height;
+  let maxX = 0;
+  let maxY = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (!mask[row * cols + col]) continue;
+      const x0 = col * SSIM_BLOCK_SIZE;
+      const y0 = row * SSIM_BLOCK_SIZE;
+      const x1 = Math.min(width, x0 + SSIM_BLOCK_SIZE);
+      const y1 = Math.min(height, y0 + SSIM_BLOCK_SIZE);
+      area += (x1 - x0) * (y1 - y0);
+      minX = Math.min(minX, x0);
+      minY = Math.min(minY, y0);
+      maxX = Math.max(maxX, x1);
+      maxY = Math.max(maxY, y1);
+    }
+  }
+  if (area === 0) return { diffRate: 0, changedBBox: null };
+  return {
+    diffRate: area / (width * height),
+    changedBBox: {
+      x: minX / width,
+      y: minY / height,
+      w: (maxX - minX) / width,
+      h: (maxY - minY) / height,
+    },
+  };
+}
+
+/**
+ * SSIM が下がったブロック内の画素差分だけを数える（hybrid 戦略の変化信号）。
+ * 画素差分の感度を保ったまま、構造の変わらない明るさ変化・フェードを変化とみなさない。
+ */
+export function computeHybridDiff(
+  prev: Buffer,
+  curr: Buffer,
+  width: number,
+  height: number,
+  ignoreRegions: NormalizedRect[] = []
+): { diffRate: number; changedBBox: NormalizedRect | null } {
+  const { cols, rows, mask } = findStructurallyChangedBlocks(
+    prev,
+    curr,
+    width,
+    height,
+    ignoreRegions
+  );
+  let changed = 0;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (!mask[row * cols + col]) continue;
+      const y0 = row * SSIM_BLOCK_SIZE;
+      const x0 = col * SSIM_BLOCK_SIZE;
+      const y1 = Math.min(height, y0 + SSIM_BLOCK_SIZE);
+      const x1 = Math.min(width, x0 + SSIM_BLOCK_SIZE);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = y * width + x;
+          if (Math.abs(prev[i] - curr[i]) <= PIXEL_THRESHOLD) continue;
+          changed += 1;
+          if (x < minX) minX = x;
+          if (x > maxX) maxX = x;
+          if (y < minY) minY = y;
+          if (y > maxY) maxY = y;
+        }
+      }
+    }
+  }
+  if (changed === 0) return { diffRate: 0, changedBBox: null };
+  return {
+    diffRate: changed / (width * height),
+    changedBBox: {
+      x: minX / width,
+      y: minY / height,
+      w: (maxX - minX + 1) / width,
+      h: (maxY - minY + 1) / height,
+    },
+  };
+}
+
+const STRATEGIES: Record<SegmentationStrategyName, SegmentationStrategy> = {
+  "pixel-diff": {
+    name: "pixel-diff",
+    computeDiff: (prev, curr, width, height, ignoreRegions) =>
+      computeFrameDiff(
+        prev,
+        curr,
+        width,
+        height,
+        PIXEL_THRESHOLD,
+        ignoreRegions
+      ),
+    createSegmenter: createSegmentStream,
+  },
+  ssim: {
+    name: "ssim",
+    computeDiff: computeSsimDiff,
+    createSegmenter: createSegmentStream,
+  },
+  hybrid: {
+    name: "hybrid",
+    computeDiff: computeHybridDiff,
+    createSegmenter: createSegmentStream,
+  },
+};
+
+export const DEFAULT_SEGMENTATION_STRATEGY: SegmentationStrategyName =
+  "pixel-diff";
+
+export function getSegmentationStrategy(
+  name: SegmentationStrategyName = DEFAULT_SEGMENTATION_STRATEGY
+): SegmentationStrategy {
+  return STRATEGIES[name];
+}
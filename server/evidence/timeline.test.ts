@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { clampFrameTimestampMs } from "./timeline";
+import { buildCropFilter, clampFrameTimestampMs } from "./timeline";
 
 describe("clampFrameTimestampMs", () => {
   it("動画終端近傍のフレーム抽出時刻を安全側に丸める", () => {
@@ -20,3 +20,11 @@ describe("clampFrameTimestampMs", () => {
     expect(clampFrameTimestampMs(-10)).toBe(0);
   });
 });
+
+describe("buildCropFilter", () => {
+  it("正規化座標を偶数サイズの crop フィルタ式へ変換する", () => {
+    expect(buildCropFilter({ x: 0.5, y: 0, w: 0.5, h: 1 })).toBe(
+      "crop=w=trunc(iw*0.5000/2)*2:h=trunc(ih*1.0000/2)*2:x=trunc(iw*0.5000):y=trunc(ih*0.0000)"
+    );
+  });
+});
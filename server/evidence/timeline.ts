@@ -9,7 +9,7 @@
 import { spawn } from "child_process";
 import { promisify } from "util";
 import { execFile } from "child_process";
-import type { GrayFrame } from "./segmentation";
+import type { GrayFrame, NormalizedRect } from "./segmentation";
 
 const execFileAsync = promisify(execFile);
 
@@ -21,12 +21,35 @@ export interface SampledTimeline {
   durationMs: number;
 }
 
+/** サンプリング解像度の既定値（差分・カーソル追跡の較正値はこの解像度が前提） */
+export const DEFAULT_SAMPLE_WIDTH = 320;
+export const DEFAULT_SAMPLE_HEIGHT = 180;
+
 export interface SampleOptions {
   fps?: number;
   width?: number;
   height?: number;
-  /** 安全上限（既定: 30分相当） */
+  /** 安全上限（sampleGrayTimeline の既定: 30分相当。iterateGrayFrames は既定で無制限） */
   maxFrames?: number;
+  /** 元フレームのこの領域だけをサンプリングする（正規化座標） */
+  crop?: NormalizedRect | null;
+  /** この時刻からデコードする（ms。境界精密化の部分デコード用） */
+  startMs?: number;
+  /** startMs からこの長さだけデコードする（ms） */
+  durationMs?: number;
+}
+
+/**
+ * 正規化座標のクロップ領域を ffmpeg の crop フィルタへ変換する。
+ * libx264 が奇数サイズを受け付けないため幅・高さは偶数に切り下げる。
+ * 証拠抽出のサンプリング・代表フレーム・動画クリップで同じ式を使い、座標系を一致させる。
+ */
+export function buildCropFilter(crop: NormalizedRect): string {
+  const ratio = (value: number) => Math.min(1, Math.max(0, value)).toFixed(4);
+  return (
+    `crop=w=trunc(iw*${ratio(crop.w)}/2)*2:h=trunc(ih*${ratio(crop.h)}/2)*2` +
+    `:x=trunc(iw*${ratio(crop.x)}):y=trunc(ih*${ratio(crop.y)})`
+  );
 }
 
 export async function getVideoDurationMs(videoPath: string): Promise<number> {
@@ -47,67 +70,114 @@ export async function getVideoDurationMs(videoPath: string): Promise<number> {
   return Math.round(seconds * 1000);
 }
 
+/** 映像ストリームの平均フレームレート（取得できなければ null） */
+export async function getVideoFrameRate(videoPath: string): Promise<number | null> {
+  const { stdout } = await execFileAsync(
+    "ffprobe",
+    [
+      "-v", "quiet",
+      "-select_streams", "v:0",
+      "-show_entries", "stream=avg_frame_rate",
+      "-of", "csv=p=0",
+      videoPath,
+    ],
+    { timeout: 30_000 },
+  );
+  const [num, den] = stdout.trim().split("/").map(Number);
+  const fps = den ? num / den : num;
+  return Number.isFinite(fps) && fps > 0 ? fps : null;
+}
+
 /**
- * 低解像度グレースケールでフレームを一様サンプリングする。
- * rawvideo を stdout からストリームで受け取り、フレーム境界で分割する。
+ * 低解像度グレースケールのフレームを1枚ずつ返す（ストリーミング）。
+ * 呼び出し側が次のフレームを要求するまで ffmpeg の出力を読み進めないため、
+ * 長時間の録画でも保持するのは数フレーム分だけで済む。
+ * maxFrames 未指定なら動画末尾まで読む。途中で反復をやめると ffmpeg を終了する。
  */
-export async function sampleGrayTimeline(
+export async function* iterateGrayFrames(
   videoPath: string,
   options: SampleOptions = {},
-): Promise<SampledTimeline> {
+): AsyncGenerator<GrayFrame> {
   const fps = options.fps ?? 4;
-  const width = options.width ?? 320;
-  const height = options.height ?? 180;
-  const maxFrames = options.maxFrames ?? 30 * 60 * fps;
+  const width = options.width ?? DEFAULT_SAMPLE_WIDTH;
+  const height = options.height ?? DEFAULT_SAMPLE_HEIGHT;
+  const maxFrames = options.maxFrames ?? Number.POSITIVE_INFINITY;
   const frameSize = width * height;
 
-  const durationMs = await getVideoDurationMs(videoPath);
+  const filters = [`fps=${fps}`, `scale=${width}:${height}`, "format=gray"];
+  if (options.crop) filters.unshift(buildCropFilter(options.crop));
 
-  const frames: GrayFrame[] = await new Promise((resolve, reject) => {
-    const proc = spawn("ffmpeg", [
-      "-v", "error",
-      "-i", videoPath,
-      "-vf", `fps=${fps},scale=${width}:${height},format=gray`,
-      "-f", "rawvideo",
-      "-",
-    ]);
-
-    const collected: GrayFrame[] = [];
-    let pending: Buffer = Buffer.alloc(0);
-    let aborted = false;
-    let stderrText = "";
-
-    proc.stdout.on("data", (chunk: Buffer) => {
-      if (aborted) return;
+  const proc = spawn("ffmpeg", [
+    "-v", "error",
+    ...(options.startMs !== undefined ? ["-ss", (options.startMs / 1000).toFixed(3)] : []),
+    "-i", videoPath,
+    ...(options.durationMs !== undefined ? ["-t", (options.durationMs / 1000).toFixed(3)] : []),
+    "-vf", filters.join(","),
+    "-f", "rawvideo",
+    "-",
+  ]);
+  let stderrText = "";
+  proc.stderr.on("data", (chunk: Buffer) => {
+    stderrText += chunk.toString();
+  });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    proc.on("error", reject);
+    proc.on("close", (code) => resolve(code));
+  });
+  // 反復が途中で終わった場合も未処理rejectionにしない
+  exited.catch(() => {});
+
+  let emitted = 0;
+  let pending: Buffer = Buffer.alloc(0);
+  try {
+    for await (const chunk of proc.stdout as AsyncIterable<Buffer>) {
       pending = pending.length === 0 ? chunk : Buffer.concat([pending, chunk]);
       while (pending.length >= frameSize) {
-        collected.push({ pixels: pending.subarray(0, frameSize) });
+        // 呼び出し側が保持するフレームが読み込みチャンク全体を掴み続けないようコピーする
+        yield { pixels: Buffer.from(pending.subarray(0, frameSize)) };
         pending = pending.subarray(frameSize);
-        if (collected.length >= maxFrames) {
-          aborted = true;
-          proc.kill("SIGTERM");
-          break;
-        }
+        emitted += 1;
+        if (emitted >= maxFrames) return;
       }
-    });
+    }
+    const code = await exited;
+    if (emitted === 0) {
+      throw new Error(
+        `フレームのサンプリングに失敗しました (exit=${code}): ${stderrText.substring(0, 300)}`,
+      );
+    }
+  } finally {
+    if (proc.exitCode === null) {
+      proc.kill("SIGTERM");
+    }
+  }
+}
 
-    proc.stderr.on("data", (chunk: Buffer) => {
-      stderrText += chunk.toString();
-    });
+/**
+ * 低解像度グレースケールでフレームを一様サンプリングし、全フレームをメモリに載せる。
+ * 長時間の録画には iterateGrayFrames を使う。
+ */
+export async function sampleGrayTimeline(
+  videoPath: string,
+  options: SampleOptions = {},
+): Promise<SampledTimeline> {
+  const fps = options.fps ?? 4;
+  const width = options.width ?? DEFAULT_SAMPLE_WIDTH;
+  const height = options.height ?? DEFAULT_SAMPLE_HEIGHT;
+  const maxFrames = options.maxFrames ?? 30 * 60 * fps;
 
-    proc.on("error", reject);
-    proc.on("close", (code) => {
-      if (collected.length === 0) {
-        reject(
-          new Error(
-            `フレームのサンプリングに失敗しました (exit=${code}): ${stderrText.substring(0, 300)}`,
-          ),
-        );
-        return;
-      }
-      resolve(collected);
-    });
-  });
+  const durationMs = await getVideoDurationMs(videoPath);
+
+  const frames: GrayFrame[] = [];
+  for await (const frame of iterateGrayFrames(videoPath, {
+    fps,
+    width,
+    height,
+    maxFrames,
+    crop: options.crop,
+  })) {
+    frames.push(frame);
+  }
 
   return { width, height, fps, frames, durationMs };
 }
@@ -130,12 +200,14 @@ export function clampFrameTimestampMs(
 /**
  * 指定タイムスタンプのフルサイズフレームをJPEGで抽出する。
  * 代表フレーム/比較用フレームの取り出しに使用（セグメント数に比例した回数のみ実行）。
+ * crop 指定時はその領域だけを切り出す（サンプリングと同じ座標系）。
  */
 export async function extractFullFrame(
   videoPath: string,
   timestampMs: number,
   outputPath: string,
   durationMs?: number,
+  crop?: NormalizedRect | null,
 ): Promise<number> {
   const initialTimestamp = clampFrameTimestampMs(timestampMs, durationMs);
   const candidates = [initialTimestamp, initialTimestamp - 500, initialTimestamp - 1000]
@@ -151,6 +223,7 @@ export async function extractFullFrame(
           "-y",
           "-ss", (candidate / 1000).toFixed(3),
           "-i", videoPath,
+          ...(crop ? ["-vf", buildCropFilter(crop)] : []),
           "-vframes", "1",
           "-q:v", "2",
           outputPath,
@@ -165,3 +238,25 @@ export async function extractFullFrame(
 
   throw lastError;
 }
+
+/**
+ * 静止画の一部を切り出す（入力欄など小さい領域のOCR用）。
+ * 小さい文字の認識率を上げるため2倍に拡大して書き出す。
+ */
+export async function cropImageRegion(
+  inputPath: string,
+  outputPath: string,
+  region: NormalizedRect,
+): Promise<void> {
+  await execFileAsync(
+    "ffmpeg",
+    [
+      "-y",
+      "-i", inputPath,
+      "-vf", `${buildCropFilter(region)},scale=iw*2:ih*2`,
+      "-q:v", "2",
+      outputPath,
+    ],
+    { timeout: 30_000 },
+  );
+}
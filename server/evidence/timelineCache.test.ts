@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs/promises";
+
+const cacheDir = vi.hoisted(() => {
+  const dir = require("path").join(
+    require("os").tmpdir(),
+    `timeline_cache_test_${Date.now()}`
+  );
+  process.env.PIPELINE_CACHE_DIR = dir;
+  return dir;
+});
+
+const iterateGrayFramesMock = vi.hoisted(() => vi.fn());
+
+vi.mock("./timeline", async importOriginal => ({
+  ...(await importOriginal<typeof import("./timeline")>()),
+  iterateGrayFrames: iterateGrayFramesMock,
+  getVideoDurationMs: vi.fn(async () => 750),
+}));
+
+import { ENV } from "../_core/env";
+import { computeDiffTimeline } from "./segmentation";
+import {
+  getCachedDiffTimeline,
+  openGrayFrameStream,
+  setCachedDiffTimeline,
+} from "./timelineCache";
+
+const W = 8;
+const H = 4;
+
+function makeFrames(values: number[]) {
+  return values.map(value => ({ pixels: Buffer.alloc(W * H, value) }));
+}
+
+async function* framesOf(values: number[]) {
+  for (const frame of makeFrames(values)) {
+    yield frame;
+  }
+}
+
+async function readAll(frames: AsyncIterable<{ pixels: Buffer }>) {
+  const values: number[] = [];
+  for await (const frame of frames) {
+    values.push(frame.pixels[0]);
+  }
+  return values;
+}
+
+describe("openGrayFrameStream", () => {
+  beforeEach(async () => {
+    iterateGrayFramesMock.mockReset();
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it("同じ動画・fpsの2回目はサンプリングせずキャッシュから復元する", async () => {
+    iterateGrayFramesMock.mockReturnValueOnce(framesOf([10, 20, 30]));
+    const options = { fps: 4, width: W, height: H };
+
+    const first = await openGrayFrameStream("/video.mp4", "sha-a", options);
+    expect(first.cacheHit).toBe(false);
+    await readAll(first.frames);
+    const second = await openGrayFrameStream("/video.mp4", "sha-a", options);
+
+    expect(second.cacheHit).toBe(true);
+    expect(iterateGrayFramesMock).toHaveBeenCalledTimes(1);
+    expect(second.durationMs).toBe(750);
+    expect(await readAll(second.frames)).toEqual([10, 20, 30]);
+  });
+
+  it("fps が違えば別キャッシュとして再サンプリングする", async () => {
+    iterateGrayFramesMock
+      .mockReturnValueOnce(framesOf([10, 20]))
+      .mockReturnValueOnce(framesOf([10, 20, 30, 40]));
+
+    const first = await openGrayFrameStream("/video.mp4", "sha-b", {
+      fps: 4,
+      width: W,
+      height: H,
+    });
+    await readAll(first.frames);
+    const result = await openGrayFrameStream("/video.mp4", "sha-b", {
+      fps: 8,
+      width: W,
+      height: H,
+    });
+
+    expect(result.cacheHit).toBe(false);
+    expect(await readAll(result.frames)).toEqual([10, 20, 30, 40]);
+    expect(iterateGrayFramesMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("途中で読むのをやめた場合はキャッシュを確定しない", async () => {
+    iterateGrayFramesMock
+      .mockReturnValueOnce(framesOf([10, 20, 30]))
+      .mockReturnValueOnce(framesOf([10, 20, 30]));
+    const options = { fps: 4, width: W, height: H };
+
+    const partial = await openGrayFrameStream("/video.mp4", "sha-d", options);
+    for await (const frame of partial.frames) {
+      expect(frame.pixels[0]).toBe(10);
+      break;
+    }
+
+    const full = await openGrayFrameStream("/video.mp4", "sha-d", options);
+    expect(full.cacheHit).toBe(false);
+    const values: number[] = [];
+    for await (const frame of full.frames) {
+      values.push(frame.pixels[0]);
+    }
+    expect(values).toEqual([10, 20, 30]);
+
+    const cached = await openGrayFrameStream("/video.mp4", "sha-d", options);
+    expect(cached.cacheHit).toBe(true);
+    expect(cached.durationMs).toBe(750);
+    expect(iterateGrayFramesMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("キャッシュの合計が上限を超えたら、最後に使ったのが古いものから消す", async () => {
+    const maxBytes = ENV.evidenceTimelineCacheMaxBytes;
+    // 3フレーム（96バイト）のキャッシュが2つまで入る
+    ENV.evidenceTimelineCacheMaxBytes = W * H * 3 * 2;
+    try {
+      const options = { fps: 4, width: W, height: H };
+      const sample = async (sha: string) => {
+        iterateGrayFramesMock.mockReturnValueOnce(framesOf([10, 20, 30]));
+        const stream = await openGrayFrameStream("/video.mp4", sha, options);
+        await readAll(stream.frames);
+        return stream.cacheHit;
+      };
+      await sample("sha-old");
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await sample("sha-used");
+      await new Promise(resolve => setTimeout(resolve, 20));
+      // sha-old を使い直すと、sha-used の方が古くなる
+      expect(await sample("sha-old")).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      await sample("sha-new");
+
+      expect(await sample("sha-used")).toBe(false);
+      expect(await sample("sha-new")).toBe(true);
+      const binaries = (
+        await fs.readdir(`${cacheDir}/evidence-timeline`)
+      ).filter(name => name.endsWith(".bin"));
+      expect(binaries).toHaveLength(2);
+    } finally {
+      ENV.evidenceTimelineCacheMaxBytes = maxBytes;
+    }
+  });
+});
+
+describe("getCachedDiffTimeline / setCachedDiffTimeline", () => {
+  beforeEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it("計算結果を保存し、除外矩形が変われば別キーになる", async () => {
+    const spec = { fps: 4, width: W, height: H };
+    const diffs = computeDiffTimeline(makeFrames([10, 10, 200]), W, H);
+    expect(diffs.map(diff => diff.diffRate)).toEqual([0, 1]);
+
+    await expect(getCachedDiffTimeline("sha-c", spec)).resolves.toBeNull();
+    await setCachedDiffTimeline("sha-c", spec, diffs);
+    await expect(getCachedDiffTimeline("sha-c", spec)).resolves.toEqual(diffs);
+
+    await expect(
+      getCachedDiffTimeline("sha-c", {
+        ...spec,
+        ignoreRegions: [{ x: 0, y: 0, w: 1, h: 0.5 }],
+      })
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * サンプリング済みタイムラインと差分タイムラインのキャッシュ
+ *
+ * 再試行でセグメンテーション閾値だけを変えた場合に、ffmpeg による全編サンプリングと
+ * 全フレームの差分計算を繰り返さないよう、動画の sha256 をキーに pipelineCache へ保存する。
+ * 閾値に依存する detectTransitions / coalesceTransitions 以降は毎回再計算する。
+ * グレースケール列はフレーム単位で読み書きし、長時間の録画でも全体をメモリに載せない。
+ * グレースケール列は大きい（1時間@4fpsで約830MB）ので、合計が EVIDENCE_TIMELINE_CACHE_MAX_MB を
+ * 超えたら最後に使ったのが古いものから消す。
+ */
+
+import fs from "fs/promises";
+import { ENV } from "../_core/env";
+import { createLogger } from "../_core/logger";
+import {
+  createCachedBinaryWriter,
+  getCachedBinaryPath,
+  getCachedJson,
+  pruneCachedBinaries,
+  setCachedJson,
+  touchCachedBinary,
+  type CachedBinaryWriter,
+} from "../_core/pipelineCache";
+import type { FrameDiff, GrayFrame, NormalizedRect } from "./segmentation";
+import type { SegmentationStrategyName } from "./strategies";
+import {
+  DEFAULT_SAMPLE_HEIGHT,
+  DEFAULT_SAMPLE_WIDTH,
+  getVideoDurationMs,
+  iterateGrayFrames,
+} from "./timeline";
+
+const logger = createLogger("Evidence");
+
+/** 保存形式やサンプリング方法を変えたら上げる */
+const GRAY_TIMELINE_CACHE_VERSION = "gray-timeline-v1";
+const DIFF_TIMELINE_CACHE_VERSION = "diff-timeline-v1";
+
+interface GrayTimelineMeta {
+  width: number;
+  height: number;
+  fps: number;
+  durationMs: number;
+  frameCount: number;
+}
+
+function grayTimelineKey(
+  videoSha256: string,
+  fps: number,
+  width: number,
+  height: number,
+  crop: NormalizedRect | null | undefined
+) {
+  return {
+    version: GRAY_TIMELINE_CACHE_VERSION,
+    videoSha256,
+    fps,
+    width,
+    height,
+    // クロップなしのキーはクロップ導入前のキャッシュと同じにする
+    ...(crop ? { crop } : {}),
+  };
+}
+
+export interface GrayTimelineOptions {
+  fps: number;
+  width?: number;
+  height?: number;
+  crop?: NormalizedRect | null;
+}
+
+/** フレームを1枚ずつ返すタイムライン（frames は1回だけ反復できる） */
+export interface GrayFrameStream {
+  width: number;
+  height: number;
+  fps: number;
+  durationMs: number;
+  frames: AsyncIterable<GrayFrame>;
+  cacheHit: boolean;
+}
+
+async function* readCachedFrames(
+  filePath: string,
+  frameSize: number,
+  frameCount: number
+): AsyncGenerator<GrayFrame> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      const pixels = Buffer.alloc(frameSize);
+      const { bytesRead } = await handle.read(pixels, 0, frameSize, null);
+      if (bytesRead !== frameSize) {
+        throw new Error("キャッシュ済みタイムラインの読み込みに失敗しました");
+      }
+      yield { pixels };
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * ffmpeg のフレームを返しながらキャッシュへ書き出す。
+ * 最後まで読み切った場合だけキャッシュを確定する（途中で止めたら破棄）。
+ * キャッシュ書き込み失敗は抽出自体を止めない。
+ */
+async function* sampleAndCacheFrames(
+  videoPath: string,
+  key: ReturnType<typeof grayTimelineKey>,
+  meta: Omit<GrayTimelineMeta, "frameCount">,
+  crop: NormalizedRect | null | undefined
+): AsyncGenerator<GrayFrame> {
+  let writer: CachedBinaryWriter | null = null;
+  const disableCache = async (error: unknown) => {
+    logger.warn("Failed to cache gray timeline", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    await writer?.abort().catch(() => {});
+    writer = null;
+  };
+  try {
+    writer = await createCachedBinaryWriter("evidence-timeline", key);
+  } catch (error) {
+    await disableCache(error);
+  }
+
+  let frameCount = 0;
+  let completed = false;
+  try {
+    for await (const frame of iterateGrayFrames(videoPath, {
+      fps: meta.fps,
+      width: meta.width,
+      height: meta.height,
+      crop,
+    })) {
+      if (writer) {
+        try {
+          await writer.write(frame.pixels);
+        } catch (error) {
+          await disableCache(error);
+        }
+      }
+      frameCount += 1;
+      yield frame;
+    }
+    completed = true;
+  } finally {
+    if (writer && !completed) {
+      await writer.abort().catch(() => {});
+    }
+  }
+
+  if (writer) {
+    try {
+      // バイナリを先に確定し、メタ（存在判定に使う）を最後に書く
+      await writer.commit();
+      await setCachedJson("evidence-timeline", key, {
+        ...meta,
+        frameCount,
+      } satisfies GrayTimelineMeta);
+    } catch (error) {
+      await disableCache(error);
+      return;
+    }
+    try {
+      const removed = await pruneCachedBinaries(
+        "evidence-timeline",
+        ENV.evidenceTimelineCacheMaxBytes,
+        key
+      );
+      if (removed > 0) {
+        logger.info("Pruned cached gray timelines", { removed });
+      }
+    } catch (error) {
+      logger.warn("Failed to prune cached gray timelines", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * グレースケールのフレーム列をキャッシュから、なければ ffmpeg から1枚ずつ読む。
+ * キャッシュの破損（フレーム数とサイズの不一致）は読み飛ばして再サンプリングする。
+ * crop 指定時はクロップ後のフレーム列を別キーでキャッシュする。
+ */
+export async function openGrayFrameStream(
+  videoPath: string,
+  videoSha256: string,
+  options: GrayTimelineOptions
+): Promise<GrayFrameStream> {
+  const width = options.width ?? DEFAULT_SAMPLE_WIDTH;
+  const height = options.height ?? DEFAULT_SAMPLE_HEIGHT;
+  const key = grayTimelineKey(
+    videoSha256,
+    options.fps,
+    width,
+    height,
+    options.crop
+  );
+
+  const meta = await getCachedJson<GrayTimelineMeta>("evidence-timeline", key);
+  if (meta) {
+    const filePath = await getCachedBinaryPath("evidence-timeline", key);
+    const frameSize = meta.width * meta.height;
+    const size = filePath
+      ? await fs.stat(filePath).then(
+          stat => stat.size,
+          () => -1
+        )
+      : -1;
+    if (filePath && size === frameSize * meta.frameCount) {
+      await touchCachedBinary("evidence-timeline", key);
+      return {
+        width: meta.width,
+        height: meta.height,
+        fps: meta.fps,
+        durationMs: meta.durationMs,
+        frames: readCachedFrames(filePath, frameSize, meta.frameCount),
+        cacheHit: true,
+      };
+    }
+    logger.warn("Cached gray timeline is incomplete; resampling", {
+      videoSha256,
+    });
+  }
+
+  const durationMs = await getVideoDurationMs(videoPath);
+  const streamMeta = { width, height, fps: options.fps, durationMs };
+  return {
+    ...streamMeta,
+    frames: sampleAndCacheFrames(videoPath, key, streamMeta, options.crop),
+    cacheHit: false,
+  };
+}
+
+/** 差分タイムラインのキャッシュキーを決める入力 */
+export interface DiffTimelineSpec {
+  fps: number;
+  width: number;
+  height: number;
+  crop?: NormalizedRect | null;
+  pixelThreshold?: number;
+  ignoreRegions?: NormalizedRect[];
+  /** 変化信号の計算方法（未指定は pixel-diff） */
+  strategy?: SegmentationStrategyName;
+}
+
+function diffTimelineKey(videoSha256: string, spec: DiffTimelineSpec) {
+  return {
+    version: DIFF_TIMELINE_CACHE_VERSION,
+    timeline: grayTimelineKey(
+      videoSha256,
+      spec.fps,
+      spec.width,
+      spec.height,
+      spec.crop
+    ),
+    pixelThreshold: spec.pixelThreshold ?? 24,
+    ignoreRegions: spec.ignoreRegions ?? [],
+    // pixel-diff は戦略導入前と同じキーにして既存キャッシュを使い続ける
+    ...(spec.strategy && spec.strategy !== "pixel-diff"
+      ? { strategy: spec.strategy }
+      : {}),
+  };
+}
+
+export async function getCachedDiffTimeline(
+  videoSha256: string,
+  spec: DiffTimelineSpec
+): Promise<FrameDiff[] | null> {
+  return getCachedJson<FrameDiff[]>(
+    "evidence-diff",
+    diffTimelineKey(videoSha256, spec)
+  );
+}
+
+export async function setCachedDiffTimeline(
+  videoSha256: string,
+  spec: DiffTimelineSpec,
+  diffs: FrameDiff[]
+): Promise<void> {
+  try {
+    await setCachedJson(
+      "evidence-diff",
+      diffTimelineKey(videoSha256, spec),
+      diffs
+    );
+  } catch (error) {
+    logger.warn("Failed to cache diff timeline", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
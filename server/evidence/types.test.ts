@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { EVIDENCE_ARTIFACT_VERSION, parseEvidenceArtifact } from "./types";
+
+function rawArtifact(version: string, segment: Record<string, unknown>) {
+  return {
+    version,
+    project_id: 1,
+    video: { duration_ms: 5000, fps_sampled: 4, sha256: "abc" },
+    config: {
+      diff_high: 0.0004,
+      diff_low: 0.00015,
+      stable_frames: 2,
+      coalesce_max_gap_ms: 1000,
+      asr_lead_ms: 3000,
+      asr_provider: "none",
+      ocr_provider: "engine",
+      ocr_engine: "tesseract",
+    },
+    transcript: { provider: "none", segments: [] },
+    segments: [
+      {
+        segment_id: "seg-1",
+        t_start: 0,
+        t_end: 1000,
+        transition_start: 500,
+        before_frame: null,
+        after_frame: {
+          t: 1000,
+          image_key: "a.jpg",
+          image_url: "a.jpg",
+          frame_id: 1,
+        },
+        changed_region_bbox: null,
+        ocr_lines: ["保存", "キャンセル"],
+        ocr_focus: ["保存"],
+        transcript_snippet: "",
+        coalesced_from: 1,
+        warnings: [],
+        ...segment,
+      },
+    ],
+    generated_at: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("parseEvidenceArtifact", () => {
+  it("1.0 は位置・スコアなしのOCR行詳細を補って現行バージョンにする", () => {
+    const artifact = parseEvidenceArtifact(rawArtifact("1.0", {}));
+    expect(artifact.version).toBe(EVIDENCE_ARTIFACT_VERSION);
+    expect(artifact.segments[0].ocr_line_details).toEqual([
+      { text: "保存", bbox: null, score: null },
+      { text: "キャンセル", bbox: null, score: null },
+    ]);
+    expect(artifact.segments[0].ocr_focus_details).toEqual([
+      { text: "保存", bbox: null, score: null },
+    ]);
+  });
+
+  it("現行バージョンの位置・スコアはそのまま読む", () => {
+    const line = {
+      text: "保存",
+      bbox: { x: 0.4, y: 0.5, w: 0.08, h: 0.05 },
+      score: 0.93,
+    };
+    const artifact = parseEvidenceArtifact(
+      rawArtifact(EVIDENCE_ARTIFACT_VERSION, {
+        ocr_lines: ["保存"],
+        ocr_line_details: [line],
+        ocr_focus_details: [line],
+      })
+    );
+    expect(artifact.segments[0].ocr_focus_details).toEqual([line]);
+  });
+
+  it("現行バージョンで OCR行詳細が欠けていればエラー", () => {
+    expect(() =>
+      parseEvidenceArtifact(rawArtifact(EVIDENCE_ARTIFACT_VERSION, {}))
+    ).toThrow();
+  });
+
+  it("未知のバージョンはエラー", () => {
+    expect(() =>
+      parseEvidenceArtifact({
+        ...rawArtifact("9.0", {}),
+        segments: [],
+      })
+    ).toThrow("未対応の evidence.json バージョンです");
+  });
+});
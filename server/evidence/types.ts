@@ -8,7 +8,9 @@
 
 import { z } from "zod";
 
-export const EVIDENCE_ARTIFACT_VERSION = "1.0";
+export const EVIDENCE_ARTIFACT_VERSION = "1.1";
+/** OCR行の位置・スコアを持たない旧形式。読み込み時に 1.1 へマイグレーションする */
+const EVIDENCE_ARTIFACT_VERSION_V1_0 = "1.0";
 
 export const normalizedRectSchema = z.object({
   x: z.number(),
@@ -32,6 +34,16 @@ export const evidenceFrameRefSchema = z.object({
   frame_id: z.number().nullable(),
 });
 
+/**
+ * 位置とスコア付きのOCR行（v1.1）。bbox は after フレームの正規化座標。
+ * LLM-OCR で位置が返らなかった行・1.0 からのマイグレーションでは bbox/score が null
+ */
+export const evidenceOcrLineSchema = z.object({
+  text: z.string(),
+  bbox: normalizedRectSchema.nullable(),
+  score: z.number().nullable(),
+});
+
 export const transcriptSegmentSchema = z.object({
   startMs: z.number(),
   endMs: z.number(),
@@ -39,6 +51,38 @@ export const transcriptSegmentSchema = z.object({
   confidence: z.number(),
 });
 
+export const cursorPositionSchema = z.object({
+  t: z.number(),
+  x: z.number(),
+  y: z.number(),
+});
+
+export const cursorClickSchema = cursorPositionSchema.extend({
+  /** 停止のみ: 0.5 / 停止中にポインタ近傍の画面変化あり: 0.8 */
+  confidence: z.number(),
+  screen_changed: z.boolean(),
+});
+
+/** カーソル追跡の結果（server/evidence/cursor.ts）。座標はポインタ先端の正規化座標 */
+export const evidenceCursorSchema = z.object({
+  positions: z.array(cursorPositionSchema),
+  clicks: z.array(cursorClickSchema),
+});
+
+export const evidenceTypedTextSchema = z.object({
+  /** 復元した入力値。マスクした場合は null（値そのものを残さない） */
+  value: z.string().nullable(),
+  masked: z.boolean(),
+  /** password / email = 自動判定した秘匿値、other = 全マスク指定でマスクした値 */
+  secret_kind: z.enum(["password", "email", "other"]).nullable(),
+});
+
+export const evidenceBoundaryRefinementSchema = z.object({
+  coarse_transition_start: z.number(),
+  coarse_t_end: z.number(),
+  fps: z.number(),
+});
+
 export const evidenceSegmentSchema = z.object({
   segment_id: z.string(),
   /** セグメント区間: 直前の操作の安定化時刻（先頭は0）〜 この操作の安定化時刻 */
@@ -55,11 +99,35 @@ export const evidenceSegmentSchema = z.object({
   ocr_lines: z.array(z.string()),
   /** 差分bbox周辺（パディング付き）のOCR行。操作対象ラベルの候補 */
   ocr_focus: z.array(z.string()),
+  /** ocr_lines と同じ順序・件数の位置・スコア付き版（v1.1） */
+  ocr_line_details: z.array(evidenceOcrLineSchema),
+  /** ocr_focus と同じ順序・件数の位置・スコア付き版（v1.1） */
+  ocr_focus_details: z.array(evidenceOcrLineSchema),
   transcript_snippet: z.string(),
   /** 合体した変化点数（1 = 合体なし）。タイピング検知の手がかり */
   coalesced_from: z.number(),
-  /** 操作か待機か。旧artifactでは未定義を action として扱う */
-  activity: z.enum(["action", "waiting"]).optional(),
+  /** 操作か待機かスクロールか。旧artifactでは未定義を action として扱う */
+  activity: z.enum(["action", "waiting", "scroll"]).optional(),
+  /** activity=scroll の方向と合計量（distance_ratio はフレーム高さ比） */
+  scroll: z
+    .object({
+      direction: z.enum(["up", "down"]),
+      distance_ratio: z.number(),
+    })
+    .nullable()
+    .optional(),
+  /** ポインタ位置とクリック推定。追跡無効・ポインタ未検出・旧artifactでは null/未定義 */
+  cursor: evidenceCursorSchema.nullable().optional(),
+  /**
+   * タイピング区間で変化領域の前後OCRの差分から復元した入力値。
+   * 復元できなかった・タイピング区間でない・旧artifactでは null/未定義
+   */
+  typed_text: evidenceTypedTextSchema.nullable().optional(),
+  /**
+   * 境界補正前の粗い時刻（サンプリングfps単位）と補正に使ったfps。
+   * transition_start / t_end は補正後の値。補正しなかった・旧artifactでは null/未定義
+   */
+  boundary_refinement: evidenceBoundaryRefinementSchema.nullable().optional(),
   warnings: z.array(z.string()),
 });
 
@@ -72,14 +140,36 @@ export const evidenceArtifactSchema = z.object({
     sha256: z.string(),
   }),
   config: z.object({
+    /** 変化信号の計算方法。旧artifactでは未定義を pixel-diff として扱う */
+    segmentation_strategy: z.enum(["pixel-diff", "ssim", "hybrid"]).optional(),
     diff_high: z.number(),
     diff_low: z.number(),
     stable_frames: z.number(),
     coalesce_max_gap_ms: z.number(),
+    /** stall/waiting 判定の設定値。旧artifactでは未定義 */
+    stall_window_frames: z.number().optional(),
+    stall_area_ratio: z.number().optional(),
+    stall_after_ms: z.number().optional(),
+    waiting_run_area_ratio: z.number().optional(),
+    waiting_run_min_span_ms: z.number().optional(),
     asr_lead_ms: z.number(),
     asr_provider: z.string(),
     ocr_provider: z.string(),
     ocr_engine: z.string().nullable(),
+    cursor_tracking: z.boolean().optional(),
+    /** 入力値復元の有無とマスク指定。旧artifactでは未定義 */
+    typed_text_reconstruction: z.boolean().optional(),
+    typed_text_masking: z.enum(["secrets", "all", "none"]).optional(),
+    boundary_refinement: z.boolean().optional(),
+    /** 差分計算・OCRフォーカスから除外した矩形。旧artifactでは未定義 */
+    ignore_regions: z.array(normalizedRectSchema).optional(),
+    /**
+     * 抽出に使ったクロップ領域（元フレームの正規化座標）。null = 全画面。
+     * セグメントのbbox・代表フレーム・カーソル座標はクロップ後の座標系になる。旧artifactでは未定義
+     */
+    crop_region: normalizedRectSchema.nullable().optional(),
+    /** 全画面で抽出したときに差分の分布から提案したクロップ領域。旧artifactでは未定義 */
+    suggested_crop_region: normalizedRectSchema.nullable().optional(),
   }),
   transcript: z.object({
     provider: z.string(),
@@ -90,15 +180,56 @@ export const evidenceArtifactSchema = z.object({
 });
 
 export type NormalizedRect = z.infer<typeof normalizedRectSchema>;
+export type EvidenceOcrLine = z.infer<typeof evidenceOcrLineSchema>;
 export type EvidenceFrameRef = z.infer<typeof evidenceFrameRefSchema>;
+export type EvidenceTypedText = z.infer<typeof evidenceTypedTextSchema>;
+export type EvidenceBoundaryRefinement = z.infer<
+  typeof evidenceBoundaryRefinementSchema
+>;
+export type EvidenceCursor = z.infer<typeof evidenceCursorSchema>;
 export type EvidenceSegment = z.infer<typeof evidenceSegmentSchema>;
 export type EvidenceArtifact = z.infer<typeof evidenceArtifactSchema>;
 
+/** 位置・スコアのないOCR行を v1.1 の形にする */
+export function toOcrLinesWithoutGeometry(texts: string[]): EvidenceOcrLine[] {
+  return texts.map(text => ({ text, bbox: null, score: null }));
+}
+
+/** v1.0 artifact を v1.1 へマイグレーションする（OCR行の位置・スコアは null） */
+function migrateV1_0ToV1_1(raw: Record<string, unknown>): unknown {
+  const segments = Array.isArray(raw.segments) ? raw.segments : [];
+  return {
+    ...raw,
+    version: EVIDENCE_ARTIFACT_VERSION,
+    segments: segments.map(segment => {
+      const record = segment as Record<string, unknown>;
+      const toDetails = (value: unknown) =>
+        Array.isArray(value)
+          ? toOcrLinesWithoutGeometry(value.filter(v => typeof v === "string"))
+          : [];
+      return {
+        ocr_line_details: toDetails(record.ocr_lines),
+        ocr_focus_details: toDetails(record.ocr_focus),
+        ...record,
+      };
+    }),
+  };
+}
+
 export function parseEvidenceArtifact(raw: unknown): EvidenceArtifact {
+  const version =
+    typeof raw === "object" && raw !== null
+      ? (raw as Record<string, unknown>).version
+      : undefined;
+  if (version === EVIDENCE_ARTIFACT_VERSION_V1_0) {
+    return evidenceArtifactSchema.parse(
+      migrateV1_0ToV1_1(raw as Record<string, unknown>)
+    );
+  }
   const parsed = evidenceArtifactSchema.parse(raw);
   if (parsed.version !== EVIDENCE_ARTIFACT_VERSION) {
     throw new Error(
-      `未対応の evidence.json バージョンです: ${parsed.version}（対応: ${EVIDENCE_ARTIFACT_VERSION}）`
+      `未対応の evidence.json バージョンです: ${parsed.version}（対応: ${EVIDENCE_ARTIFACT_VERSION_V1_0}, ${EVIDENCE_ARTIFACT_VERSION}）`
     );
   }
   return parsed;
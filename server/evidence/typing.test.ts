@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyTypedTextMasking,
+  detectSecretKind,
+  isTypingCandidate,
+  reconstructTypedText,
+  redactSecretValues,
+} from "./typing";
+
+describe("reconstructTypedText", () => {
+  it("空欄に入力された行を入力値にする（ラベル行は無視）", () => {
+    expect(reconstructTypedText(["氏名"], ["氏名", "山田太郎"])).toBe(
+      "山田太郎"
+    );
+  });
+
+  it("既存の値への追記は差分だけを入力値にする", () => {
+    expect(reconstructTypedText(["氏名 山田"], ["氏名 山田太郎"])).toBe("太郎");
+  });
+
+  it("プレースホルダーが置き換わった場合は行全体を入力値にする", () => {
+    expect(reconstructTypedText(["例: 山田太郎"], ["yamada@example.com"])).toBe(
+      "yamada@example.com"
+    );
+  });
+
+  it("全半角の違いは NFKC で吸収する", () => {
+    expect(reconstructTypedText(["ＩＤ"], ["ID", "ａｂｃ１２３"])).toBe(
+      "abc123"
+    );
+  });
+
+  it("変化がない・変化行が多すぎる場合は null", () => {
+    expect(reconstructTypedText(["保存"], ["保存"])).toBeNull();
+    expect(reconstructTypedText([], ["一覧", "詳細", "設定"])).toBeNull();
+  });
+});
+
+describe("isTypingCandidate", () => {
+  const base = {
+    coalescedFrom: 4,
+    activity: "action" as const,
+    changedBBox: { x: 0.3, y: 0.4, w: 0.3, h: 0.05 },
+    beforeFrameIndex: 10,
+  };
+
+  it("合体した連続変化で狭い変化領域があれば対象", () => {
+    expect(isTypingCandidate(base)).toBe(true);
+  });
+
+  it("単発の変化・画面全体の書き換え・before なしは対象外", () => {
+    expect(isTypingCandidate({ ...base, coalescedFrom: 1 })).toBe(false);
+    expect(
+      isTypingCandidate({
+        ...base,
+        changedBBox: { x: 0, y: 0, w: 1, h: 0.8 },
+      })
+    ).toBe(false);
+    expect(isTypingCandidate({ ...base, beforeFrameIndex: null })).toBe(false);
+  });
+});
+
+describe("detectSecretKind / applyTypedTextMasking", () => {
+  it("伏せ字・パスワード系ラベル・メール形式を秘匿値と判定する", () => {
+    expect(detectSecretKind("●●●●●●", [])).toBe("password");
+    expect(detectSecretKind("hunter2", ["パスワード"])).toBe("password");
+    expect(detectSecretKind("yamada@example.com", ["メール"])).toBe("email");
+    expect(detectSecretKind("山田太郎", ["氏名"])).toBeNull();
+  });
+
+  it("secrets は秘匿値だけ、all はすべて、none は何もマスクしない", () => {
+    expect(applyTypedTextMasking("yamada@example.com", [], "secrets")).toEqual({
+      value: null,
+      masked: true,
+      secret_kind: "email",
+    });
+    expect(applyTypedTextMasking("山田太郎", [], "secrets")).toEqual({
+      value: "山田太郎",
+      masked: false,
+      secret_kind: null,
+    });
+    expect(applyTypedTextMasking("山田太郎", [], "all")).toEqual({
+      value: null,
+      masked: true,
+      secret_kind: "other",
+    });
+    expect(applyTypedTextMasking("yamada@example.com", [], "none")).toEqual({
+      value: "yamada@example.com",
+      masked: false,
+      secret_kind: "email",
+    });
+  });
+});
+
+describe("redactSecretValues", () => {
+  it("マスクした値を含む行だけを伏せ字にする", () => {
+    expect(
+      redactSecretValues(
+        ["ログイン: yamada@example.com", "保存"],
+        ["yamada@example.com"]
+      )
+    ).toEqual(["ログイン: ＊＊＊", "保存"]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * タイピング区間の入力値復元（純関数）
+ *
+ * 連続入力として合体したセグメント（coalesced_from > 1）について、変化領域の
+ * 操作前・操作後のOCR行を比べ、増えた文字列を入力値とみなす。
+ * パスワード・メールアドレスなどは秘匿指定に応じてマスクし、値そのものを evidence に残さない。
+ */
+
+import type { NormalizedRect, OperationSegment } from "./segmentation";
+
+export type TypedTextMasking = "secrets" | "all" | "none";
+export type TypedSecretKind = "password" | "email" | "other";
+
+/** これより多くの行が変わった区間は入力ではなく画面遷移とみなす */
+const MAX_CHANGED_LINES = 2;
+const MAX_TYPED_TEXT_LENGTH = 200;
+/** 変化領域がこれより広い区間は入力欄への入力ではなく画面の書き換えとみなす */
+const MAX_TYPING_BBOX_AREA = 0.25;
+
+/** マスク表示用の文字（パスワード欄の伏せ字の認識結果にも使う） */
+const MASK_CHARS = /^[●•・*＊◦○]+$/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+const PASSWORD_LABELS = /パスワード|password|passcode|暗証番号|\bPIN\b/i;
+
+function normalizeOcrText(text: string): string {
+  return text.normalize("NFKC").trim();
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let i = 0;
+  while (
+    i < a.length &&
+    i < b.length &&
+    a[a.length - 1 - i] === b[b.length - 1 - i]
+  ) {
+    i++;
+  }
+  return i;
+}
+
+/** 入力値の復元対象か（合体した連続変化で、前後フレームと狭い変化領域がある操作） */
+export function isTypingCandidate(
+  segment: Pick<
+    OperationSegment,
+    "coalescedFrom" | "activity" | "changedBBox" | "beforeFrameIndex"
+  >
+): boolean {
+  const bbox = segment.changedBBox;
+  return (
+    segment.coalescedFrom > 1 &&
+    segment.activity === "action" &&
+    segment.beforeFrameIndex !== null &&
+    bbox !== null &&
+    bbox.w * bbox.h <= MAX_TYPING_BBOX_AREA
+  );
+}
+
+/**
+ * 変化領域の操作前・操作後のOCR行から入力値を復元する。
+ * 操作前の行をそのまま含む行（追記）はその差分を、含まない行（空欄・プレースホルダーの置換）は
+ * 行全体を入力値とする。変化がない・変化行が多すぎる場合は null。
+ */
+export function reconstructTypedText(
+  beforeLines: string[],
+  afterLines: string[]
+): string | null {
+  const before = beforeLines.map(normalizeOcrText).filter(Boolean);
+  const beforeSet = new Set(before);
+  const changed = afterLines
+    .map(normalizeOcrText)
+    .filter(line => line.length > 0 && !beforeSet.has(line));
+  if (changed.length === 0 || changed.length > MAX_CHANGED_LINES) return null;
+
+  const inserted = changed
+    .map(line => {
+      let value = line;
+      let keptLength = 0;
+      for (const prev of before) {
+        const prefix = commonPrefixLength(prev, line);
+        const suffix = commonSuffixLength(
+          prev.slice(prefix),
+          line.slice(prefix)
+        );
+        // 操作前の行が丸ごと残っている場合だけ追記とみなす
+        if (prefix + suffix === prev.length && prev.length > keptLength) {
+          value = line.slice(prefix, line.length - suffix);
+          keptLength = prev.length;
+        }
+      }
+      return value.trim();
+    })
+    .filter(Boolean);
+  if (inserted.length === 0) return null;
+  const typed = inserted.join(" ");
+  return typed.length <= MAX_TYPED_TEXT_LENGTH ? typed : null;
+}
+
+/**
+ * 入力値が秘匿すべきものか判定する。
+ * 伏せ字のみ・近くにパスワード系のラベルがある → password、メールアドレス形式 → email。
+ */
+export function detectSecretKind(
+  typedText: string,
+  contextLines: string[]
+): TypedSecretKind | null {
+  if (MASK_CHARS.test(typedText.replace(/\s/g, ""))) return "password";
+  if (contextLines.some(line => PASSWORD_LABELS.test(line))) return "password";
+  if (EMAIL_PATTERN.test(typedText)) return "email";
+  return null;
+}
+
+export interface TypedTextResult {
+  /** 復元した入力値。マスクした場合は null */
+  value: string | null;
+  masked: boolean;
+  secret_kind: TypedSecretKind | null;
+}
+
+/** 秘匿指定に従って入力値をマスクする */
+export function applyTypedTextMasking(
+  typedText: string,
+  contextLines: string[],
+  masking: TypedTextMasking
+): TypedTextResult {
+  const detected = detectSecretKind(typedText, contextLines);
+  const secretKind = detected ?? (masking === "all" ? "other" : null);
+  const masked = masking !== "none" && secretKind !== null;
+  return {
+    value: masked ? null : typedText,
+    masked,
+    secret_kind: secretKind,
+  };
+}
+
+/** マスクした値が他のOCR行に写り込んでいれば伏せ字にする */
+export function redactSecretValues(
+  lines: string[],
+  secretValues: string[]
+): string[] {
+  const values = secretValues.filter(value => value.length > 0);
+  if (values.length === 0) return lines;
+  return lines.map(line => {
+    // 復元値は NFKC 正規化済みなので、照合も正規化した行で行う
+    const normalized = normalizeOcrText(line);
+    if (!values.some(value => normalized.includes(value))) return line;
+    return values.reduce(
+      (redacted, value) => redacted.split(value).join("＊＊＊"),
+      normalized
+    );
+  });
+}
+
+/** 入力欄のOCR用に変化bboxを少し広げて画面内に収める */
+export function paddedTypingRegion(
+  bbox: NormalizedRect,
+  padRatio = 0.02
+): NormalizedRect {
+  const x = Math.max(0, bbox.x - padRatio);
+  const y = Math.max(0, bbox.y - padRatio);
+  return {
+    x,
+    y,
+    w: Math.min(1, bbox.x + bbox.w + padRatio) - x,
+    h: Math.min(1, bbox.y + bbox.h + padRatio) - y,
+  };
+}
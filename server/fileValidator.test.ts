@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import {
+  validateImageFile,
   validateVideoFile,
   getExtensionFromMimeType,
   sanitizeFilename,
@@ -93,6 +94,32 @@ describe("fileValidator", () => {
     });
   });
 
+  describe("validateImageFile", () => {
+    it("PNG と JPEG をシグネチャから判定する", () => {
+      const png = Buffer.from([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00,
+      ]);
+      const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]);
+
+      expect(validateImageFile(png)).toEqual({
+        valid: true,
+        detectedType: "image/png",
+      });
+      expect(validateImageFile(jpeg)).toEqual({
+        valid: true,
+        detectedType: "image/jpeg",
+      });
+    });
+
+    it("画像でないファイルを拒否する", () => {
+      const gif = Buffer.from("GIF89a");
+
+      const result = validateImageFile(gif);
+      expect(result.valid).toBe(false);
+      expect(result.error).toBeDefined();
+    });
+  });
+
   describe("getExtensionFromMimeType", () => {
     it("video/mp4から拡張子mp4を取得する", () => {
       expect(getExtensionFromMimeType("video/mp4")).toBe("mp4");
@@ -147,6 +147,42 @@ export function validateVideoFile(
   };
 }
 
+/**
+ * Magic bytes for step screenshot images (formats slides can embed)
+ */
+const IMAGE_SIGNATURES: Array<{
+  mimeType: string;
+  bytes: number[];
+}> = [
+  {
+    mimeType: "image/png",
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+];
+
+/**
+ * Validate image file (PNG / JPEG) using magic bytes
+ *
+ * @param buffer - File buffer
+ * @returns Validation result (detectedType is the MIME type to store with)
+ */
+export function validateImageFile(buffer: Buffer): FileValidationResult {
+  for (const format of IMAGE_SIGNATURES) {
+    if (matchesSignature(buffer, { bytes: format.bytes })) {
+      return {
+        valid: true,
+        detectedType: format.mimeType,
+      };
+    }
+  }
+
+  return {
+    valid: false,
+    error: "PNG または JPEG の画像を指定してください",
+  };
+}
+
 /**
  * Get file extension from MIME type
  */
@@ -0,0 +1,107 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { nanoid } from "nanoid";
+import type { Project } from "../drizzle/schema";
+import * as db from "./db";
+import { extractFullFrame } from "./evidence/timeline";
+import { parseProjectSettings } from "./projectSettings";
+import { resolveToLocalFile, storageDelete, storagePut } from "./storage";
+
+export interface CapturedFrame {
+  frameId: number;
+  /** 実際に切り出した時刻（ms）。動画の末尾付近は手前に寄せる */
+  timestamp: number;
+  imageKey: string;
+  imageUrl: string;
+  /** 切り出した JPEG のローカルパス（cleanup まで読める。OCR 用） */
+  localPath: string;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * 元動画の指定時刻のフレームを切り出してストレージに保存し、DB のフレームとして登録する。
+ * 切り出し範囲はプロジェクト設定の cropRegion に従う（証拠抽出のフレームと同じ座標系）。
+ */
+export async function captureProjectFrame(
+  project: Project,
+  timestampMs: number,
+  durationMs?: number
+): Promise<CapturedFrame> {
+  const video = await resolveToLocalFile(project.videoUrl, ".mp4");
+  const localPath = path.join(
+    os.tmpdir(),
+    `captured_frame_${project.id}_${nanoid()}.jpg`
+  );
+  const cleanup = async () => {
+    await fs.unlink(localPath).catch(() => {});
+  };
+
+  try {
+    let timestamp: number;
+    try {
+      timestamp = await extractFullFrame(
+        video.path,
+        timestampMs,
+        localPath,
+        durationMs,
+        parseProjectSettings(project.settings).cropRegion ?? null
+      );
+    } catch {
+      throw new Error(
+        "指定した時刻のフレームを切り出せませんでした。動画の範囲内の時刻を指定してください"
+      );
+    }
+
+    const registered = await registerProjectFrameImage(
+      project.id,
+      await fs.readFile(localPath),
+      "image/jpeg",
+      timestamp
+    );
+    return { ...registered, timestamp, localPath, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  } finally {
+    await video.cleanup();
+  }
+}
+
+/**
+ * 画像をストレージに保存し、DB のフレームとして登録する（アップロードした差し替え画像など）。
+ * timestamp は画像が表す動画内の時刻（ms）。
+ */
+export async function registerProjectFrameImage(
+  projectId: number,
+  image: Buffer,
+  contentType: "image/jpeg" | "image/png",
+  timestamp: number
+): Promise<{ frameId: number; imageKey: string; imageUrl: string }> {
+  const extension = contentType === "image/png" ? "png" : "jpg";
+  const imageKey = `projects/${projectId}/frames/${nanoid()}.${extension}`;
+  const { url: imageUrl } = await storagePut(imageKey, image, contentType);
+  const existingFrames = await db.getFramesByProjectId(projectId);
+  const frameId = await db.createFrame({
+    projectId,
+    frameNumber: existingFrames.length,
+    timestamp: Math.max(0, Math.round(timestamp)),
+    imageUrl,
+    imageKey,
+    diffScore: 0,
+    sortOrder: existingFrames.length,
+  });
+  return { frameId, imageKey, imageUrl };
+}
+
+/**
+ * 登録したフレーム（DB の行とストレージの画像）を削除する。
+ * 登録後の保存が失敗し、どこからも参照されないフレームが残らないようにするために使う。
+ */
+export async function discardProjectFrame(frame: {
+  frameId: number;
+  imageKey: string;
+}): Promise<void> {
+  await db.deleteFrame(frame.frameId);
+  await storageDelete(frame.imageKey);
+}
@@ -0,0 +1,211 @@
+import { describe, expect, it } from "vitest";
+import { ENV } from "./_core/env";
+import {
+  mergeProjectSettings,
+  parseProjectSettings,
+  SegmentationSettingsSchema,
+  serializeProjectSettings,
+  toExtractEvidenceOptions,
+} from "./projectSettings";
+
+describe("parseProjectSettings", () => {
+  it("未設定（null）は空の設定", () => {
+    expect(parseProjectSettings(null)).toEqual({});
+  });
+
+  it("保存済みのセグメンテーション調整値を読み込む", () => {
+    const raw = JSON.stringify({
+      segmentation: { highThreshold: 0.002, lowThreshold: 0.001, fps: 2 },
+    });
+    expect(parseProjectSettings(raw)).toEqual({
+      segmentation: { highThreshold: 0.002, lowThreshold: 0.001, fps: 2 },
+    });
+  });
+
+  it("壊れたJSONやスキーマ違反は既定設定として扱う", () => {
+    expect(parseProjectSettings("{not json")).toEqual({});
+    expect(
+      parseProjectSettings(
+        JSON.stringify({ segmentation: { stableFrames: 0 } })
+      )
+    ).toEqual({});
+  });
+
+  it("スキーマに合わない項目だけ既定値に戻し、ほかの項目は使う", () => {
+    expect(
+      parseProjectSettings(
+        JSON.stringify({
+          segmentation: { stableFrames: 0 },
+          outputLanguage: "en",
+          cropRegion: { x: 0, y: 0, w: 0.5, h: 0.5 },
+        })
+      )
+    ).toEqual({
+      outputLanguage: "en",
+      cropRegion: { x: 0, y: 0, w: 0.5, h: 0.5 },
+    });
+    expect(parseProjectSettings("[]")).toEqual({});
+  });
+});
+
+describe("SegmentationSettingsSchema", () => {
+  it("lowThreshold >= highThreshold を拒否する", () => {
+    const result = SegmentationSettingsSchema.safeParse({
+      highThreshold: 0.001,
+      lowThreshold: 0.001,
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("片方だけ指定した閾値は、もう片方の既定値との大小を確かめる", () => {
+    const tooLowHigh = SegmentationSettingsSchema.safeParse({
+      highThreshold: ENV.evidenceDiffLow / 2,
+    });
+    expect(tooLowHigh.success).toBe(false);
+    expect(tooLowHigh.error?.issues[0]).toMatchObject({
+      path: ["lowThreshold"],
+      message:
+        "lowThreshold は highThreshold より小さくしてください（未指定の値は既定値を使います）",
+    });
+    expect(
+      SegmentationSettingsSchema.safeParse({
+        lowThreshold: ENV.evidenceDiffHigh * 2,
+      }).success
+    ).toBe(false);
+    expect(
+      SegmentationSettingsSchema.safeParse({
+        highThreshold: ENV.evidenceDiffHigh * 2,
+      }).success
+    ).toBe(true);
+    expect(() =>
+      mergeProjectSettings(
+        { segmentation: { fps: 2 } },
+        { segmentation: { highThreshold: ENV.evidenceDiffLow / 2 } }
+      )
+    ).toThrow("lowThreshold は highThreshold より小さくしてください");
+  });
+});
+
+describe("mergeProjectSettings / serializeProjectSettings", () => {
+  it("指定した項目だけ置き換え、null で既定値へ戻す", () => {
+    const current = { segmentation: { fps: 2 } };
+    expect(
+      mergeProjectSettings(current, { segmentation: { stableFrames: 4 } })
+    ).toEqual({ segmentation: { stableFrames: 4 } });
+    expect(mergeProjectSettings(current, {})).toEqual(current);
+    expect(mergeProjectSettings(current, { segmentation: null })).toEqual({});
+  });
+
+  it("出力言語は対応言語のみ受け付け、null で既定（日本語）へ戻す", () => {
+    expect(mergeProjectSettings({}, { outputLanguage: "en" })).toEqual({
+      outputLanguage: "en",
+    });
+    expect(
+      mergeProjectSettings({ outputLanguage: "en" }, { outputLanguage: null })
+    ).toEqual({});
+    expect(parseProjectSettings('{"outputLanguage":"fr"}')).toEqual({});
+  });
+
+  it("想定読者は対応する値のみ受け付ける", () => {
+    expect(mergeProjectSettings({}, { audience: "admin" })).toEqual({
+      audience: "admin",
+    });
+    expect(parseProjectSettings('{"audience":"expert"}')).toEqual({});
+  });
+
+  it("用語集・文体ルールを保存し、null で削除する", () => {
+    const styleGuide = {
+      glossary: [{ term: "ログオン", preferred: "ログイン" }],
+      forbiddenTerms: ["押下"],
+      politeness: "polite" as const,
+      sentenceEndings: ["する"],
+    };
+    expect(mergeProjectSettings({}, { styleGuide })).toEqual({ styleGuide });
+    expect(mergeProjectSettings({ styleGuide }, { styleGuide: null })).toEqual(
+      {}
+    );
+    expect(
+      parseProjectSettings(
+        JSON.stringify({
+          styleGuide: { glossary: [{ term: "", preferred: "x" }] },
+        })
+      )
+    ).toEqual({});
+  });
+
+  it("空の設定は null（列を空に戻す）として保存する", () => {
+    expect(serializeProjectSettings({})).toBeNull();
+    expect(serializeProjectSettings({ segmentation: { fps: 2 } })).toBe(
+      '{"segmentation":{"fps":2}}'
+    );
+  });
+});
+
+describe("toExtractEvidenceOptions", () => {
+  it("設定名を extractEvidence のオプション名へ対応づける", () => {
+    expect(
+      toExtractEvidenceOptions({
+        segmentation: {
+          strategy: "hybrid",
+          fps: 2,
+          highThreshold: 0.002,
+          lowThreshold: 0.001,
+          stallAfterMs: 12000,
+        },
+      })
+    ).toMatchObject({
+      segmentationStrategy: "hybrid",
+      sampleFps: 2,
+      diffHigh: 0.002,
+      diffLow: 0.001,
+      stallAfterMs: 12000,
+      stableFrames: undefined,
+    });
+  });
+
+  it("除外矩形をそのまま渡す", () => {
+    const ignoreRegions = [{ x: 0.9, y: 0, w: 0.1, h: 0.05 }];
+    expect(toExtractEvidenceOptions({ ignoreRegions }).ignoreRegions).toEqual(
+      ignoreRegions
+    );
+  });
+
+  it("クロップ領域をそのまま渡す", () => {
+    const cropRegion = { x: 0.5, y: 0, w: 0.5, h: 1 };
+    expect(toExtractEvidenceOptions({ cropRegion }).cropRegion).toEqual(
+      cropRegion
+    );
+  });
+
+  it("入力値復元の設定を extractEvidence のオプション名へ対応づける", () => {
+    expect(
+      toExtractEvidenceOptions({
+        typedText: { reconstruction: false, masking: "all" },
+      })
+    ).toMatchObject({
+      typedTextReconstruction: false,
+      typedTextMasking: "all",
+    });
+  });
+
+  it("画面外にはみ出す・小さすぎるクロップ領域は受け付けない", () => {
+    expect(
+      parseProjectSettings(
+        JSON.stringify({ cropRegion: { x: 0.6, y: 0, w: 0.5, h: 1 } })
+      )
+    ).toEqual({});
+    expect(
+      parseProjectSettings(
+        JSON.stringify({ cropRegion: { x: 0, y: 0, w: 0.05, h: 1 } })
+      )
+    ).toEqual({});
+  });
+
+  it("範囲外の除外矩形は設定として受け付けない", () => {
+    expect(
+      parseProjectSettings(
+        JSON.stringify({ ignoreRegions: [{ x: 1.2, y: 0, w: 0.1, h: 0.1 }] })
+      )
+    ).toEqual({});
+  });
+});
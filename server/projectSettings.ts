@@ -0,0 +1,210 @@
+import { AUDIENCES } from "@shared/audience";
+import { OUTPUT_LANGUAGES } from "@shared/outputLanguage";
+import { z } from "zod";
+import { ENV } from "./_core/env";
+import { createLogger } from "./_core/logger";
+import type { ExtractEvidenceOptions } from "./evidence/extract";
+import { SEGMENTATION_STRATEGY_NAMES } from "./evidence/strategies";
+
+const logger = createLogger("ProjectSettings");
+
+/**
+ * プロジェクト別の操作セグメンテーション調整値。
+ * 未指定の項目は ENV（EVIDENCE_*）の既定値を使う。高DPI録画やターミナル系の
+ * 遅いアプリなど、合成データセットで較正した既定値が合わない動画向け。
+ */
+export const SegmentationSettingsSchema = z
+  .object({
+    /** 変化信号の計算方法（未指定は EVIDENCE_SEGMENTATION_STRATEGY） */
+    strategy: z.enum(SEGMENTATION_STRATEGY_NAMES).optional(),
+    fps: z.number().positive().max(30).optional(),
+    highThreshold: z.number().positive().max(1).optional(),
+    lowThreshold: z.number().positive().max(1).optional(),
+    stableFrames: z.number().int().min(1).max(30).optional(),
+    coalesceMaxGapMs: z.number().int().nonnegative().max(60000).optional(),
+    stallWindowFrames: z.number().int().min(2).max(240).optional(),
+    stallAreaRatio: z.number().positive().max(1).optional(),
+    stallAfterMs: z.number().int().nonnegative().max(600000).optional(),
+    waitingRunAreaRatio: z.number().positive().max(1).optional(),
+    waitingRunMinSpanMs: z.number().int().nonnegative().max(600000).optional(),
+  })
+  .refine(
+    // 片方だけ指定したときは、もう片方の既定値（ENV）と比べる
+    settings =>
+      (settings.highThreshold === undefined &&
+        settings.lowThreshold === undefined) ||
+      (settings.lowThreshold ?? ENV.evidenceDiffLow) <
+        (settings.highThreshold ?? ENV.evidenceDiffHigh),
+    {
+      message:
+        "lowThreshold は highThreshold より小さくしてください（未指定の値は既定値を使います）",
+      path: ["lowThreshold"],
+    }
+  );
+export type SegmentationSettings = z.infer<typeof SegmentationSettingsSchema>;
+
+const NormalizedRectSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  w: z.number().positive().max(1),
+  h: z.number().positive().max(1),
+});
+
+/** 差分計算・OCRフォーカスから除外する矩形（時計・通知バッジ・動画プレイヤー等） */
+export const IgnoreRegionsSchema = z.array(NormalizedRectSchema).max(20);
+
+/**
+ * 証拠抽出・動画クリップの対象にする領域（ウルトラワイド・デュアルモニタ録画で対象アプリだけを切り出す）。
+ * 小さすぎるとOCRが効かなくなるため一辺10%以上に限る。
+ */
+export const CropRegionSchema = NormalizedRectSchema.refine(
+  rect => rect.x + rect.w <= 1.0001 && rect.y + rect.h <= 1.0001,
+  { message: "クロップ領域が画面外にはみ出しています" }
+).refine(rect => rect.w >= 0.1 && rect.h >= 0.1, {
+  message: "クロップ領域は幅・高さとも画面の10%以上にしてください",
+});
+
+/**
+ * タイピング区間の入力値復元（typed_text）。
+ * 顧客データを扱う録画など、入力値をすべて伏せたい場合は masking=all にする。
+ */
+export const TypedTextSettingsSchema = z.object({
+  reconstruction: z.boolean().optional(),
+  masking: z.enum(["secrets", "all", "none"]).optional(),
+});
+export type TypedTextSettings = z.infer<typeof TypedTextSettingsSchema>;
+
+/**
+ * 社内の用語集・文体ルール。ステップ執筆時に文脈として渡し、執筆後に機械検証する。
+ * 用語集は「避ける表記 → 推奨表記」。UIラベルの引用は照合のためOCRの表記を優先する。
+ */
+export const StyleGuideSettingsSchema = z.object({
+  glossary: z
+    .array(
+      z.object({
+        term: z.string().trim().min(1).max(50),
+        preferred: z.string().trim().min(1).max(50),
+      })
+    )
+    .max(200)
+    .optional(),
+  forbiddenTerms: z.array(z.string().trim().min(1).max(50)).max(100).optional(),
+  /** 説明文・ナレーションの文体（日本語出力のみ検証） */
+  politeness: z.enum(["polite", "plain"]).optional(),
+  /** instruction の文末として許す表記（例: 「する」「してください」） */
+  sentenceEndings: z.array(z.string().trim().min(1).max(20)).max(10).optional(),
+});
+export type StyleGuideSettings = z.infer<typeof StyleGuideSettingsSchema>;
+
+/** projects.settings 列に保存するJSON */
+export const ProjectSettingsSchema = z.object({
+  segmentation: SegmentationSettingsSchema.optional(),
+  ignoreRegions: IgnoreRegionsSchema.optional(),
+  cropRegion: CropRegionSchema.optional(),
+  typedText: TypedTextSettingsSchema.optional(),
+  // 生成するステップ文・スライド・ナレーションの言語（既定 ja）。次回のステップ生成から反映
+  outputLanguage: z.enum(OUTPUT_LANGUAGES).optional(),
+  // 執筆に渡す用語集・文体ルール。次回のステップ生成から反映
+  styleGuide: StyleGuideSettingsSchema.optional(),
+  // 想定読者（既定 novice）。ステップの粒度・文章量を切り替える。次回のステップ生成から反映
+  audience: z.enum(AUDIENCES).optional(),
+});
+export type ProjectSettings = z.infer<typeof ProjectSettingsSchema>;
+
+/**
+ * projects.settings 列を読み込む。
+ * 壊れた値で動画処理全体を止めないよう、不正なJSONは警告して既定設定として扱う。
+ * スキーマに合わない項目はその項目だけ既定値に戻し、ほかの項目は使う。
+ */
+export function parseProjectSettings(
+  raw: string | null | undefined
+): ProjectSettings {
+  if (!raw) return {};
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    logger.warn("Project settings is not valid JSON; using defaults", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    logger.warn("Project settings is not an object; using defaults");
+    return {};
+  }
+
+  const settings: Record<string, unknown> = {};
+  const issues: string[] = [];
+  for (const [key, schema] of Object.entries(ProjectSettingsSchema.shape)) {
+    const field = (value as Record<string, unknown>)[key];
+    if (field === undefined) continue;
+    const result = schema.safeParse(field);
+    if (result.success) {
+      settings[key] = result.data;
+    } else {
+      issues.push(
+        ...result.error.issues.map(issue => `${key}: ${issue.message}`)
+      );
+    }
+  }
+  if (issues.length > 0) {
+    logger.warn("Invalid project settings; using defaults for those fields", {
+      issues,
+    });
+  }
+  return settings as ProjectSettings;
+}
+
+/** 部分更新（null の項目は削除して既定値へ戻す） */
+export type ProjectSettingsPatch = {
+  [K in keyof ProjectSettings]?: ProjectSettings[K] | null;
+};
+
+export function mergeProjectSettings(
+  current: ProjectSettings,
+  patch: ProjectSettingsPatch
+): ProjectSettings {
+  const merged: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return ProjectSettingsSchema.parse(merged);
+}
+
+export function serializeProjectSettings(
+  settings: ProjectSettings
+): string | null {
+  const parsed = ProjectSettingsSchema.parse(settings);
+  const hasValues = Object.values(parsed).some(value => value !== undefined);
+  return hasValues ? JSON.stringify(parsed) : null;
+}
+
+/** プロジェクト設定を extractEvidence のオプション名へ変換する */
+export function toExtractEvidenceOptions(
+  settings: ProjectSettings
+): Partial<ExtractEvidenceOptions> {
+  const segmentation = settings.segmentation ?? {};
+  return {
+    ignoreRegions: settings.ignoreRegions,
+    cropRegion: settings.cropRegion,
+    typedTextReconstruction: settings.typedText?.reconstruction,
+    typedTextMasking: settings.typedText?.masking,
+    segmentationStrategy: segmentation.strategy,
+    sampleFps: segmentation.fps,
+    diffHigh: segmentation.highThreshold,
+    diffLow: segmentation.lowThreshold,
+    stableFrames: segmentation.stableFrames,
+    coalesceMaxGapMs: segmentation.coalesceMaxGapMs,
+    stallWindowFrames: segmentation.stallWindowFrames,
+    stallAreaRatio: segmentation.stallAreaRatio,
+    stallAfterMs: segmentation.stallAfterMs,
+    waitingRunAreaRatio: segmentation.waitingRunAreaRatio,
+    waitingRunMinSpanMs: segmentation.waitingRunMinSpanMs,
+  };
+}
@@ -1,29 +1,74 @@
 import { COOKIE_NAME } from "@shared/const";
+import { AUDIENCES } from "@shared/audience";
+import { OUTPUT_LANGUAGES } from "@shared/outputLanguage";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { createLogger } from "./_core/logger";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import * as db from "./db";
 import { processVideo } from "./videoProcessor";
-import { analyzeFrameForStepRegeneration, generateStepsForProject } from "./stepGenerator";
+import {
+  analyzeFrameForStepRegeneration,
+  generateStepsForProject,
+  insertStepAtTimestampForProject,
+  mergeStepsForProject,
+  reauthorStepRangeForProject,
+  restoreDiscardedSegmentForProject,
+  splitStepForProject,
+  translateStepsForProject,
+} from "./stepGenerator";
 import { generateSlides } from "./slideGenerator";
 import { generateAudioForProject, generateVideo } from "./videoGenerator";
 import { getAvailableVoices, type TTSVoice } from "./_core/tts";
 import { storagePut } from "./storage";
-import { StepAudioModeSchema, invalidateStepsArtifact } from "./stepsArtifact";
+import {
+  StepAudioModeSchema,
+  StepSectionSchema,
+  StepsArtifactConflictError,
+  assertStepsArtifactRevision,
+  invalidateStepsArtifact,
+  listTranslatedStepsArtifacts,
+} from "./stepsArtifact";
 import {
   artifactContainsStepTarget,
   buildStepListFromDbRows,
   deleteProjectStepArtifactFirst,
+  diffProjectStepsRevisions,
+  getProjectStepsRevisionHistory,
   InvalidStepsArtifactError,
   listProjectStepsArtifactFirst,
   loadOrCreateStepsArtifactForProject,
   regenerateProjectStepArtifactFirst,
+  redoProjectStepsArtifactFirst,
   reorderProjectStepsArtifactFirst,
+  replaceProjectStepScreenshotArtifactFirst,
+  restoreProjectStepsRevisionArtifactFirst,
+  revertProjectStepScreenshotArtifactFirst,
+  undoProjectStepsArtifactFirst,
+  updateProjectSectionsArtifactFirst,
   updateProjectStepArtifactFirst,
 } from "./stepSource";
-import { invalidateEvidenceArtifact } from "./evidence/artifactStore";
+import {
+  invalidateEvidenceArtifact,
+  loadEvidenceArtifact,
+  loadPreviousEvidenceArtifact,
+} from "./evidence/artifactStore";
+import { diffEvidenceArtifacts, formatEvidenceDiff } from "./evidence/diff";
+import {
+  CropRegionSchema,
+  IgnoreRegionsSchema,
+  mergeProjectSettings,
+  parseProjectSettings,
+  SegmentationSettingsSchema,
+  serializeProjectSettings,
+  StyleGuideSettingsSchema,
+  TypedTextSettingsSchema,
+  type ProjectSettings,
+  type ProjectSettingsPatch,
+} from "./projectSettings";
+import type { Project } from "../drizzle/schema";
 
 const logger = createLogger("Router");
 
@@ -39,6 +84,32 @@ function sanitizeError(error: unknown): string {
   return "Unknown error";
 }
 
+// steps.json を書き換える操作。編集の元にした版が古ければ CONFLICT で返す（詳細は data.conflict）
+const stepsEditProcedure = protectedProcedure.use(async ({ next }) => {
+  const result = await next();
+  if (!result.ok && result.error.cause instanceof StepsArtifactConflictError) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: result.error.cause.message,
+      cause: result.error.cause,
+    });
+  }
+  return result;
+});
+
+// 編集の元にした steps.json の revision（step.artifactInfo の revision）。編集系の操作は必ず送る
+const expectedRevisionInput = z.number().int().nonnegative();
+
+// プロジェクト別設定へ部分更新を保存し、保存後の設定を返す
+async function saveProjectSettingsPatch(
+  project: Project,
+  patch: ProjectSettingsPatch
+): Promise<ProjectSettings> {
+  const settings = mergeProjectSettings(parseProjectSettings(project.settings), patch);
+  await db.updateProjectSettings(project.id, serializeProjectSettings(settings));
+  return settings;
+}
+
 export const appRouter = router({
     // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
   system: systemRouter,
@@ -135,6 +206,94 @@ export const appRouter = router({
         };
       }),
 
+    // プロジェクト別設定（セグメンテーション調整値など）
+    getSettings: protectedProcedure
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const project = await db.getProjectById(input.projectId, ctx.user.id);
+        if (!project) {
+          throw new Error("プロジェクトが見つかりません");
+        }
+        return parseProjectSettings(project.settings);
+      }),
+
+    // 次回の動画処理（processVideo / retry）から反映される。null で既定値へ戻す
+    updateSettings: protectedProcedure
+      .input(z.object({
+        projectId: z.number(),
+        segmentation: SegmentationSettingsSchema.nullable().optional(),
+        ignoreRegions: IgnoreRegionsSchema.nullable().optional(),
+        cropRegion: CropRegionSchema.nullable().optional(),
+        typedText: TypedTextSettingsSchema.nullable().optional(),
+        outputLanguage: z.enum(OUTPUT_LANGUAGES).nullable().optional(),
+        styleGuide: StyleGuideSettingsSchema.nullable().optional(),
+        audience: z.enum(AUDIENCES).nullable().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const project = await db.getProjectById(input.projectId, ctx.user.id);
+        if (!project) {
+          throw new Error("プロジェクトが見つかりません");
+        }
+        return saveProjectSettingsPatch(project, {
+          segmentation: input.segmentation,
+          ignoreRegions: input.ignoreRegions,
+          cropRegion: input.cropRegion,
+          typedText: input.typedText,
+          outputLanguage: input.outputLanguage,
+          styleGuide: input.styleGuide,
+          audience: input.audience,
+        });
+      }),
+
+    // 直近の証拠抽出で差分が集中していた領域（全画面で抽出した場合のみ）
+    getCropSuggestion: protectedProcedure
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const project = await db.getProjectById(input.projectId, ctx.user.id);
+        if (!project) {
+          throw new Error("プロジェクトが見つかりません");
+        }
+        const evidence = await loadEvidenceArtifact(input.projectId);
+        return evidence?.config.suggested_crop_region ?? null;
+      }),
+
+    // 証拠抽出結果の比較（baseProjectId 未指定なら同じプロジェクトの直前の抽出結果と比べる）
+    diffEvidence: protectedProcedure
+      .input(z.object({
+        projectId: z.number(),
+        baseProjectId: z.number().optional(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const project = await db.getProjectById(input.projectId, ctx.user.id);
+        if (!project) {
+          throw new Error("プロジェクトが見つかりません");
+        }
+        if (input.baseProjectId !== undefined) {
+          const baseProject = await db.getProjectById(input.baseProjectId, ctx.user.id);
+          if (!baseProject) {
+            throw new Error("比較元のプロジェクトが見つかりません");
+          }
+        }
+
+        const target = await loadEvidenceArtifact(input.projectId);
+        if (!target) {
+          throw new Error("証拠抽出結果がありません。動画処理を実行してください");
+        }
+        const base = input.baseProjectId !== undefined
+          ? await loadEvidenceArtifact(input.baseProjectId)
+          : await loadPreviousEvidenceArtifact(input.projectId);
+        if (!base) {
+          throw new Error(
+            input.baseProjectId !== undefined
+              ? "比較元のプロジェクトに証拠抽出結果がありません"
+              : "比較できる直前の抽出結果がありません（再試行後に比較できます）",
+          );
+        }
+
+        const report = diffEvidenceArtifacts(base, target);
+        return { report, text: formatEvidenceDiff(report) };
+      }),
+
     // 再試行機能
     retry: protectedProcedure
       .input(z.object({
@@ -142,6 +301,7 @@ export const appRouter = router({
         threshold: z.number().optional(),
         minInterval: z.number().optional(),
         maxFrames: z.number().optional(),
+        segmentation: SegmentationSettingsSchema.optional(),
       }))
       .mutation(async ({ ctx, input }) => {
         const { projectId, threshold, minInterval, maxFrames } = input;
@@ -157,6 +317,11 @@ export const appRouter = router({
           throw new Error("このプロジェクトは再試行できません");
         }
 
+        // 調整値が指定された場合はプロジェクト設定として保存してから再処理する
+        if (input.segmentation) {
+          await saveProjectSettingsPatch(project, { segmentation: input.segmentation });
+        }
+
         // 既存のフレームとステップを削除
         await db.deleteFramesByProjectId(projectId);
         await db.deleteStepsByProjectId(projectId);
@@ -254,6 +419,7 @@ export const appRouter = router({
           videoUrl: project.videoUrl,
           videoKey: project.videoKey,
           status: "uploading", // 新規作成として扱う
+          settings: project.settings,
         });
 
         return { success: true, projectId: newProjectId };
@@ -267,11 +433,21 @@ export const appRouter = router({
         threshold: z.number().optional(),
         minInterval: z.number().optional(),
         maxFrames: z.number().optional(),
+        segmentation: SegmentationSettingsSchema.optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const { projectId, videoUrl, videoKey, threshold, minInterval, maxFrames } = input;
         
         console.log(`[Router] processVideo called with:`, { projectId, videoUrl: videoUrl.substring(0, 100), videoKey, threshold, minInterval, maxFrames });
+
+        // 調整値が指定された場合はプロジェクト設定として保存する（processVideo が読み込む）
+        if (input.segmentation) {
+          const project = await db.getProjectById(projectId, ctx.user.id);
+          if (!project) {
+            throw new Error("プロジェクトが見つかりません");
+          }
+          await saveProjectSettingsPatch(project, { segmentation: input.segmentation });
+        }
         
         // ステータスを処理中に更新
         await db.updateProjectStatus(projectId, "processing");
@@ -349,6 +525,7 @@ export const appRouter = router({
           tStart: number;
           tEnd: number;
           audioMode: string;
+          screenshotReplaced: boolean;
         }> = {};
         let state;
         try {
@@ -362,6 +539,9 @@ export const appRouter = router({
             return {
               overview: null,
               reviewByStepId: empty,
+              discardedSegments: [],
+              sections: [],
+              revision: 0,
               syncStatus: {
                 source: "invalid_artifact" as const,
                 artifactPrimary: false,
@@ -376,6 +556,9 @@ export const appRouter = router({
           return {
             overview: null,
             reviewByStepId: empty,
+            discardedSegments: [],
+            sections: [],
+            revision: state.artifact?.revision ?? 0,
             syncStatus: state.source === "none"
               ? {
                   source: "none" as const,
@@ -397,6 +580,7 @@ export const appRouter = router({
               tStart: step.t_start,
               tEnd: step.t_end,
               audioMode: step.audio_mode,
+              screenshotReplaced: step.screenshot_override !== undefined,
             };
           }
         }
@@ -414,6 +598,12 @@ export const appRouter = router({
         return {
           overview: state.artifact.overview,
           reviewByStepId,
+          // 執筆で破棄されたセグメント（レビューで見落としの手順を探して復元する）
+          discardedSegments: state.artifact.discarded_segments,
+          // 章立て（目次の区切り・スライドの中扉・動画のチャプター）
+          sections: state.artifact.sections,
+          // 編集の競合検出に使う版。編集系の操作は expectedRevision としてこの値を送る
+          revision: state.artifact.revision,
           syncStatus: {
             source: "steps_artifact" as const,
             artifactPrimary: true,
@@ -425,10 +615,11 @@ export const appRouter = router({
         };
       }),
 
-    update: protectedProcedure
+    update: stepsEditProcedure
       .input(z.object({
         id: z.number(),
         projectId: z.number().optional(),
+        expectedRevision: expectedRevisionInput,
         title: z.string().optional(),
         operation: z.string().optional(),
         description: z.string().optional(),
@@ -439,17 +630,22 @@ export const appRouter = router({
         markReviewed: z.literal(true).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const { id, projectId, ...data } = input;
-        await updateProjectStepArtifactFirst({ projectId, stepId: id, data }, ctx.user.id);
+        const { id, projectId, expectedRevision, ...data } = input;
+        await updateProjectStepArtifactFirst({ projectId, stepId: id, data, expectedRevision }, ctx.user.id);
         return { success: true };
       }),
 
-    delete: protectedProcedure
-      .input(z.object({ id: z.number(), projectId: z.number().optional() }))
+    delete: stepsEditProcedure
+      .input(z.object({
+        id: z.number(),
+        projectId: z.number().optional(),
+        expectedRevision: expectedRevisionInput,
+      }))
       .mutation(async ({ ctx, input }) => {
         await deleteProjectStepArtifactFirst({
           projectId: input.projectId,
           stepId: input.id,
+          expectedRevision: input.expectedRevision,
         }, ctx.user.id);
         return { success: true };
       }),
@@ -485,8 +681,13 @@ export const appRouter = router({
         return { success: true, message: "Step generation started" };
       }),
     
-    regenerate: protectedProcedure
-      .input(z.object({ stepId: z.number(), frameId: z.number(), projectId: z.number().optional() }))
+    regenerate: stepsEditProcedure
+      .input(z.object({
+        stepId: z.number(),
+        frameId: z.number(),
+        projectId: z.number().optional(),
+        expectedRevision: expectedRevisionInput,
+      }))
       .mutation(async ({ ctx, input }) => {
         // セキュリティ: ステップの所有者チェック
         const step = await db.getStepById(input.stepId, ctx.user.id);
@@ -517,6 +718,8 @@ export const appRouter = router({
         ) {
           throw new Error("ステップがsteps artifact内に見つかりませんでした");
         }
+        // フレームの解析（LLM）の前に競合を確かめる
+        assertStepsArtifactRevision(projectId, state.artifact.revision, input.expectedRevision);
         const regenerated = await analyzeFrameForStepRegeneration(frame);
         await regenerateProjectStepArtifactFirst({
           projectId,
@@ -525,24 +728,256 @@ export const appRouter = router({
           data: regenerated,
           state,
           existingStep: step,
+          expectedRevision: input.expectedRevision,
         }, ctx.user.id);
         return { success: true };
       }),
 
-    reorder: protectedProcedure
+    reorder: stepsEditProcedure
       .input(z.object({
         projectId: z.number(),
         stepIds: z.array(z.number()),
+        expectedRevision: expectedRevisionInput,
       }))
       .mutation(async ({ ctx, input }) => {
         await reorderProjectStepsArtifactFirst(input, ctx.user.id);
         return { success: true };
       }),
+
+    // 章立ての編集（各章は並び順で連続したステップ範囲。全ステップを隙間なく区切る）
+    updateSections: stepsEditProcedure
+      .input(z.object({
+        projectId: z.number(),
+        expectedRevision: expectedRevisionInput,
+        sections: z.array(StepSectionSchema.extend({
+          title: z.string().trim().min(1).max(100),
+          summary: z.string().trim().max(300),
+        })).max(50),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await updateProjectSectionsArtifactFirst(input, ctx.user.id);
+        return { success: true };
+      }),
+
+    // 並び順で from..to（1始まり）のステップを根拠セグメントから再執筆する（範囲外は書き換えない）
+    reauthorRange: stepsEditProcedure
+      .input(z.object({
+        projectId: z.number(),
+        expectedRevision: expectedRevisionInput,
+        from: z.number().int().positive(),
+        to: z.number().int().positive(),
+        guidance: z.string().trim().max(500).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { stepCount } = await reauthorStepRangeForProject(
+          input.projectId,
+          { from: input.from, to: input.to, guidance: input.guidance },
+          ctx.user.id,
+          input.expectedRevision,
+        );
+        return { success: true, stepCount };
+      }),
+
+    // 執筆で破棄されたセグメントを1セグメントだけで再執筆し、ステップとして復元する
+    restoreDiscarded: stepsEditProcedure
+      .input(z.object({
+        projectId: z.number(),
+        segmentId: z.string().min(1),
+        expectedRevision: expectedRevisionInput,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { stepId } = await restoreDiscardedSegmentForProject(
+          input.projectId,
+          input.segmentId,
+          ctx.user.id,
+          input.expectedRevision,
+        );
+        return { success: true, stepId };
+      }),
+
+    // ステップを根拠セグメントの境界（segmentId、または timestamp 以降に始まるセグメント）で2つに分ける
+    split: stepsEditProcedure
+      .input(z.object({
+        projectId: z.number(),
+        stepId: z.number(),
+        expectedRevision: expectedRevisionInput,
+        segmentId: z.string().min(1).optional(),
+        timestamp: z.number().int().nonnegative().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { stepIds } = await splitStepForProject(
+          input.projectId,
+          { stepId: input.stepId, segmentId: input.segmentId, timestamp: input.timestamp },
+          ctx.user.id,
+          input.expectedRevision,
+        );
+        return { success: true, stepIds };
+      }),
+
+    // 隣り合う2つのステップ（stepId の直後が nextStepId）を1つに結合する
+    merge: stepsEditProcedure
+      .input(z.object({
+        projectId: z.number(),
+        stepId: z.number(),
+        nextStepId: z.number(),
+        expectedRevision: expectedRevisionInput,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { stepId } = await mergeStepsForProject(
+          input.projectId,
+          { stepId: input.stepId, nextStepId: input.nextStepId },
+          ctx.user.id,
+          input.expectedRevision,
+        );
+        return { success: true, stepId };
+      }),
+
+    // 元動画の任意の時刻のフレームから、根拠セグメントの無いステップを手動で追加する
+    insertAt: stepsEditProcedure
+      .input(z.object({
+        projectId: z.number(),
+        timestamp: z.number().int().nonnegative(),
+        author: z.boolean().default(false),
+        expectedRevision: expectedRevisionInput,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { stepId } = await insertStepAtTimestampForProject(
+          input.projectId,
+          { timestamp: input.timestamp, author: input.author },
+          ctx.user.id,
+          input.expectedRevision,
+        );
+        return { success: true, stepId };
+      }),
+
+    // ステップの代表スクリーンショットを元動画の別の時刻のフレーム、またはアップロード画像（PNG/JPEG）に差し替える
+    replaceScreenshot: stepsEditProcedure
+      .input(z.object({
+        projectId: z.number(),
+        stepId: z.number(),
+        expectedRevision: expectedRevisionInput,
+        timestamp: z.number().int().nonnegative().optional(),
+        // 20MB までの画像（Base64）
+        imageBase64: z.string().min(1).max(28_000_000).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const source = input.imageBase64 !== undefined
+          ? { kind: "upload" as const, image: Buffer.from(input.imageBase64, "base64") }
+          : input.timestamp !== undefined
+            ? { kind: "video_frame" as const, timestamp: input.timestamp }
+            : null;
+        if (!source) {
+          throw new Error("差し替える画像の時刻かファイルを指定してください");
+        }
+        const { frameId } = await replaceProjectStepScreenshotArtifactFirst(
+          {
+            projectId: input.projectId,
+            stepId: input.stepId,
+            source,
+            expectedRevision: input.expectedRevision,
+          },
+          ctx.user.id,
+        );
+        return { success: true, frameId };
+      }),
+
+    // 差し替えたスクリーンショットを元の画像に戻す
+    revertScreenshot: stepsEditProcedure
+      .input(z.object({
+        projectId: z.number(),
+        stepId: z.number(),
+        expectedRevision: expectedRevisionInput,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { frameId } = await revertProjectStepScreenshotArtifactFirst(input, ctx.user.id);
+        return { success: true, frameId };
+      }),
+
+    // steps.json の版の履歴（新しい順）と undo/redo の可否
+    revisions: protectedProcedure
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        return getProjectStepsRevisionHistory(input.projectId, ctx.user.id);
+      }),
+
+    diffRevisions: protectedProcedure
+      .input(z.object({
+        projectId: z.number(),
+        from: z.number().int().positive(),
+        to: z.number().int().positive(),
+      }))
+      .query(async ({ ctx, input }) => {
+        return diffProjectStepsRevisions(input, ctx.user.id);
+      }),
+
+    // 指定した版の内容に戻す（DB のステップ行も合わせる）
+    restoreRevision: stepsEditProcedure
+      .input(z.object({
+        projectId: z.number(),
+        revision: z.number().int().positive(),
+        expectedRevision: expectedRevisionInput,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { revision } = await restoreProjectStepsRevisionArtifactFirst(input, ctx.user.id);
+        return { success: true, revision };
+      }),
+
+    undo: stepsEditProcedure
+      .input(z.object({ projectId: z.number(), expectedRevision: expectedRevisionInput }))
+      .mutation(async ({ ctx, input }) => {
+        const { revision } = await undoProjectStepsArtifactFirst(input, ctx.user.id);
+        return { success: true, revision };
+      }),
+
+    redo: stepsEditProcedure
+      .input(z.object({ projectId: z.number(), expectedRevision: expectedRevisionInput }))
+      .mutation(async ({ ctx, input }) => {
+        const { revision } = await redoProjectStepsArtifactFirst(input, ctx.user.id);
+        return { success: true, revision };
+      }),
   }),
   
+  // 翻訳版 steps.<lang>.json（レビュー済みの原本から翻訳。スライド・動画の出力に使う）
+  translation: router({
+    list: protectedProcedure
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const project = await db.getProjectById(input.projectId, ctx.user.id);
+        if (!project) {
+          throw new Error("プロジェクトが見つかりません");
+        }
+        return listTranslatedStepsArtifacts(input.projectId);
+      }),
+
+    create: protectedProcedure
+      .input(z.object({
+        projectId: z.number(),
+        language: z.enum(OUTPUT_LANGUAGES),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const translated = await translateStepsForProject(
+          input.projectId,
+          input.language,
+          ctx.user.id,
+        );
+        return {
+          success: true,
+          language: input.language,
+          stepCount: translated.steps.length,
+          missingLabelCount: translated.steps.filter(step =>
+            step.review_reasons.includes("translation:missing_ui_label"),
+          ).length,
+        };
+      }),
+  }),
+
   slide: router({
     generate: protectedProcedure
-      .input(z.object({ projectId: z.number() }))
+      .input(z.object({
+        projectId: z.number(),
+        // 指定時は翻訳版から生成する
+        language: z.enum(OUTPUT_LANGUAGES).optional(),
+      }))
       .mutation(async ({ ctx, input }) => {
         try {
           console.log(`[Router] Starting slide generation for project ${input.projectId}`);
@@ -553,7 +988,9 @@ export const appRouter = router({
             throw new Error("プロジェクトが見つかりません");
           }
           console.log(`[Router] Project found, calling generateSlides...`);
-          const slideUrl = await generateSlides(input.projectId);
+          const slideUrl = await generateSlides(input.projectId, {
+            language: input.language,
+          });
           console.log(`[Router] Slide generation successful: ${slideUrl}`);
           return { success: true, slideUrl };
         } catch (error) {
@@ -573,6 +1010,7 @@ export const appRouter = router({
       .input(z.object({
         projectId: z.number(),
         voice: z.string().min(1).optional(),
+        language: z.enum(OUTPUT_LANGUAGES).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
         // セキュリティ: プロジェクトの所有者チェック
@@ -583,6 +1021,7 @@ export const appRouter = router({
         const { silentFallbackCount } = await generateAudioForProject(
           input.projectId,
           input.voice as TTSVoice,
+          { language: input.language },
         );
         return { success: true, silentFallbackCount };
       }),
@@ -591,6 +1030,7 @@ export const appRouter = router({
       .input(z.object({
         projectId: z.number(),
         audioMode: z.enum(["auto", "tts", "original", "mixed", "silent"]).optional(),
+        language: z.enum(OUTPUT_LANGUAGES).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
         // セキュリティ: プロジェクトの所有者チェック
@@ -598,7 +1038,10 @@ export const appRouter = router({
         if (!project) {
           throw new Error("プロジェクトが見つかりません");
         }
-        const result = await generateVideo(input.projectId, { audioMode: input.audioMode });
+        const result = await generateVideo(input.projectId, {
+          audioMode: input.audioMode,
+          language: input.language,
+        });
         return {
           success: true,
           videoUrl: result.videoUrl,
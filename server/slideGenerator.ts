@@ -4,9 +4,12 @@ import path from "path";
 import { execFile } from "child_process";
 import { promisify } from "util";
 import type PptxGenJS from "pptxgenjs";
+import { AUDIENCE_EXPORT_LABELS } from "@shared/audience";
+import type { OutputLanguage } from "@shared/outputLanguage";
 import { ENV, type SlidePreset } from "./_core/env";
 import { readBinaryFromSource } from "./storage";
 import { loadProjectStepRenderState } from "./stepSource";
+import { resolveStepSections } from "./stepsArtifact";
 import {
   truncateAtSentence,
   ensureTerminalPunctuation,
@@ -25,6 +28,82 @@ const MAX_OPERATION_CHARS = 60;
 const MAX_DETAIL_CHARS = 120;
 const MAX_TOC_ITEMS_PER_SLIDE = 8; // 目次1ページあたりの項目数
 
+/** スライド・ノートに固定で入る見出し（steps.json の出力言語に合わせる） */
+const SLIDE_LABELS: Record<
+  OutputLanguage,
+  {
+    toc: string;
+    totalSteps: (count: number) => string;
+    preconditions: string;
+    imageLoadFailed: string;
+    operation: string;
+    detail: string;
+    narration: string;
+    omitted: (label: string) => string;
+    complete: string;
+    completionCriteria: string;
+    section: (index: number) => string;
+    stepRange: (first: number, last: number) => string;
+  }
+> = {
+  ja: {
+    toc: "目次",
+    totalSteps: count => `全${count}ステップ`,
+    preconditions: "前提",
+    imageLoadFailed: "画像を読み込めませんでした",
+    operation: "操作",
+    detail: "詳細",
+    narration: "ナレーション",
+    omitted: label => `${label}（省略分）`,
+    complete: "完了",
+    completionCriteria: "完了条件",
+    section: index => `セクション ${index}`,
+    stepRange: (first, last) => `ステップ ${first}〜${last}`,
+  },
+  en: {
+    toc: "Contents",
+    totalSteps: count => `${count} steps`,
+    preconditions: "Before you begin",
+    imageLoadFailed: "Could not load the image",
+    operation: "Action",
+    detail: "Details",
+    narration: "Narration",
+    omitted: label => `${label} (continued)`,
+    complete: "Done",
+    completionCriteria: "Completion criteria",
+    section: index => `Section ${index}`,
+    stepRange: (first, last) => `Steps ${first}–${last}`,
+  },
+  zh: {
+    toc: "目录",
+    totalSteps: count => `共${count}个步骤`,
+    preconditions: "前提",
+    imageLoadFailed: "无法加载图像",
+    operation: "操作",
+    detail: "详细",
+    narration: "旁白",
+    omitted: label => `${label}（省略部分）`,
+    complete: "完成",
+    completionCriteria: "完成条件",
+    section: index => `第${index}部分`,
+    stepRange: (first, last) => `步骤 ${first}–${last}`,
+  },
+  ko: {
+    toc: "목차",
+    totalSteps: count => `총 ${count}단계`,
+    preconditions: "사전 조건",
+    imageLoadFailed: "이미지를 불러오지 못했습니다",
+    operation: "조작",
+    detail: "상세",
+    narration: "내레이션",
+    omitted: label => `${label} (생략분)`,
+    complete: "완료",
+    completionCriteria: "완료 조건",
+    section: index => `섹션 ${index}`,
+    stepRange: (first, last) => `${first}~${last}단계`,
+  },
+};
+
 interface Rect {
   x: number;
   y: number;
@@ -185,7 +264,7 @@ function removeEmojis(text: string): string {
 }
 
 /**
- * 「状態説明」文を「指示」文に変換
+ * 「状態説明」文を「指示」文に変換（日本語の文末表現のみ対象）
  */
 function convertToInstructionStyle(text: string): string {
   if (!text) return "";
@@ -216,25 +295,26 @@ function buildNotesText(step: {
 }, overflow?: {
   operationOverflow?: string;
   detailOverflow?: string;
-}): string {
+}, language: OutputLanguage = "ja"): string {
+  const labels = SLIDE_LABELS[language];
   const parts: string[] = [];
   parts.push(`【${step.title}】`);
   parts.push("");
-  parts.push(`操作: ${step.operation}`);
+  parts.push(`${labels.operation}: ${step.operation}`);
   if (overflow?.operationOverflow) {
-    parts.push(`操作（省略分）: ${overflow.operationOverflow}`);
+    parts.push(`${labels.omitted(labels.operation)}: ${overflow.operationOverflow}`);
   }
   parts.push("");
-  parts.push(`詳細:`);
+  parts.push(`${labels.detail}:`);
   parts.push(step.description);
   if (overflow?.detailOverflow) {
     parts.push("");
-    parts.push(`詳細（省略分）:`);
+    parts.push(`${labels.omitted(labels.detail)}:`);
     parts.push(overflow.detailOverflow);
   }
   if (step.narration) {
     parts.push("");
-    parts.push(`ナレーション:`);
+    parts.push(`${labels.narration}:`);
     parts.push(step.narration);
   }
   return parts.join("\n");
@@ -734,16 +814,64 @@ function addSpotlightToSlide(
   }
 }
 
+/** steps.json の章（セクション）をスライド用に解決したもの */
+interface SlideSection {
+  index: number;
+  title: string;
+  summary: string;
+  firstStepNumber: number;
+  lastStepNumber: number;
+}
+
+type TocRow =
+  | { kind: "section"; section: SlideSection }
+  | { kind: "step"; step: { displayTitle: string; sortOrder: number } };
+
 /**
- * 目次スライドを作成
+ * 目次の行をページに分ける。章見出しがページ末尾に取り残されないよう、
+ * 見出しの後に行が入らないときは次のページへ送る
+ */
+function paginateTocRows(rows: TocRow[]): TocRow[][] {
+  const pages: TocRow[][] = [];
+  let current: TocRow[] = [];
+  for (const row of rows) {
+    const full = current.length >= MAX_TOC_ITEMS_PER_SLIDE;
+    const orphanHeading =
+      row.kind === "section" && current.length >= MAX_TOC_ITEMS_PER_SLIDE - 1;
+    if (current.length > 0 && (full || orphanHeading)) {
+      pages.push(current);
+      current = [];
+    }
+    current.push(row);
+  }
+  if (current.length > 0) {
+    pages.push(current);
+  }
+  return pages;
+}
+
+/**
+ * 目次スライドを作成（章があれば各章の先頭ステップの前に章見出しを入れる）
  */
 function createTableOfContentsSlides(
   pptx: PptxGenJS,
-  steps: Array<{ title: string; displayTitle: string; sortOrder: number }>,
-  projectTitle: string
+  steps: Array<{ id: number; title: string; displayTitle: string; sortOrder: number }>,
+  projectTitle: string,
+  language: OutputLanguage = "ja",
+  sectionByFirstStepId: Map<number, SlideSection> = new Map()
 ): void {
-  const totalSteps = steps.length;
-  const totalTocSlides = Math.ceil(totalSteps / MAX_TOC_ITEMS_PER_SLIDE);
+  const labels = SLIDE_LABELS[language];
+  const tocLabel = labels.toc;
+  const rows: TocRow[] = [];
+  for (const step of steps) {
+    const section = sectionByFirstStepId.get(step.id);
+    if (section) {
+      rows.push({ kind: "section", section });
+    }
+    rows.push({ kind: "step", step });
+  }
+  const pages = paginateTocRows(rows);
+  const totalTocSlides = pages.length;
 
   for (let tocPage = 0; tocPage < totalTocSlides; tocPage++) {
     const slide = pptx.addSlide();
@@ -760,8 +888,8 @@ function createTableOfContentsSlides(
 
     // 目次タイトル
     const tocTitle = totalTocSlides > 1
-      ? `目次 (${tocPage + 1}/${totalTocSlides})`
-      : "目次";
+      ? `${tocLabel} (${tocPage + 1}/${totalTocSlides})`
+      : tocLabel;
 
     slide.addText(tocTitle, {
       x: 0.5,
@@ -783,13 +911,30 @@ function createTableOfContentsSlides(
     });
 
     // 目次項目
-    const startIdx = tocPage * MAX_TOC_ITEMS_PER_SLIDE;
-    const endIdx = Math.min(startIdx + MAX_TOC_ITEMS_PER_SLIDE, totalSteps);
     const itemHeight = 0.55;
 
-    for (let i = startIdx; i < endIdx; i++) {
-      const step = steps[i];
-      const yPos = 1.2 + (i - startIdx) * itemHeight;
+    pages[tocPage].forEach((row, rowIndex) => {
+      const yPos = 1.2 + rowIndex * itemHeight;
+
+      if (row.kind === "section") {
+        // 章見出し（番号バッジなし）
+        slide.addText(
+          `${labels.section(row.section.index + 1)}  ${truncateText(removeEmojis(row.section.title), 40)}`,
+          {
+            x: 0.5,
+            y: yPos + 0.05,
+            w: 9.0,
+            h: 0.35,
+            fontSize: 15,
+            bold: true,
+            color: COLORS.primaryDark,
+            valign: "middle",
+          }
+        );
+        return;
+      }
+
+      const step = row.step;
 
       // ステップ番号（円形バッジ）
       slide.addShape("ellipse", {
@@ -822,8 +967,77 @@ function createTableOfContentsSlides(
         color: COLORS.text,
         valign: "middle",
       });
-    }
+    });
+  }
+}
+
+/**
+ * 章の中扉スライドを作成（章番号・タイトル・概要・ステップ範囲）
+ */
+function createSectionDividerSlide(
+  pptx: PptxGenJS,
+  section: SlideSection,
+  language: OutputLanguage = "ja"
+): void {
+  const labels = SLIDE_LABELS[language];
+  const slide = pptx.addSlide();
+  slide.background = { color: COLORS.primary };
+
+  slide.addShape("rect", {
+    x: 0,
+    y: 0,
+    w: 0.15,
+    h: 5.625,
+    fill: { color: COLORS.primaryDark },
+  });
+
+  slide.addText(labels.section(section.index + 1), {
+    x: 0.5,
+    y: 1.3,
+    w: 9.0,
+    h: 0.5,
+    fontSize: 18,
+    color: COLORS.white,
+    align: "center",
+  });
+
+  slide.addText(removeEmojis(section.title), {
+    x: 0.5,
+    y: 1.9,
+    w: 9.0,
+    h: 1.0,
+    fontSize: 34,
+    bold: true,
+    color: COLORS.white,
+    align: "center",
+    valign: "middle",
+  });
+
+  if (section.summary) {
+    slide.addText(removeEmojis(section.summary), {
+      x: 0.5,
+      y: 3.0,
+      w: 9.0,
+      h: 0.8,
+      fontSize: 16,
+      color: COLORS.white,
+      align: "center",
+      valign: "middle",
+    });
   }
+
+  slide.addText(
+    labels.stepRange(section.firstStepNumber, section.lastStepNumber),
+    {
+      x: 0.5,
+      y: 4.5,
+      w: 9.0,
+      h: 0.5,
+      fontSize: 14,
+      color: COLORS.white,
+      align: "center",
+    }
+  );
 }
 
 /**
@@ -879,9 +1093,15 @@ function addProgressIndicator(
 
 /**
  * スライドを生成してS3にアップロードし、URLを返す
+ * @param options.language 指定時は翻訳版（steps.<language>.json）から生成する
  */
-export async function generateSlides(projectId: number): Promise<string> {
-  console.log(`[SlideGenerator] Starting slide generation for project ${projectId}`);
+export async function generateSlides(
+  projectId: number,
+  options: { language?: OutputLanguage } = {}
+): Promise<string> {
+  console.log(
+    `[SlideGenerator] Starting slide generation for project ${projectId}${options.language ? ` (translation: ${options.language})` : ""}`
+  );
 
   const PptxGenJSModule = await import("pptxgenjs");
   const PptxGenJSConstructor = PptxGenJSModule.default;
@@ -902,7 +1122,10 @@ export async function generateSlides(projectId: number): Promise<string> {
     };
 
     const { project, steps, frames, artifact, warnings: renderWarnings } =
-      await loadProjectStepRenderState(projectId, undefined, { invalidArtifactFallback: true });
+      await loadProjectStepRenderState(projectId, undefined, {
+        invalidArtifactFallback: true,
+        language: options.language,
+      });
     for (const warning of renderWarnings) {
       console.warn(`[SlideGenerator] ${warning}`);
     }
@@ -920,14 +1143,34 @@ export async function generateSlides(projectId: number): Promise<string> {
         }
       }
     }
+    // 章立て（steps.json のみ）。各章の先頭ステップの前に中扉を入れ、目次にも章見出しを出す
+    const sectionByFirstStepId = new Map<number, SlideSection>();
+    if (artifact) {
+      const artifactStepById = new Map(artifact.steps.map((artifactStep) => [artifactStep.step_id, artifactStep]));
+      for (const resolved of resolveStepSections(artifact)) {
+        const first = artifactStepById.get(resolved.stepIds[0]);
+        const last = artifactStepById.get(resolved.stepIds[resolved.stepIds.length - 1]);
+        if (first?.legacy_step_db_id && last) {
+          sectionByFirstStepId.set(first.legacy_step_db_id, {
+            index: resolved.index,
+            title: resolved.section.title,
+            summary: resolved.section.summary,
+            firstStepNumber: first.sort_order + 1,
+            lastStepNumber: last.sort_order + 1,
+          });
+        }
+      }
+    }
     const overview = artifact?.overview ?? null;
+    const language = artifact?.config.output_language ?? "ja";
+    const labels = SLIDE_LABELS[language];
 
     if (!slideSteps || slideSteps.length === 0) {
       throw new Error(`No steps found for project ${projectId}`);
     }
 
     // テキスト整形: 重複タイトルのユニーク化
-    const displayTitleMap = buildDisplayTitleMap(slideSteps);
+    const displayTitleMap = buildDisplayTitleMap(slideSteps, language);
     const stepsWithDisplayTitle = slideSteps.map((s) => ({
       ...s,
       displayTitle: displayTitleMap.get(s.id) ?? s.title,
@@ -937,7 +1180,12 @@ export async function generateSlides(projectId: number): Promise<string> {
     if (stepsWithDisplayTitle.length > 0) {
       const lastIdx = stepsWithDisplayTitle.length - 1;
       const last = stepsWithDisplayTitle[lastIdx];
-      const fixed = applyFinalStepCompletionFix(last, lastIdx, stepsWithDisplayTitle.length);
+      const fixed = applyFinalStepCompletionFix(
+        last,
+        lastIdx,
+        stepsWithDisplayTitle.length,
+        language,
+      );
       if (fixed.modified) {
         stepsWithDisplayTitle[lastIdx] = {
           ...last,
@@ -953,6 +1201,13 @@ export async function generateSlides(projectId: number): Promise<string> {
     const pptx = new PptxGenJSConstructor();
     pptx.author = "Screen Recording Tutorial Generator";
     pptx.title = project.title;
+    // 想定読者（steps.json から作った場合のみ）。同じ録画から作った版を見分けられるようにする
+    const audienceLabel = artifact
+      ? AUDIENCE_EXPORT_LABELS[language][artifact.config.audience]
+      : null;
+    if (audienceLabel) {
+      pptx.subject = audienceLabel;
+    }
     pptx.defineLayout({ name: "LAYOUT_16x9", width: 10, height: 5.625 });
     pptx.layout = "LAYOUT_16x9";
 
@@ -984,7 +1239,7 @@ export async function generateSlides(projectId: number): Promise<string> {
 
     const coverDescription =
       overview && overview.preconditions.length > 0
-        ? `前提: ${overview.preconditions.join(" / ")}`
+        ? `${labels.preconditions}: ${overview.preconditions.join(" / ")}`
         : project.description;
     if (coverDescription) {
       titleSlide.addText(removeEmojis(coverDescription), {
@@ -999,7 +1254,10 @@ export async function generateSlides(projectId: number): Promise<string> {
       });
     }
 
-    titleSlide.addText(`全${totalSteps}ステップ`, {
+    const coverFooter = audienceLabel
+      ? `${labels.totalSteps(totalSteps)} / ${audienceLabel}`
+      : labels.totalSteps(totalSteps);
+    titleSlide.addText(coverFooter, {
       x: 0.5,
       y: 4.5,
       w: 9.0,
@@ -1010,7 +1268,13 @@ export async function generateSlides(projectId: number): Promise<string> {
     });
 
     // === 目次スライド ===
-    createTableOfContentsSlides(pptx, stepsWithDisplayTitle, project.title);
+    createTableOfContentsSlides(
+      pptx,
+      stepsWithDisplayTitle,
+      project.title,
+      language,
+      sectionByFirstStepId
+    );
 
     // === 各ステップのスライド ===
     const slideTemplate = SLIDE_TEMPLATE_CONFIG[ENV.slidePreset];
@@ -1044,6 +1308,10 @@ export async function generateSlides(projectId: number): Promise<string> {
 
     for (let stepIndex = 0; stepIndex < stepsWithDisplayTitle.length; stepIndex++) {
       const step = stepsWithDisplayTitle[stepIndex];
+      const section = sectionByFirstStepId.get(step.id);
+      if (section) {
+        createSectionDividerSlide(pptx, section, language);
+      }
       const slide = pptx.addSlide();
       slide.background = { color: COLORS.white };
 
@@ -1135,8 +1403,12 @@ export async function generateSlides(projectId: number): Promise<string> {
 
             // artifactのbbox（証拠抽出/生成時に算出済み）を優先し、
             // 無い場合のみ従来のffmpeg差分再計算にフォールバックする
-            const artifactBBox =
-              artifactStepByDbId.get(step.id)?.changed_region_bbox ?? null;
+            const artifactStep = artifactStepByDbId.get(step.id);
+            // 別の時刻のフレームに差し替えた画像では、元のフレームで測ったbboxの位置が合わない
+            const bboxMatchesImage = artifactStep?.screenshot_override?.source !== "video_frame";
+            const artifactBBox = bboxMatchesImage ? artifactStep?.changed_region_bbox ?? null : null;
+            // 引用ラベルのOCR位置があれば、切り出しは変化領域のまま強調だけボタンに合わせる
+            const citedLabelBBox = bboxMatchesImage ? artifactStep?.cited_label_bbox ?? null : null;
             if (artifactBBox && isReliableRoiRegion(artifactBBox, croppingConfig)) {
               candidateRegion = artifactBBox;
             }
@@ -1161,19 +1433,19 @@ export async function generateSlides(projectId: number): Promise<string> {
               );
               try {
                 await cropImageByPixelRect(baseImagePath, croppedImagePath, cropRect);
-                const adjustedRegion = getRegionInCropSpace(
-                  candidateRegion,
-                  cropRect,
-                  imageDims,
-                );
+                const adjustedRegion =
+                  (citedLabelBBox &&
+                    getRegionInCropSpace(citedLabelBBox, cropRect, imageDims)) ||
+                  getRegionInCropSpace(candidateRegion, cropRect, imageDims);
                 highlightRegion = adjustedRegion ?? defaultCenterRegion();
               } catch (error) {
                 console.error("[SlideGenerator] ROI crop failed, fallback to full frame", error);
                 await fs.copyFile(baseImagePath, croppedImagePath);
-                highlightRegion = candidateRegion;
+                highlightRegion = citedLabelBBox ?? candidateRegion;
               }
             } else {
               await fs.copyFile(baseImagePath, croppedImagePath);
+              highlightRegion = citedLabelBBox;
             }
 
             if (!highlightRegion && isClickFocusedStep(step.operation, step.description)) {
@@ -1252,7 +1524,7 @@ export async function generateSlides(projectId: number): Promise<string> {
             h: imageRect.h,
             fill: { color: COLORS.lightBg },
           });
-          slide.addText("画像を読み込めませんでした", {
+          slide.addText(labels.imageLoadFailed, {
             x: imageRect.x,
             y: imageRect.y + imageRect.h / 2 - 0.2,
             w: imageRect.w,
@@ -1275,14 +1547,18 @@ export async function generateSlides(projectId: number): Promise<string> {
 
       const panelTextX = panelRect.x + slideTemplate.panelPaddingX;
       const panelTextW = panelRect.w - slideTemplate.panelPaddingX * 2;
+      const toInstruction = (text: string) =>
+        language === "ja" ? convertToInstructionStyle(text) : text;
       const operationRaw = ensureTerminalPunctuation(
-        convertToInstructionStyle(removeEmojis(step.operation)),
+        toInstruction(removeEmojis(step.operation)),
+        language,
       );
       const detailRaw = ensureTerminalPunctuation(
-        convertToInstructionStyle(removeEmojis(step.description)),
+        toInstruction(removeEmojis(step.description)),
+        language,
       );
 
-      slide.addText("操作", {
+      slide.addText(labels.operation, {
         x: panelTextX,
         y: panelRect.y + slideTemplate.operationLabelY,
         w: panelTextW,
@@ -1295,15 +1571,14 @@ export async function generateSlides(projectId: number): Promise<string> {
       let operationText: string;
       let detailText: string;
       if (slideTemplate.useProjectionTextFormatter) {
-        const operationResult = formatProjectionOperation(
-          operationRaw,
-          slideTemplate.operationConstraint,
-        );
-        const detailResult = formatProjectionDetail(
-          operationRaw,
-          detailRaw,
-          slideTemplate.detailConstraint,
-        );
+        const operationResult = formatProjectionOperation(operationRaw, {
+          ...slideTemplate.operationConstraint,
+          language,
+        });
+        const detailResult = formatProjectionDetail(operationRaw, detailRaw, {
+          ...slideTemplate.detailConstraint,
+          language,
+        });
         operationText = operationResult.text;
         detailText = detailResult.text;
         operationOverflow = operationResult.overflow;
@@ -1313,6 +1588,7 @@ export async function generateSlides(projectId: number): Promise<string> {
         detailText = truncateAtSentence(
           ensureTerminalPunctuation(
             anonymizeOnScreenStepNumbers(detailRaw),
+            language,
           ),
           MAX_DETAIL_CHARS,
         );
@@ -1329,7 +1605,7 @@ export async function generateSlides(projectId: number): Promise<string> {
         valign: "top",
       });
 
-      slide.addText("詳細", {
+      slide.addText(labels.detail, {
         x: panelTextX,
         y: panelRect.y + slideTemplate.detailLabelY,
         w: panelTextW,
@@ -1349,10 +1625,11 @@ export async function generateSlides(projectId: number): Promise<string> {
         valign: "top",
       });
 
-      let notesText = buildNotesText(step, {
-        operationOverflow,
-        detailOverflow,
-      });
+      let notesText = buildNotesText(
+        step,
+        { operationOverflow, detailOverflow },
+        language
+      );
       const artifactStep = artifactStepByDbId.get(step.id);
       if (artifactStep?.needs_review) {
         const reviewText =
@@ -1368,7 +1645,7 @@ export async function generateSlides(projectId: number): Promise<string> {
     if (overview?.completion_criteria) {
       const closingSlide = pptx.addSlide();
       closingSlide.background = { color: COLORS.primary };
-      closingSlide.addText("完了", {
+      closingSlide.addText(labels.complete, {
         x: 0.5,
         y: 1.6,
         w: 9.0,
@@ -1379,7 +1656,7 @@ export async function generateSlides(projectId: number): Promise<string> {
         align: "center",
         valign: "middle",
       });
-      closingSlide.addText(removeEmojis(`完了条件: ${overview.completion_criteria}`), {
+      closingSlide.addText(removeEmojis(`${labels.completionCriteria}: ${overview.completion_criteria}`), {
         x: 0.8,
         y: 2.9,
         w: 8.4,
@@ -1401,7 +1678,7 @@ export async function generateSlides(projectId: number): Promise<string> {
     // S3にアップロード
     const { storagePut } = await import("./storage");
     const pptxBuffer = await fs.readFile(tempPptxPath);
-    const fileKey = `projects/${projectId}/slides/${Date.now()}.pptx`;
+    const fileKey = `projects/${projectId}/slides/${Date.now()}${options.language ? `.${options.language}` : ""}.pptx`;
     const { url } = await storagePut(
       fileKey,
       pptxBuffer,
@@ -436,3 +436,49 @@ describe("formatProjectionDetail", () => {
     expect(formatted.lineCount).toBeLessThanOrEqual(2);
   });
 });
+
+describe("出力言語別の整形", () => {
+  it("英語は句点にピリオドを補い、重複タイトルに (cont.) を付ける", () => {
+    expect(ensureTerminalPunctuation("Click Save", "en")).toBe("Click Save.");
+    expect(ensureTerminalPunctuation("点击保存", "zh")).toBe("点击保存。");
+    const map = buildDisplayTitleMap(
+      [
+        { id: 1, title: "Open settings" },
+        { id: 2, title: "Open settings" },
+      ],
+      "en",
+    );
+    expect(map.get(2)).toBe("Open settings (cont.)");
+  });
+
+  it("最終ステップのホバー判定と定型文をその言語で行う", () => {
+    const fixed = fixFinalStepIfHover("Hover over the menu", "", "en");
+    expect(fixed.modified).toBe(true);
+    expect(fixed.operation).toBe(
+      "Play the downloaded video and check its contents.",
+    );
+    expect(fixFinalStepIfHover("Click the menu", "", "en").modified).toBe(false);
+  });
+
+  it("英語の投影テキストは単語の途中で折り返さず、見出しも英語にする", () => {
+    const operation = formatProjectionOperation("Click the Save button now", {
+      maxUnitsPerLine: 6,
+      maxLines: 3,
+      language: "en",
+    });
+    expect(operation.text.split("\n")).toEqual([
+      "Click the",
+      "Save button",
+      "now.",
+    ]);
+
+    const detail = formatProjectionDetail(
+      "Sign out",
+      "You are signed out. Never share your password. Then sign in again.",
+      { maxUnitsPerLine: 40, maxLines: 6, language: "en" },
+    );
+    expect(detail.text).toContain("・Result: You are signed out.");
+    expect(detail.text).toContain("・Caution: Never share your password.");
+    expect(detail.text).toContain("・Next: Then sign in again.");
+  });
+});
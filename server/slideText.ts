@@ -8,8 +8,127 @@
  * - UI由来ステップ番号の匿名化
  * - 重複タイトルのユニーク化
  * - 最終ステップの安全な補正
+ *
+ * 文末記号・キーワード・見出しラベルは出力言語（steps.json の config.output_language）
+ * ごとに切り替える。language を省略した場合は日本語。
  */
 
+import {
+  DEFAULT_OUTPUT_LANGUAGE,
+  type OutputLanguage,
+} from "@shared/outputLanguage";
+
+interface LanguageTextRules {
+  /** 文末が句点で終わらないときに補う記号 */
+  terminator: string;
+  /** 重複タイトルの2つ目以降に付ける接尾辞（n は2つ目で1） */
+  continued: (n: number) => string;
+  hoverKeywords: string[];
+  nonHoverKeywords: string[];
+  cautionKeywords: string[];
+  nextKeywords: string[];
+  /** 投影プリセット詳細欄の見出し */
+  bulletLabels: { result: string; caution: string; next: string };
+  finalStepFallback: { operation: string; description: string };
+  /** 単語を空白で区切る言語では、行折り返しを空白位置で行う */
+  breakAtSpaces: boolean;
+}
+
+const TEXT_RULES: Record<OutputLanguage, LanguageTextRules> = {
+  ja: {
+    terminator: "。",
+    continued: (n) => (n === 1 ? "（続き）" : `（続き${n}）`),
+    hoverKeywords: ["カーソル", "ホバー", "hover", "マウスを合わせ"],
+    nonHoverKeywords: [
+      "クリック",
+      "押す",
+      "選択",
+      "入力",
+      "タップ",
+      "ダブルクリック",
+      "実行",
+    ],
+    cautionKeywords: [
+      "注意",
+      "必ず",
+      "禁止",
+      "しない",
+      "共有",
+      "セキュリティ",
+      "漏えい",
+    ],
+    nextKeywords: ["次", "続け", "その後", "再ログイン", "次に"],
+    bulletLabels: { result: "結果", caution: "注意", next: "次" },
+    finalStepFallback: {
+      operation: "ダウンロードした動画を再生して内容を確認する。",
+      description:
+        "音声・画面・手順が意図どおりか確認し、必要に応じて編集して再生成します。",
+    },
+    breakAtSpaces: false,
+  },
+  en: {
+    terminator: ".",
+    continued: (n) => (n === 1 ? " (cont.)" : ` (cont. ${n})`),
+    hoverKeywords: ["hover", "cursor", "mouse over", "point to"],
+    nonHoverKeywords: [
+      "click",
+      "press",
+      "select",
+      "type",
+      "enter",
+      "tap",
+      "run",
+    ],
+    cautionKeywords: [
+      "caution",
+      "warning",
+      "must",
+      "never",
+      "do not",
+      "don't",
+      "share",
+      "security",
+    ],
+    nextKeywords: ["next", "then", "after that", "continue", "sign in again"],
+    bulletLabels: { result: "Result", caution: "Caution", next: "Next" },
+    finalStepFallback: {
+      operation: "Play the downloaded video and check its contents.",
+      description:
+        "Check that the audio, screens and steps are as intended, then edit and regenerate if needed.",
+    },
+    breakAtSpaces: true,
+  },
+  zh: {
+    terminator: "。",
+    continued: (n) => (n === 1 ? "（续）" : `（续${n}）`),
+    hoverKeywords: ["悬停", "光标", "鼠标移到", "hover"],
+    nonHoverKeywords: ["点击", "单击", "双击", "按", "选择", "输入", "执行"],
+    cautionKeywords: ["注意", "务必", "禁止", "不要", "共享", "安全", "泄露"],
+    nextKeywords: ["下一步", "接着", "然后", "之后", "重新登录"],
+    bulletLabels: { result: "结果", caution: "注意", next: "下一步" },
+    finalStepFallback: {
+      operation: "播放下载的视频并确认内容。",
+      description: "确认音频、画面和步骤是否符合预期，必要时编辑后重新生成。",
+    },
+    breakAtSpaces: false,
+  },
+  ko: {
+    terminator: ".",
+    continued: (n) => (n === 1 ? " (계속)" : ` (계속 ${n})`),
+    hoverKeywords: ["호버", "커서", "마우스를 올", "hover"],
+    nonHoverKeywords: ["클릭", "누르", "선택", "입력", "탭", "실행"],
+    cautionKeywords: ["주의", "반드시", "금지", "하지 마", "공유", "보안", "유출"],
+    nextKeywords: ["다음", "이어서", "그 후", "그런 다음", "다시 로그인"],
+    bulletLabels: { result: "결과", caution: "주의", next: "다음" },
+    finalStepFallback: {
+      operation: "다운로드한 동영상을 재생하여 내용을 확인합니다.",
+      description:
+        "음성·화면·절차가 의도대로인지 확인하고, 필요하면 편집하여 다시 생성합니다.",
+    },
+    breakAtSpaces: true,
+  },
+};
+
 // ---------------------------------------------------------------------------
 // 0) ホワイトスペース正規化
 // ---------------------------------------------------------------------------
@@ -70,9 +189,12 @@ export function truncateAtSentence(text: string, maxChars: number): string {
 const ACCEPTABLE_ENDINGS = ["。", "！", "？", "…", ".", "!", "?"] as const;
 
 /**
- * テキストが句点で終わっていなければ「。」を付与する。
+ * テキストが句点で終わっていなければ出力言語の句点（日本語は「。」）を付与する。
  */
-export function ensureTerminalPunctuation(text: string): string {
+export function ensureTerminalPunctuation(
+  text: string,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+): string {
   if (!text) return "";
   const trimmed = text.trimEnd();
   if (trimmed.length === 0) return "";
@@ -81,7 +203,7 @@ export function ensureTerminalPunctuation(text: string): string {
   if ((ACCEPTABLE_ENDINGS as readonly string[]).includes(lastChar)) {
     return trimmed;
   }
-  return trimmed + "。";
+  return trimmed + TEXT_RULES[language].terminator;
 }
 
 // ---------------------------------------------------------------------------
@@ -124,12 +246,14 @@ export function anonymizeOnScreenStepNumbers(text: string): string {
 // ---------------------------------------------------------------------------
 
 /**
- * buildDisplayTitleMap — 重複タイトルに「（続き）」を付与した displayTitle のMapを返す。
- * steps の各 id に対して displayTitle を返す。
+ * buildDisplayTitleMap — 重複タイトルに「（続き）」（出力言語に応じた接尾辞）を付与した
+ * displayTitle のMapを返す。steps の各 id に対して displayTitle を返す。
  */
 export function buildDisplayTitleMap(
   steps: Array<{ id: number; title: string }>,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
 ): Map<number, string> {
+  const { continued } = TEXT_RULES[language];
   const countMap = new Map<string, number>();
   const result = new Map<number, string>();
 
@@ -137,14 +261,8 @@ export function buildDisplayTitleMap(
     const count = (countMap.get(step.title) ?? 0) + 1;
     countMap.set(step.title, count);
 
-    let displayTitle: string;
-    if (count === 1) {
-      displayTitle = step.title;
-    } else if (count === 2) {
-      displayTitle = `${step.title}（続き）`;
-    } else {
-      displayTitle = `${step.title}（続き${count - 1}）`;
-    }
+    const displayTitle =
+      count === 1 ? step.title : `${step.title}${continued(count - 1)}`;
 
     result.set(step.id, displayTitle);
   }
@@ -156,23 +274,8 @@ export function buildDisplayTitleMap(
 // 5) 最終ステップの安全な補正
 // ---------------------------------------------------------------------------
 
-const HOVER_KEYWORDS = ["カーソル", "ホバー", "hover", "マウスを合わせ"];
-const NON_HOVER_KEYWORDS = [
-  "クリック",
-  "押す",
-  "選択",
-  "入力",
-  "タップ",
-  "ダブルクリック",
-  "実行",
-];
-
-/** 最終ステップ補正用の定型文 */
-export const FINAL_STEP_FALLBACK = {
-  operation: "ダウンロードした動画を再生して内容を確認する。",
-  description:
-    "音声・画面・手順が意図どおりか確認し、必要に応じて編集して再生成します。",
-} as const;
+/** 最終ステップ補正用の定型文（日本語） */
+export const FINAL_STEP_FALLBACK = TEXT_RULES.ja.finalStepFallback;
 
 /**
  * 最終ステップの operation がカーソル/ホバーだけで終わっている場合に
@@ -183,20 +286,22 @@ export const FINAL_STEP_FALLBACK = {
 export function fixFinalStepIfHover(
   operation: string,
   description: string,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
 ): { operation: string; description: string; modified: boolean } {
+  const rules = TEXT_RULES[language];
   const opLower = operation.toLowerCase();
 
-  const hasHover = HOVER_KEYWORDS.some((kw) =>
+  const hasHover = rules.hoverKeywords.some((kw) =>
     opLower.includes(kw.toLowerCase()),
   );
-  const hasNonHover = NON_HOVER_KEYWORDS.some((kw) =>
+  const hasNonHover = rules.nonHoverKeywords.some((kw) =>
     opLower.includes(kw.toLowerCase()),
   );
 
   if (hasHover && !hasNonHover) {
     return {
-      operation: FINAL_STEP_FALLBACK.operation,
-      description: FINAL_STEP_FALLBACK.description,
+      operation: rules.finalStepFallback.operation,
+      description: rules.finalStepFallback.description,
       modified: true,
     };
   }
@@ -212,6 +317,7 @@ export function applyFinalStepCompletionFix(
   step: { operation: string; description: string },
   stepIndex: number,
   totalSteps: number,
+  language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE,
 ): { operation: string; description: string; modified: boolean } {
   if (stepIndex !== totalSteps - 1) {
     return {
@@ -220,35 +326,20 @@ export function applyFinalStepCompletionFix(
       modified: false,
     };
   }
-  return fixFinalStepIfHover(step.operation, step.description);
+  return fixFinalStepIfHover(step.operation, step.description, language);
 }
 
 // ---------------------------------------------------------------------------
 // 6) 投影プリセット向けテキスト整形
 // ---------------------------------------------------------------------------
 
-const CAUTION_KEYWORDS = [
-  "注意",
-  "必ず",
-  "禁止",
-  "しない",
-  "共有",
-  "セキュリティ",
-  "漏えい",
-];
-const NEXT_KEYWORDS = [
-  "次",
-  "続け",
-  "その後",
-  "再ログイン",
-  "次に",
-];
-
 const HALF_WIDTH_CHAR_REGEX = /[\u0000-\u00ff]/;
 
 export interface ProjectionTextOptions {
   maxUnitsPerLine: number;
   maxLines: number;
+  /** 省略時は日本語 */
+  language?: OutputLanguage;
 }
 
 export interface ProjectionFormattedText {
@@ -274,6 +365,7 @@ function wrapTextByUnits(
   text: string,
   maxUnitsPerLine: number,
   maxLines: number,
+  breakAtSpaces = false,
 ): { lines: string[]; overflow: string } {
   const normalized = normalizeWhitespace(text);
   if (!normalized || maxLines <= 0) {
@@ -298,6 +390,15 @@ function wrapTextByUnits(
       cursor += 1;
     }
 
+    // 単語の途中で切れる場合は、行内の最後の空白まで戻して単語ごと次の行へ送る
+    if (breakAtSpaces && cursor < normalized.length && normalized[cursor] !== " ") {
+      const lastSpace = line.lastIndexOf(" ");
+      if (lastSpace > 0) {
+        cursor -= line.length - lastSpace;
+        line = line.slice(0, lastSpace);
+      }
+    }
+
     lines.push(line.trimEnd());
     while (normalized[cursor] === " ") {
       cursor += 1;
@@ -334,11 +435,16 @@ export function formatProjectionOperation(
   operation: string,
   options: ProjectionTextOptions,
 ): ProjectionFormattedText {
-  const source = ensureTerminalPunctuation(normalizeWhitespace(operation));
+  const language = options.language ?? DEFAULT_OUTPUT_LANGUAGE;
+  const source = ensureTerminalPunctuation(
+    normalizeWhitespace(operation),
+    language,
+  );
   const wrapped = wrapTextByUnits(
     source,
     options.maxUnitsPerLine,
     options.maxLines,
+    TEXT_RULES[language].breakAtSpaces,
   );
   const lines = wrapped.overflow ? appendEllipsis(wrapped.lines) : wrapped.lines;
   return {
@@ -349,12 +455,9 @@ export function formatProjectionOperation(
   };
 }
 
-function isCautionSentence(sentence: string): boolean {
-  return CAUTION_KEYWORDS.some((keyword) => sentence.includes(keyword));
-}
-
-function isNextSentence(sentence: string): boolean {
-  return NEXT_KEYWORDS.some((keyword) => sentence.includes(keyword));
+function includesKeyword(sentence: string, keywords: string[]): boolean {
+  const lower = sentence.toLowerCase();
+  return keywords.some((keyword) => lower.includes(keyword));
 }
 
 function pickSentence(
@@ -376,12 +479,20 @@ export function formatProjectionDetail(
   detail: string,
   options: ProjectionTextOptions,
 ): ProjectionFormattedText {
+  const language = options.language ?? DEFAULT_OUTPUT_LANGUAGE;
+  const rules = TEXT_RULES[language];
+  const isCautionSentence = (sentence: string) =>
+    includesKeyword(sentence, rules.cautionKeywords);
+  const isNextSentence = (sentence: string) =>
+    includesKeyword(sentence, rules.nextKeywords);
+
   const normalizedDetail = anonymizeOnScreenStepNumbers(
-    ensureTerminalPunctuation(normalizeWhitespace(detail)),
+    ensureTerminalPunctuation(normalizeWhitespace(detail), language),
   );
   const detailSentences = splitSentences(normalizedDetail);
   const normalizedOperation = ensureTerminalPunctuation(
     normalizeWhitespace(operation),
+    language,
   );
 
   const usedIndexes = new Set<number>();
@@ -396,10 +507,11 @@ export function formatProjectionDetail(
     pickSentence(detailSentences, usedIndexes, () => true) ??
     normalizedOperation;
 
+  const labels = rules.bulletLabels;
   const bullets = [
-    `・結果: ${result}`,
-    caution ? `・注意: ${caution}` : null,
-    next ? `・次: ${next}` : null,
+    `・${labels.result}: ${result}`,
+    caution ? `・${labels.caution}: ${caution}` : null,
+    next ? `・${labels.next}: ${next}` : null,
   ].filter((line): line is string => Boolean(line));
 
   const lines: string[] = [];
@@ -416,6 +528,7 @@ export function formatProjectionDetail(
       bullets[bulletIndex],
       options.maxUnitsPerLine,
       remainingLines,
+      rules.breakAtSpaces,
     );
     lines.push(...wrapped.lines);
 
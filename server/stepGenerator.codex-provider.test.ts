@@ -15,6 +15,7 @@ const getProjectByIdMock = vi.hoisted(() =>
     processingProgress: 70,
     processingMessage: null,
     errorMessage: null,
+    settings: null,
     createdAt: new Date(),
     updatedAt: new Date(),
   }))
@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// steps.json の保存先を一時ディレクトリに向ける（importより先に実行）
+vi.hoisted(() => {
+  process.env.STORAGE_DIR = require("path").join(
+    require("os").tmpdir(),
+    `step_generator_discarded_test_${Date.now()}`
+  );
+});
+
+vi.mock(
+  "./_core/llm",
+  async () => (await import("./stepGenerator.testFixtures")).llmModuleMock
+);
+vi.mock(
+  "./_core/pipelineCache",
+  async () =>
+    (await import("./stepGenerator.testFixtures")).pipelineCacheModuleMock
+);
+vi.mock(
+  "./evidence/artifactStore",
+  async () =>
+    (await import("./stepGenerator.testFixtures")).artifactStoreModuleMock
+);
+vi.mock(
+  "./db",
+  async () => (await import("./stepGenerator.testFixtures")).dbModuleMock
+);
+
+import {
+  generateStepsForProject,
+  restoreDiscardedSegmentForProject,
+} from "./stepGenerator";
+import { loadStepsArtifact } from "./stepsArtifact";
+import {
+  createStepMock,
+  invokeLLMMock,
+  llmResponse,
+  loadEvidenceArtifactMock,
+  makeEvidence,
+  overview,
+  reorderStepsMock,
+  resetStepGeneratorMocks,
+} from "./stepGenerator.testFixtures";
+
+const authoredStep = (segmentId: string, title: string) => ({
+  source_segment_ids: [segmentId],
+  title,
+  instruction: "「保存」をクリックする",
+  expected_result: "保存される",
+  operation: "「保存」をクリックする",
+  description: "設定を保存します",
+  narration: `${title}。`,
+  cited_ui_labels: ["保存"],
+});
+
+async function generateWithDiscardedMiddle(projectId: number) {
+  loadEvidenceArtifactMock.mockResolvedValue(makeEvidence(projectId, 3));
+  invokeLLMMock.mockResolvedValueOnce(
+    llmResponse({
+      overview,
+      steps: [
+        authoredStep("seg-1", "設定を開く"),
+        authoredStep("seg-3", "保存する"),
+      ],
+      discarded_segments: [{ segment_id: "seg-2", reason: "カーソル移動のみ" }],
+    })
+  );
+  await generateStepsForProject(projectId);
+}
+
+beforeEach(() => {
+  resetStepGeneratorMocks();
+});
+
+describe("discarded segments", () => {
+  it("執筆で破棄されたセグメントを理由・前後サムネイル付きで steps.json に残す", async () => {
+    await generateWithDiscardedMiddle(31);
+
+    const artifact = await loadStepsArtifact(31);
+    expect(artifact?.steps).toHaveLength(2);
+    expect(artifact?.discarded_segments).toEqual([
+      {
+        segment_id: "seg-2",
+        reason: "カーソル移動のみ",
+        t_start: 3000,
+        t_end: 5000,
+        thumbnails: [
+          {
+            frame_id: 202,
+            timestamp: 3000,
+            image_url: "/api/storage/frames/seg-2-before.jpg",
+          },
+          {
+            frame_id: 102,
+            timestamp: 5000,
+            image_url: "/api/storage/frames/seg-2.jpg",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("restoreDiscarded は1セグメントだけで再執筆し、時系列の位置に差し込む", async () => {
+    await generateWithDiscardedMiddle(32);
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview,
+        steps: [authoredStep("seg-2", "値を入力する")],
+        discarded_segments: [],
+      })
+    );
+
+    const { stepId } = await restoreDiscardedSegmentForProject(32, "seg-2");
+
+    const digest = JSON.stringify(
+      invokeLLMMock.mock.calls[1][0].messages[1].content
+    );
+    expect(digest).toContain("seg-2");
+    expect(digest).not.toContain("seg-1");
+    const artifact = await loadStepsArtifact(32);
+    expect(artifact?.discarded_segments).toEqual([]);
+    expect(artifact?.steps.map(step => step.title)).toEqual([
+      "設定を開く",
+      "値を入力する",
+      "保存する",
+    ]);
+    expect(artifact?.steps[1]).toMatchObject({
+      step_id: "step-2",
+      sort_order: 1,
+      legacy_step_db_id: stepId,
+      frame_id: 102,
+      source_segment_ids: ["seg-2"],
+    });
+    expect(reorderStepsMock).toHaveBeenLastCalledWith(
+      32,
+      artifact?.steps.map(step => step.legacy_step_db_id)
+    );
+  });
+
+  it("再執筆でも破棄された場合はフォールバックステップとして復元する", async () => {
+    await generateWithDiscardedMiddle(33);
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview,
+        steps: [],
+        discarded_segments: [{ segment_id: "seg-2", reason: "不要" }],
+      })
+    );
+
+    await restoreDiscardedSegmentForProject(33, "seg-2");
+
+    const restored = (await loadStepsArtifact(33))?.steps[1];
+    expect(restored?.source_segment_ids).toEqual(["seg-2"]);
+    expect(restored?.needs_review).toBe(true);
+    expect(restored?.review_reasons).toEqual(["fallback:unassigned_segment"]);
+  });
+
+  it("破棄一覧に無いセグメントは復元できない", async () => {
+    await generateWithDiscardedMiddle(34);
+
+    await expect(
+      restoreDiscardedSegmentForProject(34, "seg-1")
+    ).rejects.toThrow("破棄されたセグメントが見つかりません");
+    expect(createStepMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,233 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// steps.json の保存先を一時ディレクトリに向ける（importより先に実行）
+vi.hoisted(() => {
+  process.env.STORAGE_DIR = require("path").join(
+    require("os").tmpdir(),
+    `step_generator_insert_test_${Date.now()}`
+  );
+});
+
+const captureProjectFrameMock = vi.hoisted(() => vi.fn());
+const extractFrameOcrUnifiedMock = vi.hoisted(() => vi.fn());
+vi.mock(
+  "./_core/llm",
+  async () => (await import("./stepGenerator.testFixtures")).llmModuleMock
+);
+vi.mock(
+  "./_core/pipelineCache",
+  async () =>
+    (await import("./stepGenerator.testFixtures")).pipelineCacheModuleMock
+);
+const discardProjectFrameMock = vi.hoisted(() => vi.fn(async () => {}));
+vi.mock("./frameCapture", () => ({
+  captureProjectFrame: captureProjectFrameMock,
+  discardProjectFrame: discardProjectFrameMock,
+}));
+vi.mock("./_core/ocr", () => ({
+  extractFrameOcr: vi.fn(),
+  extractFrameOcrUnified: extractFrameOcrUnifiedMock,
+}));
+vi.mock(
+  "./evidence/artifactStore",
+  async () =>
+    (await import("./stepGenerator.testFixtures")).artifactStoreModuleMock
+);
+vi.mock(
+  "./db",
+  async () => (await import("./stepGenerator.testFixtures")).dbModuleMock
+);
+
+import {
+  generateStepsForProject,
+  insertStepAtTimestampForProject,
+} from "./stepGenerator";
+import {
+  loadStepsArtifact,
+  saveStepsArtifact,
+  StepsArtifactConflictError,
+} from "./stepsArtifact";
+import {
+  createStepMock,
+  deleteStepMock,
+  invokeLLMMock,
+  llmResponse,
+  loadEvidenceArtifactMock,
+  makeEvidence,
+  overview,
+  reorderStepsMock,
+  resetStepGeneratorMocks,
+} from "./stepGenerator.testFixtures";
+
+const authoredStep = (segmentIds: string[], title: string, label: string) => ({
+  source_segment_ids: segmentIds,
+  title,
+  instruction: `「${label}」をクリックする`,
+  expected_result: `${title}の結果が表示される`,
+  operation: `「${label}」をクリックする`,
+  description: `${title}の説明`,
+  narration: `${title}。`,
+  cited_ui_labels: [label],
+});
+
+async function generateTwoSteps(projectId: number) {
+  loadEvidenceArtifactMock.mockResolvedValue(makeEvidence(projectId));
+  invokeLLMMock.mockResolvedValueOnce(
+    llmResponse({
+      overview,
+      steps: [
+        authoredStep(["seg-1", "seg-2"], "項目を開く", "項目1"),
+        authoredStep(["seg-3", "seg-4"], "保存する", "保存"),
+      ],
+      discarded_segments: [],
+    })
+  );
+  await generateStepsForProject(projectId);
+}
+
+beforeEach(() => {
+  resetStepGeneratorMocks();
+  captureProjectFrameMock.mockReset();
+  captureProjectFrameMock.mockImplementation(
+    async (_project: unknown, timestamp: number) => ({
+      frameId: 500,
+      timestamp,
+      imageKey: "projects/1/frames/manual.jpg",
+      imageUrl: "/api/storage/projects/1/frames/manual.jpg",
+      localPath: "/tmp/manual.jpg",
+      cleanup: vi.fn(async () => {}),
+    })
+  );
+  discardProjectFrameMock.mockClear();
+  extractFrameOcrUnifiedMock.mockReset();
+  extractFrameOcrUnifiedMock.mockResolvedValue({
+    provider: "engine",
+    lines: ["詳細設定", "適用"],
+    regions: [],
+    warnings: [],
+    confidence: 0.9,
+  });
+});
+
+describe("insertStepAtTimestampForProject", () => {
+  it("指定時刻のフレームとOCRから根拠セグメントの無いステップを時系列の位置に追加し、手動追加として要レビューにする", async () => {
+    await generateTwoSteps(61);
+    const before = await loadStepsArtifact(61);
+    createStepMock.mockClear();
+
+    const { stepId } = await insertStepAtTimestampForProject(61, {
+      timestamp: 5500,
+    });
+
+    expect(invokeLLMMock).toHaveBeenCalledTimes(1);
+    expect(captureProjectFrameMock).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 61 }),
+      5500,
+      12000
+    );
+    const after = await loadStepsArtifact(61);
+    expect(after?.revision).toBe(before!.revision + 1);
+    expect(after?.steps.map(step => step.legacy_step_db_id)).toEqual([
+      before?.steps[0].legacy_step_db_id,
+      stepId,
+      before?.steps[1].legacy_step_db_id,
+    ]);
+    expect(after?.steps[1]).toMatchObject({
+      step_id: "step-2",
+      frame_id: 500,
+      t_start: 5500,
+      source_segment_ids: [],
+      ocr_text: ["詳細設定", "適用"],
+      needs_review: true,
+      review_reasons: ["edit:human_added"],
+      representative_frames: [
+        {
+          frame_id: 500,
+          timestamp: 5500,
+          image_url: "/api/storage/projects/1/frames/manual.jpg",
+        },
+      ],
+    });
+    expect(createStepMock).toHaveBeenCalledWith(
+      expect.objectContaining({ projectId: 61, frameId: 500 })
+    );
+    expect(reorderStepsMock).toHaveBeenLastCalledWith(
+      61,
+      after?.steps.map(step => step.legacy_step_db_id)
+    );
+  });
+
+  it("author=true では切り出したフレームを1セグメントとして文面を執筆し、引用ラベルをOCRで検証する", async () => {
+    await generateTwoSteps(62);
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview,
+        steps: [authoredStep(["manual-9500"], "変更を適用する", "適用")],
+        discarded_segments: [],
+      })
+    );
+
+    await insertStepAtTimestampForProject(62, {
+      timestamp: 9500,
+      author: true,
+    });
+
+    const userContent = JSON.stringify(
+      invokeLLMMock.mock.calls[1][0].messages[1].content
+    );
+    expect(userContent).toContain("manual-9500");
+    expect(userContent).toContain("詳細設定");
+    expect(userContent).not.toContain("seg-1");
+    const after = await loadStepsArtifact(62);
+    expect(after?.steps[2]).toMatchObject({
+      title: "変更を適用する",
+      cited_ui_labels: ["適用"],
+      source_segment_ids: [],
+      needs_review: true,
+      review_reasons: ["edit:human_added"],
+    });
+  });
+
+  it("フレームを切り出している間に steps.json が更新されて保存が競合したら、追加したフレームとステップを消す", async () => {
+    await generateTwoSteps(63);
+    const before = await loadStepsArtifact(63);
+    const capture = captureProjectFrameMock.getMockImplementation()!;
+    captureProjectFrameMock.mockImplementationOnce(
+      async (project: unknown, timestamp: number) => {
+        // 別の編集が先に保存される
+        await saveStepsArtifact(63, before!, undefined, { action: "update" });
+        return capture(project, timestamp);
+      }
+    );
+    createStepMock.mockClear();
+
+    await expect(
+      insertStepAtTimestampForProject(
+        63,
+        { timestamp: 5500 },
+        undefined,
+        before!.revision
+      )
+    ).rejects.toBeInstanceOf(StepsArtifactConflictError);
+
+    const createdStepId = await createStepMock.mock.results[0].value;
+    expect(deleteStepMock).toHaveBeenCalledWith(createdStepId);
+    expect(discardProjectFrameMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        frameId: 500,
+        imageKey: "projects/1/frames/manual.jpg",
+      })
+    );
+    const after = await loadStepsArtifact(63);
+    expect(after?.revision).toBe(before!.revision + 1);
+    expect(after?.steps).toHaveLength(2);
+  });
+
+  it("保存できたフレームは消さない", async () => {
+    await generateTwoSteps(64);
+
+    await insertStepAtTimestampForProject(64, { timestamp: 5500 });
+
+    expect(discardProjectFrameMock).not.toHaveBeenCalled();
+  });
+});
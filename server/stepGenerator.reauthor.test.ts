@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// steps.json の保存先を一時ディレクトリに向ける（importより先に実行）
+vi.hoisted(() => {
+  process.env.STORAGE_DIR = require("path").join(
+    require("os").tmpdir(),
+    `step_generator_reauthor_test_${Date.now()}`
+  );
+});
+
+vi.mock(
+  "./_core/llm",
+  async () => (await import("./stepGenerator.testFixtures")).llmModuleMock
+);
+vi.mock(
+  "./_core/pipelineCache",
+  async () =>
+    (await import("./stepGenerator.testFixtures")).pipelineCacheModuleMock
+);
+vi.mock(
+  "./evidence/artifactStore",
+  async () =>
+    (await import("./stepGenerator.testFixtures")).artifactStoreModuleMock
+);
+vi.mock(
+  "./db",
+  async () => (await import("./stepGenerator.testFixtures")).dbModuleMock
+);
+
+import {
+  generateStepsForProject,
+  reauthorStepRangeForProject,
+} from "./stepGenerator";
+import { loadStepsArtifact } from "./stepsArtifact";
+import {
+  deleteStepMock,
+  invokeLLMMock,
+  llmResponse,
+  loadEvidenceArtifactMock,
+  makeEvidence,
+  overview,
+  reorderStepsMock,
+  resetStepGeneratorMocks,
+} from "./stepGenerator.testFixtures";
+
+const authoredStep = (segmentIds: string[], title: string) => ({
+  source_segment_ids: segmentIds,
+  title,
+  instruction: `${title}（「保存」）`,
+  expected_result: "画面が更新される",
+  operation: "「保存」をクリックする",
+  description: `${title}の説明`,
+  narration: `${title}。`,
+  cited_ui_labels: ["保存"],
+});
+
+async function generateFourSteps(projectId: number) {
+  loadEvidenceArtifactMock.mockResolvedValue(makeEvidence(projectId));
+  invokeLLMMock.mockResolvedValueOnce(
+    llmResponse({
+      overview,
+      steps: [
+        authoredStep(["seg-1"], "設定を開く"),
+        authoredStep(["seg-2"], "項目を選ぶ"),
+        authoredStep(["seg-3"], "値を入力する"),
+        authoredStep(["seg-4"], "保存する"),
+      ],
+      discarded_segments: [],
+    })
+  );
+  await generateStepsForProject(projectId);
+}
+
+beforeEach(() => {
+  resetStepGeneratorMocks();
+});
+
+describe("reauthorStepRangeForProject", () => {
+  it("範囲のセグメントだけを前後のステップと追加指示を文脈に再執筆し、範囲外は変えない", async () => {
+    await generateFourSteps(41);
+    const before = await loadStepsArtifact(41);
+    invokeLLMMock.mockResolvedValueOnce(
+      llmResponse({
+        overview: { ...overview, task_title: "上書きされない" },
+        steps: [authoredStep(["seg-2", "seg-3"], "項目を選んで入力する")],
+        discarded_segments: [],
+      })
+    );
+
+    await expect(
+      reauthorStepRangeForProject(41, {
+        from: 2,
+        to: 3,
+        guidance: "もっと簡潔に",
+      })
+    ).resolves.toEqual({ stepCount: 1 });
+
+    const userContent = JSON.stringify(
+      invokeLLMMock.mock.calls[1][0].messages[1].content
+    );
+    expect(userContent).toContain("追加の指示");
+    expect(userContent).toContain("もっと簡潔に");
+    expect(userContent).toContain("直前のステップ: 設定を開く");
+    expect(userContent).toContain("直後のステップ: 保存する");
+    expect(userContent).toContain("seg-2");
+    expect(userContent).not.toContain("seg-1");
+    expect(userContent).not.toContain("seg-4");
+
+    const after = await loadStepsArtifact(41);
+    expect(after?.overview).toEqual(before?.overview);
+    expect(after?.steps.map(step => step.title)).toEqual([
+      "設定を開く",
+      "項目を選んで入力する",
+      "保存する",
+    ]);
+    expect(after?.steps[0]).toEqual(before?.steps[0]);
+    expect(after?.steps[2]).toEqual({
+      ...before?.steps[3],
+      step_id: "step-3",
+      sort_order: 2,
+    });
+    expect(after?.steps[1]).toMatchObject({
+      step_id: "step-2",
+      source_segment_ids: ["seg-2", "seg-3"],
+      t_start: 3000,
+      t_end: 8000,
+    });
+    expect(deleteStepMock.mock.calls.map(call => call[0])).toEqual([
+      before?.steps[1].legacy_step_db_id,
+      before?.steps[2].legacy_step_db_id,
+    ]);
+    expect(reorderStepsMock).toHaveBeenLastCalledWith(
+      41,
+      after?.steps.map(step => step.legacy_step_db_id)
+    );
+  });
+
+  it("範囲外の指定は執筆せずに拒否する", async () => {
+    await generateFourSteps(42);
+
+    await expect(
+      reauthorStepRangeForProject(42, { from: 3, to: 5 })
+    ).rejects.toThrow("再執筆するステップの範囲が不正です");
+    await expect(
+      reauthorStepRangeForProject(42, { from: 3, to: 2 })
+    ).rejects.toThrow("再執筆するステップの範囲が不正です");
+    expect(invokeLLMMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,285 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// steps.json の保存先を一時ディレクトリに向ける（importより先に実行）
+vi.hoisted(() => {
+  process.env.STORAGE_DIR = require("path").join(
+    require("os").tmpdir(),
+    `step_generator_split_test_${Date.now()}`
+  );
+});
+
+vi.mock(
+  "./_core/llm",
+  async () => (await import("./stepGenerator.testFixtures")).llmModuleMock
+);
+vi.mock(
+  "./_core/pipelineCache",
+  async () =>
+    (await import("./stepGenerator.testFixtures")).pipelineCacheModuleMock
+);
+vi.mock(
+  "./evidence/artifactStore",
+  async () =>
+    (await import("./stepGenerator.testFixtures")).artifactStoreModuleMock
+);
+vi.mock(
+  "./db",
+  async () => (await import("./stepGenerator.testFixtures")).dbModuleMock
+);
+
+import {
+  generateStepsForProject,
+  mergeStepsForProject,
+  splitStepForProject,
+} from "./stepGenerator";
+import { loadStepsArtifact, saveStepsArtifact } from "./stepsArtifact";
+import {
+  createStepMock,
+  deleteStepMock,
+  invokeLLMMock,
+  llmResponse,
+  loadEvidenceArtifactMock,
+  makeEvidence,
+  overview,
+  reorderStepsMock,
+  resetStepGeneratorMocks,
+  updateStepMock,
+} from "./stepGenerator.testFixtures";
+
+const authoredStep = (
+  segmentIds: string[],
+  title: string,
+  labels: string[]
+) => ({
+  source_segment_ids: segmentIds,
+  title,
+  instruction: `${title}（「${labels[0]}」）`,
+  expected_result: `${title}の結果が表示される`,
+  operation: `「${labels[0]}」をクリックする`,
+  description: `${title}の説明`,
+  narration: `${title}。`,
+  cited_ui_labels: labels,
+});
+
+async function generateThreeSteps(projectId: number) {
+  loadEvidenceArtifactMock.mockResolvedValue(makeEvidence(projectId));
+  invokeLLMMock.mockResolvedValueOnce(
+    llmResponse({
+      overview,
+      steps: [
+        authoredStep(["seg-1", "seg-2"], "項目を開いて選ぶ", [
+          "項目1",
+          "項目2",
+        ]),
+        authoredStep(["seg-3"], "値を入力する", ["項目3"]),
+        authoredStep(["seg-4"], "保存する", ["保存"]),
+      ],
+      discarded_segments: [],
+    })
+  );
+  await generateStepsForProject(projectId);
+}
+
+beforeEach(() => {
+  resetStepGeneratorMocks();
+});
+
+describe("splitStepForProject", () => {
+  it("時刻以降のセグメントを後半に分け、時刻・代表フレーム・引用ラベルを算出し直して DB に反映する", async () => {
+    await generateThreeSteps(51);
+    const before = await loadStepsArtifact(51);
+    const original = before!.steps[0];
+    createStepMock.mockClear();
+
+    const result = await splitStepForProject(51, {
+      stepId: original.legacy_step_db_id!,
+      timestamp: 2500,
+    });
+
+    const after = await loadStepsArtifact(51);
+    expect(after?.steps).toHaveLength(4);
+    expect(after?.revision).toBe(before!.revision + 1);
+    const [first, second] = after!.steps;
+    expect(result).toEqual({
+      stepIds: [original.legacy_step_db_id, second.legacy_step_db_id],
+    });
+    expect(first).toMatchObject({
+      step_id: "step-1",
+      legacy_step_db_id: original.legacy_step_db_id,
+      frame_id: 101,
+      t_start: 0,
+      t_end: 2000,
+      source_segment_ids: ["seg-1"],
+      cited_ui_labels: ["項目1"],
+      title: original.title,
+      needs_review: true,
+    });
+    expect(second).toMatchObject({
+      step_id: "step-2",
+      frame_id: 102,
+      t_start: 3000,
+      t_end: 5000,
+      source_segment_ids: ["seg-2"],
+      cited_ui_labels: ["項目2"],
+      needs_review: true,
+    });
+    expect(first.representative_frames.map(frame => frame.frame_id)).toEqual([
+      101,
+    ]);
+    expect(first.review_reasons).toContain("edit:split");
+    expect(second.review_reasons).toContain("edit:split");
+    expect(first.review_reasons).not.toContain(
+      "verification:unverified_ui_label"
+    );
+    expect(after?.steps[2]).toEqual({
+      ...before?.steps[1],
+      step_id: "step-3",
+      sort_order: 2,
+    });
+
+    expect(createStepMock).toHaveBeenCalledTimes(1);
+    expect(updateStepMock).toHaveBeenCalledWith(
+      original.legacy_step_db_id,
+      expect.objectContaining({
+        frameId: 101,
+        title: original.title,
+        audioUrl: null,
+        audioKey: null,
+      }),
+      undefined
+    );
+    expect(reorderStepsMock).toHaveBeenLastCalledWith(
+      51,
+      after?.steps.map(step => step.legacy_step_db_id)
+    );
+  });
+
+  it("どちらかが空になる位置や根拠セグメントが1つのステップは分割しない", async () => {
+    await generateThreeSteps(52);
+    const before = await loadStepsArtifact(52);
+    const [twoSegments, oneSegment] = before!.steps;
+
+    await expect(
+      splitStepForProject(52, {
+        stepId: twoSegments.legacy_step_db_id!,
+        timestamp: 0,
+      })
+    ).rejects.toThrow("分割位置が不正です");
+    await expect(
+      splitStepForProject(52, {
+        stepId: twoSegments.legacy_step_db_id!,
+        segmentId: "seg-4",
+      })
+    ).rejects.toThrow("分割位置が不正です");
+    await expect(
+      splitStepForProject(52, {
+        stepId: oneSegment.legacy_step_db_id!,
+        timestamp: 7000,
+      })
+    ).rejects.toThrow("根拠セグメントが1つのステップは分割できません");
+    expect((await loadStepsArtifact(52))?.revision).toBe(before!.revision);
+  });
+});
+
+describe("mergeStepsForProject", () => {
+  it("隣り合うステップを根拠セグメントと本文をつないで結合し、後ろのステップの DB 行を消す", async () => {
+    await generateThreeSteps(53);
+    const before = await loadStepsArtifact(53);
+    const [, step, next] = before!.steps;
+
+    await expect(
+      mergeStepsForProject(53, {
+        stepId: step.legacy_step_db_id!,
+        nextStepId: next.legacy_step_db_id!,
+      })
+    ).resolves.toEqual({ stepId: step.legacy_step_db_id });
+
+    const after = await loadStepsArtifact(53);
+    expect(after?.steps).toHaveLength(2);
+    expect(after?.steps[1]).toMatchObject({
+      step_id: "step-2",
+      legacy_step_db_id: step.legacy_step_db_id,
+      frame_id: 104,
+      t_start: 6000,
+      t_end: 11000,
+      source_segment_ids: ["seg-3", "seg-4"],
+      cited_ui_labels: ["項目3", "保存"],
+      title: step.title,
+      instruction: `${step.instruction}\n${next.instruction}`,
+      expected_result: next.expected_result,
+      narration: `${step.narration} ${next.narration}`,
+      needs_review: false,
+      review_reasons: [],
+    });
+    expect(deleteStepMock).toHaveBeenCalledWith(
+      next.legacy_step_db_id,
+      undefined
+    );
+    expect(updateStepMock).toHaveBeenCalledWith(
+      step.legacy_step_db_id,
+      expect.objectContaining({ frameId: 104, audioUrl: null, audioKey: null }),
+      undefined
+    );
+    expect(reorderStepsMock).toHaveBeenLastCalledWith(
+      53,
+      after?.steps.map(item => item.legacy_step_db_id)
+    );
+  });
+
+  it("隣り合わないステップは結合しない", async () => {
+    await generateThreeSteps(54);
+    const before = await loadStepsArtifact(54);
+    const [first, , last] = before!.steps;
+
+    await expect(
+      mergeStepsForProject(54, {
+        stepId: first.legacy_step_db_id!,
+        nextStepId: last.legacy_step_db_id!,
+      })
+    ).rejects.toThrow("結合できるのは隣り合うステップだけです");
+    expect(deleteStepMock).not.toHaveBeenCalled();
+  });
+
+  it("分割・結合したステップの音声は steps.json と DB の行の両方から外す", async () => {
+    await generateThreeSteps(55);
+    const generated = await loadStepsArtifact(55);
+    // 音声の書き戻し（revision は進まない）
+    await saveStepsArtifact(
+      55,
+      {
+        ...generated!,
+        steps: generated!.steps.map(step => ({
+          ...step,
+          audio_url: `/api/storage/projects/55/audio/${step.step_id}.mp3`,
+          audio_key: `projects/55/audio/${step.step_id}.mp3`,
+        })),
+      },
+      undefined,
+      { action: "audio", system: true }
+    );
+    const [first, second, third] = (await loadStepsArtifact(55))!.steps;
+
+    await splitStepForProject(55, {
+      stepId: first.legacy_step_db_id!,
+      timestamp: 2500,
+    });
+    await mergeStepsForProject(55, {
+      stepId: second.legacy_step_db_id!,
+      nextStepId: third.legacy_step_db_id!,
+    });
+
+    const after = await loadStepsArtifact(55);
+    expect(after?.steps.map(step => step.audio_url)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    for (const stepId of [first.legacy_step_db_id, second.legacy_step_db_id]) {
+      expect(updateStepMock).toHaveBeenCalledWith(
+        stepId,
+        expect.objectContaining({ audioUrl: null, audioKey: null }),
+        undefined
+      );
+    }
+  });
+});
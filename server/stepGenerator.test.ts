@@ -23,6 +23,11 @@ function makeSegment(
     changed_region_bbox: { x: 0.1, y: 0.1, w: 0.2, h: 0.1 },
     ocr_lines: ["保存", "キャンセル"],
     ocr_focus: ["保存"],
+    ocr_line_details: [
+      { text: "保存", bbox: null, score: null },
+      { text: "キャンセル", bbox: null, score: null },
+    ],
+    ocr_focus_details: [{ text: "保存", bbox: null, score: null }],
     transcript_snippet: "",
     coalesced_from: 1,
     warnings: [],
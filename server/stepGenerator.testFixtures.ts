@@ -0,0 +1,152 @@
+import { vi } from "vitest";
+import type { EvidenceArtifact, EvidenceSegment } from "./evidence/types";
+
+/**
+ * 生成済みの steps.json を編集するテスト（破棄の復元・範囲の再執筆・分割と結合・手動挿入）の共通の土台。
+ * vi.mock は各テストファイルに置き、factory からここのモックを返す:
+ *
+ *   vi.mock("./db", async () => (await import("./stepGenerator.testFixtures")).dbModuleMock);
+ *
+ * steps.json の保存先（STORAGE_DIR）はテストファイルごとに vi.hoisted で一時ディレクトリに向ける。
+ */
+
+export const invokeLLMMock = vi.fn();
+export const loadEvidenceArtifactMock = vi.fn();
+export const createStepMock = vi.fn();
+export const updateStepMock = vi.fn(async () => {});
+export const deleteStepMock = vi.fn(async () => {});
+export const reorderStepsMock = vi.fn(async () => {});
+
+export const llmModuleMock = { invokeLLM: invokeLLMMock };
+
+export const pipelineCacheModuleMock = {
+  ensurePipelineCacheDir: vi.fn(async () => {}),
+  getCachedJson: vi.fn(async () => null),
+  hashBinary: vi.fn(() => "hash"),
+  setCachedJson: vi.fn(async () => {}),
+};
+
+export const artifactStoreModuleMock = {
+  loadEvidenceArtifact: loadEvidenceArtifactMock,
+};
+
+export const dbModuleMock = {
+  getProjectById: vi.fn(async (id: number) => ({
+    id,
+    userId: 1,
+    title: "step generator",
+    description: null,
+    videoUrl: `/api/storage/projects/${id}/videos/demo.mp4`,
+    videoKey: `projects/${id}/videos/demo.mp4`,
+    status: "processing",
+    processingProgress: 70,
+    processingMessage: null,
+    errorMessage: null,
+    settings: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  })),
+  getFramesByProjectId: vi.fn(async () => []),
+  getStepsByProjectId: vi.fn(async () => []),
+  updateProjectProgress: vi.fn(async () => {}),
+  deleteStepsByProjectId: vi.fn(async () => {}),
+  createStep: createStepMock,
+  updateStep: updateStepMock,
+  deleteStep: deleteStepMock,
+  reorderSteps: reorderStepsMock,
+};
+
+let nextStepDbId = 500;
+
+/** beforeEach で呼ぶ。作成される DB のステップ id はテストをまたいで重ならない */
+export function resetStepGeneratorMocks(): void {
+  invokeLLMMock.mockReset();
+  loadEvidenceArtifactMock.mockReset();
+  createStepMock.mockReset();
+  createStepMock.mockImplementation(async () => nextStepDbId++);
+  updateStepMock.mockClear();
+  deleteStepMock.mockClear();
+  reorderStepsMock.mockClear();
+}
+
+function toOcrDetail(text: string) {
+  return { text, bbox: null, score: null };
+}
+
+/** seg-N は前後のフレーム id がそれぞれ N+200 / N+100 で、画面に「項目N」が映る */
+export function makeSegment(
+  id: string,
+  tStart: number,
+  tEnd: number
+): EvidenceSegment {
+  const index = Number(id.replace("seg-", ""));
+  const ocrLines = ["保存", "設定", `項目${index}`];
+  const ocrFocus = [`項目${index}`];
+  return {
+    segment_id: id,
+    t_start: tStart,
+    t_end: tEnd,
+    transition_start: tStart + 100,
+    before_frame: {
+      t: tStart,
+      image_key: `frames/${id}-before.jpg`,
+      image_url: `/api/storage/frames/${id}-before.jpg`,
+      frame_id: index + 200,
+    },
+    after_frame: {
+      t: tEnd,
+      image_key: `frames/${id}.jpg`,
+      image_url: `/api/storage/frames/${id}.jpg`,
+      frame_id: index + 100,
+    },
+    changed_region_bbox: { x: 0.1, y: 0.1, w: 0.2, h: 0.1 },
+    ocr_lines: ocrLines,
+    ocr_line_details: ocrLines.map(toOcrDetail),
+    ocr_focus: ocrFocus,
+    ocr_focus_details: ocrFocus.map(toOcrDetail),
+    transcript_snippet: "",
+    coalesced_from: 1,
+    warnings: [],
+  };
+}
+
+/** 3秒おきに2秒ずつの操作が segmentCount 個並ぶ証跡（seg-1: 0–2000ms, seg-2: 3000–5000ms, …） */
+export function makeEvidence(
+  projectId: number,
+  segmentCount = 4
+): EvidenceArtifact {
+  return {
+    version: "1.0",
+    project_id: projectId,
+    video: {
+      duration_ms: segmentCount * 3000,
+      fps_sampled: 4,
+      sha256: `sha-${projectId}`,
+    },
+    config: {
+      diff_high: 0.0004,
+      diff_low: 0.00015,
+      stable_frames: 2,
+      coalesce_max_gap_ms: 1000,
+      asr_lead_ms: 3000,
+      asr_provider: "none",
+      ocr_provider: "engine",
+      ocr_engine: "tesseract",
+    },
+    transcript: { provider: "none", segments: [] },
+    segments: Array.from({ length: segmentCount }, (_, i) =>
+      makeSegment(`seg-${i + 1}`, i * 3000, i * 3000 + 2000)
+    ),
+    generated_at: new Date().toISOString(),
+  };
+}
+
+export function llmResponse(payload: unknown) {
+  return { choices: [{ message: { content: JSON.stringify(payload) } }] };
+}
+
+export const overview = {
+  task_title: "設定を保存する",
+  preconditions: [],
+  completion_criteria: "保存される",
+};
@@ -1,3 +1,5 @@
+import type { Audience } from "@shared/audience";
+import type { OutputLanguage } from "@shared/outputLanguage";
 import fs from "fs/promises";
 import os from "os";
 import path from "path";
@@ -9,23 +11,55 @@ import {
   hashBinary,
   setCachedJson,
 } from "./_core/pipelineCache";
-import { extractFrameOcr } from "./_core/ocr";
+import {
+  extractFrameOcr,
+  extractFrameOcrUnified,
+  type OcrResult,
+} from "./_core/ocr";
 import { pickTranscriptSnippet, transcribeVideoSource } from "./_core/asr";
 import { ENV } from "./_core/env";
 import { createLogger } from "./_core/logger";
 import { readBinaryFromSource, storagePut } from "./storage";
 import * as db from "./db";
-import type { Frame } from "../drizzle/schema";
+import type { Frame, Project } from "../drizzle/schema";
 import {
+  assertStepsArtifactRevision,
   STEPS_ARTIFACT_VERSION,
+  type DiscardedSegment,
   type ReviewReasonCode,
   type StepArtifact,
+  type StepSection,
   type StepsArtifact,
+  type StepsArtifactChange,
   saveStepsArtifact,
 } from "./stepsArtifact";
 import { loadEvidenceArtifact } from "./evidence/artifactStore";
+import { buildOcrLineDetails } from "./evidence/extract";
+import { captureProjectFrame, discardProjectFrame } from "./frameCapture";
+import {
+  parseProjectSettings,
+  type StyleGuideSettings,
+} from "./projectSettings";
 import type { EvidenceArtifact, EvidenceSegment } from "./evidence/types";
-import { authorSteps, AUTHORING_PROMPT_VERSION } from "./authoring/author";
+import {
+  authorSteps,
+  AUTHORING_PROMPT_VERSION,
+  buildFallbackStep,
+  type AuthoredStep,
+} from "./authoring/author";
+import { authorSections } from "./authoring/sections";
+import { translateStepsArtifact } from "./authoring/translate";
+import {
+  insertArtifactStepByTime,
+  insertRestoredArtifactStep,
+  loadOrCreateStepsArtifactForProject,
+  replaceArtifactStepRange,
+} from "./stepSource";
+import {
+  unionOcrLineBoxes,
+  verifyCitedLabels,
+  verifyStep,
+} from "./authoring/verification";
 
 const logger = createLogger("StepGenerator");
 const STEP_PROMPT_VERSION = "steps-grounded-v1";
@@ -255,6 +289,122 @@ async function writeRunLog(
   await storagePut(key, `${lines.join("\n")}\n`, "application/jsonl");
 }
 
+/** 執筆結果のステップを steps.json のステップにする（根拠セグメントから時刻・代表フレームを決める） */
+function buildArtifactStepFromAuthored(
+  step: AuthoredStep,
+  index: number,
+  segmentById: Map<string, EvidenceSegment>
+): StepArtifact {
+  const sourceSegments = step.source_segment_ids
+    .map(id => segmentById.get(id))
+    .filter((segment): segment is EvidenceSegment => segment !== undefined);
+  if (sourceSegments.length === 0) {
+    throw new Error(`ステップの根拠セグメントが解決できません: ${step.title}`);
+  }
+
+  // クリップ範囲算出には waiting セグメントを除外する
+  const clipSegments = selectClipSegments(sourceSegments);
+
+  const lastSegment = clipSegments[clipSegments.length - 1];
+  const frameId = lastSegment.after_frame.frame_id;
+  if (!frameId) {
+    // evidence契約違反（DBフローでは frame_id 必須）。執筆前に検出する
+    throw new Error(
+      `セグメント ${lastSegment.segment_id} に frame_id がありません（evidence契約違反）`
+    );
+  }
+
+  const tStart = Math.min(...clipSegments.map(s => s.t_start));
+
+  const bbox = clipSegments.reduce<StepArtifact["changed_region_bbox"]>(
+    (acc, segment) => {
+      const rect = segment.changed_region_bbox;
+      if (!rect) return acc;
+      if (!acc) return rect;
+      const x = Math.min(acc.x, rect.x);
+      const y = Math.min(acc.y, rect.y);
+      return {
+        x,
+        y,
+        w: Math.min(1, Math.max(acc.x + acc.w, rect.x + rect.w) - x),
+        h: Math.min(1, Math.max(acc.y + acc.h, rect.y + rect.h) - y),
+      };
+    },
+    null
+  );
+
+  // 引用ラベルの位置は代表フレーム（最後のクリップセグメントの after）上のOCR行から取る
+  const citedLabelBBox = unionOcrLineBoxes(
+    verifyCitedLabels(step.cited_ui_labels, [lastSegment]).citedLines.map(
+      cited => cited.line
+    )
+  );
+
+  // ocr_text と transcript_snippet は sourceSegments 全体から（cited_ui_labels 検証のため）
+  const mergedOcr = Array.from(
+    new Set(sourceSegments.flatMap(segment => segment.ocr_lines))
+  ).slice(0, 40);
+  const mergedTranscript = sourceSegments
+    .map(segment => segment.transcript_snippet.trim())
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    step_id: `step-${index + 1}`,
+    sort_order: index,
+    frame_id: frameId,
+    t_start: tStart,
+    t_end: Math.max(lastSegment.t_end, tStart + 1),
+    representative_frames: clipSegments.map(segment => ({
+      frame_id: segment.after_frame.frame_id ?? undefined,
+      frame_number: 0,
+      timestamp: segment.after_frame.t,
+      image_url: segment.after_frame.image_url,
+    })),
+    changed_region_bbox: bbox,
+    ocr_text: mergedOcr,
+    transcript_snippet: mergedTranscript,
+    instruction: step.instruction,
+    expected_result: step.expected_result,
+    warnings: step.warnings,
+    confidence: step.confidence,
+    title: step.title,
+    operation: step.operation,
+    description: step.description,
+    narration: step.narration,
+    audio_mode: "auto",
+    source_segment_ids: step.source_segment_ids,
+    cited_ui_labels: step.cited_ui_labels,
+    cited_label_bbox: citedLabelBBox,
+    needs_review: step.needs_review,
+    review_reasons: step.review_reasons,
+  };
+}
+
+/** 破棄されたセグメントを理由・操作前後のサムネイル付きで steps.json に残す形にする */
+function buildDiscardedSegment(
+  discarded: { segment_id: string; reason: string },
+  segmentById: Map<string, EvidenceSegment>
+): DiscardedSegment | null {
+  const segment = segmentById.get(discarded.segment_id);
+  if (!segment) return null;
+  const frames = segment.before_frame
+    ? [segment.before_frame, segment.after_frame]
+    : [segment.after_frame];
+  return {
+    segment_id: segment.segment_id,
+    reason: discarded.reason,
+    t_start: segment.t_start,
+    t_end: segment.t_end,
+    activity: segment.activity,
+    thumbnails: frames.map(frame => ({
+      frame_id: frame.frame_id ?? undefined,
+      timestamp: frame.t,
+      image_url: frame.image_url,
+    })),
+  };
+}
+
 /**
  * Phase 2: evidence.json からの一括執筆。
  * 証拠ダイジェスト全体をLLMに渡してステップを執筆し、機械検証を通して
@@ -262,8 +412,14 @@ async function writeRunLog(
  */
 async function generateStepsFromEvidence(
   projectId: number,
-  evidence: EvidenceArtifact
+  evidence: EvidenceArtifact,
+  options: {
+    outputLanguage: OutputLanguage;
+    audience: Audience;
+    styleGuide?: StyleGuideSettings;
+  }
 ): Promise<void> {
+  const { outputLanguage, audience, styleGuide } = options;
   const runId = `run_${Date.now()}`;
   const runLogLines: string[] = [];
   const addRunLog = (event: string, payload: Record<string, unknown>) => {
@@ -279,6 +435,9 @@ async function generateStepsFromEvidence(
     llmProvider: ENV.llmProvider,
     llmModel: ENV.llmModel,
     promptVersion: AUTHORING_PROMPT_VERSION,
+    outputLanguage,
+    audience,
+    styleGuide: styleGuide !== undefined,
   });
 
   await db.updateProjectProgress(
@@ -287,7 +446,11 @@ async function generateStepsFromEvidence(
     "ステップを執筆中（一括解析）..."
   );
 
-  const result = await authorSteps(evidence);
+  const result = await authorSteps(evidence, {
+    outputLanguage,
+    audience,
+    styleGuide,
+  });
 
   addRunLog("authoring.done", {
     stepCount: result.steps.length,
@@ -301,91 +464,18 @@ async function generateStepsFromEvidence(
     evidence.segments.map(segment => [segment.segment_id, segment])
   );
 
-  const artifactSteps: StepArtifact[] = result.steps.map((step, index) => {
-    const sourceSegments = step.source_segment_ids
-      .map(id => segmentById.get(id))
-      .filter((segment): segment is EvidenceSegment => segment !== undefined);
-    if (sourceSegments.length === 0) {
-      throw new Error(
-        `ステップの根拠セグメントが解決できません: ${step.title}`
-      );
-    }
-
-    // クリップ範囲算出には waiting セグメントを除外する
-    const clipSegments = selectClipSegments(sourceSegments);
-
-    const lastSegment = clipSegments[clipSegments.length - 1];
-    const frameId = lastSegment.after_frame.frame_id;
-    if (!frameId) {
-      // evidence契約違反（DBフローでは frame_id 必須）。執筆前に検出する
-      throw new Error(
-        `セグメント ${lastSegment.segment_id} に frame_id がありません（evidence契約違反）`
-      );
-    }
-
-    const tStart = Math.min(...clipSegments.map(s => s.t_start));
-
-    const bbox = clipSegments.reduce<StepArtifact["changed_region_bbox"]>(
-      (acc, segment) => {
-        const rect = segment.changed_region_bbox;
-        if (!rect) return acc;
-        if (!acc) return rect;
-        const x = Math.min(acc.x, rect.x);
-        const y = Math.min(acc.y, rect.y);
-        return {
-          x,
-          y,
-          w: Math.min(1, Math.max(acc.x + acc.w, rect.x + rect.w) - x),
-          h: Math.min(1, Math.max(acc.y + acc.h, rect.y + rect.h) - y),
-        };
-      },
-      null
-    );
-
-    // ocr_text と transcript_snippet は sourceSegments 全体から（cited_ui_labels 検証のため）
-    const mergedOcr = Array.from(
-      new Set(sourceSegments.flatMap(segment => segment.ocr_lines))
-    ).slice(0, 40);
-    const mergedTranscript = sourceSegments
-      .map(segment => segment.transcript_snippet.trim())
-      .filter(Boolean)
-      .join(" ");
-
-    return {
-      step_id: `step-${index + 1}`,
-      sort_order: index,
-      frame_id: frameId,
-      t_start: tStart,
-      t_end: Math.max(lastSegment.t_end, tStart + 1),
-      representative_frames: clipSegments.map(segment => ({
-        frame_id: segment.after_frame.frame_id ?? undefined,
-        frame_number: 0,
-        timestamp: segment.after_frame.t,
-        image_url: segment.after_frame.image_url,
-      })),
-      changed_region_bbox: bbox,
-      ocr_text: mergedOcr,
-      transcript_snippet: mergedTranscript,
-      instruction: step.instruction,
-      expected_result: step.expected_result,
-      warnings: step.warnings,
-      confidence: step.confidence,
-      title: step.title,
-      operation: step.operation,
-      description: step.description,
-      narration: step.narration,
-      audio_mode: "auto",
-      source_segment_ids: step.source_segment_ids,
-      cited_ui_labels: step.cited_ui_labels,
-      needs_review: step.needs_review,
-      review_reasons: step.review_reasons,
-    };
-  });
+  const artifactSteps = result.steps.map((step, index) =>
+    buildArtifactStepFromAuthored(step, index, segmentById)
+  );
+  const discardedSegments = result.discarded
+    .map(discarded => buildDiscardedSegment(discarded, segmentById))
+    .filter((segment): segment is DiscardedSegment => segment !== null);
 
-  const artifact: StepsArtifact = {
+  const unsectioned: StepsArtifact = {
     version: STEPS_ARTIFACT_VERSION,
     project_id: projectId,
     generated_at: new Date().toISOString(),
+    revision: 0,
     config: {
       authoring_provider: ENV.authoringProvider,
       asr_provider: evidence.config.asr_provider,
@@ -393,13 +483,30 @@ async function generateStepsFromEvidence(
       llm_provider: ENV.llmProvider,
       llm_model: ENV.llmModel,
       prompt_version: AUTHORING_PROMPT_VERSION,
+      output_language: outputLanguage,
+      audience,
     },
     overview: result.overview,
     steps: artifactSteps,
+    discarded_segments: discardedSegments,
+    sections: [],
   };
+  // 長い手順は章に区切る。章立てに失敗しても章なしの一覧で続行する
+  let sections: StepSection[] = [];
+  try {
+    sections = await authorSections(unsectioned);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn("章立てに失敗。章なしで保存します", { projectId, message });
+    addRunLog("sections.failed", { message: message.substring(0, 160) });
+  }
+  addRunLog("sections.done", { sectionCount: sections.length });
+  const artifact: StepsArtifact = { ...unsectioned, sections };
 
   const withLegacyIds = await persistStepsToDb(projectId, artifact);
-  await saveStepsArtifact(projectId, withLegacyIds);
+  await saveStepsArtifact(projectId, withLegacyIds, undefined, {
+    action: "generate",
+  });
   await writeRunLog(projectId, runId, runLogLines);
 
   await db.updateProjectProgress(
@@ -427,10 +534,17 @@ export async function generateStepsForProject(
     throw new Error("プロジェクトが見つかりません");
   }
 
+  const settings = parseProjectSettings(project.settings);
+  const outputLanguage = settings.outputLanguage ?? "ja";
+
   // Phase 2: evidence.json があれば一括執筆経路を使う
   const evidence = await loadEvidenceArtifact(projectId);
   if (evidence && evidence.segments.length > 0) {
-    await generateStepsFromEvidence(projectId, evidence);
+    await generateStepsFromEvidence(projectId, evidence, {
+      outputLanguage,
+      audience: settings.audience ?? "novice",
+      styleGuide: settings.styleGuide,
+    });
     return;
   }
   if (ENV.authoringProvider === "codex_app_server") {
@@ -441,6 +555,19 @@ export async function generateStepsForProject(
   logger.info("evidence.json が無いため従来のフレーム単位解析を使用します", {
     projectId,
   });
+  if (outputLanguage !== "ja") {
+    // 従来経路のプロンプトは日本語専用のため、出力言語の指定は反映しない
+    logger.warn("従来のフレーム単位解析は日本語でのみ生成します", {
+      projectId,
+      outputLanguage,
+    });
+  }
+  if (settings.styleGuide || (settings.audience ?? "novice") !== "novice") {
+    logger.warn(
+      "従来のフレーム単位解析には用語集・文体ルール・想定読者を反映しません",
+      { projectId, audience: settings.audience }
+    );
+  }
 
   const frames = await db.getFramesByProjectId(projectId);
   if (frames.length === 0) {
@@ -627,6 +754,7 @@ export async function generateStepsForProject(
       version: STEPS_ARTIFACT_VERSION,
       project_id: projectId,
       generated_at: new Date().toISOString(),
+      revision: 0,
       config: {
         authoring_provider: ENV.authoringProvider,
         asr_provider: ENV.asrProvider,
@@ -634,13 +762,19 @@ export async function generateStepsForProject(
         llm_provider: ENV.llmProvider,
         llm_model: ENV.llmModel,
         prompt_version: STEP_PROMPT_VERSION,
+        output_language: "ja",
+        audience: "novice",
       },
       overview: null,
       steps: artifactSteps,
+      discarded_segments: [],
+      sections: [],
     };
 
     const withLegacyIds = await persistStepsToDb(projectId, artifact);
-    await saveStepsArtifact(projectId, withLegacyIds);
+    await saveStepsArtifact(projectId, withLegacyIds, undefined, {
+      action: "generate",
+    });
     await writeRunLog(projectId, runId, runLogLines);
 
     await db.updateProjectProgress(
@@ -690,6 +824,811 @@ function generateErrorMessage(error: unknown): string {
   }
 }
 
+/**
+ * レビュー済みの steps.json（原本）を翻訳し、steps.<language>.json として原本の隣に保存する。
+ * 同じ言語の翻訳版があれば作り直す（原本の最新の編集を反映する）。
+ */
+export async function translateStepsForProject(
+  projectId: number,
+  language: OutputLanguage,
+  userId?: number
+): Promise<StepsArtifact> {
+  const { artifact } = await loadOrCreateStepsArtifactForProject(
+    projectId,
+    userId
+  );
+  if (!artifact || artifact.steps.length === 0) {
+    throw new Error("翻訳するステップがありません");
+  }
+  const translated = await translateStepsArtifact(artifact, language);
+  await saveStepsArtifact(projectId, translated, language);
+  return translated;
+}
+
+/**
+ * 先に DB へ追加したステップ行を含む steps.json を保存する。
+ * 執筆中に他の編集が保存された（競合）などで保存できなければ、追加した行を消して DB を元に戻す。
+ */
+async function saveStepsArtifactOrDropSteps(
+  projectId: number,
+  artifact: StepsArtifact,
+  createdStepIds: number[],
+  change: StepsArtifactChange
+): Promise<void> {
+  try {
+    await saveStepsArtifact(projectId, artifact, undefined, change);
+  } catch (error) {
+    for (const stepId of createdStepIds) {
+      await db.deleteStep(stepId).catch(deleteError => {
+        logger.warn("Failed to drop unsaved step from DB", {
+          projectId,
+          stepId,
+          message:
+            deleteError instanceof Error
+              ? deleteError.message
+              : String(deleteError),
+        });
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * 編集する steps.json（原本）を読み込む。無ければ「steps artifactが無いため、{action}できません」にする。
+ * expectedRevision（編集の元にした steps.json の revision）が古ければ、LLM の呼び出しや DB の変更より先に
+ * StepsArtifactConflictError にする。
+ */
+async function loadStepsArtifactForEdit(
+  projectId: number,
+  action: string,
+  userId?: number,
+  expectedRevision?: number
+): Promise<{ project: Project; artifact: StepsArtifact }> {
+  const { project, artifact } = await loadOrCreateStepsArtifactForProject(
+    projectId,
+    userId
+  );
+  if (!artifact) {
+    throw new Error(`steps artifactが無いため、${action}できません`);
+  }
+  assertStepsArtifactRevision(projectId, artifact.revision, expectedRevision);
+  return { project, artifact };
+}
+
+/**
+ * 執筆で破棄されたセグメントを1セグメントだけで再執筆し、ステップとして復元する。
+ * 再執筆でも破棄された（待機区間など）場合はフォールバックステップとして残し、レビューで直してもらう。
+ * 編集ルートと同じく DB にも反映し、復元したステップの DB の ID を返す。
+ */
+export async function restoreDiscardedSegmentForProject(
+  projectId: number,
+  segmentId: string,
+  userId?: number,
+  expectedRevision?: number
+): Promise<{ stepId: number }> {
+  const { project, artifact } = await loadStepsArtifactForEdit(
+    projectId,
+    "セグメントを復元",
+    userId,
+    expectedRevision
+  );
+  if (
+    !artifact.discarded_segments.some(
+      discarded => discarded.segment_id === segmentId
+    )
+  ) {
+    throw new Error("破棄されたセグメントが見つかりません");
+  }
+  const evidence = await loadEvidenceArtifact(projectId);
+  const segment = evidence?.segments.find(
+    candidate => candidate.segment_id === segmentId
+  );
+  if (!evidence || !segment) {
+    throw new Error(
+      "セグメントの証拠が見つかりません。動画を再処理してから復元してください"
+    );
+  }
+
+  const outputLanguage = artifact.config.output_language;
+  const result = await authorSteps(
+    { ...evidence, segments: [segment] },
+    {
+      outputLanguage,
+      audience: artifact.config.audience,
+      styleGuide: parseProjectSettings(project.settings).styleGuide,
+    }
+  );
+  const authored =
+    result.steps.find(step => step.source_segment_ids.includes(segmentId)) ??
+    buildFallbackStep(
+      segment,
+      artifact.steps.length,
+      "unassigned_segment",
+      "破棄されたセグメントを再執筆しても採用されませんでした",
+      outputLanguage
+    );
+  const restoredStep = buildArtifactStepFromAuthored(
+    authored,
+    artifact.steps.length,
+    new Map([[segment.segment_id, segment]])
+  );
+  const frameId = restoredStep.frame_id;
+  if (!frameId) {
+    throw new Error(`Missing frame_id for ${restoredStep.step_id}`);
+  }
+
+  const stepId = await db.createStep({
+    projectId,
+    frameId,
+    title: restoredStep.title,
+    operation: restoredStep.operation,
+    description: restoredStep.description,
+    narration: restoredStep.narration,
+    sortOrder: restoredStep.sort_order,
+  });
+  const restored = insertRestoredArtifactStep(
+    artifact,
+    { ...restoredStep, legacy_step_db_id: stepId },
+    segmentId
+  );
+  await saveStepsArtifactOrDropSteps(projectId, restored, [stepId], {
+    userId,
+    action: "restore_discarded",
+    expectedRevision: artifact.revision,
+  });
+
+  try {
+    await db.reorderSteps(
+      projectId,
+      restored.steps
+        .map(step => step.legacy_step_db_id)
+        .filter((id): id is number => typeof id === "number")
+    );
+  } catch (error) {
+    logger.warn("Failed to mirror restored step order into DB", {
+      projectId,
+      segmentId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return { stepId };
+}
+
+/**
+ * 並び順で from..to（1始まり・両端を含む）のステップを、その根拠セグメントだけで再執筆する。
+ * 前後のステップは参照用の文脈として渡すだけで、範囲外のステップは書き換えない。
+ * guidance（例: もっと簡潔に）は追加の指示として執筆に渡す。
+ * DB は再執筆したステップを追加してから範囲の旧ステップを削除し、並び順を同期する。
+ */
+export async function reauthorStepRangeForProject(
+  projectId: number,
+  range: { from: number; to: number; guidance?: string },
+  userId?: number,
+  expectedRevision?: number
+): Promise<{ stepCount: number }> {
+  const { project, artifact } = await loadStepsArtifactForEdit(
+    projectId,
+    "ステップを再執筆",
+    userId,
+    expectedRevision
+  );
+  const ordered = artifact.steps
+    .slice()
+    .sort((a, b) => a.sort_order - b.sort_order);
+  const { from, to } = range;
+  if (
+    !Number.isInteger(from) ||
+    !Number.isInteger(to) ||
+    from < 1 ||
+    to < from ||
+    to > ordered.length
+  ) {
+    throw new Error("再執筆するステップの範囲が不正です");
+  }
+  const selected = ordered.slice(from - 1, to);
+  if (selected.some(step => step.source_segment_ids.length === 0)) {
+    throw new Error(
+      "根拠セグメントの無いステップは再執筆できません。範囲から外してください"
+    );
+  }
+  const segmentIds = new Set(selected.flatMap(step => step.source_segment_ids));
+  const evidence = await loadEvidenceArtifact(projectId);
+  const segments =
+    evidence?.segments.filter(segment => segmentIds.has(segment.segment_id)) ??
+    [];
+  if (!evidence || segments.length !== segmentIds.size) {
+    throw new Error(
+      "セグメントの証拠が見つかりません。動画を再処理してから再執筆してください"
+    );
+  }
+
+  const toNeighbour = (step: StepArtifact | undefined) =>
+    step
+      ? {
+          title: step.title,
+          instruction: step.instruction,
+          narration: step.narration,
+        }
+      : undefined;
+  const result = await authorSteps(
+    { ...evidence, segments },
+    {
+      outputLanguage: artifact.config.output_language,
+      audience: artifact.config.audience,
+      styleGuide: parseProjectSettings(project.settings).styleGuide,
+      rangeContext: {
+        previousStep: toNeighbour(ordered[from - 2]),
+        nextStep: toNeighbour(ordered[to]),
+        guidance: range.guidance,
+      },
+    }
+  );
+  const segmentById = new Map(
+    segments.map(segment => [segment.segment_id, segment])
+  );
+  const reauthored: StepArtifact[] = [];
+  for (const authored of result.steps) {
+    const step = buildArtifactStepFromAuthored(
+      authored,
+      from - 1 + reauthored.length,
+      segmentById
+    );
+    const frameId = step.frame_id;
+    if (!frameId) {
+      throw new Error(`Missing frame_id for ${step.step_id}`);
+    }
+    const stepId = await db.createStep({
+      projectId,
+      frameId,
+      title: step.title,
+      operation: step.operation,
+      description: step.description,
+      narration: step.narration,
+      sortOrder: step.sort_order,
+    });
+    reauthored.push({ ...step, legacy_step_db_id: stepId });
+  }
+  const discarded = result.discarded
+    .map(entry => buildDiscardedSegment(entry, segmentById))
+    .filter((entry): entry is DiscardedSegment => entry !== null);
+
+  const updated = replaceArtifactStepRange(
+    artifact,
+    from - 1,
+    to - 1,
+    reauthored,
+    discarded
+  );
+  await saveStepsArtifactOrDropSteps(
+    projectId,
+    updated,
+    reauthored
+      .map(step => step.legacy_step_db_id)
+      .filter((id): id is number => typeof id === "number"),
+    { userId, action: "reauthor", expectedRevision: artifact.revision }
+  );
+
+  try {
+    for (const step of selected) {
+      if (typeof step.legacy_step_db_id === "number") {
+        await db.deleteStep(step.legacy_step_db_id);
+      }
+    }
+    await db.reorderSteps(
+      projectId,
+      updated.steps
+        .map(step => step.legacy_step_db_id)
+        .filter((id): id is number => typeof id === "number")
+    );
+  } catch (error) {
+    logger.warn("Failed to mirror re-authored step range into DB", {
+      projectId,
+      from,
+      to,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return { stepCount: reauthored.length };
+}
+
+type EditedStepTexts = Pick<
+  StepArtifact,
+  | "title"
+  | "instruction"
+  | "expected_result"
+  | "operation"
+  | "description"
+  | "narration"
+  | "cited_ui_labels"
+>;
+
+/** 機械検証で付く要レビュー理由（分割・結合の再検証で付け直す） */
+function isVerificationReviewReason(reason: string): boolean {
+  return reason.startsWith("verification:") || reason.startsWith("style:");
+}
+
+/**
+ * 分割・結合で根拠セグメントが変わったステップを作り直す。
+ * 時刻・代表フレーム・引用ラベルの位置は根拠セグメントから算出し直し、UIラベル照合などの機械検証もやり直す。
+ * 機械検証以外の要レビュー理由（フォールバック由来など）は extraReasons として引き継ぐ。
+ * 音声は文面・尺と合わなくなるため外す（音声モードは元のステップのものを残す）。
+ */
+function rebuildEditedArtifactStep(
+  base: StepArtifact,
+  texts: EditedStepTexts,
+  sourceSegmentIds: string[],
+  segmentById: Map<string, EvidenceSegment>,
+  extraReasons: string[],
+  options: { styleGuide?: StyleGuideSettings; language: OutputLanguage }
+): StepArtifact {
+  const sourceSegments = sourceSegmentIds
+    .map(id => segmentById.get(id))
+    .filter((segment): segment is EvidenceSegment => segment !== undefined);
+  const verification = verifyStep(texts, sourceSegments, {
+    styleGuide: options.styleGuide,
+    language: options.language,
+  });
+  const reviewReasons = Array.from(
+    new Set([...extraReasons, ...verification.review_reasons])
+  );
+  const rebuilt = buildArtifactStepFromAuthored(
+    {
+      ...texts,
+      source_segment_ids: sourceSegmentIds,
+      confidence: verification.confidence,
+      needs_review: verification.needsReview || reviewReasons.length > 0,
+      review_reasons: reviewReasons,
+      warnings: verification.warnings,
+      fallback: false,
+    },
+    base.sort_order,
+    segmentById
+  );
+  return {
+    ...rebuilt,
+    legacy_step_db_id: base.legacy_step_db_id,
+    audio_mode: base.audio_mode,
+  };
+}
+
+/** 分割・結合の対象ステップの根拠セグメントを evidence.json から解決する */
+async function loadStepSegments(
+  projectId: number,
+  steps: StepArtifact[],
+  action: string
+): Promise<Map<string, EvidenceSegment>> {
+  if (steps.some(step => step.source_segment_ids.length === 0)) {
+    throw new Error(`根拠セグメントの無いステップは${action}できません`);
+  }
+  const segmentIds = new Set(steps.flatMap(step => step.source_segment_ids));
+  const evidence = await loadEvidenceArtifact(projectId);
+  const segments =
+    evidence?.segments.filter(segment => segmentIds.has(segment.segment_id)) ??
+    [];
+  if (!evidence || segments.length !== segmentIds.size) {
+    throw new Error(
+      `セグメントの証拠が見つかりません。動画を再処理してから${action}してください`
+    );
+  }
+  return new Map(segments.map(segment => [segment.segment_id, segment]));
+}
+
+/**
+ * 分割位置を、後半の最初になる根拠セグメントの位置（1以上・セグメント数未満）で返す。
+ * segmentId はそのセグメントから後半にする。timestamp（ms）はその時刻以降に始まるセグメントから後半にする。
+ */
+export function resolveStepSplitIndex(
+  segments: Pick<EvidenceSegment, "segment_id" | "t_start">[],
+  at: { segmentId?: string; timestamp?: number }
+): number {
+  if (segments.length < 2) {
+    throw new Error("根拠セグメントが1つのステップは分割できません");
+  }
+  const { segmentId, timestamp } = at;
+  const index =
+    segmentId !== undefined
+      ? segments.findIndex(segment => segment.segment_id === segmentId)
+      : timestamp !== undefined
+        ? segments.findIndex(segment => segment.t_start >= timestamp)
+        : -1;
+  if (index < 1) {
+    throw new Error(
+      "分割位置が不正です。ステップ内のセグメントの境界を指定してください"
+    );
+  }
+  return index;
+}
+
+async function createDbStepForArtifactStep(
+  projectId: number,
+  step: StepArtifact
+): Promise<number> {
+  const frameId = step.frame_id;
+  if (!frameId) {
+    throw new Error(`Missing frame_id for ${step.step_id}`);
+  }
+  return db.createStep({
+    projectId,
+    frameId,
+    title: step.title,
+    operation: step.operation,
+    description: step.description,
+    narration: step.narration,
+    sortOrder: step.sort_order,
+  });
+}
+
+/**
+ * 作り直したステップの本文・代表フレームと steps.json の並び順を DB に反映する（失敗は警告のみ）。
+ * 作り直したステップは音声を持たないので、DB の行の音声も外す（古い文面の音声を使わない）。
+ */
+async function mirrorEditedStepsIntoDb(
+  projectId: number,
+  artifact: StepsArtifact,
+  updatedSteps: StepArtifact[],
+  deletedStepIds: number[],
+  userId?: number
+): Promise<void> {
+  try {
+    for (const step of updatedSteps) {
+      if (typeof step.legacy_step_db_id !== "number") continue;
+      await db.updateStep(
+        step.legacy_step_db_id,
+        {
+          frameId: step.frame_id,
+          title: step.title,
+          operation: step.operation,
+          description: step.description,
+          narration: step.narration,
+          audioUrl: step.audio_url ?? null,
+          audioKey: step.audio_key ?? null,
+        },
+        userId
+      );
+    }
+    for (const stepId of deletedStepIds) {
+      await db.deleteStep(stepId, userId);
+    }
+    await db.reorderSteps(
+      projectId,
+      artifact.steps
+        .map(step => step.legacy_step_db_id)
+        .filter((id): id is number => typeof id === "number")
+    );
+  } catch (error) {
+    logger.warn("Failed to mirror edited steps into DB", {
+      projectId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * ステップを根拠セグメントの境界で2つに分ける（segmentId または timestamp で位置を指定）。
+ * 文面は両方に写し、どちらも「分割後の文面を確認」として要レビューにする。
+ * 引用ラベルは照合できた側に振り分け、時刻・代表フレームとあわせて検証し直す。
+ * DB は元の行を前半に使い、後半の行を追加する。
+ */
+export async function splitStepForProject(
+  projectId: number,
+  input: { stepId: number; segmentId?: string; timestamp?: number },
+  userId?: number,
+  expectedRevision?: number
+): Promise<{ stepIds: [number, number] }> {
+  const { project, artifact } = await loadStepsArtifactForEdit(
+    projectId,
+    "ステップを分割",
+    userId,
+    expectedRevision
+  );
+  const ordered = artifact.steps
+    .slice()
+    .sort((a, b) => a.sort_order - b.sort_order);
+  const index = ordered.findIndex(
+    step => step.legacy_step_db_id === input.stepId
+  );
+  if (index === -1) {
+    throw new Error("ステップがsteps artifact内に見つかりませんでした");
+  }
+  const step = ordered[index];
+  const segmentById = await loadStepSegments(projectId, [step], "分割");
+  const splitIndex = resolveStepSplitIndex(
+    step.source_segment_ids.map(id => segmentById.get(id)!),
+    input
+  );
+  const halves = [
+    step.source_segment_ids.slice(0, splitIndex),
+    step.source_segment_ids.slice(splitIndex),
+  ];
+
+  // 引用ラベルは照合できた側へ。どちらでも照合できないものは前半に残し、要レビューにする
+  const labelsByHalf = halves.map(ids =>
+    step.cited_ui_labels.filter(
+      label =>
+        verifyCitedLabels(
+          [label],
+          ids.map(id => segmentById.get(id)!)
+        ).verified.length > 0
+    )
+  );
+  const unplaced = step.cited_ui_labels.filter(
+    label => !labelsByHalf.some(labels => labels.includes(label))
+  );
+  labelsByHalf[0] = step.cited_ui_labels.filter(
+    label => labelsByHalf[0].includes(label) || unplaced.includes(label)
+  );
+
+  const extraReasons = [
+    ...step.review_reasons.filter(
+      reason => !isVerificationReviewReason(reason)
+    ),
+    "edit:split" satisfies ReviewReasonCode,
+  ];
+  const options = {
+    styleGuide: parseProjectSettings(project.settings).styleGuide,
+    language: artifact.config.output_language,
+  };
+  const [first, second] = halves.map((ids, half) =>
+    rebuildEditedArtifactStep(
+      half === 0
+        ? step
+        : { ...step, sort_order: index + 1, legacy_step_db_id: undefined },
+      { ...step, cited_ui_labels: labelsByHalf[half] },
+      ids,
+      segmentById,
+      extraReasons,
+      options
+    )
+  );
+
+  const secondStepId = await createDbStepForArtifactStep(projectId, second);
+  const updated = replaceArtifactStepRange(
+    artifact,
+    index,
+    index,
+    [first, { ...second, legacy_step_db_id: secondStepId }],
+    []
+  );
+  await saveStepsArtifactOrDropSteps(projectId, updated, [secondStepId], {
+    userId,
+    action: "split",
+    expectedRevision: artifact.revision,
+  });
+  await mirrorEditedStepsIntoDb(projectId, updated, [first], [], userId);
+  return { stepIds: [input.stepId, secondStepId] };
+}
+
+/**
+ * 隣り合う2つのステップを1つに結合する。
+ * 根拠セグメント・本文はつなげ、引用ラベルは重複を除いてまとめ、期待結果は後ろのステップのものを使う。
+ * 時刻・代表フレーム・引用ラベルの位置は結合後の根拠セグメントから算出し直し、検証し直す。
+ * DB は前のステップの行を結合後のステップに使い、後ろのステップの行を削除する。
+ */
+export async function mergeStepsForProject(
+  projectId: number,
+  input: { stepId: number; nextStepId: number },
+  userId?: number,
+  expectedRevision?: number
+): Promise<{ stepId: number }> {
+  const { project, artifact } = await loadStepsArtifactForEdit(
+    projectId,
+    "ステップを結合",
+    userId,
+    expectedRevision
+  );
+  const ordered = artifact.steps
+    .slice()
+    .sort((a, b) => a.sort_order - b.sort_order);
+  const index = ordered.findIndex(
+    step => step.legacy_step_db_id === input.stepId
+  );
+  const nextIndex = ordered.findIndex(
+    step => step.legacy_step_db_id === input.nextStepId
+  );
+  if (index === -1 || nextIndex === -1) {
+    throw new Error("ステップがsteps artifact内に見つかりませんでした");
+  }
+  if (nextIndex !== index + 1) {
+    throw new Error("結合できるのは隣り合うステップだけです");
+  }
+  const step = ordered[index];
+  const next = ordered[nextIndex];
+  const segmentById = await loadStepSegments(projectId, [step, next], "結合");
+
+  const join = (a: string, b: string, separator: string) =>
+    [a.trim(), b.trim()].filter(Boolean).join(separator);
+  const merged = rebuildEditedArtifactStep(
+    step,
+    {
+      title: step.title,
+      instruction: join(step.instruction, next.instruction, "\n"),
+      expected_result: next.expected_result,
+      operation: join(step.operation, next.operation, "\n"),
+      description: join(step.description, next.description, "\n"),
+      narration: join(step.narration, next.narration, " "),
+      cited_ui_labels: Array.from(
+        new Set([...step.cited_ui_labels, ...next.cited_ui_labels])
+      ),
+    },
+    [...step.source_segment_ids, ...next.source_segment_ids],
+    segmentById,
+    Array.from(
+      new Set(
+        [...step.review_reasons, ...next.review_reasons].filter(
+          reason => !isVerificationReviewReason(reason)
+        )
+      )
+    ),
+    {
+      styleGuide: parseProjectSettings(project.settings).styleGuide,
+      language: artifact.config.output_language,
+    }
+  );
+
+  const updated = replaceArtifactStepRange(
+    artifact,
+    index,
+    index + 1,
+    [merged],
+    []
+  );
+  await saveStepsArtifact(projectId, updated, undefined, {
+    userId,
+    action: "merge",
+    expectedRevision: artifact.revision,
+  });
+  await mirrorEditedStepsIntoDb(
+    projectId,
+    updated,
+    [merged],
+    [input.nextStepId],
+    userId
+  );
+  return { stepId: input.stepId };
+}
+
+/**
+ * 分割されずに見落とされた操作のために、元動画の任意の時刻からステップを手動で追加する。
+ * その時刻のフレームを切り出して OCR し、author=true なら1セグメント分として文面を執筆する
+ * （false なら既定の文面）。根拠セグメントは持たせず（source_segment_ids: []）、
+ * 「手動で追加」として要レビューにする。ステップは時系列の位置に差し込み、DB にも追加する。
+ */
+export async function insertStepAtTimestampForProject(
+  projectId: number,
+  input: { timestamp: number; author?: boolean },
+  userId?: number,
+  expectedRevision?: number
+): Promise<{ stepId: number }> {
+  const { project, artifact } = await loadStepsArtifactForEdit(
+    projectId,
+    "ステップを追加",
+    userId,
+    expectedRevision
+  );
+  const evidence = await loadEvidenceArtifact(projectId);
+  if (input.author && !evidence) {
+    throw new Error(
+      "動画の証拠が無いため文面を執筆できません。執筆せずに追加してください"
+    );
+  }
+
+  const frame = await captureProjectFrame(
+    project,
+    input.timestamp,
+    evidence?.video.duration_ms
+  );
+  let saved = false;
+  try {
+    const ocr = await extractFrameOcrUnified(frame.localPath, 0).catch(
+      (error): OcrResult => ({
+        provider: ENV.ocrProvider,
+        lines: [],
+        regions: [],
+        warnings: [
+          `OCR failed: ${(error instanceof Error ? error.message : String(error)).substring(0, 120)}`,
+        ],
+        confidence: 0,
+      })
+    );
+    const segment: EvidenceSegment = {
+      segment_id: `manual-${frame.timestamp}`,
+      t_start: frame.timestamp,
+      t_end: frame.timestamp,
+      transition_start: frame.timestamp,
+      before_frame: null,
+      after_frame: {
+        t: frame.timestamp,
+        image_key: frame.imageKey,
+        image_url: frame.imageUrl,
+        frame_id: frame.frameId,
+      },
+      changed_region_bbox: null,
+      ocr_lines: ocr.lines,
+      ocr_focus: [],
+      ocr_line_details: buildOcrLineDetails(ocr.lines, ocr.regions),
+      ocr_focus_details: [],
+      // 証拠抽出と同じく、操作の少し前からの発話を根拠にする
+      transcript_snippet: evidence
+        ? pickTranscriptSnippet(
+            evidence.transcript.segments,
+            frame.timestamp - evidence.config.asr_lead_ms,
+            frame.timestamp
+          )
+        : "",
+      coalesced_from: 1,
+      warnings: ocr.warnings,
+    };
+
+    const outputLanguage = artifact.config.output_language;
+    const placeholder = buildFallbackStep(
+      segment,
+      artifact.steps.length,
+      "unassigned_segment",
+      "手動で追加したステップ",
+      outputLanguage
+    );
+    const authored =
+      input.author && evidence
+        ? ((
+            await authorSteps(
+              { ...evidence, segments: [segment] },
+              {
+                outputLanguage,
+                audience: artifact.config.audience,
+                styleGuide: parseProjectSettings(project.settings).styleGuide,
+              }
+            )
+          ).steps.find(step => !step.fallback) ?? placeholder)
+        : placeholder;
+    const built = buildArtifactStepFromAuthored(
+      {
+        ...authored,
+        needs_review: true,
+        review_reasons: [
+          ...(authored.fallback ? [] : authored.review_reasons),
+          "edit:human_added" satisfies ReviewReasonCode,
+        ],
+        warnings: authored.fallback ? [] : authored.warnings,
+      },
+      artifact.steps.length,
+      new Map([[segment.segment_id, segment]])
+    );
+    const step = { ...built, source_segment_ids: [] };
+
+    const stepId = await createDbStepForArtifactStep(projectId, step);
+    const inserted = insertArtifactStepByTime(artifact, {
+      ...step,
+      legacy_step_db_id: stepId,
+    });
+    await saveStepsArtifactOrDropSteps(projectId, inserted, [stepId], {
+      userId,
+      action: "insert",
+      expectedRevision: artifact.revision,
+    });
+    saved = true;
+    await mirrorEditedStepsIntoDb(projectId, inserted, [], [], userId);
+    return { stepId };
+  } catch (error) {
+    // 保存されなかった（執筆の失敗や版の競合）フレームはどのステップからも参照されないので消す
+    if (!saved) {
+      await discardProjectFrame(frame).catch(discardError => {
+        logger.warn("Failed to discard unsaved captured frame", {
+          projectId,
+          frameId: frame.frameId,
+          message:
+            discardError instanceof Error
+              ? discardError.message
+              : String(discardError),
+        });
+      });
+    }
+    throw error;
+  } finally {
+    await frame.cleanup();
+  }
+}
+
 /**
  * 単一フレームを再分析してステップ内容を返す。
  * 保存先（steps.json / DB）は呼び出し側で決める。
@@ -40,6 +40,7 @@ const project: Project = {
   processingProgress: 100,
   processingMessage: null,
   errorMessage: null,
+  settings: null,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -287,4 +288,29 @@ describe("step source loading", () => {
     expect(state.warnings).toEqual([]);
     expect(state.invalidArtifactFallbackUsed).toBe(false);
   });
+
+  it("warns when rendering a translation made before the latest edit of the original", async () => {
+    const { revision } = await saveStepsArtifact(50, makeArtifact(), undefined, { action: "generate" });
+    await saveStepsArtifact(50, {
+      ...makeArtifact(),
+      config: { ...makeArtifact().config, output_language: "en" },
+      translation: {
+        source_language: "ja",
+        source_generated_at: "2026-06-21T00:00:00.000Z",
+        source_revision: revision,
+        translated_at: "2026-06-22T00:00:00.000Z",
+        llm_provider: "openai",
+        llm_model: "gpt-5.4",
+        prompt_version: "translate-v1",
+      },
+    }, "en");
+
+    await expect(loadProjectStepRenderState(50, 1, { language: "en" })).resolves.toMatchObject({ warnings: [] });
+
+    await saveStepsArtifact(50, makeArtifact(), undefined, { action: "update" });
+    const state = await loadProjectStepRenderState(50, 1, { language: "en" });
+    expect(state.warnings).toEqual([
+      "英語（English）の翻訳は原本の編集より前に作られています。原本の編集を反映するには翻訳を作り直してください",
+    ]);
+  });
 });
@@ -21,6 +21,7 @@ const dbMocks = vi.hoisted(() => ({
   getFrameById: vi.fn(),
   getStepById: vi.fn(),
   updateStep: vi.fn(),
+  createStep: vi.fn(),
   deleteStep: vi.fn(),
   reorderSteps: vi.fn(),
 }));
@@ -40,13 +41,20 @@ const videoGeneratorMocks = vi.hoisted(() => ({
   generateVideo: vi.fn(),
 }));
 
+const frameCaptureMocks = vi.hoisted(() => ({
+  captureProjectFrame: vi.fn(),
+  registerProjectFrameImage: vi.fn(),
+  discardProjectFrame: vi.fn(async () => {}),
+}));
+
 vi.mock("./db", () => dbMocks);
+vi.mock("./frameCapture", () => frameCaptureMocks);
 vi.mock("./stepGenerator", () => stepGeneratorMocks);
 vi.mock("./slideGenerator", () => slideGeneratorMocks);
 vi.mock("./videoGenerator", () => videoGeneratorMocks);
 
 import { appRouter } from "./routers";
-import { loadStepsArtifact, saveStepsArtifact } from "./stepsArtifact";
+import { loadStepsArtifact, patchStepArtifact, saveStepsArtifact } from "./stepsArtifact";
 
 const project: Project = {
   id: 50,
@@ -59,6 +67,7 @@ const project: Project = {
   processingProgress: 100,
   processingMessage: null,
   errorMessage: null,
+  settings: null,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -263,6 +272,19 @@ describe("step router artifact-first read routes", () => {
       warnings: ["regenerated warning"],
       confidence: 0.72,
     });
+    frameCaptureMocks.captureProjectFrame.mockResolvedValue({
+      frameId: 120,
+      timestamp: 800,
+      imageKey: "projects/50/frames/captured.jpg",
+      imageUrl: "/api/storage/projects/50/frames/captured.jpg",
+      localPath: "/tmp/captured.jpg",
+      cleanup: vi.fn(async () => {}),
+    });
+    frameCaptureMocks.registerProjectFrameImage.mockResolvedValue({
+      frameId: 130,
+      imageKey: "projects/50/frames/uploaded.png",
+      imageUrl: "/api/storage/projects/50/frames/uploaded.png",
+    });
     stepGeneratorMocks.generateStepsForProject.mockResolvedValue(undefined);
     stepGeneratorMocks.regenerateStep.mockResolvedValue(undefined);
     slideGeneratorMocks.generateSlides.mockResolvedValue("/api/storage/projects/50/slides/demo.pptx");
@@ -310,6 +332,7 @@ describe("step router artifact-first read routes", () => {
       tStart: 0,
       tEnd: 1000,
       audioMode: "silent",
+      screenshotReplaced: false,
     });
   });
 
@@ -378,6 +401,9 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.artifactInfo({ projectId: 50 })).resolves.toEqual({
       overview: null,
       reviewByStepId: {},
+      discardedSegments: [],
+      sections: [],
+      revision: 1,
       syncStatus: {
         source: "db_steps",
         artifactPrimary: false,
@@ -395,6 +421,9 @@ describe("step router artifact-first read routes", () => {
       await expect(caller.step.artifactInfo({ projectId: 50 })).resolves.toEqual({
         overview: null,
         reviewByStepId: {},
+        discardedSegments: [],
+        sections: [],
+        revision: 0,
         syncStatus: {
           source: "db_steps",
           artifactPrimary: false,
@@ -421,6 +450,9 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.artifactInfo({ projectId: 50 })).resolves.toEqual({
       overview: null,
       reviewByStepId: {},
+      discardedSegments: [],
+      sections: [],
+      revision: 0,
       syncStatus: {
         source: "invalid_artifact",
         artifactPrimary: false,
@@ -453,6 +485,7 @@ describe("step router artifact-first read routes", () => {
       tEnd: 900,
       audioMode: "tts",
       markReviewed: true,
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
@@ -489,6 +522,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       id: 501,
       title: "Promoted title",
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     expect(dbMocks.updateStep).toHaveBeenCalledWith(501, { title: "Promoted title" }, 1);
@@ -512,6 +546,7 @@ describe("step router artifact-first read routes", () => {
         projectId: 50,
         id: 501,
         title: "Cannot promote",
+        expectedRevision: 0,
       })).rejects.toThrow("storage gone");
       expect(dbMocks.updateStep).not.toHaveBeenCalled();
     } finally {
@@ -530,6 +565,7 @@ describe("step router artifact-first read routes", () => {
       title: "Artifact only",
       tStart: 100,
       tEnd: 900,
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
@@ -563,6 +599,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       id: 501,
       title: "Bridge mismatch rejected",
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifact内に見つかりません");
 
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
@@ -592,6 +629,7 @@ describe("step router artifact-first read routes", () => {
       id: 501,
       tStart: 100,
       tEnd: 900,
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifact内に見つかりません");
 
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
@@ -621,6 +659,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       id: 501,
       title: "Sort order fallback rejected",
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifact内に見つかりません");
 
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
@@ -645,6 +684,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       id: 501,
       title: "Missing everywhere",
+      expectedRevision: 1,
     })).rejects.toThrow("ステップが見つかりません");
 
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
@@ -667,6 +707,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       id: 501,
       title: "Unauthorized",
+      expectedRevision: 1,
     })).rejects.toThrow("プロジェクトが見つかりません");
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
   });
@@ -679,6 +720,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       id: 501,
       title: "Wrong project",
+      expectedRevision: 1,
     })).rejects.toThrow("ステップが見つかりません");
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
   });
@@ -692,6 +734,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       id: 501,
       title: "Artifact wins",
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
@@ -719,6 +762,7 @@ describe("step router artifact-first read routes", () => {
       id: 501,
       tStart: 900,
       tEnd: 100,
+      expectedRevision: 1,
     })).rejects.toThrow("t_end");
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
@@ -739,6 +783,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.update({
       id: 501,
       title: "DB fallback title",
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifactが不正");
 
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
@@ -755,6 +800,7 @@ describe("step router artifact-first read routes", () => {
       tStart: 100,
       tEnd: 900,
       markReviewed: true,
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifactが不正");
 
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
@@ -766,7 +812,7 @@ describe("step router artifact-first read routes", () => {
     dbMocks.getStepsByProjectId.mockResolvedValue([dbStep2]);
     const caller = createCaller();
 
-    await expect(caller.step.delete({ projectId: 50, id: 501 })).resolves.toEqual({ success: true });
+    await expect(caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
       steps: [
@@ -787,7 +833,7 @@ describe("step router artifact-first read routes", () => {
     dbMocks.getStepsByProjectId.mockResolvedValue([dbStep2]);
     const caller = createCaller();
 
-    await expect(caller.step.delete({ id: 501 })).resolves.toEqual({ success: true });
+    await expect(caller.step.delete({ id: 501, expectedRevision: 1 })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
       steps: [
@@ -806,7 +852,7 @@ describe("step router artifact-first read routes", () => {
     await saveStepsArtifact(50, makeTwoStepArtifact());
     const caller = createCaller();
 
-    await expect(caller.step.delete({ projectId: 50, id: 501 })).resolves.toEqual({ success: true });
+    await expect(caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
       steps: [
@@ -825,7 +871,7 @@ describe("step router artifact-first read routes", () => {
       .mockResolvedValueOnce([dbStep2]);
     const caller = createCaller();
 
-    await expect(caller.step.delete({ projectId: 50, id: 501 })).resolves.toEqual({ success: true });
+    await expect(caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
       config: expect.objectContaining({ prompt_version: "legacy-adapter-v1" }),
@@ -853,7 +899,7 @@ describe("step router artifact-first read routes", () => {
     dbMocks.getStepsByProjectId.mockResolvedValue([dbStep2]);
     const caller = createCaller();
 
-    await expect(caller.step.delete({ projectId: 50, id: 501 })).rejects.toThrow("steps artifact内に見つかりません");
+    await expect(caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 })).rejects.toThrow("steps artifact内に見つかりません");
 
     expect(dbMocks.deleteStep).not.toHaveBeenCalled();
     expect(dbMocks.reorderSteps).not.toHaveBeenCalled();
@@ -876,7 +922,7 @@ describe("step router artifact-first read routes", () => {
     });
     const caller = createCaller();
 
-    await expect(caller.step.delete({ id: 501 })).rejects.toThrow("steps artifact内に見つかりません");
+    await expect(caller.step.delete({ id: 501, expectedRevision: 1 })).rejects.toThrow("steps artifact内に見つかりません");
 
     expect(dbMocks.deleteStep).not.toHaveBeenCalled();
     expect(dbMocks.reorderSteps).not.toHaveBeenCalled();
@@ -894,7 +940,7 @@ describe("step router artifact-first read routes", () => {
     });
     const caller = createCaller();
 
-    await expect(caller.step.delete({ projectId: 50, id: 501 })).rejects.toThrow("ステップが見つかりません");
+    await expect(caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 })).rejects.toThrow("ステップが見つかりません");
 
     expect(dbMocks.deleteStep).not.toHaveBeenCalled();
     expect(dbMocks.reorderSteps).not.toHaveBeenCalled();
@@ -908,6 +954,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.delete({
       projectId: 50,
       id: 501,
+      expectedRevision: 1,
     })).rejects.toThrow("プロジェクトが見つかりません");
     expect(dbMocks.deleteStep).not.toHaveBeenCalled();
   });
@@ -919,6 +966,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.delete({
       projectId: 50,
       id: 501,
+      expectedRevision: 1,
     })).rejects.toThrow("ステップが見つかりません");
     expect(dbMocks.deleteStep).not.toHaveBeenCalled();
   });
@@ -929,7 +977,7 @@ describe("step router artifact-first read routes", () => {
     const caller = createCaller();
 
     try {
-      await expect(caller.step.delete({ projectId: 50, id: 501 })).rejects.toThrow("storage gone");
+      await expect(caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 })).rejects.toThrow("storage gone");
       expect(dbMocks.deleteStep).not.toHaveBeenCalled();
     } finally {
       writeSpy.mockRestore();
@@ -941,7 +989,7 @@ describe("step router artifact-first read routes", () => {
     dbMocks.deleteStep.mockRejectedValueOnce(new Error("DB gone"));
     const caller = createCaller();
 
-    await expect(caller.step.delete({ projectId: 50, id: 501 })).resolves.toEqual({ success: true });
+    await expect(caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 })).resolves.toEqual({ success: true });
 
     await expect(caller.step.listByProject({ projectId: 50 })).resolves.toEqual([
       expect.objectContaining({
@@ -957,7 +1005,7 @@ describe("step router artifact-first read routes", () => {
     dbMocks.reorderSteps.mockRejectedValueOnce(new Error("DB reorder gone"));
     const caller = createCaller();
 
-    await expect(caller.step.delete({ projectId: 50, id: 501 })).resolves.toEqual({ success: true });
+    await expect(caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
       steps: [
@@ -975,7 +1023,7 @@ describe("step router artifact-first read routes", () => {
     const filePath = await writeMalformedArtifact(50);
     const caller = createCaller();
 
-    await expect(caller.step.delete({ projectId: 50, id: 501 })).rejects.toThrow("steps artifactが不正");
+    await expect(caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 })).rejects.toThrow("steps artifactが不正");
 
     expect(dbMocks.deleteStep).not.toHaveBeenCalled();
     await expect(fs.readFile(filePath, "utf8")).resolves.toBe("{ not valid json");
@@ -988,6 +1036,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.reorder({
       projectId: 50,
       stepIds: [502, 501],
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifactが不正");
 
     expect(dbMocks.reorderSteps).not.toHaveBeenCalled();
@@ -1001,6 +1050,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.reorder({
       projectId: 50,
       stepIds: [502, 501],
+      expectedRevision: 1,
     })).rejects.toThrow("プロジェクトが見つかりません");
     expect(dbMocks.reorderSteps).not.toHaveBeenCalled();
   });
@@ -1012,6 +1062,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.reorder({
       projectId: 50,
       stepIds: [502, 501],
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
@@ -1038,6 +1089,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.reorder({
       projectId: 50,
       stepIds: [502, 501],
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
@@ -1065,10 +1117,12 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.reorder({
       projectId: 50,
       stepIds: [502],
+      expectedRevision: 1,
     })).rejects.toThrow("artifactのステップ順序を解決できませんでした");
     await expect(caller.step.reorder({
       projectId: 50,
       stepIds: [501, 501],
+      expectedRevision: 1,
     })).rejects.toThrow("artifactのステップ順序を解決できませんでした");
     expect(dbMocks.reorderSteps).not.toHaveBeenCalled();
   });
@@ -1082,6 +1136,7 @@ describe("step router artifact-first read routes", () => {
       await expect(caller.step.reorder({
         projectId: 50,
         stepIds: [502, 501],
+        expectedRevision: 1,
       })).rejects.toThrow("storage gone");
       expect(dbMocks.reorderSteps).not.toHaveBeenCalled();
     } finally {
@@ -1097,6 +1152,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.reorder({
       projectId: 50,
       stepIds: [502, 501],
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(caller.step.listByProject({ projectId: 50 })).resolves.toEqual([
@@ -1113,6 +1169,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).toHaveBeenCalledWith(
@@ -1160,6 +1217,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.regenerate({
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
@@ -1180,6 +1238,7 @@ describe("step router artifact-first read routes", () => {
     await expect(caller.step.regenerate({
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).rejects.toThrow("ステップが見つかりません");
 
     expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).not.toHaveBeenCalled();
@@ -1195,6 +1254,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
@@ -1216,6 +1276,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(loadStepsArtifact(50)).resolves.toMatchObject({
@@ -1249,6 +1310,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifact内に見つかりません");
 
     expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).not.toHaveBeenCalled();
@@ -1278,6 +1340,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifact内に見つかりません");
 
     expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).not.toHaveBeenCalled();
@@ -1295,6 +1358,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifactを作成できないため");
 
     expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).not.toHaveBeenCalled();
@@ -1311,6 +1375,7 @@ describe("step router artifact-first read routes", () => {
         projectId: 50,
         stepId: 501,
         frameId: 101,
+        expectedRevision: 1,
       })).rejects.toThrow("storage gone");
       expect(dbMocks.updateStep).not.toHaveBeenCalled();
     } finally {
@@ -1327,6 +1392,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).rejects.toThrow("LLM timeout");
 
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
@@ -1350,6 +1416,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).resolves.toEqual({ success: true });
 
     await expect(caller.step.listByProject({ projectId: 50 })).resolves.toEqual([
@@ -1369,6 +1436,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).rejects.toThrow("steps artifactが不正");
 
     expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).not.toHaveBeenCalled();
@@ -1384,6 +1452,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).rejects.toThrow("ステップが見つかりません");
     expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).not.toHaveBeenCalled();
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
@@ -1398,6 +1467,7 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).rejects.toThrow("プロジェクトが見つかりません");
     expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).not.toHaveBeenCalled();
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
@@ -1411,8 +1481,347 @@ describe("step router artifact-first read routes", () => {
       projectId: 50,
       stepId: 501,
       frameId: 101,
+      expectedRevision: 1,
     })).rejects.toThrow("フレームが見つかりません");
     expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).not.toHaveBeenCalled();
     expect(dbMocks.updateStep).not.toHaveBeenCalled();
   });
+
+  it("records each steps.json edit as a revision and undoes a delete by recreating the DB row", async () => {
+    await saveStepsArtifact(50, makeTwoStepArtifact());
+    dbMocks.getStepsByProjectId.mockResolvedValue([dbStep2]);
+    dbMocks.createStep.mockResolvedValue(601);
+    const caller = createCaller();
+    await caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 });
+
+    await expect(caller.step.diffRevisions({ projectId: 50, from: 1, to: 2 })).resolves.toEqual({
+      steps: [{ change: "removed", step_id: "step-1", title: "Artifact title", fields: [] }],
+      reordered: false,
+      overviewChanged: false,
+      sectionsChanged: false,
+    });
+    await expect(caller.step.undo({ projectId: 50, expectedRevision: 2 })).resolves.toEqual({ success: true, revision: 3 });
+
+    expect(dbMocks.createStep).toHaveBeenCalledWith(expect.objectContaining({
+      projectId: 50,
+      frameId: 100,
+      title: "Artifact title",
+      sortOrder: 0,
+    }));
+    expect(dbMocks.updateStep).toHaveBeenCalledWith(502, expect.objectContaining({ title: "Artifact title 2" }), 1);
+    expect(dbMocks.reorderSteps).toHaveBeenLastCalledWith(50, [601, 502]);
+    const restored = await loadStepsArtifact(50);
+    expect(restored?.steps.map((step) => step.legacy_step_db_id)).toEqual([601, 502]);
+
+    const history = await caller.step.revisions({ projectId: 50 });
+    expect(history).toMatchObject({ head: 1, undoTarget: null, redoTarget: 2 });
+    expect(history.revisions.map((entry) => [entry.revision, entry.action, entry.user_id])).toEqual([
+      [3, "undo", 1],
+      [2, "delete", 1],
+      [1, "save", null],
+    ]);
+
+    await expect(caller.step.redo({ projectId: 50, expectedRevision: 3 })).resolves.toEqual({ success: true, revision: 4 });
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({
+      steps: [expect.objectContaining({ step_id: "step-1", legacy_step_db_id: 502 })],
+    });
+    await expect(caller.step.revisions({ projectId: 50 })).resolves.toMatchObject({
+      head: 2,
+      undoTarget: 1,
+      redoTarget: null,
+    });
+  });
+
+  it("leaves DB rows untouched when a concurrent undo conflicts", async () => {
+    await saveStepsArtifact(50, makeTwoStepArtifact());
+    dbMocks.getStepsByProjectId.mockResolvedValue([dbStep2]);
+    dbMocks.createStep.mockResolvedValue(601);
+    const caller = createCaller();
+    await caller.step.delete({ projectId: 50, id: 501, expectedRevision: 1 });
+    dbMocks.updateStep.mockClear();
+    dbMocks.deleteStep.mockClear();
+    dbMocks.reorderSteps.mockClear();
+
+    const results = await Promise.allSettled([
+      caller.step.undo({ projectId: 50, expectedRevision: 2 }),
+      caller.step.undo({ projectId: 50, expectedRevision: 2 }),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ code: "CONFLICT" });
+    // 競合した側は DB のステップ行を作り直さない
+    expect(dbMocks.createStep).toHaveBeenCalledTimes(1);
+    expect(dbMocks.updateStep).toHaveBeenCalledTimes(1);
+    expect(dbMocks.reorderSteps).toHaveBeenCalledTimes(1);
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({ revision: 3 });
+  });
+
+  it("restores a revision as a new undoable revision and rejects undo without history", async () => {
+    const caller = createCaller();
+    await expect(caller.step.undo({ projectId: 50, expectedRevision: 0 })).rejects.toThrow("取り消せる操作がありません");
+    await expect(caller.step.restoreRevision({ projectId: 50, revision: 1, expectedRevision: 0 })).rejects.toThrow(
+      "指定した版が見つかりません",
+    );
+
+    await saveStepsArtifact(50, makeArtifact());
+    await caller.step.update({ projectId: 50, id: 501, title: "Edited title", expectedRevision: 1 });
+    await expect(caller.step.restoreRevision({ projectId: 50, revision: 1, expectedRevision: 2 })).resolves.toEqual({
+      success: true,
+      revision: 3,
+    });
+
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({
+      steps: [expect.objectContaining({ title: "Artifact title" })],
+    });
+    expect(dbMocks.updateStep).toHaveBeenLastCalledWith(501, expect.objectContaining({ title: "Artifact title" }), 1);
+    const history = await caller.step.revisions({ projectId: 50 });
+    expect(history.revisions[0]).toMatchObject({ revision: 3, action: "restore", restored_from: 1, parent: 2 });
+    expect(history).toMatchObject({ head: 3, undoTarget: 2, redoTarget: null });
+  });
+
+  it("keeps generated audio out of the revision history and carries it over on undo", async () => {
+    await saveStepsArtifact(50, makeTwoStepArtifact());
+    dbMocks.getStepsByProjectId.mockResolvedValue([dbStep, dbStep2]);
+    const caller = createCaller();
+    await caller.step.update({ projectId: 50, id: 501, title: "Edited title", expectedRevision: 1 });
+
+    await patchStepArtifact(50, (artifact) => ({
+      ...artifact,
+      steps: artifact.steps.map((step) => ({
+        ...step,
+        audio_url: `/api/storage/projects/50/audio/new-${step.legacy_step_db_id}.mp3`,
+        audio_key: `projects/50/audio/new-${step.legacy_step_db_id}.mp3`,
+      })),
+    }), undefined, { action: "audio", system: true });
+
+    // 音声の書き戻しは版を進めないので、開いている編集画面の revision のまま操作できる
+    await expect(caller.step.artifactInfo({ projectId: 50 })).resolves.toMatchObject({ revision: 2 });
+    await expect(caller.step.revisions({ projectId: 50 })).resolves.toMatchObject({
+      head: 2,
+      undoTarget: 1,
+      revisions: [{ revision: 2, action: "update" }, { revision: 1, action: "save" }],
+    });
+
+    // undo は利用者の直前の編集を取り消し、ナレーションの変わらない音声は残す
+    await expect(caller.step.undo({ projectId: 50, expectedRevision: 2 })).resolves.toEqual({
+      success: true,
+      revision: 3,
+    });
+    const restored = await loadStepsArtifact(50);
+    expect(restored?.steps.map((step) => [step.title, step.audio_url])).toEqual([
+      ["Artifact title", "/api/storage/projects/50/audio/new-501.mp3"],
+      ["Artifact title 2", "/api/storage/projects/50/audio/new-502.mp3"],
+    ]);
+    expect(dbMocks.updateStep).toHaveBeenCalledWith(
+      502,
+      expect.objectContaining({ audioUrl: "/api/storage/projects/50/audio/new-502.mp3" }),
+      1,
+    );
+  });
+
+  it("rejects revision history for inaccessible projects", async () => {
+    dbMocks.getProjectById.mockResolvedValue(undefined);
+    const caller = createCaller();
+
+    await expect(caller.step.revisions({ projectId: 50 })).rejects.toThrow("プロジェクトが見つかりません");
+    await expect(caller.step.undo({ projectId: 50, expectedRevision: 1 })).rejects.toThrow("プロジェクトが見つかりません");
+    expect(dbMocks.updateStep).not.toHaveBeenCalled();
+  });
+
+  it("rejects stale step edits with a structured conflict before touching the DB", async () => {
+    await saveStepsArtifact(50, makeTwoStepArtifact());
+    const caller = createCaller();
+    const { revision } = await caller.step.artifactInfo({ projectId: 50 });
+    expect(revision).toBe(1);
+
+    await caller.step.update({ projectId: 50, id: 501, title: "First reviewer", expectedRevision: revision });
+    const stale = caller.step.update({ projectId: 50, id: 501, title: "Second reviewer", expectedRevision: revision });
+
+    await expect(stale).rejects.toMatchObject({
+      code: "CONFLICT",
+      cause: { conflict: { projectId: 50, expectedRevision: 1, currentRevision: 2 } },
+    });
+    await expect(caller.step.delete({ projectId: 50, id: 502, expectedRevision: revision })).rejects.toMatchObject({
+      code: "CONFLICT",
+    });
+    await expect(caller.step.reorder({ projectId: 50, stepIds: [502, 501], expectedRevision: revision })).rejects.toMatchObject({
+      code: "CONFLICT",
+    });
+    expect(dbMocks.updateStep).toHaveBeenCalledTimes(1);
+    expect(dbMocks.deleteStep).not.toHaveBeenCalled();
+    expect(dbMocks.reorderSteps).not.toHaveBeenCalled();
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({
+      revision: 2,
+      steps: [
+        expect.objectContaining({ title: "First reviewer" }),
+        expect.objectContaining({ title: "Artifact title 2" }),
+      ],
+    });
+
+    await expect(caller.step.update({ projectId: 50, id: 501, title: "Merged", expectedRevision: 2 })).resolves.toEqual({
+      success: true,
+    });
+  });
+
+  it("rejects steps.json edits that do not send the edited revision", async () => {
+    await saveStepsArtifact(50, makeArtifact());
+    const caller = createCaller();
+    const input = { projectId: 50, id: 501, title: "Blind edit" } as Parameters<typeof caller.step.update>[0];
+
+    await expect(caller.step.update(input)).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(dbMocks.updateStep).not.toHaveBeenCalled();
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({
+      revision: 1,
+      steps: [expect.objectContaining({ title: "Artifact title" })],
+    });
+  });
+
+  it("checks the expected revision before analyzing a frame for regenerate", async () => {
+    await saveStepsArtifact(50, makeArtifact());
+    const caller = createCaller();
+
+    await expect(caller.step.regenerate({
+      projectId: 50,
+      stepId: 501,
+      frameId: 101,
+      expectedRevision: 0,
+    })).rejects.toMatchObject({ code: "CONFLICT" });
+    expect(stepGeneratorMocks.analyzeFrameForStepRegeneration).not.toHaveBeenCalled();
+  });
+
+  it("replaces a step screenshot with another video frame and keeps the original for revert", async () => {
+    await saveStepsArtifact(50, makeArtifact());
+    await saveStepsArtifact(50, {
+      ...makeArtifact(),
+      translation: {
+        source_language: "ja",
+        source_generated_at: "2026-06-21T00:00:00.000Z",
+        translated_at: "2026-06-22T00:00:00.000Z",
+        llm_provider: "openai",
+        llm_model: "gpt-5.4",
+        prompt_version: "translate-v1",
+      },
+    }, "en");
+    const caller = createCaller();
+
+    await expect(caller.step.replaceScreenshot({
+      projectId: 50,
+      stepId: 501,
+      timestamp: 800,
+      expectedRevision: 1,
+    })).resolves.toEqual({ success: true, frameId: 120 });
+
+    expect(frameCaptureMocks.captureProjectFrame).toHaveBeenCalledWith(project, 800);
+    expect(dbMocks.updateStep).toHaveBeenCalledWith(501, { frameId: 120 }, 1);
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({
+      revision: 2,
+      steps: [{ frame_id: 120, screenshot_override: { source: "video_frame", original_frame_id: 100 } }],
+    });
+    await expect(loadStepsArtifact(50, "en")).resolves.toMatchObject({
+      steps: [{ frame_id: 120, screenshot_override: { source: "video_frame", original_frame_id: 100 } }],
+    });
+    const info = await caller.step.artifactInfo({ projectId: 50 });
+    expect(info.reviewByStepId[501]?.screenshotReplaced).toBe(true);
+
+    // 2回目の差し替えでも最初の画像を元として残す
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+    await caller.step.replaceScreenshot({ projectId: 50, stepId: 501, imageBase64: png.toString("base64"), expectedRevision: 2 });
+    expect(frameCaptureMocks.registerProjectFrameImage).toHaveBeenCalledWith(50, png, "image/png", 0);
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({
+      steps: [{ frame_id: 130, screenshot_override: { source: "upload", original_frame_id: 100 } }],
+    });
+
+    await expect(caller.step.revertScreenshot({ projectId: 50, stepId: 501, expectedRevision: 3 })).resolves.toEqual({
+      success: true,
+      frameId: 100,
+    });
+    const reverted = await loadStepsArtifact(50);
+    expect(reverted?.steps[0].frame_id).toBe(100);
+    expect(reverted?.steps[0].screenshot_override).toBeUndefined();
+    expect(dbMocks.updateStep).toHaveBeenLastCalledWith(501, { frameId: 100 }, 1);
+    await expect(loadStepsArtifact(50, "en")).resolves.toMatchObject({ steps: [{ frame_id: 100 }] });
+  });
+
+  it("rejects non-image uploads and reverting an unreplaced screenshot without saving", async () => {
+    await saveStepsArtifact(50, makeArtifact());
+    const caller = createCaller();
+
+    await expect(caller.step.replaceScreenshot({
+      projectId: 50,
+      stepId: 501,
+      imageBase64: Buffer.from("GIF89a").toString("base64"),
+      expectedRevision: 1,
+    })).rejects.toThrow("PNG または JPEG の画像を指定してください");
+    await expect(caller.step.replaceScreenshot({ projectId: 50, stepId: 501, expectedRevision: 1 })).rejects.toThrow(
+      "差し替える画像の時刻かファイルを指定してください",
+    );
+    await expect(caller.step.revertScreenshot({ projectId: 50, stepId: 501, expectedRevision: 1 })).rejects.toThrow(
+      "このステップのスクリーンショットは差し替えられていません",
+    );
+    expect(frameCaptureMocks.registerProjectFrameImage).not.toHaveBeenCalled();
+    expect(dbMocks.updateStep).not.toHaveBeenCalled();
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({ revision: 1, steps: [{ frame_id: 100 }] });
+  });
+
+  it("discards the registered frame when the screenshot replacement conflicts with a concurrent edit", async () => {
+    await saveStepsArtifact(50, makeArtifact());
+    frameCaptureMocks.captureProjectFrame.mockImplementationOnce(async () => {
+      // 切り出している間に別の編集が保存される
+      await saveStepsArtifact(50, makeArtifact(), undefined, { action: "update" });
+      return {
+        frameId: 120,
+        timestamp: 800,
+        imageKey: "projects/50/frames/captured.jpg",
+        imageUrl: "/api/storage/projects/50/frames/captured.jpg",
+        localPath: "/tmp/captured.jpg",
+        cleanup: vi.fn(async () => {}),
+      };
+    });
+    const caller = createCaller();
+
+    await expect(caller.step.replaceScreenshot({
+      projectId: 50,
+      stepId: 501,
+      timestamp: 800,
+      expectedRevision: 1,
+    })).rejects.toMatchObject({ code: "CONFLICT" });
+
+    expect(frameCaptureMocks.discardProjectFrame).toHaveBeenCalledWith({
+      frameId: 120,
+      imageKey: "projects/50/frames/captured.jpg",
+    });
+    expect(dbMocks.updateStep).not.toHaveBeenCalled();
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({ revision: 2, steps: [{ frame_id: 100 }] });
+  });
+
+  it("records the DB step frame as the original when the artifact step has no frame, and refuses without one", async () => {
+    const artifact = makeArtifact();
+    const frameless = {
+      ...artifact,
+      steps: [{
+        ...artifact.steps[0],
+        frame_id: undefined,
+        representative_frames: [{ ...artifact.steps[0].representative_frames[0], frame_id: undefined }],
+      }],
+    };
+    await saveStepsArtifact(50, frameless);
+    const caller = createCaller();
+
+    await caller.step.replaceScreenshot({ projectId: 50, stepId: 501, timestamp: 800, expectedRevision: 1 });
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({
+      steps: [{ frame_id: 120, screenshot_override: { source: "video_frame", original_frame_id: 100 } }],
+    });
+
+    await saveStepsArtifact(50, frameless);
+    dbMocks.getStepById.mockResolvedValue(undefined);
+    frameCaptureMocks.captureProjectFrame.mockClear();
+    await expect(caller.step.replaceScreenshot({
+      projectId: 50,
+      stepId: 501,
+      timestamp: 800,
+      expectedRevision: 3,
+    })).rejects.toThrow("元のスクリーンショットが見つからないため、差し替えられません");
+    expect(frameCaptureMocks.captureProjectFrame).not.toHaveBeenCalled();
+    await expect(loadStepsArtifact(50)).resolves.toMatchObject({ revision: 3 });
+  });
 });
@@ -7,6 +7,7 @@ import {
   deleteArtifactStepByLegacyId,
   patchArtifactStepForUpdate,
   reorderArtifactStepsByLegacyIds,
+  replaceArtifactStepRange,
 } from "./stepSource";
 
 const frames: Frame[] = [
@@ -119,6 +120,7 @@ function makeArtifact(): StepsArtifact {
         review_reasons: [],
       },
     ],
+    sections: [],
   };
 }
 
@@ -266,4 +268,110 @@ describe("step source artifact helpers", () => {
     const duplicate = reorderArtifactStepsByLegacyIds(makeArtifact(), [202, 202]);
     expect(duplicate.matched).toBe(false);
   });
+
+  it("replaces only the selected step range and keeps other steps untouched", () => {
+    const artifact = makeArtifact();
+    const [original] = artifact.steps.filter((step) => step.sort_order === 0);
+    const reauthored = artifact.steps
+      .filter((step) => step.sort_order === 1)
+      .flatMap((step) => [
+        { ...step, legacy_step_db_id: 301, title: "入力", audio_url: undefined, audio_key: undefined },
+        { ...step, legacy_step_db_id: 302, title: "保存", audio_url: undefined, audio_key: undefined },
+      ]);
+
+    const result = replaceArtifactStepRange(
+      { ...artifact, discarded_segments: [] },
+      1,
+      1,
+      reauthored,
+      [{ segment_id: "seg-3", reason: "カーソル移動のみ", t_start: 2000, t_end: 2500, thumbnails: [] }],
+    );
+
+    expect(result.steps).toHaveLength(3);
+    expect(result.steps[0]).toEqual(original);
+    expect(result.steps.map((step) => step.legacy_step_db_id)).toEqual([201, 301, 302]);
+    expect(result.steps.map((step) => step.step_id)).toEqual(["step-1", "step-2", "step-3"]);
+    expect(result.discarded_segments.map((segment) => segment.segment_id)).toEqual(["seg-3"]);
+  });
+
+  it("keeps sections anchored to their steps when steps are inserted or deleted", () => {
+    const sectioned = {
+      ...makeArtifact(),
+      discarded_segments: [],
+      sections: [
+        { title: "開く", summary: "", start_step_id: "step-1", end_step_id: "step-1" },
+        { title: "入力", summary: "", start_step_id: "step-2", end_step_id: "step-2" },
+      ],
+    };
+    const reauthored = sectioned.steps
+      .filter((step) => step.sort_order === 1)
+      .flatMap((step) => [
+        { ...step, legacy_step_db_id: 301 },
+        { ...step, legacy_step_db_id: 302 },
+      ]);
+
+    const replaced = replaceArtifactStepRange(sectioned, 1, 1, reauthored, []);
+    expect(replaced.sections.map((section) => [section.title, section.start_step_id, section.end_step_id])).toEqual([
+      ["開く", "step-1", "step-1"],
+      ["入力", "step-2", "step-3"],
+    ]);
+
+    // 章のステップが全て消えた章は落とし、残った章が先頭から始まる
+    const deleted = deleteArtifactStepByLegacyId(replaced, 201);
+    expect(deleted.artifact.sections.map((section) => [section.title, section.start_step_id, section.end_step_id])).toEqual([
+      ["入力", "step-1", "step-2"],
+    ]);
+  });
+
+  it("keeps a split or merged chapter-opening step in its own chapter", () => {
+    const [first] = makeArtifact().steps.filter((step) => step.sort_order === 0);
+    const steps = [0, 1, 2, 3].map((index) => ({
+      ...first,
+      step_id: `step-${index + 1}`,
+      sort_order: index,
+      legacy_step_db_id: 201 + index,
+      t_start: index * 1000,
+      t_end: (index + 1) * 1000,
+    }));
+    const sectioned = {
+      ...makeArtifact(),
+      steps,
+      discarded_segments: [],
+      sections: [
+        { title: "開く", summary: "", start_step_id: "step-1", end_step_id: "step-2" },
+        { title: "入力", summary: "", start_step_id: "step-3", end_step_id: "step-4" },
+      ],
+    };
+    const chapters = (artifact: StepsArtifact) =>
+      artifact.sections.map((section) => [section.title, section.start_step_id, section.end_step_id]);
+
+    // 章の先頭の step-3 を分割しても、両方の半分は「入力」の章に残る
+    const split = replaceArtifactStepRange(
+      sectioned,
+      2,
+      2,
+      [
+        { ...steps[2], legacy_step_db_id: 301, t_end: 2500 },
+        { ...steps[2], legacy_step_db_id: 302, t_start: 2500 },
+      ],
+      [],
+    );
+    expect(chapters(split)).toEqual([
+      ["開く", "step-1", "step-2"],
+      ["入力", "step-3", "step-5"],
+    ]);
+
+    // 章の先頭の step-3 と step-4 を結合しても「入力」の章のまま
+    const merged = replaceArtifactStepRange(
+      sectioned,
+      2,
+      3,
+      [{ ...steps[2], legacy_step_db_id: 303, t_end: 4000 }],
+      [],
+    );
+    expect(chapters(merged)).toEqual([
+      ["開く", "step-1", "step-2"],
+      ["入力", "step-3", "step-3"],
+    ]);
+  });
 });
@@ -1,15 +1,37 @@
+import {
+  OUTPUT_LANGUAGE_LABELS,
+  type OutputLanguage,
+} from "@shared/outputLanguage";
 import type { Frame, InsertStep, Project, Step } from "../drizzle/schema";
 import { createLogger } from "./_core/logger";
 import * as db from "./db";
+import { validateImageFile } from "./fileValidator";
+import { captureProjectFrame, discardProjectFrame, registerProjectFrameImage } from "./frameCapture";
 import type { RegeneratedStepData } from "./stepGenerator";
 import {
   buildLegacyRenderableStepsFromArtifact,
+  assertStepsArtifactRevision,
   buildStepsArtifactFromDb,
+  diffStepsArtifacts,
+  findStepSectionsError,
+  isStepsTranslationOutdated,
+  listStepsRevisions,
+  listTranslatedStepsArtifacts,
   loadStepsArtifactResult,
+  loadStepsArtifactRevision,
+  readStepsArtifactRevision,
+  resolveStepSections,
+  resolveStepsUndoState,
   saveStepsArtifact,
+  saveStepsArtifactAfter,
   type LegacyRenderableStep,
   type StepAudioMode,
+  type StepSection,
   type StepsArtifact,
+  type StepsArtifactChange,
+  type StepsArtifactDiff,
+  type StepsRevision,
+  type StepsUndoState,
 } from "./stepsArtifact";
 
 const logger = createLogger("StepSource");
@@ -43,6 +65,11 @@ export type LoadProjectStepRenderStateOptions = {
    * corrupt artifact. Edit routes should keep the strict default.
    */
   invalidArtifactFallback?: boolean;
+  /**
+   * 翻訳版（steps.<language>.json）から描画する。翻訳版は原本の派生物なので
+   * DB への互換フォールバックは行わず、無ければエラーにする。
+   */
+  language?: OutputLanguage;
 };
 
 export class InvalidStepsArtifactError extends Error {
@@ -182,6 +209,67 @@ export function artifactContainsStepTarget(
   return artifact.steps.some((step) => step.legacy_step_db_id === stepId);
 }
 
+/**
+ * ステップの追加・削除後に step_id・sort_order を振り直し、セクションの範囲を追従させる。
+ * セクションは残ったステップ（replaces で置き換え元を指定したステップを含む）のうち最初のものに
+ * 付いていく。全ステップが消えたセクションはその位置に差し込まれたステップ（範囲の再執筆結果）の
+ * 章とし、無ければ削除する。
+ * 並べ替え（ステップ数が変わらない）ではセクションは位置のまま据え置くので使わない。
+ */
+function renumberArtifactSteps(
+  artifact: StepsArtifact,
+  ordered: StepsArtifact["steps"],
+  replaces: Map<StepsArtifact["steps"][number], string> = new Map(),
+): StepsArtifact {
+  const oldById = new Map(artifact.steps.map((step) => [step.step_id, step]));
+  // 並び替え後の各ステップが元のどのステップ（step_id）に当たるか。分割・結合・再執筆で
+  // 作り直したステップは置き換え元の章に属する
+  const sourceIdByIndex = ordered.map((step) =>
+    replaces.get(step) ?? (oldById.get(step.step_id) === step ? step.step_id : undefined),
+  );
+  let survivorsBefore = 0;
+  const anchored: Array<{
+    section: StepsArtifact["sections"][number];
+    anchor: number;
+    survived: boolean;
+  }> = [];
+  for (const resolved of resolveStepSections(artifact)) {
+    const sectionStepIds = new Set(resolved.stepIds);
+    const newIndexes = sourceIdByIndex.flatMap((id, index) =>
+      id !== undefined && sectionStepIds.has(id) ? [index] : [],
+    );
+    anchored.push({
+      section: resolved.section,
+      anchor: newIndexes.length > 0 ? Math.min(...newIndexes) : survivorsBefore,
+      survived: newIndexes.length > 0,
+    });
+    survivorsBefore += newIndexes.length;
+  }
+  const anchors = anchored
+    .filter((entry) => entry.anchor < ordered.length)
+    .sort((a, b) => a.anchor - b.anchor || Number(b.survived) - Number(a.survived))
+    .filter((entry, index, list) => index === 0 || list[index - 1].anchor !== entry.anchor);
+  const sections = anchors.map((entry, index) => {
+    const nextAnchor = anchors[index + 1]?.anchor ?? ordered.length;
+    return {
+      ...entry.section,
+      // 最初のセクションより前に来たステップは最初のセクションに含める
+      start_step_id: `step-${index === 0 ? 1 : entry.anchor + 1}`,
+      end_step_id: `step-${nextAnchor}`,
+    };
+  });
+
+  return {
+    ...artifact,
+    steps: ordered.map((step, index) => ({
+      ...step,
+      sort_order: index,
+      step_id: `step-${index + 1}`,
+    })),
+    sections,
+  };
+}
+
 export function deleteArtifactStepByLegacyId(
   artifact: StepsArtifact,
   stepId: number,
@@ -191,18 +279,73 @@ export function deleteArtifactStepByLegacyId(
     return { artifact, matched: false };
   }
 
-  const steps = remaining
+  return {
+    artifact: renumberArtifactSteps(
+      artifact,
+      remaining.slice().sort((a, b) => a.sort_order - b.sort_order),
+    ),
+    matched: true,
+  };
+}
+
+/** ステップを時系列の位置（開始時刻が後のステップの直前）へ差し込む */
+export function insertArtifactStepByTime(
+  artifact: StepsArtifact,
+  step: StepsArtifact["steps"][number],
+): StepsArtifact {
+  const ordered = artifact.steps
     .slice()
-    .sort((a, b) => a.sort_order - b.sort_order)
-    .map((step, index) => ({
-      ...step,
-      sort_order: index,
-      step_id: `step-${index + 1}`,
-    }));
+    .sort((a, b) => a.sort_order - b.sort_order);
+  const insertAt = ordered.findIndex((existing) => existing.t_start > step.t_start);
+  ordered.splice(insertAt < 0 ? ordered.length : insertAt, 0, step);
+  return renumberArtifactSteps(artifact, ordered);
+}
 
+/**
+ * 破棄セグメントから復元したステップを時系列の位置へ差し込み、
+ * 復元したセグメントを discarded_segments から外す。
+ */
+export function insertRestoredArtifactStep(
+  artifact: StepsArtifact,
+  step: StepsArtifact["steps"][number],
+  segmentId: string,
+): StepsArtifact {
+  const inserted = insertArtifactStepByTime(artifact, step);
   return {
-    artifact: { ...artifact, steps },
-    matched: true,
+    ...inserted,
+    discarded_segments: inserted.discarded_segments.filter(
+      (discarded) => discarded.segment_id !== segmentId,
+    ),
+  };
+}
+
+/**
+ * 並び順で start..end（0始まり・両端を含む）のステップを再執筆したステップに置き換える。
+ * 範囲外のステップはそのまま残し、再執筆で破棄されたセグメントは discarded_segments に時系列で足す。
+ * 置き換えたステップは、開始時刻が含まれる元のステップ（無ければ範囲の先頭）の章に入れる。
+ */
+export function replaceArtifactStepRange(
+  artifact: StepsArtifact,
+  start: number,
+  end: number,
+  steps: StepsArtifact["steps"],
+  discarded: StepsArtifact["discarded_segments"],
+): StepsArtifact {
+  const ordered = artifact.steps
+    .slice()
+    .sort((a, b) => a.sort_order - b.sort_order);
+  const removed = ordered.splice(start, end - start + 1, ...steps);
+  const replaces = new Map(
+    steps.flatMap((step) => {
+      const source = removed.filter((old) => old.t_start <= step.t_start).pop() ?? removed[0];
+      return source ? [[step, source.step_id] as const] : [];
+    }),
+  );
+  return {
+    ...renumberArtifactSteps(artifact, ordered, replaces),
+    discarded_segments: [...artifact.discarded_segments, ...discarded].sort(
+      (a, b) => a.t_start - b.t_start,
+    ),
   };
 }
 
@@ -278,9 +421,10 @@ export async function loadOrCreateStepsArtifactForProject(
     };
   }
 
-  const artifact = buildStepsArtifactFromDb(project, frames, dbSteps);
+  let artifact = buildStepsArtifactFromDb(project, frames, dbSteps);
   try {
-    await saveStepsArtifact(projectId, artifact);
+    const { revision } = await saveStepsArtifact(projectId, artifact, undefined, { userId, action: "import_db" });
+    artifact = { ...artifact, revision };
   } catch (error) {
     logger.warn("Failed to persist compatibility artifact; continuing with in-memory state", {
       projectId,
@@ -307,11 +451,52 @@ export async function listProjectStepsArtifactFirst(
   return buildStepListFromArtifact(projectId, state.artifact, state.frames);
 }
 
+async function loadTranslatedStepRenderState(
+  projectId: number,
+  language: OutputLanguage,
+  userId?: number,
+): Promise<ProjectStepRenderState> {
+  const project = await db.getProjectById(projectId, userId);
+  if (!project) {
+    throw new Error("プロジェクトが見つかりません");
+  }
+  const loadResult = await loadStepsArtifactResult(projectId, language);
+  if (loadResult.status === "invalid") {
+    throw new InvalidStepsArtifactError(projectId, loadResult.reason, loadResult.message);
+  }
+  if (loadResult.status === "missing") {
+    throw new Error(
+      `${OUTPUT_LANGUAGE_LABELS[language]}の翻訳がありません。先に翻訳を作成してください`,
+    );
+  }
+  const frames = await db.getFramesByProjectId(projectId, userId);
+  const warnings: string[] = [];
+  const { translation } = loadResult.artifact;
+  if (translation && isStepsTranslationOutdated(translation, await readStepsArtifactRevision(projectId))) {
+    warnings.push(
+      `${OUTPUT_LANGUAGE_LABELS[language]}の翻訳は原本の編集より前に作られています。原本の編集を反映するには翻訳を作り直してください`,
+    );
+  }
+  return {
+    project,
+    frames,
+    artifact: loadResult.artifact,
+    steps: buildStepListFromArtifact(projectId, loadResult.artifact, frames),
+    source: "steps_artifact",
+    warnings,
+    invalidArtifactFallbackUsed: false,
+  };
+}
+
 export async function loadProjectStepRenderState(
   projectId: number,
   userId?: number,
   options: LoadProjectStepRenderStateOptions = {},
 ): Promise<ProjectStepRenderState> {
+  if (options.language) {
+    return loadTranslatedStepRenderState(projectId, options.language, userId);
+  }
+
   let state: StepSourceState;
   const warnings: string[] = [];
   let invalidArtifactFallbackUsed = false;
@@ -363,6 +548,8 @@ export async function updateProjectStepArtifactFirst(
     projectId?: number;
     stepId: number;
     data: ArtifactStepUpdate;
+    /** 編集の元にした steps.json の revision（古ければ競合） */
+    expectedRevision?: number;
   },
   userId?: number,
 ): Promise<UpdateProjectStepResult> {
@@ -396,6 +583,7 @@ export async function updateProjectStepArtifactFirst(
     return { artifactUpdated: false, dbUpdated: false };
   }
 
+  assertStepsArtifactRevision(projectId, state.artifact.revision, input.expectedRevision);
   const patchResult = patchArtifactStepForUpdate(
     state.artifact,
     input.stepId,
@@ -408,7 +596,11 @@ export async function updateProjectStepArtifactFirst(
     throw new Error("ステップがsteps artifact内に見つかりませんでした");
   }
 
-  await saveStepsArtifact(projectId, patchResult.artifact);
+  await saveStepsArtifact(projectId, patchResult.artifact, undefined, {
+    userId,
+    action: "update",
+    expectedRevision: state.artifact.revision,
+  });
 
   let dbUpdated = false;
   if (hasDbFields && existingStep) {
@@ -431,6 +623,7 @@ export async function deleteProjectStepArtifactFirst(
   input: {
     projectId?: number;
     stepId: number;
+    expectedRevision?: number;
   },
   userId?: number,
 ): Promise<DeleteProjectStepResult> {
@@ -447,6 +640,7 @@ export async function deleteProjectStepArtifactFirst(
   if (!state.artifact) {
     throw new Error("steps artifactを作成できないため、ステップを削除できません");
   }
+  assertStepsArtifactRevision(projectId, state.artifact.revision, input.expectedRevision);
 
   const deleted = deleteArtifactStepByLegacyId(state.artifact, input.stepId);
   if (!deleted.matched) {
@@ -456,7 +650,11 @@ export async function deleteProjectStepArtifactFirst(
     throw new Error("ステップがsteps artifact内に見つかりませんでした");
   }
 
-  await saveStepsArtifact(projectId, deleted.artifact);
+  await saveStepsArtifact(projectId, deleted.artifact, undefined, {
+    userId,
+    action: "delete",
+    expectedRevision: state.artifact.revision,
+  });
 
   let dbDeleted = false;
   if (existingStep) {
@@ -489,6 +687,7 @@ export async function reorderProjectStepsArtifactFirst(
   input: {
     projectId: number;
     stepIds: number[];
+    expectedRevision?: number;
   },
   userId?: number,
 ): Promise<ReorderProjectStepsResult> {
@@ -496,13 +695,18 @@ export async function reorderProjectStepsArtifactFirst(
   if (!state.artifact) {
     throw new Error("steps artifactを作成できないため、順序を保存できません");
   }
+  assertStepsArtifactRevision(input.projectId, state.artifact.revision, input.expectedRevision);
 
   const reordered = reorderArtifactStepsByLegacyIds(state.artifact, input.stepIds);
   if (!reordered.matched) {
     throw new Error("artifactのステップ順序を解決できませんでした");
   }
 
-  await saveStepsArtifact(input.projectId, reordered.artifact);
+  await saveStepsArtifact(input.projectId, reordered.artifact, undefined, {
+    userId,
+    action: "reorder",
+    expectedRevision: state.artifact.revision,
+  });
 
   let dbReordered = false;
   try {
@@ -518,6 +722,215 @@ export async function reorderProjectStepsArtifactFirst(
   return { artifactUpdated: true, dbReordered };
 }
 
+/** 章立てを置き換える。章は steps.json だけが持つ（DB のステップ行には無い） */
+export async function updateProjectSectionsArtifactFirst(
+  input: {
+    projectId: number;
+    sections: StepSection[];
+    expectedRevision?: number;
+  },
+  userId?: number,
+): Promise<void> {
+  const state = await loadOrCreateStepsArtifactForProject(input.projectId, userId);
+  if (!state.artifact) {
+    throw new Error("steps artifactを作成できないため、章を保存できません");
+  }
+  assertStepsArtifactRevision(input.projectId, state.artifact.revision, input.expectedRevision);
+  const error = findStepSectionsError(input.sections, state.artifact.steps);
+  if (error) {
+    throw new Error(error);
+  }
+  await saveStepsArtifact(
+    input.projectId,
+    { ...state.artifact, sections: input.sections },
+    undefined,
+    { userId, action: "sections", expectedRevision: state.artifact.revision },
+  );
+}
+
+export type StepsRevisionHistory = StepsUndoState & {
+  revisions: StepsRevision[];
+};
+
+/** 版の履歴（新しい順）と undo/redo の行き先 */
+export async function getProjectStepsRevisionHistory(
+  projectId: number,
+  userId?: number,
+): Promise<StepsRevisionHistory> {
+  const project = await db.getProjectById(projectId, userId);
+  if (!project) {
+    throw new Error("プロジェクトが見つかりません");
+  }
+  const revisions = await listStepsRevisions(projectId);
+  return { ...resolveStepsUndoState(revisions), revisions: revisions.slice().reverse() };
+}
+
+/** 2つの版の差分（from → to） */
+export async function diffProjectStepsRevisions(
+  input: { projectId: number; from: number; to: number },
+  userId?: number,
+): Promise<StepsArtifactDiff> {
+  const project = await db.getProjectById(input.projectId, userId);
+  if (!project) {
+    throw new Error("プロジェクトが見つかりません");
+  }
+  const [before, after] = await Promise.all([
+    loadStepsArtifactRevision(input.projectId, input.from),
+    loadStepsArtifactRevision(input.projectId, input.to),
+  ]);
+  if (!before || !after) {
+    throw new Error("指定した版が見つかりません");
+  }
+  return diffStepsArtifacts(before, after);
+}
+
+/**
+ * 版の内容に DB のステップ行を合わせる（版の復元・undo/redo 用）。
+ * 削除済みの行は作り直して legacy_step_db_id を付け替え、版に無い行は削除する。
+ */
+async function syncDbStepsWithArtifact(
+  projectId: number,
+  artifact: StepsArtifact,
+  userId?: number,
+): Promise<StepsArtifact> {
+  const dbSteps = await db.getStepsByProjectId(projectId, userId);
+  const dbStepIds = new Set(dbSteps.map((step) => step.id));
+  const ordered = artifact.steps.slice().sort((a, b) => a.sort_order - b.sort_order);
+  const steps: StepsArtifact["steps"] = [];
+  for (const step of ordered) {
+    const frameId = step.frame_id ?? step.representative_frames[0]?.frame_id;
+    const data = {
+      title: step.title,
+      operation: step.operation,
+      description: step.description,
+      narration: step.narration,
+      audioUrl: step.audio_url ?? null,
+      audioKey: step.audio_key ?? null,
+      ...(frameId !== undefined ? { frameId } : {}),
+    };
+    if (step.legacy_step_db_id !== undefined && dbStepIds.has(step.legacy_step_db_id)) {
+      await db.updateStep(step.legacy_step_db_id, data, userId);
+      steps.push(step);
+      continue;
+    }
+    if (frameId === undefined) {
+      throw new Error(`${step.step_id} のフレームが無いため、ステップを復元できません`);
+    }
+    const stepId = await db.createStep({ ...data, projectId, frameId, sortOrder: step.sort_order });
+    steps.push({ ...step, legacy_step_db_id: stepId });
+  }
+
+  const keptIds = new Set(steps.map((step) => step.legacy_step_db_id));
+  for (const dbStep of dbSteps) {
+    if (!keptIds.has(dbStep.id)) {
+      await db.deleteStep(dbStep.id, userId);
+    }
+  }
+  await db.reorderSteps(
+    projectId,
+    steps.map((step) => step.legacy_step_db_id).filter((id): id is number => typeof id === "number"),
+  );
+  return { ...artifact, steps };
+}
+
+/**
+ * 戻す版の内容に、今の音声を引き継ぐ（ナレーションが変わらないステップだけ）。
+ * 音声は版の履歴に残らない書き戻しで付くため、版の内容には生成前の状態が残っている。
+ */
+function carryOverStepAudio(snapshot: StepsArtifact, current: StepsArtifact | null): StepsArtifact {
+  const identity = (step: StepsArtifact["steps"][number]) =>
+    step.legacy_step_db_id !== undefined ? `db:${step.legacy_step_db_id}` : `step:${step.step_id}`;
+  const currentById = new Map((current?.steps ?? []).map((step) => [identity(step), step]));
+  return {
+    ...snapshot,
+    steps: snapshot.steps.map((step) => {
+      const latest = currentById.get(identity(step));
+      if (!latest?.audio_url || latest.narration !== step.narration) {
+        return step;
+      }
+      return { ...step, audio_url: latest.audio_url, audio_key: latest.audio_key };
+    }),
+  };
+}
+
+async function restoreProjectStepsRevision(
+  projectId: number,
+  revision: number,
+  change: StepsArtifactChange,
+  userId?: number,
+): Promise<{ revision: number }> {
+  const project = await db.getProjectById(projectId, userId);
+  if (!project) {
+    throw new Error("プロジェクトが見つかりません");
+  }
+  const snapshot = await loadStepsArtifactRevision(projectId, revision);
+  if (!snapshot) {
+    throw new Error("指定した版が見つかりません");
+  }
+  // 競合を確かめてから DB を書き換え、保存し終えるまで他の保存を割り込ませない
+  const saved = await saveStepsArtifactAfter(
+    projectId,
+    { ...change, userId, restoredFrom: revision },
+    async () => {
+      const current = await loadStepsArtifactResult(projectId);
+      return syncDbStepsWithArtifact(
+        projectId,
+        carryOverStepAudio(snapshot, current.status === "loaded" ? current.artifact : null),
+        userId,
+      );
+    },
+  );
+  // 戻した先ではなく、新しく書いた版（クライアントが次の編集で送る版）を返す
+  return { revision: saved.revision };
+}
+
+/** 指定した版の内容に戻す。戻したこと自体も新しい版として記録する（undo で取り消せる） */
+export async function restoreProjectStepsRevisionArtifactFirst(
+  input: { projectId: number; revision: number; expectedRevision?: number },
+  userId?: number,
+): Promise<{ revision: number }> {
+  return restoreProjectStepsRevision(
+    input.projectId,
+    input.revision,
+    { action: "restore", expectedRevision: input.expectedRevision },
+    userId,
+  );
+}
+
+/** 直前の操作を取り消す（head の親の版へ戻る） */
+export async function undoProjectStepsArtifactFirst(
+  input: { projectId: number; expectedRevision?: number },
+  userId?: number,
+): Promise<{ revision: number }> {
+  const { undoTarget } = await getProjectStepsRevisionHistory(input.projectId, userId);
+  if (undoTarget === null) {
+    throw new Error("取り消せる操作がありません");
+  }
+  return restoreProjectStepsRevision(
+    input.projectId,
+    undoTarget,
+    { action: "undo", moveHeadTo: undoTarget, expectedRevision: input.expectedRevision },
+    userId,
+  );
+}
+
+/** 取り消した操作をやり直す */
+export async function redoProjectStepsArtifactFirst(
+  input: { projectId: number; expectedRevision?: number },
+  userId?: number,
+): Promise<{ revision: number }> {
+  const { redoTarget } = await getProjectStepsRevisionHistory(input.projectId, userId);
+  if (redoTarget === null) {
+    throw new Error("やり直せる操作がありません");
+  }
+  return restoreProjectStepsRevision(
+    input.projectId,
+    redoTarget,
+    { action: "redo", moveHeadTo: redoTarget, expectedRevision: input.expectedRevision },
+    userId,
+  );
+}
+
 export async function regenerateProjectStepArtifactFirst(
   input: {
     projectId?: number;
@@ -526,6 +939,7 @@ export async function regenerateProjectStepArtifactFirst(
     data: RegeneratedStepData;
     state?: StepSourceState;
     existingStep?: Step | null;
+    expectedRevision?: number;
   },
   userId?: number,
 ): Promise<RegenerateProjectStepResult> {
@@ -545,6 +959,7 @@ export async function regenerateProjectStepArtifactFirst(
   if (!state.artifact) {
     throw new Error("steps artifactを作成できないため、ステップを再生成できません");
   }
+  assertStepsArtifactRevision(projectId, state.artifact.revision, input.expectedRevision);
 
   let matched = false;
   const steps = state.artifact.steps.map((step) => {
@@ -556,6 +971,8 @@ export async function regenerateProjectStepArtifactFirst(
     return {
       ...step,
       frame_id: input.frame.id,
+      // 再生成したフレームが新しい代表画像になる（差し替えは外す）
+      screenshot_override: undefined,
       representative_frames: [
         {
           frame_id: input.frame.id,
@@ -579,7 +996,11 @@ export async function regenerateProjectStepArtifactFirst(
     throw new Error("ステップがsteps artifact内に見つかりませんでした");
   }
 
-  await saveStepsArtifact(projectId, { ...state.artifact, steps });
+  await saveStepsArtifact(projectId, { ...state.artifact, steps }, undefined, {
+    userId,
+    action: "regenerate",
+    expectedRevision: state.artifact.revision,
+  });
 
   let dbUpdated = false;
   if (existingStep) {
@@ -603,3 +1024,192 @@ export async function regenerateProjectStepArtifactFirst(
 
   return { artifactUpdated: true, dbUpdated };
 }
+
+export type StepScreenshotSource =
+  | { kind: "video_frame"; timestamp: number }
+  | { kind: "upload"; image: Buffer };
+
+/**
+ * ステップの代表スクリーンショット（frame_id）を差し替える。screenshot_override に最初の差し替え前の
+ * frame_id を残すので、何度差し替えても元の画像に戻せる。override を undefined にすると差し替えを外す。
+ */
+export function setArtifactStepScreenshot(
+  artifact: StepsArtifact,
+  stepId: number,
+  frameId: number,
+  override: StepsArtifact["steps"][number]["screenshot_override"],
+): { artifact: StepsArtifact; matched: boolean } {
+  let matched = false;
+  const steps = artifact.steps.map((step) => {
+    if (step.legacy_step_db_id !== stepId) {
+      return step;
+    }
+    matched = true;
+    return { ...step, frame_id: frameId, screenshot_override: override };
+  });
+  return { artifact: { ...artifact, steps }, matched };
+}
+
+async function applyProjectStepScreenshot(
+  input: {
+    projectId: number;
+    stepId: number;
+    expectedRevision?: number;
+  },
+  userId: number | undefined,
+  resolve: (
+    state: StepSourceState & { artifact: StepsArtifact },
+    step: StepsArtifact["steps"][number],
+  ) => Promise<{
+    frameId: number;
+    override: StepsArtifact["steps"][number]["screenshot_override"];
+    /** 差し替えのために登録したフレーム。steps.json を保存できなければ消す */
+    registered?: { frameId: number; imageKey: string };
+  }>,
+): Promise<{ frameId: number }> {
+  const state = await loadOrCreateStepsArtifactForProject(input.projectId, userId);
+  const { artifact } = state;
+  if (!artifact) {
+    throw new Error("steps artifactを作成できないため、スクリーンショットを差し替えられません");
+  }
+  assertStepsArtifactRevision(input.projectId, artifact.revision, input.expectedRevision);
+  const step = artifact.steps.find((candidate) => candidate.legacy_step_db_id === input.stepId);
+  if (!step) {
+    throw new Error("ステップがsteps artifact内に見つかりませんでした");
+  }
+
+  const { frameId, override, registered } = await resolve({ ...state, artifact }, step);
+  const updated = setArtifactStepScreenshot(artifact, input.stepId, frameId, override);
+  let saved: { revision: number };
+  try {
+    saved = await saveStepsArtifact(input.projectId, updated.artifact, undefined, {
+      userId,
+      action: "screenshot",
+      expectedRevision: artifact.revision,
+    });
+  } catch (error) {
+    // 版の競合などで保存できなかった画像はどのステップからも参照されないので消す
+    if (registered) {
+      await discardProjectFrame(registered).catch((discardError) => {
+        logger.warn("Failed to discard unsaved screenshot frame", {
+          projectId: input.projectId,
+          stepId: input.stepId,
+          frameId: registered.frameId,
+          message: discardError instanceof Error ? discardError.message : String(discardError),
+        });
+      });
+    }
+    throw error;
+  }
+
+  try {
+    await db.updateStep(input.stepId, { frameId }, userId);
+  } catch (error) {
+    logger.warn("Failed to mirror step screenshot into DB", {
+      projectId: input.projectId,
+      stepId: input.stepId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  // 翻訳版も同じ画像を使う（翻訳し直すまで待たない）
+  for (const translation of await listTranslatedStepsArtifacts(input.projectId)) {
+    try {
+      const loaded = await loadStepsArtifactResult(input.projectId, translation.language);
+      if (loaded.status !== "loaded") continue;
+      const patched = setArtifactStepScreenshot(loaded.artifact, input.stepId, frameId, override);
+      if (patched.matched) {
+        // 差し替え前の原本から訳した翻訳版は、差し替えた後の原本とも揃っている
+        const source = patched.artifact.translation;
+        await saveStepsArtifact(
+          input.projectId,
+          source?.source_revision === artifact.revision
+            ? { ...patched.artifact, translation: { ...source, source_revision: saved.revision } }
+            : patched.artifact,
+          translation.language,
+        );
+      }
+    } catch (error) {
+      logger.warn("Failed to apply step screenshot to translation", {
+        projectId: input.projectId,
+        stepId: input.stepId,
+        language: translation.language,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { frameId };
+}
+
+/**
+ * ステップの代表スクリーンショットを、元動画の別の時刻のフレームかアップロードした画像
+ * （個人情報を塗りつぶしたものなど）に差し替える。スライド・サムネイル・動画の静止画は frame_id の画像を使う。
+ * 画像は DB のフレームとして登録し、DB のステップ行の frameId も合わせる。
+ */
+export async function replaceProjectStepScreenshotArtifactFirst(
+  input: {
+    projectId: number;
+    stepId: number;
+    source: StepScreenshotSource;
+    expectedRevision?: number;
+  },
+  userId?: number,
+): Promise<{ frameId: number }> {
+  return applyProjectStepScreenshot(input, userId, async (state, step) => {
+    let currentFrameId = step.frame_id ?? step.representative_frames[0]?.frame_id;
+    if (currentFrameId === undefined && !step.screenshot_override) {
+      // 元の画像が分からないと差し替えを戻せないので、DB のステップ行の画像を元にする
+      currentFrameId = (await db.getStepById(input.stepId, userId))?.frameId;
+      if (currentFrameId === undefined) {
+        throw new Error("元のスクリーンショットが見つからないため、差し替えられません");
+      }
+    }
+    let registered: { frameId: number; imageKey: string };
+    if (input.source.kind === "video_frame") {
+      const captured = await captureProjectFrame(state.project, input.source.timestamp);
+      await captured.cleanup();
+      registered = { frameId: captured.frameId, imageKey: captured.imageKey };
+    } else {
+      const validation = validateImageFile(input.source.image);
+      if (!validation.valid) {
+        throw new Error(validation.error ?? "画像を読み込めませんでした");
+      }
+      const currentFrame = state.frames.find((frame) => frame.id === currentFrameId);
+      registered = await registerProjectFrameImage(
+        input.projectId,
+        input.source.image,
+        validation.detectedType === "image/png" ? "image/png" : "image/jpeg",
+        currentFrame?.timestamp ?? step.t_start,
+      );
+    }
+    return {
+      frameId: registered.frameId,
+      registered,
+      override: {
+        source: input.source.kind,
+        original_frame_id: step.screenshot_override
+          ? step.screenshot_override.original_frame_id
+          : currentFrameId,
+      },
+    };
+  });
+}
+
+/** 差し替えたスクリーンショットを、最初の差し替え前の画像に戻す */
+export async function revertProjectStepScreenshotArtifactFirst(
+  input: {
+    projectId: number;
+    stepId: number;
+    expectedRevision?: number;
+  },
+  userId?: number,
+): Promise<{ frameId: number }> {
+  return applyProjectStepScreenshot(input, userId, async (_state, step) => {
+    const originalFrameId = step.screenshot_override?.original_frame_id;
+    if (originalFrameId === undefined) {
+      throw new Error("このステップのスクリーンショットは差し替えられていません");
+    }
+    return { frameId: originalFrameId, override: undefined };
+  });
+}
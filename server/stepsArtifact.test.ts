@@ -15,12 +15,22 @@ const storageRoot = vi.hoisted(() => {
 
 import {
   buildStepsArtifactFromDb,
+  diffStepsArtifacts,
+  findStepSectionsError,
   invalidateStepsArtifact,
+  listStepsRevisions,
+  listTranslatedStepsArtifacts,
   loadStepsArtifact,
   loadStepsArtifactResult,
+  loadStepsArtifactRevision,
   patchStepArtifact,
+  resolveStepSections,
+  resolveStepsUndoState,
+  saveStepsArtifact,
+  StepsArtifactConflictError,
   StepsArtifactSchema,
   STEPS_ARTIFACT_VERSION,
+  type StepArtifact,
 } from "./stepsArtifact";
 
 async function writeArtifactFile(
@@ -93,6 +103,7 @@ describe("steps artifact v1 -> v2 migration", () => {
     expect(loaded?.steps[0].review_reasons).toEqual([]);
     expect(loaded?.steps[0].audio_mode).toBe("auto");
     expect(loaded?.config.authoring_provider).toBe("llm");
+    expect(loaded?.config.audience).toBe("novice");
     // 運用必須フィールドが維持される（audio / legacy id / frame_id）
     expect(loaded?.steps[0].audio_url).toBe("/api/storage/p/a.mp3");
     expect(loaded?.steps[0].legacy_step_db_id).toBe(200);
@@ -199,6 +210,56 @@ describe("steps artifact v1 -> v2 migration", () => {
     expect(patched).toBe(true);
     expect(loaded?.steps[0].title).toBe("patched");
   });
+
+  it("翻訳版は steps.<lang>.json として原本と別に保存・読込・無効化される", async () => {
+    await writeArtifactFile(86, { ...v1Artifact, project_id: 86 });
+    const original = await loadStepsArtifact(86);
+    if (!original) throw new Error("artifact not loaded");
+
+    await saveStepsArtifact(
+      86,
+      {
+        ...original,
+        config: { ...original.config, output_language: "en" },
+        translation: {
+          source_language: "ja",
+          source_generated_at: original.generated_at,
+          source_revision: original.revision,
+          translated_at: "2026-10-02T00:00:00.000Z",
+          llm_provider: "openai",
+          llm_model: "gpt-5.2",
+          prompt_version: "translate-v1",
+        },
+        steps: original.steps.map(step => ({ ...step, title: "Log in" })),
+      },
+      "en"
+    );
+
+    expect((await loadStepsArtifact(86, "en"))?.steps[0].title).toBe("Log in");
+    expect((await loadStepsArtifact(86))?.steps[0].title).toBe(
+      original.steps[0].title
+    );
+    await expect(listTranslatedStepsArtifacts(86)).resolves.toEqual([
+      {
+        language: "en",
+        translated_at: "2026-10-02T00:00:00.000Z",
+        source_generated_at: original.generated_at,
+        source_revision: original.revision,
+        outdated: false,
+        step_count: 1,
+      },
+    ]);
+
+    // 翻訳した後に原本を編集すると、翻訳版は古いものとして示す
+    await saveStepsArtifact(86, original, undefined, { action: "update" });
+    await expect(listTranslatedStepsArtifacts(86)).resolves.toMatchObject([
+      { language: "en", outdated: true },
+    ]);
+
+    await invalidateStepsArtifact(86);
+    expect(await loadStepsArtifact(86, "en")).toBeNull();
+    await expect(listTranslatedStepsArtifacts(86)).resolves.toEqual([]);
+  });
 });
 
 describe("steps artifact", () => {
@@ -214,6 +275,7 @@ describe("steps artifact", () => {
       processingProgress: 100,
       processingMessage: null,
       errorMessage: null,
+      settings: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -270,3 +332,371 @@ describe("steps artifact", () => {
     expect(parsed.steps[0].expected_result).toBe("ホームへ遷移する");
   });
 });
+
+describe("steps artifact sections", () => {
+  // 範囲の検証は step_id と sort_order だけを見る
+  const steps = [0, 1, 2, 3].map(
+    index =>
+      ({ step_id: `step-${index + 1}`, sort_order: index }) as StepArtifact
+  );
+  const section = (title: string, start: number, end: number) => ({
+    title,
+    summary: `${title}の概要`,
+    start_step_id: `step-${start}`,
+    end_step_id: `step-${end}`,
+  });
+
+  it("全ステップを隙間なく順に覆う章立てを受け付け、章ごとのステップに解決する", () => {
+    const sections = [section("準備", 1, 1), section("入力", 2, 4)];
+    expect(findStepSectionsError(sections, steps)).toBeNull();
+    expect(findStepSectionsError([], steps)).toBeNull();
+    expect(
+      resolveStepSections({ sections, steps }).map(resolved => ({
+        index: resolved.index,
+        stepIds: resolved.stepIds,
+      }))
+    ).toEqual([
+      { index: 0, stepIds: ["step-1"] },
+      { index: 1, stepIds: ["step-2", "step-3", "step-4"] },
+    ]);
+  });
+
+  it("欠け・重なり・存在しないステップを拒否し、解決結果は章なしになる", () => {
+    expect(
+      findStepSectionsError(
+        [section("準備", 1, 2), section("入力", 4, 4)],
+        steps
+      )
+    ).toBe("セクション「入力」の範囲が前のセクションと連続していません");
+    expect(
+      findStepSectionsError(
+        [section("準備", 1, 2), section("入力", 2, 4)],
+        steps
+      )
+    ).toBe("セクション「入力」の範囲が前のセクションと連続していません");
+    expect(findStepSectionsError([section("準備", 1, 3)], steps)).toBe(
+      "最後のセクションが最後のステップまで届いていません"
+    );
+    expect(findStepSectionsError([section("準備", 1, 5)], steps)).toBe(
+      "セクション「準備」の範囲に存在しないステップがあります"
+    );
+    expect(
+      resolveStepSections({ sections: [section("準備", 1, 3)], steps })
+    ).toEqual([]);
+  });
+});
+
+describe("steps artifact revisions", () => {
+  it("原本の保存ごとに版と差分を追記し、翻訳版の保存は記録しない", async () => {
+    await writeArtifactFile(90, { ...v1Artifact, project_id: 90 });
+    const original = (await loadStepsArtifact(90))!;
+
+    await saveStepsArtifact(90, original, undefined, {
+      userId: 1,
+      action: "generate",
+    });
+    await saveStepsArtifact(
+      90,
+      {
+        ...original,
+        steps: original.steps.map(step => ({ ...step, title: "保存を確定" })),
+      },
+      undefined,
+      { userId: 1, action: "update" }
+    );
+    await saveStepsArtifact(90, original, "en");
+
+    const revisions = await listStepsRevisions(90);
+    expect(
+      revisions.map(entry => ({
+        revision: entry.revision,
+        action: entry.action,
+        parent: entry.parent,
+        head: entry.head,
+        changed: entry.changed_steps,
+      }))
+    ).toEqual([
+      {
+        revision: 1,
+        action: "generate",
+        parent: null,
+        head: 1,
+        changed: [
+          { change: "added", step_id: "step-1", title: "保存する", fields: [] },
+        ],
+      },
+      {
+        revision: 2,
+        action: "update",
+        parent: 1,
+        head: 2,
+        changed: [
+          {
+            change: "modified",
+            step_id: "step-1",
+            title: "保存を確定",
+            fields: ["title"],
+          },
+        ],
+      },
+    ]);
+    expect((await loadStepsArtifactRevision(90, 1))?.steps[0].title).toBe(
+      "保存する"
+    );
+    await expect(loadStepsArtifactRevision(90, 3)).resolves.toBeNull();
+  });
+
+  it("差分はDBのidでステップを対応づけ、番号の付け直しを変更扱いにしない", async () => {
+    await writeArtifactFile(91, { ...v1Artifact, project_id: 91 });
+    const base = (await loadStepsArtifact(91))!;
+    const first = base.steps[0];
+    const second = {
+      ...first,
+      step_id: "step-2",
+      sort_order: 1,
+      legacy_step_db_id: 201,
+      title: "閉じる",
+    };
+    const before = { ...base, steps: [first, second] };
+    // 先頭を削除し、残ったステップは step-1 に繰り上がる
+    const after = {
+      ...base,
+      steps: [{ ...second, step_id: "step-1", sort_order: 0 }],
+    };
+
+    expect(diffStepsArtifacts(before, after)).toEqual({
+      steps: [
+        { change: "removed", step_id: "step-1", title: "保存する", fields: [] },
+      ],
+      reordered: false,
+      overviewChanged: false,
+      sectionsChanged: false,
+    });
+    expect(
+      diffStepsArtifacts(before, {
+        ...base,
+        steps: [
+          { ...second, step_id: "step-1", sort_order: 0 },
+          { ...first, step_id: "step-2", sort_order: 1 },
+        ],
+      }).reordered
+    ).toBe(true);
+  });
+
+  it("undo は head の親へ戻り、redo は直前の undo を取り消し、通常の保存で redo は消える", () => {
+    const entry = (
+      revision: number,
+      action: string,
+      parent: number | null,
+      head = revision
+    ) => ({
+      revision,
+      created_at: "2026-01-01T00:00:00.000Z",
+      user_id: null,
+      action,
+      changed_steps: [],
+      reordered: false,
+      overview_changed: false,
+      sections_changed: false,
+      parent,
+      head,
+    });
+    const edits = [
+      entry(1, "generate", null),
+      entry(2, "update", 1),
+      entry(3, "update", 2),
+    ];
+    expect(resolveStepsUndoState([])).toEqual({
+      head: null,
+      undoTarget: null,
+      redoTarget: null,
+    });
+    expect(resolveStepsUndoState(edits)).toEqual({
+      head: 3,
+      undoTarget: 2,
+      redoTarget: null,
+    });
+
+    const undone = [
+      ...edits,
+      entry(4, "undo", null, 2),
+      entry(5, "undo", null, 1),
+    ];
+    expect(resolveStepsUndoState(undone)).toEqual({
+      head: 1,
+      undoTarget: null,
+      redoTarget: 2,
+    });
+    const redone = [...undone, entry(6, "redo", null, 2)];
+    expect(resolveStepsUndoState(redone)).toEqual({
+      head: 2,
+      undoTarget: 1,
+      redoTarget: 3,
+    });
+    expect(resolveStepsUndoState([...redone, entry(7, "update", 2)])).toEqual({
+      head: 7,
+      undoTarget: 2,
+      redoTarget: null,
+    });
+  });
+});
+
+describe("steps artifact optimistic concurrency", () => {
+  it("原本の保存ごとに revision を増やし、古い版を元にした保存は競合にする", async () => {
+    await writeArtifactFile(95, { ...v1Artifact, project_id: 95 });
+    const loaded = (await loadStepsArtifact(95))!;
+    expect(loaded.revision).toBe(0);
+
+    await expect(
+      saveStepsArtifact(95, loaded, undefined, {
+        action: "update",
+        expectedRevision: 0,
+      })
+    ).resolves.toMatchObject({ revision: 1 });
+    // 翻訳版の保存は原本の版を進めない
+    await saveStepsArtifact(95, loaded, "en");
+
+    const stale = saveStepsArtifact(
+      95,
+      { ...loaded, overview: null },
+      undefined,
+      { action: "update", expectedRevision: 0 }
+    );
+    await expect(stale).rejects.toBeInstanceOf(StepsArtifactConflictError);
+    await expect(stale).rejects.toMatchObject({
+      conflict: { projectId: 95, expectedRevision: 0, currentRevision: 1 },
+    });
+    expect((await loadStepsArtifact(95))?.revision).toBe(1);
+    expect(await listStepsRevisions(95)).toHaveLength(1);
+  });
+
+  it("同じ版を元にした並行の保存は1件だけ通り、patchStepArtifact は最新の版に適用する", async () => {
+    await writeArtifactFile(96, { ...v1Artifact, project_id: 96 });
+    const loaded = (await loadStepsArtifact(96))!;
+    const rename = (title: string) => ({
+      ...loaded,
+      steps: loaded.steps.map(step => ({ ...step, title })),
+    });
+
+    const results = await Promise.allSettled([
+      saveStepsArtifact(96, rename("A"), undefined, {
+        action: "update",
+        expectedRevision: 0,
+      }),
+      saveStepsArtifact(96, rename("B"), undefined, {
+        action: "update",
+        expectedRevision: 0,
+      }),
+      patchStepArtifact(96, artifact => ({
+        ...artifact,
+        steps: artifact.steps.map(step => ({
+          ...step,
+          audio_url: "/api/storage/p/new.mp3",
+        })),
+      })),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      "fulfilled",
+    ]);
+    const saved = await loadStepsArtifact(96);
+    expect(saved?.revision).toBe(2);
+    expect(saved?.steps[0]).toMatchObject({
+      title: "A",
+      audio_url: "/api/storage/p/new.mp3",
+    });
+  });
+
+  it("steps.json と版の履歴は同じ番号を使い、どちらかを書けなければ保存しない", async () => {
+    await writeArtifactFile(98, { ...v1Artifact, project_id: 98 });
+    const loaded = (await loadStepsArtifact(98))!;
+    await saveStepsArtifact(98, loaded, undefined, {
+      action: "update",
+      expectedRevision: 0,
+    });
+    const writeFile = fs.writeFile.bind(fs);
+    const failWriteTo = (suffix: string) =>
+      vi.spyOn(fs, "writeFile").mockImplementation(async (file, data) => {
+        if (String(file).endsWith(suffix)) {
+          throw new Error("disk full");
+        }
+        await writeFile(file, data);
+      });
+    const rename = (title: string) => ({
+      ...loaded,
+      steps: loaded.steps.map(step => ({ ...step, title })),
+    });
+
+    const historySpy = failWriteTo(path.join("revisions", "index.json"));
+    await expect(
+      saveStepsArtifact(98, rename("A"), undefined, {
+        action: "update",
+        expectedRevision: 1,
+      })
+    ).rejects.toThrow("disk full");
+    historySpy.mockRestore();
+    expect((await loadStepsArtifact(98))?.revision).toBe(1);
+
+    const artifactSpy = failWriteTo(path.join("artifacts", "steps.json"));
+    await expect(
+      saveStepsArtifact(98, rename("B"), undefined, {
+        action: "update",
+        expectedRevision: 1,
+      })
+    ).rejects.toThrow("disk full");
+    artifactSpy.mockRestore();
+    expect(await listStepsRevisions(98)).toHaveLength(1);
+
+    await expect(
+      saveStepsArtifact(98, rename("C"), undefined, {
+        action: "update",
+        expectedRevision: 1,
+      })
+    ).resolves.toMatchObject({ revision: 2 });
+    const revisions = await listStepsRevisions(98);
+    expect(revisions.map(entry => entry.revision)).toEqual([1, 2]);
+    expect(revisions[1].changed_steps).toEqual([
+      { change: "modified", step_id: "step-1", title: "C", fields: ["title"] },
+    ]);
+  });
+
+  it("生成データの書き戻し（system）は revision を進めず、版の履歴にも記録しない", async () => {
+    await writeArtifactFile(97, { ...v1Artifact, project_id: 97 });
+    const loaded = (await loadStepsArtifact(97))!;
+    await saveStepsArtifact(97, loaded, undefined, {
+      action: "update",
+      expectedRevision: 0,
+    });
+
+    await patchStepArtifact(
+      97,
+      artifact => ({
+        ...artifact,
+        steps: artifact.steps.map(step => ({
+          ...step,
+          audio_url: "/api/storage/p/generated.mp3",
+        })),
+      }),
+      undefined,
+      { action: "audio", system: true }
+    );
+
+    const saved = await loadStepsArtifact(97);
+    expect(saved?.revision).toBe(1);
+    expect(saved?.steps[0].audio_url).toBe("/api/storage/p/generated.mp3");
+    expect(await listStepsRevisions(97)).toHaveLength(1);
+    // 次の編集の差分に音声の付け替えは数えない
+    await saveStepsArtifact(
+      97,
+      { ...saved!, steps: saved!.steps.map(step => ({ ...step, title: "x" })) },
+      undefined,
+      { action: "update", expectedRevision: 1 }
+    );
+    const [, latest] = await listStepsRevisions(97);
+    expect(latest.changed_steps).toEqual([
+      { change: "modified", step_id: "step-1", title: "x", fields: ["title"] },
+    ]);
+  });
+});
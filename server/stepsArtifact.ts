@@ -1,3 +1,5 @@
+import { AUDIENCES } from "@shared/audience";
+import { OUTPUT_LANGUAGES, type OutputLanguage } from "@shared/outputLanguage";
 import { z } from "zod";
 import { createLogger } from "./_core/logger";
 import { readBinaryFromSource, storageGet, storagePut } from "./storage";
@@ -21,7 +23,11 @@ export type ReviewReasonCode =
   | "fallback:unassigned_segment"
   | "fallback:legacy_step_analysis_failed"
   | "verification:unverified_ui_label"
-  | "verification:low_confidence";
+  | "verification:low_confidence"
+  | "translation:missing_ui_label"
+  | "style:guide_violation"
+  | "edit:split"
+  | "edit:human_added";
 
 export const StepAudioModeSchema = z.enum([
   "auto",
@@ -54,6 +60,16 @@ export const StepArtifactSchema = z.object({
   t_start: z.number().int().nonnegative(),
   t_end: z.number().int().nonnegative(),
   representative_frames: z.array(RepresentativeFrameSchema).min(1),
+  /**
+   * レビューで差し替えたスクリーンショット（frame_id は差し替え後の画像のフレーム）。
+   * original_frame_id は最初の差し替え前の frame_id で、元に戻すときに使う
+   */
+  screenshot_override: z
+    .object({
+      source: z.enum(["video_frame", "upload"]),
+      original_frame_id: z.number().int().positive().optional(),
+    })
+    .optional(),
   changed_region_bbox: NormalizedBBoxSchema.nullable(),
   ocr_text: z.array(z.string()),
   transcript_snippet: z.string(),
@@ -71,6 +87,11 @@ export const StepArtifactSchema = z.object({
   // v2: evidence.json への根拠リンクと機械検証結果
   source_segment_ids: z.array(z.string()).optional().default([]),
   cited_ui_labels: z.array(z.string()).optional().default([]),
+  /**
+   * cited_ui_labels が代表フレーム上で照合したOCR行の外接矩形（evidence v1.1 以降）。
+   * スライドのハイライト・スポットライトは changed_region_bbox よりこちらを優先する
+   */
+  cited_label_bbox: NormalizedBBoxSchema.nullable().optional(),
   needs_review: z.boolean().optional().default(false),
   review_reasons: z.array(z.string()).optional().default([]),
 });
@@ -85,10 +106,61 @@ export const OverviewSchema = z.object({
 
 export type Overview = z.infer<typeof OverviewSchema>;
 
+/**
+ * 執筆で破棄されたセグメント（LLMの破棄宣言・待機/スクロール区間）。
+ * レビューで見落としの手順を探せるよう、理由とサムネイル（操作前後の画面）を残す。
+ */
+export const DiscardedSegmentSchema = z.object({
+  segment_id: z.string().min(1),
+  reason: z.string(),
+  t_start: z.number().int().nonnegative(),
+  t_end: z.number().int().nonnegative(),
+  activity: z.string().optional(),
+  thumbnails: z.array(
+    z.object({
+      frame_id: z.number().int().positive().optional(),
+      timestamp: z.number().int().nonnegative(),
+      image_url: z.string().min(1),
+    })
+  ),
+});
+
+export type DiscardedSegment = z.infer<typeof DiscardedSegmentSchema>;
+
+/**
+ * 章（セクション）。並び順で連続したステップ範囲（start_step_id〜end_step_id）をまとめる。
+ * 長い録画の目次の区切り・スライドの中扉・動画のチャプターに使う。
+ */
+export const StepSectionSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string(),
+  start_step_id: z.string().min(1),
+  end_step_id: z.string().min(1),
+});
+
+export type StepSection = z.infer<typeof StepSectionSchema>;
+
+/** 翻訳版 steps.<lang>.json の由来（どの原本をいつ翻訳したか） */
+export const StepsTranslationSchema = z.object({
+  source_language: z.enum(OUTPUT_LANGUAGES),
+  /** 翻訳元にした原本 steps.json の generated_at */
+  source_generated_at: z.string().min(1),
+  /** 翻訳元にした原本 steps.json の revision（導入前の翻訳版には無い） */
+  source_revision: z.number().int().nonnegative().optional(),
+  translated_at: z.string().min(1),
+  llm_provider: z.string(),
+  llm_model: z.string(),
+  prompt_version: z.string(),
+});
+
+export type StepsTranslation = z.infer<typeof StepsTranslationSchema>;
+
 export const StepsArtifactSchema = z.object({
   version: z.string().min(1),
   project_id: z.number().int().positive(),
   generated_at: z.string().min(1),
+  // 編集の競合検出に使う版（原本の保存ごとに1増える）。導入前の steps.json は 0
+  revision: z.number().int().nonnegative().optional().default(0),
   config: z.object({
     authoring_provider: z.string().optional().default("llm"),
     asr_provider: z.string(),
@@ -96,10 +168,20 @@ export const StepsArtifactSchema = z.object({
     llm_provider: z.string(),
     llm_model: z.string(),
     prompt_version: z.string(),
+    // ステップ文の言語。言語指定の導入前に生成したものは日本語
+    output_language: z.enum(OUTPUT_LANGUAGES).optional().default("ja"),
+    // 想定読者。指定の導入前に生成したものは初心者向け（当時の執筆と同じ）
+    audience: z.enum(AUDIENCES).optional().default("novice"),
   }),
   // v2: マニュアル全体の概要。v1からのマイグレーション時はnull
   overview: OverviewSchema.nullable().optional().default(null),
+  // 翻訳版のみ。原本（steps.json）には無い
+  translation: StepsTranslationSchema.optional(),
   steps: z.array(StepArtifactSchema),
+  // 執筆で破棄されたセグメント。保存の導入前・evidenceなしの経路では空
+  discarded_segments: z.array(DiscardedSegmentSchema).optional().default([]),
+  // 章立て。ステップ数が少ない・導入前・evidenceなしの経路では空（章なしの一覧）
+  sections: z.array(StepSectionSchema).optional().default([]),
 });
 
 export type StepsArtifact = z.infer<typeof StepsArtifactSchema>;
@@ -130,8 +212,17 @@ export interface LegacyRenderableStep {
   audioKey: string | null;
 }
 
-export function getStepsArtifactStorageKey(projectId: number): string {
-  return `projects/${projectId}/artifacts/steps.json`;
+/**
+ * language を指定すると、原本の隣に置く翻訳版（steps.<language>.json）のキーを返す。
+ * 以降の load/save/patch も同じ規約で、language 省略時は原本を扱う。
+ */
+export function getStepsArtifactStorageKey(
+  projectId: number,
+  language?: OutputLanguage
+): string {
+  return language
+    ? `projects/${projectId}/artifacts/steps.${language}.json`
+    : `projects/${projectId}/artifacts/steps.json`;
 }
 
 function isNotFoundError(error: unknown): boolean {
@@ -162,9 +253,10 @@ function migrateV1ToV2(raw: Record<string, unknown>): unknown {
 }
 
 export async function loadStepsArtifactResult(
-  projectId: number
+  projectId: number,
+  language?: OutputLanguage
 ): Promise<StepsArtifactLoadResult> {
-  const key = getStepsArtifactStorageKey(projectId);
+  const key = getStepsArtifactStorageKey(projectId, language);
 
   let raw: Record<string, unknown>;
   let file: { key: string; url: string };
@@ -219,6 +311,7 @@ export async function loadStepsArtifactResult(
   } catch (error) {
     logger.warn("steps.json のパースに失敗しました", {
       projectId,
+      language,
       version,
       message: error instanceof Error ? error.message : String(error),
     });
@@ -237,9 +330,10 @@ export async function loadStepsArtifactResult(
 }
 
 export async function loadStepsArtifact(
-  projectId: number
+  projectId: number,
+  language?: OutputLanguage
 ): Promise<StepsArtifact | null> {
-  const result = await loadStepsArtifactResult(projectId);
+  const result = await loadStepsArtifactResult(projectId, language);
   if (result.status === "loaded") {
     return result.artifact;
   }
@@ -251,6 +345,7 @@ export async function loadStepsArtifact(
     }
     logger.warn("steps.json をartifactなし扱いで読み込みます", {
       projectId,
+      language,
       reason: result.reason,
       message: result.message,
     });
@@ -258,11 +353,19 @@ export async function loadStepsArtifact(
   return null;
 }
 
-/** retry等でフレームが再生成される際に古いステップartifactを無効化する */
+/** retry等でフレームが再生成される際に古いステップartifact（翻訳版を含む）を無効化する */
 export async function invalidateStepsArtifact(
   projectId: number
 ): Promise<void> {
-  const key = getStepsArtifactStorageKey(projectId);
+  await invalidateStepsArtifactKey(getStepsArtifactStorageKey(projectId));
+  for (const language of OUTPUT_LANGUAGES) {
+    await invalidateStepsArtifactKey(
+      getStepsArtifactStorageKey(projectId, language)
+    );
+  }
+}
+
+async function invalidateStepsArtifactKey(key: string): Promise<void> {
   try {
     const file = await storageGet(key);
     const raw = JSON.parse(
@@ -283,21 +386,176 @@ export async function invalidateStepsArtifact(
   }
 }
 
+/**
+ * 保存する。原本（language 省略）は change.expectedRevision が現在の版と違えば保存せず
+ * StepsArtifactConflictError にし、保存のたびに revision を1増やして同じ番号で版の履歴にも追記する。
+ * 履歴に追記できなければ保存しない。change を省略した保存は action "save"・利用者不明として記録する。
+ */
 export async function saveStepsArtifact(
   projectId: number,
-  artifact: StepsArtifact
-): Promise<{ key: string; url: string }> {
+  artifact: StepsArtifact,
+  language?: OutputLanguage,
+  change?: StepsArtifactChange
+): Promise<{ key: string; url: string; revision: number }> {
+  if (language) {
+    return writeStepsArtifact(projectId, artifact, language);
+  }
+  return withStepsArtifactLock(projectId, () =>
+    writeStepsArtifact(projectId, artifact, undefined, change)
+  );
+}
+
+/**
+ * 原本の版を確かめてから prepare（DB のステップ行の書き換えなど）で保存する内容を作り、保存する。
+ * 版の確認から保存までロックを持つので、prepare の後で他の保存が割り込んで競合になることはない。
+ * prepare の中で saveStepsArtifact を呼ばないこと（同じロックを待ち続ける）。
+ */
+export async function saveStepsArtifactAfter(
+  projectId: number,
+  change: StepsArtifactChange,
+  prepare: () => Promise<StepsArtifact>
+): Promise<{ key: string; url: string; revision: number }> {
+  return withStepsArtifactLock(projectId, async () => {
+    assertStepsArtifactRevision(
+      projectId,
+      await readStepsArtifactRevision(projectId),
+      change.expectedRevision
+    );
+    return writeStepsArtifact(projectId, await prepare(), undefined, change);
+  });
+}
+
+// 原本の「版の確認 → 書き込み → 履歴の追記」をプロジェクトごとに直列化する（同一プロセス内）
+const stepsArtifactLocks = new Map<number, Promise<unknown>>();
+
+async function withStepsArtifactLock<T>(
+  projectId: number,
+  task: () => Promise<T>
+): Promise<T> {
+  const previous = stepsArtifactLocks.get(projectId) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  const settled = current.catch(() => undefined);
+  stepsArtifactLocks.set(projectId, settled);
+  try {
+    return await current;
+  } finally {
+    if (stepsArtifactLocks.get(projectId) === settled) {
+      stepsArtifactLocks.delete(projectId);
+    }
+  }
+}
+
+/** 保存済みの原本の revision。無効化されたものも版は引き継ぐ（無ければ 0） */
+export async function readStepsArtifactRevision(
+  projectId: number
+): Promise<number> {
+  const raw = (await readStorageJson(
+    getStepsArtifactStorageKey(projectId)
+  )) as { revision?: unknown } | null;
+  return typeof raw?.revision === "number" ? raw.revision : 0;
+}
+
+async function writeStepsArtifact(
+  projectId: number,
+  artifact: StepsArtifact,
+  language?: OutputLanguage,
+  change?: StepsArtifactChange
+): Promise<{ key: string; url: string; revision: number }> {
+  const tracked = !language && !change?.system;
+  let revision = artifact.revision;
+  let revisionLog: StepsRevision[] = [];
+  if (!language) {
+    const currentRevision = await readStepsArtifactRevision(projectId);
+    if (change?.system) {
+      revision = currentRevision;
+    } else {
+      assertStepsArtifactRevision(
+        projectId,
+        currentRevision,
+        change?.expectedRevision
+      );
+      revisionLog = await listStepsRevisions(projectId);
+      // 版の番号は steps.json と履歴で共通（履歴だけ先に進んでいる古いデータでも重ならないようにする）
+      revision =
+        Math.max(
+          currentRevision,
+          revisionLog[revisionLog.length - 1]?.revision ?? 0
+        ) + 1;
+    }
+  }
   const normalized = StepsArtifactSchema.parse({
     ...artifact,
     version: artifact.version || STEPS_ARTIFACT_VERSION,
     project_id: projectId,
+    revision,
   });
-  const key = getStepsArtifactStorageKey(projectId);
-  return storagePut(
-    key,
-    JSON.stringify(normalized, null, 2),
-    "application/json"
-  );
+  // 履歴へ先に追記し、失敗すれば steps.json を変えずに保存を失敗させる
+  if (tracked) {
+    await appendStepsRevision(projectId, revisionLog, normalized, change);
+  }
+  const key = getStepsArtifactStorageKey(projectId, language);
+  try {
+    const saved = await storagePut(
+      key,
+      JSON.stringify(normalized, null, 2),
+      "application/json"
+    );
+    return { ...saved, revision };
+  } catch (error) {
+    if (tracked) {
+      // 書けなかった版を履歴から外す
+      await writeStepsRevisionLog(projectId, revisionLog).catch(
+        rollbackError => {
+          logger.warn("steps.json の版履歴を元に戻せませんでした", {
+            projectId,
+            revision,
+            message:
+              rollbackError instanceof Error
+                ? rollbackError.message
+                : String(rollbackError),
+          });
+        }
+      );
+    }
+    throw error;
+  }
+}
+
+/** 編集の競合の内容。クライアントは最新の版を読み直し、マージするか利用者に知らせる */
+export interface StepsArtifactConflict {
+  projectId: number;
+  /** 編集の元にした版 */
+  expectedRevision: number;
+  /** 保存済みの最新の版 */
+  currentRevision: number;
+}
+
+/** 編集の元にした版が古い（他の編集が先に保存された） */
+export class StepsArtifactConflictError extends Error {
+  readonly conflict: StepsArtifactConflict;
+
+  constructor(conflict: StepsArtifactConflict) {
+    super(
+      `他の編集が先に保存されました（版 ${conflict.expectedRevision} → 最新 ${conflict.currentRevision}）。最新の内容を読み込んでからやり直してください`
+    );
+    this.name = "StepsArtifactConflictError";
+    this.conflict = conflict;
+  }
+}
+
+/** expectedRevision が指定されていて現在の版と違えば競合にする */
+export function assertStepsArtifactRevision(
+  projectId: number,
+  currentRevision: number,
+  expectedRevision: number | undefined
+): void {
+  if (expectedRevision !== undefined && expectedRevision !== currentRevision) {
+    throw new StepsArtifactConflictError({
+      projectId,
+      expectedRevision,
+      currentRevision,
+    });
+  }
 }
 
 export function buildLegacyRenderableStepsFromArtifact(
@@ -395,6 +653,7 @@ export function buildStepsArtifactFromDb(
     version: STEPS_ARTIFACT_VERSION,
     project_id: project.id,
     generated_at: new Date().toISOString(),
+    revision: 0,
     config: {
       authoring_provider: "llm",
       asr_provider: "none",
@@ -402,21 +661,412 @@ export function buildStepsArtifactFromDb(
       llm_provider: "legacy",
       llm_model: "legacy",
       prompt_version: "legacy-adapter-v1",
+      output_language: "ja",
+      audience: "novice",
     },
     overview: null,
     steps: artifactSteps,
+    discarded_segments: [],
+    sections: [],
   };
 }
 
+/**
+ * セクションが並び順のステップを先頭から末尾まで隙間・重複なく区切っているか確かめる（純関数）。
+ * 問題があれば理由を返す。セクションが空（章なし）は正しいものとして扱う。
+ */
+export function findStepSectionsError(
+  sections: StepSection[],
+  steps: StepArtifact[]
+): string | null {
+  if (sections.length === 0) return null;
+  const stepIds = steps
+    .slice()
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(step => step.step_id);
+  let expectedStart = 0;
+  for (const section of sections) {
+    const start = stepIds.indexOf(section.start_step_id);
+    const end = stepIds.indexOf(section.end_step_id);
+    if (start < 0 || end < 0) {
+      return `セクション「${section.title}」の範囲に存在しないステップがあります`;
+    }
+    if (start !== expectedStart || end < start) {
+      return `セクション「${section.title}」の範囲が前のセクションと連続していません`;
+    }
+    expectedStart = end + 1;
+  }
+  if (expectedStart !== stepIds.length) {
+    return "最後のセクションが最後のステップまで届いていません";
+  }
+  return null;
+}
+
+export interface ResolvedStepSection {
+  section: StepSection;
+  /** 0始まりのセクション番号 */
+  index: number;
+  /** セクションに含まれるステップの step_id（並び順） */
+  stepIds: string[];
+}
+
+/**
+ * セクションごとのステップ一覧（並び順）。
+ * 目次・中扉・チャプターは章なしでも出力できるので、範囲が壊れていれば空配列にする。
+ */
+export function resolveStepSections(
+  artifact: Pick<StepsArtifact, "sections" | "steps">
+): ResolvedStepSection[] {
+  if (findStepSectionsError(artifact.sections, artifact.steps) !== null) {
+    return [];
+  }
+  const stepIds = artifact.steps
+    .slice()
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(step => step.step_id);
+  return artifact.sections.map((section, index) => ({
+    section,
+    index,
+    stepIds: stepIds.slice(
+      stepIds.indexOf(section.start_step_id),
+      stepIds.indexOf(section.end_step_id) + 1
+    ),
+  }));
+}
+
 export async function patchStepArtifact(
   projectId: number,
-  patcher: (artifact: StepsArtifact) => StepsArtifact
+  patcher: (artifact: StepsArtifact) => StepsArtifact,
+  language?: OutputLanguage,
+  change?: StepsArtifactChange
 ): Promise<boolean> {
-  const artifact = await loadStepsArtifact(projectId);
-  if (!artifact) {
-    return false;
+  const patch = async () => {
+    const artifact = await loadStepsArtifact(projectId, language);
+    if (!artifact) {
+      return false;
+    }
+    await writeStepsArtifact(projectId, patcher(artifact), language, change);
+    return true;
+  };
+  // 原本は読み込みから保存までをまとめて直列化し、並行する編集を上書きしない
+  return language ? patch() : withStepsArtifactLock(projectId, patch);
+}
+
+export interface StepsTranslationSummary {
+  language: OutputLanguage;
+  translated_at: string;
+  source_generated_at: string;
+  source_revision: number | null;
+  /** 翻訳した後に原本が編集された（作り直すまで原本の編集は訳文に入らない） */
+  outdated: boolean;
+  step_count: number;
+}
+
+/**
+ * 翻訳版が原本の今の版より古いか。原本の revision を記録していない（導入前の）翻訳版は、
+ * 同じ版から訳したか分からないので古いとみなす。
+ */
+export function isStepsTranslationOutdated(
+  translation: StepsTranslation,
+  sourceRevision: number
+): boolean {
+  return translation.source_revision !== sourceRevision;
+}
+
+/** 保存済みの翻訳版を言語順に列挙する（読めない翻訳版は飛ばす） */
+export async function listTranslatedStepsArtifacts(
+  projectId: number
+): Promise<StepsTranslationSummary[]> {
+  const sourceRevision = await readStepsArtifactRevision(projectId);
+  const summaries: StepsTranslationSummary[] = [];
+  for (const language of OUTPUT_LANGUAGES) {
+    const result = await loadStepsArtifactResult(projectId, language);
+    if (result.status !== "loaded" || !result.artifact.translation) continue;
+    const { translation } = result.artifact;
+    summaries.push({
+      language,
+      translated_at: translation.translated_at,
+      source_generated_at: translation.source_generated_at,
+      source_revision: translation.source_revision ?? null,
+      outdated: isStepsTranslationOutdated(translation, sourceRevision),
+      step_count: result.artifact.steps.length,
+    });
   }
-  const patched = patcher(artifact);
-  await saveStepsArtifact(projectId, patched);
-  return true;
+  return summaries;
+}
+
+/** 保存の記録（誰が・何の操作で）。undo/redo・版の復元では戻った先の版も渡す */
+export interface StepsArtifactChange {
+  userId?: number | null;
+  /** 操作の種類（generate / update / delete / reorder / restore / undo / redo など） */
+  action: string;
+  /** 内容の元にした版（版の復元・undo/redo） */
+  restoredFrom?: number;
+  /** undo/redo は新しい論理版を作らず、既存の版へ戻る */
+  moveHeadTo?: number;
+  /** 編集の元にした steps.json の revision。現在の版と違えば保存しない */
+  expectedRevision?: number;
+  /**
+   * 音声など生成データの書き戻し。利用者の編集ではないので revision を進めず（開いている
+   * 編集画面を競合にしない）、版の履歴にも記録しない（undo で取り消す対象にしない）
+   */
+  system?: boolean;
+}
+
+export const StepsRevisionChangeSchema = z.object({
+  change: z.enum(["added", "removed", "modified"]),
+  step_id: z.string(),
+  title: z.string(),
+  /** modified のとき変わったフィールド */
+  fields: z.array(z.string()),
+});
+
+export type StepsRevisionChange = z.infer<typeof StepsRevisionChangeSchema>;
+
+/**
+ * steps.json の版（追記のみ）。内容は revisions/<revision>.json に保存し、上書きしない。
+ * parent / head は undo/redo 用: 通常の保存は直前の head を親に持つ新しい論理版、
+ * undo/redo は新しい論理版を作らず head を既存の版へ移す。
+ */
+export const StepsRevisionSchema = z.object({
+  revision: z.number().int().positive(),
+  created_at: z.string().min(1),
+  user_id: z.number().int().nullable(),
+  action: z.string().min(1),
+  changed_steps: z.array(StepsRevisionChangeSchema),
+  reordered: z.boolean(),
+  overview_changed: z.boolean(),
+  sections_changed: z.boolean(),
+  parent: z.number().int().positive().nullable(),
+  head: z.number().int().positive(),
+  restored_from: z.number().int().positive().optional(),
+});
+
+export type StepsRevision = z.infer<typeof StepsRevisionSchema>;
+
+const StepsRevisionLogSchema = z.object({
+  revisions: z.array(StepsRevisionSchema),
+});
+
+function getStepsRevisionLogKey(projectId: number): string {
+  return `projects/${projectId}/artifacts/revisions/index.json`;
+}
+
+function getStepsRevisionSnapshotKey(
+  projectId: number,
+  revision: number
+): string {
+  return `projects/${projectId}/artifacts/revisions/${revision}.json`;
+}
+
+async function readStorageJson(key: string): Promise<unknown | null> {
+  try {
+    const file = await storageGet(key);
+    return JSON.parse((await readBinaryFromSource(file.url)).toString("utf8"));
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+/** 版の一覧（古い順）。履歴の導入前のプロジェクトは空 */
+export async function listStepsRevisions(
+  projectId: number
+): Promise<StepsRevision[]> {
+  const raw = await readStorageJson(getStepsRevisionLogKey(projectId));
+  return raw ? StepsRevisionLogSchema.parse(raw).revisions : [];
+}
+
+/** 指定した版の steps.json。無ければ null */
+export async function loadStepsArtifactRevision(
+  projectId: number,
+  revision: number
+): Promise<StepsArtifact | null> {
+  const raw = await readStorageJson(
+    getStepsRevisionSnapshotKey(projectId, revision)
+  );
+  return raw ? StepsArtifactSchema.parse(raw) : null;
+}
+
+function writeStepsRevisionLog(
+  projectId: number,
+  revisions: StepsRevision[]
+): Promise<{ key: string; url: string }> {
+  return storagePut(
+    getStepsRevisionLogKey(projectId),
+    JSON.stringify({ revisions }, null, 2),
+    "application/json"
+  );
+}
+
+/** revisions（保存前の履歴）の後ろに、artifact.revision の版として追記する */
+async function appendStepsRevision(
+  projectId: number,
+  revisions: StepsRevision[],
+  artifact: StepsArtifact,
+  change: StepsArtifactChange = { action: "save" }
+): Promise<StepsRevision> {
+  const last = revisions[revisions.length - 1];
+  const previous = last
+    ? await loadStepsArtifactRevision(projectId, last.revision)
+    : null;
+  const revision = artifact.revision;
+  const diff = diffStepsArtifacts(previous, artifact);
+  const entry: StepsRevision = {
+    revision,
+    created_at: new Date().toISOString(),
+    user_id: change.userId ?? null,
+    action: change.action,
+    changed_steps: diff.steps,
+    reordered: diff.reordered,
+    overview_changed: diff.overviewChanged,
+    sections_changed: diff.sectionsChanged,
+    parent: change.moveHeadTo !== undefined ? null : (last?.head ?? null),
+    head: change.moveHeadTo ?? revision,
+    ...(change.restoredFrom !== undefined
+      ? { restored_from: change.restoredFrom }
+      : {}),
+  };
+  // 内容を先に書き、一覧への追記で版を確定させる
+  await storagePut(
+    getStepsRevisionSnapshotKey(projectId, revision),
+    JSON.stringify(artifact, null, 2),
+    "application/json"
+  );
+  await writeStepsRevisionLog(projectId, [...revisions, entry]);
+  return entry;
+}
+
+export interface StepsArtifactDiff {
+  steps: StepsRevisionChange[];
+  /** 両方にあるステップの相対順が変わった */
+  reordered: boolean;
+  overviewChanged: boolean;
+  sectionsChanged: boolean;
+}
+
+// 並び順から決まる値は比較しない（追加・削除で前後のステップまで変更扱いにしない）。
+// 音声は履歴に残さない書き戻しで付くので、次の編集の変更にも数えない
+const UNTRACKED_STEP_FIELDS = new Set([
+  "step_id",
+  "sort_order",
+  "legacy_step_db_id",
+  "audio_url",
+  "audio_key",
+]);
+
+function stepIdentity(step: StepArtifact): string {
+  return step.legacy_step_db_id !== undefined
+    ? `db:${step.legacy_step_db_id}`
+    : `step:${step.step_id}`;
+}
+
+/**
+ * 2つの版の差分（純関数）。ステップは DB の id（無ければ step_id）で対応づける。
+ * before が null（最初の版）なら全ステップを追加として扱う。
+ */
+export function diffStepsArtifacts(
+  before: StepsArtifact | null,
+  after: StepsArtifact
+): StepsArtifactDiff {
+  const sortSteps = (artifact: StepsArtifact | null) =>
+    (artifact?.steps ?? []).slice().sort((a, b) => a.sort_order - b.sort_order);
+  const beforeSteps = sortSteps(before);
+  const afterSteps = sortSteps(after);
+  const beforeById = new Map(
+    beforeSteps.map(step => [stepIdentity(step), step])
+  );
+  const afterIds = new Set(afterSteps.map(stepIdentity));
+
+  const steps: StepsRevisionChange[] = [];
+  for (const step of afterSteps) {
+    const previous = beforeById.get(stepIdentity(step));
+    if (!previous) {
+      steps.push({
+        change: "added",
+        step_id: step.step_id,
+        title: step.title,
+        fields: [],
+      });
+      continue;
+    }
+    const keys = Array.from(
+      new Set([...Object.keys(previous), ...Object.keys(step)])
+    ).filter(key => !UNTRACKED_STEP_FIELDS.has(key));
+    const fields = keys.filter(
+      key =>
+        JSON.stringify(previous[key as keyof StepArtifact]) !==
+        JSON.stringify(step[key as keyof StepArtifact])
+    );
+    if (fields.length > 0) {
+      steps.push({
+        change: "modified",
+        step_id: step.step_id,
+        title: step.title,
+        fields: fields.sort(),
+      });
+    }
+  }
+  for (const step of beforeSteps) {
+    if (!afterIds.has(stepIdentity(step))) {
+      steps.push({
+        change: "removed",
+        step_id: step.step_id,
+        title: step.title,
+        fields: [],
+      });
+    }
+  }
+
+  const commonBefore = beforeSteps
+    .map(stepIdentity)
+    .filter(id => afterIds.has(id));
+  const commonAfter = afterSteps
+    .map(stepIdentity)
+    .filter(id => beforeById.has(id));
+  return {
+    steps,
+    reordered: commonBefore.some((id, index) => commonAfter[index] !== id),
+    overviewChanged:
+      JSON.stringify(before?.overview ?? null) !==
+      JSON.stringify(after.overview),
+    sectionsChanged:
+      JSON.stringify(before?.sections ?? []) !== JSON.stringify(after.sections),
+  };
+}
+
+export interface StepsUndoState {
+  /** 今表示している論理版（履歴が無ければ null） */
+  head: number | null;
+  /** undo で戻る版 */
+  undoTarget: number | null;
+  /** redo で進む版 */
+  redoTarget: number | null;
+}
+
+/**
+ * 履歴から undo/redo の行き先を決める（純関数）。
+ * undo は head の親へ戻り、redo は直前の undo を取り消す。通常の保存で redo は消える。
+ */
+export function resolveStepsUndoState(
+  revisions: StepsRevision[]
+): StepsUndoState {
+  const byRevision = new Map(revisions.map(entry => [entry.revision, entry]));
+  const redoStack: number[] = [];
+  let head: number | null = null;
+  for (const entry of revisions) {
+    if (entry.action === "undo" && head !== null) {
+      redoStack.push(head);
+    } else if (entry.action === "redo") {
+      redoStack.pop();
+    } else {
+      redoStack.length = 0;
+    }
+    head = entry.head;
+  }
+  return {
+    head,
+    undoTarget: head !== null ? (byRevision.get(head)?.parent ?? null) : null,
+    redoTarget: redoStack[redoStack.length - 1] ?? null,
+  };
 }
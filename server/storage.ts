@@ -176,3 +176,9 @@ export async function storageGet(
   await fs.access(filePath);
   return { key, url: keyToPublicUrl(key) };
 }
+
+/** ストレージのファイルを削除する。既に無ければ何もしない */
+export async function storageDelete(relKey: string): Promise<void> {
+  const key = normalizeKey(relKey);
+  await fs.rm(keyToFsPath(key), { force: true });
+}
@@ -96,6 +96,61 @@ describe("TTS adapters", () => {
     expect(voices[0].id).toBe("Kore");
   });
 
+  it("passes the narration language to OpenAI instructions and Gemini languageCode", async () => {
+    setEnv({
+      TTS_PROVIDER: "openai",
+      OPENAI_API_KEY: "test-openai-key",
+      TTS_MODEL: "gpt-4o-mini-tts",
+    });
+    vi.resetModules();
+    const audio = Buffer.from("fake-mp3-audio");
+    const openaiFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      arrayBuffer: async () =>
+        audio.buffer.slice(audio.byteOffset, audio.byteOffset + audio.byteLength),
+    });
+    vi.stubGlobal("fetch", openaiFetch);
+    const openai = await import("./_core/tts");
+    await openai.generateSpeech({ text: "Click Save.", language: "en" });
+    const openaiBody = JSON.parse(
+      (openaiFetch.mock.calls[0] as [string, RequestInit])[1].body as string
+    );
+    expect(openaiBody.instructions).toContain("English");
+
+    setEnv({
+      TTS_PROVIDER: "gemini",
+      GEMINI_API_KEY: "test-gemini-key",
+      TTS_MODEL: "gemini-2.5-flash-preview-tts",
+    });
+    vi.resetModules();
+    const geminiFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  inlineData: {
+                    mimeType: "audio/mpeg",
+                    data: Buffer.from("gemini-audio").toString("base64"),
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      }),
+    });
+    vi.stubGlobal("fetch", geminiFetch);
+    const gemini = await import("./_core/tts");
+    await gemini.generateSpeech({ text: "저장을 클릭합니다.", language: "ko" });
+    const geminiBody = JSON.parse(
+      (geminiFetch.mock.calls[0] as [string, RequestInit])[1].body as string
+    );
+    expect(geminiBody.generationConfig.speechConfig.languageCode).toBe("ko-KR");
+  });
+
   it("returns validation error for text over max length", async () => {
     setEnv({
       TTS_PROVIDER: "openai",
@@ -4,12 +4,15 @@ import os from "os";
 import path from "path";
 import { execFileSync } from "child_process";
 import {
+  buildChapterMetadata,
   buildClipSegment,
   buildTitleCard,
   concatSegments,
+  planChapters,
   planClip,
   resolveAudioMode,
   resolveRequestedAudioMode,
+  usesSourceClip,
 } from "./videoClips";
 
 describe("planClip", () => {
@@ -49,6 +52,53 @@ describe("planClip", () => {
   });
 });
 
+describe("planChapters", () => {
+  it("章の先頭セグメントの開始時刻から次の章の直前までを区間にし、最初の章は0から始める", () => {
+    const chapters = planChapters([3000, 4000, 5000, 3000, 6000], [
+      { title: "準備", segmentIndex: 1 },
+      { title: "入力", segmentIndex: 3 },
+    ]);
+    expect(chapters).toEqual([
+      { title: "準備", startMs: 0, endMs: 12000 },
+      { title: "入力", startMs: 12000, endMs: 21000 },
+    ]);
+  });
+
+  it("長さが0になる章は出さない", () => {
+    const chapters = planChapters([3000, 4000], [
+      { title: "A", segmentIndex: 0 },
+      { title: "B", segmentIndex: 2 },
+    ]);
+    expect(chapters).toEqual([{ title: "A", startMs: 0, endMs: 7000 }]);
+  });
+});
+
+describe("buildChapterMetadata", () => {
+  it("FFMETADATA形式でミリ秒単位のチャプターを書き、特殊文字をエスケープする", () => {
+    expect(
+      buildChapterMetadata([
+        { title: "設定=開く; #1", startMs: 0, endMs: 5000 },
+        { title: "保存", startMs: 5000, endMs: 9000 },
+      ]),
+    ).toBe(
+      [
+        ";FFMETADATA1",
+        "[CHAPTER]",
+        "TIMEBASE=1/1000",
+        "START=0",
+        "END=5000",
+        "title=設定\\=開く\\; \\#1",
+        "[CHAPTER]",
+        "TIMEBASE=1/1000",
+        "START=5000",
+        "END=9000",
+        "title=保存",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
 describe("resolveAudioMode", () => {
   it("auto: 発話あり → original", () => {
     expect(resolveAudioMode("auto", true, true)).toBe("original");
@@ -77,6 +127,17 @@ describe("resolveRequestedAudioMode", () => {
   });
 });
 
+describe("usesSourceClip", () => {
+  it("スクリーンショットを差し替えていなければ元録画のクリップを使う", () => {
+    expect(usesSourceClip({})).toBe(true);
+  });
+
+  it("別の時刻のフレームやアップロード画像に差し替えたステップは、差し替えた画像の静止画にする", () => {
+    expect(usesSourceClip({ screenshot_override: { source: "video_frame" } })).toBe(false);
+    expect(usesSourceClip({ screenshot_override: { source: "upload" } })).toBe(false);
+  });
+});
+
 // --- 統合テスト（ffmpeg + 合成動画が必要） ---
 
 const ROOT = path.resolve(import.meta.dirname, "..");
@@ -19,6 +19,8 @@ import { execFile } from "child_process";
 import fs from "fs/promises";
 import path from "path";
 import { promisify } from "util";
+import { buildCropFilter } from "./evidence/timeline";
+import type { NormalizedRect } from "./evidence/types";
 
 const execFileAsync = promisify(execFile);
 
@@ -96,6 +98,15 @@ export function resolveRequestedAudioMode(globalMode: AudioMode, stepMode: Audio
   return stepMode && stepMode !== "auto" ? stepMode : globalMode;
 }
 
+/**
+ * ステップを元録画のクリップで見せるか（純関数）。スクリーンショットを差し替えたステップは、
+ * 差し替えた画像の静止画で見せる。アップロード画像（塗りつぶしなど）は元録画では効かず、
+ * 別の時刻のフレームはステップの区間のクリップには映らないため。
+ */
+export function usesSourceClip(step: { screenshot_override?: { source: "video_frame" | "upload" } }): boolean {
+  return step.screenshot_override === undefined;
+}
+
 async function getMediaDurationSec(mediaPath: string): Promise<number> {
   const { stdout } = await execFileAsync(
     "ffprobe",
@@ -192,9 +203,13 @@ export async function buildClipSegment(options: {
   /** 全セグメント共通の出力解像度（concat互換性のため必須） */
   targetWidth: number;
   targetHeight: number;
+  /** 証拠抽出と同じクロップ領域（代表フレームと同じ範囲を映す）。null = 全画面 */
+  cropRegion?: NormalizedRect | null;
 }): Promise<{ warnings: string[] }> {
   const { videoPath, plan, mode, ttsAudioPath, outputPath, targetWidth, targetHeight } = options;
-  const normalizeFilter = scalePadFilter(targetWidth, targetHeight);
+  const normalizeFilter = options.cropRegion
+    ? `${buildCropFilter(options.cropRegion)},${scalePadFilter(targetWidth, targetHeight)}`
+    : scalePadFilter(targetWidth, targetHeight);
   const warnings: string[] = [...plan.warnings];
 
   const startSec = (plan.startMs / 1000).toFixed(3);
@@ -411,3 +426,78 @@ export async function concatSegments(
     { timeout: 600_000 },
   );
 }
+
+/** MP4 に埋め込むチャプター（ミリ秒） */
+export interface VideoChapter {
+  title: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * 章の先頭セグメント番号と各セグメントの長さから、チャプター区間を求める（純関数）。
+ * 最初の章はイントロも含めて 0 から始め、各章は次の章の直前（最後の章は末尾）まで続く。
+ */
+export function planChapters(
+  segmentDurationsMs: number[],
+  chapterStarts: Array<{ title: string; segmentIndex: number }>,
+): VideoChapter[] {
+  const offsets: number[] = [0];
+  for (const duration of segmentDurationsMs) {
+    offsets.push(offsets[offsets.length - 1] + duration);
+  }
+  const totalMs = offsets[offsets.length - 1];
+  const starts = chapterStarts.map((chapter, index) =>
+    index === 0 ? 0 : offsets[Math.min(chapter.segmentIndex, segmentDurationsMs.length)],
+  );
+  return chapterStarts
+    .map((chapter, index) => ({
+      title: chapter.title,
+      startMs: Math.round(starts[index]),
+      endMs: Math.round(starts[index + 1] ?? totalMs),
+    }))
+    .filter((chapter) => chapter.endMs > chapter.startMs);
+}
+
+/** ffmpeg の FFMETADATA 形式でチャプターを書く（= ; # \ 改行はエスケープ） */
+export function buildChapterMetadata(chapters: VideoChapter[]): string {
+  const escape = (value: string) =>
+    value.replace(/[=;#\\\n]/g, (char) => `\\${char}`);
+  const lines = [";FFMETADATA1"];
+  for (const chapter of chapters) {
+    lines.push(
+      "[CHAPTER]",
+      "TIMEBASE=1/1000",
+      `START=${chapter.startMs}`,
+      `END=${chapter.endMs}`,
+      `title=${escape(chapter.title)}`,
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** 連結済みの mp4 にチャプターを埋め込む（ストリームは再エンコードしない） */
+export async function applyChapterMetadata(
+  inputPath: string,
+  chapters: VideoChapter[],
+  workDir: string,
+  outputPath: string,
+): Promise<void> {
+  const metadataPath = path.join(workDir, "chapters.txt");
+  await fs.writeFile(metadataPath, buildChapterMetadata(chapters), "utf8");
+
+  await execFileAsync(
+    "ffmpeg",
+    [
+      "-y",
+      "-i", inputPath,
+      "-i", metadataPath,
+      "-map", "0",
+      "-map_metadata", "0",
+      "-map_chapters", "1",
+      "-c", "copy",
+      outputPath,
+    ],
+    { timeout: 120_000 },
+  );
+}
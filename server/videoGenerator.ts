@@ -6,30 +6,48 @@ import { resolveToLocalFile, storagePut } from "./storage";
 import { readBinaryFromSource } from "./storage";
 import * as db from "./db";
 import { nanoid } from "nanoid";
+import { AUDIENCE_EXPORT_LABELS } from "@shared/audience";
+import type { OutputLanguage } from "@shared/outputLanguage";
 import { generateSpeechForLongText, type TTSVoice } from "./_core/tts";
 import { ENV } from "./_core/env";
 import { createTempFilePath, createTempDir, safeTempFileDelete, safeTempDirDelete } from "./tempFileManager";
 import {
   patchStepArtifact,
+  resolveStepSections,
   saveStepsArtifact,
   type StepArtifact,
+  type StepSection,
 } from "./stepsArtifact";
 import { loadProjectStepRenderState } from "./stepSource";
 import { loadEvidenceArtifact } from "./evidence/artifactStore";
 import { getVideoDurationMs } from "./evidence/timeline";
 import {
+  applyChapterMetadata,
   buildClipSegment,
   buildTitleCard,
   concatSegments,
   getVideoResolution,
+  planChapters,
   planClip,
   resolveAudioMode,
   resolveRequestedAudioMode,
+  usesSourceClip,
   type AudioMode,
 } from "./videoClips";
 
 const execFileAsync = promisify(execFile);
 
+/** イントロ・アウトロのタイトルカード文言（steps.json の出力言語に合わせる） */
+const TITLE_CARD_LABELS: Record<
+  OutputLanguage,
+  { totalSteps: (count: number) => string; complete: string }
+> = {
+  ja: { totalSteps: count => `全${count}ステップ`, complete: "完了" },
+  en: { totalSteps: count => `${count} steps`, complete: "Done" },
+  zh: { totalSteps: count => `共${count}个步骤`, complete: "完成" },
+  ko: { totalSteps: count => `총 ${count}단계`, complete: "완료" },
+};
+
 /**
  * ffprobeを使用して音声ファイルの長さ（秒）を取得
  */
@@ -61,7 +79,8 @@ async function getAudioDuration(audioPath: string): Promise<number> {
 async function generateAudio(
   text: string,
   outputPath: string,
-  voice: TTSVoice = "nova"
+  voice: TTSVoice = "nova",
+  language?: OutputLanguage
 ): Promise<{ fallback: boolean }> {
   console.log(`[VideoGenerator] TTS for text: "${text.substring(0, 50)}..."`);
 
@@ -72,6 +91,7 @@ async function generateAudio(
     model: ENV.ttsModel,
     speed: 1.0,
     format: "mp3",
+    language,
   });
 
   if ("error" in result) {
@@ -105,12 +125,14 @@ async function generateAudio(
  */
 export async function generateAudioForProject(
   projectId: number,
-  voice: TTSVoice = "nova"
+  voice: TTSVoice = "nova",
+  options: { language?: OutputLanguage } = {}
 ): Promise<{ silentFallbackCount: number }> {
   console.log(`[VideoGenerator] Starting audio generation for project ${projectId} with voice: ${voice}`);
 
   const renderState = await loadProjectStepRenderState(projectId, undefined, {
     invalidArtifactFallback: true,
+    language: options.language,
   });
   const { steps } = renderState;
   for (const warning of renderState.warnings) {
@@ -131,6 +153,8 @@ export async function generateAudioForProject(
   if (steps.length === 0) {
     throw new Error("ステップが見つかりません");
   }
+  // ナレーションは steps.json の出力言語で読み上げる
+  const language = renderState.artifact?.config.output_language ?? "ja";
 
   const audioBySortOrder = new Map<number, { audioUrl: string; audioKey: string }>();
   const silentFallbackSortOrders: number[] = [];
@@ -144,7 +168,12 @@ export async function generateAudioForProject(
     try {
       // 一時ファイルに音声を生成
       const tempAudioPath = createTempFilePath(`audio_${step.id}`, ".mp3");
-      const { fallback } = await generateAudio(step.narration, tempAudioPath, voice);
+      const { fallback } = await generateAudio(
+        step.narration,
+        tempAudioPath,
+        voice,
+        language
+      );
       if (fallback) {
         silentFallbackSortOrders.push(step.sortOrder);
       }
@@ -154,8 +183,8 @@ export async function generateAudioForProject(
       const fileKey = `projects/${projectId}/audio/${nanoid()}.mp3`;
       const { url: audioUrl } = await storagePut(fileKey, audioBuffer, "audio/mpeg");
 
-      // DBを更新
-      if (step.id > 0) {
+      // DBを更新（DBのステップは原本と同じ内容なので、翻訳版の音声は書き込まない）
+      if (step.id > 0 && !options.language) {
         await db.updateStep(step.id, {
           audioUrl,
           audioKey: fileKey,
@@ -189,7 +218,7 @@ export async function generateAudioForProject(
           warnings,
         };
       }),
-    }));
+    }), options.language, { action: "audio", system: true });
   }
 
   console.log(`[VideoGenerator] Audio generation complete for project ${projectId}`);
@@ -256,6 +285,8 @@ async function buildStillImageSegment(
 export interface GenerateVideoOptions {
   /** 音声モード（既定 auto: 発話あり→original / TTSあり→tts / なければ silent） */
   audioMode?: AudioMode;
+  /** 指定時は翻訳版（steps.<language>.json）のステップとナレーション音声で生成する */
+  language?: OutputLanguage;
 }
 
 export interface GenerateVideoResult {
@@ -284,11 +315,13 @@ export async function generateVideo(
     warnings: renderWarnings,
   } = await loadProjectStepRenderState(projectId, undefined, {
     invalidArtifactFallback: true,
+    language: options.language,
   });
 
   if (steps.length === 0 || frames.length === 0) {
     throw new Error("ステップまたはフレームが見つかりません");
   }
+  const cardLabels = TITLE_CARD_LABELS[artifact?.config.output_language ?? "ja"];
 
   const evidence = await loadEvidenceArtifact(projectId);
   const transcriptPresent = (evidence?.transcript.segments.length ?? 0) > 0;
@@ -302,6 +335,16 @@ export async function generateVideo(
       }
     }
   }
+  // 章の先頭ステップ（legacy_step_db_id）→ 章。章タイトルカードとMP4チャプターに使う
+  const sectionByFirstStepDbId = new Map<number, StepSection>();
+  if (artifact) {
+    for (const resolved of resolveStepSections(artifact)) {
+      const firstStep = artifact.steps.find((artifactStep) => artifactStep.step_id === resolved.stepIds[0]);
+      if (firstStep?.legacy_step_db_id) {
+        sectionByFirstStepDbId.set(firstStep.legacy_step_db_id, resolved.section);
+      }
+    }
+  }
   // セグメントID → 操作開始時刻（クリップのアンカー）
   const transitionStartBySegmentId = new Map<string, number>(
     (evidence?.segments ?? []).map((segment) => [segment.segment_id, segment.transition_start]),
@@ -320,8 +363,11 @@ export async function generateVideo(
     sourceVideo = await resolveToLocalFile(project.videoUrl, ".mp4");
     videoDurationMs = await getVideoDurationMs(sourceVideo.path);
     const resolution = await getVideoResolution(sourceVideo.path);
-    targetWidth = resolution.width;
-    targetHeight = resolution.height;
+    // クロップして抽出した場合は代表フレームと同じ縦横比で出力する
+    const crop = evidence?.config.crop_region ?? null;
+    const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+    targetWidth = crop ? toEven(resolution.width * crop.w) : resolution.width;
+    targetHeight = crop ? toEven(resolution.height * crop.h) : resolution.height;
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     warnings.push(`元録画を取得できないため静止画モードで生成します: ${message.substring(0, 120)}`);
@@ -332,13 +378,19 @@ export async function generateVideo(
 
   try {
     const videoSegments: string[] = [];
+    const chapterStarts: Array<{ title: string; segmentIndex: number }> = [];
 
     // === イントロ（overviewがある場合のみ） ===
     if (artifact?.overview?.task_title) {
       const introPath = path.join(tempDir, "intro.mp4");
       const built = await buildTitleCard({
         title: artifact.overview.task_title,
-        subtitle: `全${steps.length}ステップ`,
+        // 想定読者も出して、同じ録画から作った版を見分けられるようにする
+        subtitle: `${cardLabels.totalSteps(steps.length)} / ${
+          AUDIENCE_EXPORT_LABELS[artifact.config.output_language][
+            artifact.config.audience
+          ]
+        }`,
         width: targetWidth,
         height: targetHeight,
         outputPath: introPath,
@@ -354,6 +406,24 @@ export async function generateVideo(
       const frame = frames.find((f) => f.id === step.frameId);
       if (!frame) continue;
 
+      // === 章タイトルカード（章の先頭ステップの前） ===
+      const section = sectionByFirstStepDbId.get(step.id);
+      if (section) {
+        chapterStarts.push({ title: section.title, segmentIndex: videoSegments.length });
+        const built = await buildTitleCard({
+          title: section.title,
+          subtitle: section.summary || undefined,
+          width: targetWidth,
+          height: targetHeight,
+          outputPath: path.join(tempDir, `section_${step.id}.mp4`),
+        }).catch(() => null);
+        if (built) {
+          videoSegments.push(built);
+        } else {
+          warnings.push(`使用可能なフォントが無いため章「${section.title}」のタイトルカードをスキップしました`);
+        }
+      }
+
       // TTSナレーション音声をローカルへ
       let audioPath: string | null = null;
       if (step.audioUrl) {
@@ -364,9 +434,11 @@ export async function generateVideo(
 
       const segmentPath = path.join(tempDir, `segment_${step.id}.mp4`);
       const artifactStep = artifactStepByDbId.get(step.id);
+      // スクリーンショットを差し替えたステップは、元録画のクリップではなく差し替えた画像の静止画で見せる
+      const replacedScreenshot = artifactStep !== undefined && !usesSourceClip(artifactStep);
 
       // クリップ切り出し（元録画 + 区間情報がある場合）
-      if (sourceVideo && artifactStep) {
+      if (sourceVideo && artifactStep && !replacedScreenshot) {
         try {
           const firstSegmentId = artifactStep.source_segment_ids[0];
           const transitionStart = firstSegmentId
@@ -392,6 +464,7 @@ export async function generateVideo(
             outputPath: segmentPath,
             targetWidth,
             targetHeight,
+            cropRegion: evidence?.config.crop_region ?? null,
           });
           warnings.push(...result.warnings.map((w) => `step ${step.sortOrder + 1}: ${w}`));
           videoSegments.push(segmentPath);
@@ -405,7 +478,7 @@ export async function generateVideo(
       }
 
       // フォールバック: 静止画 + TTS（従来方式）
-      stillImageFallbackCount += sourceVideo && artifactStep ? 1 : 0;
+      stillImageFallbackCount += sourceVideo && artifactStep && !replacedScreenshot ? 1 : 0;
       const imageBuffer = await readBinaryFromSource(frame.imageUrl);
       const imagePath = path.join(tempDir, `frame_${step.id}.jpg`);
       await fs.writeFile(imagePath, imageBuffer);
@@ -417,7 +490,7 @@ export async function generateVideo(
     if (artifact?.overview?.completion_criteria) {
       const outroPath = path.join(tempDir, "outro.mp4");
       const built = await buildTitleCard({
-        title: "完了",
+        title: cardLabels.complete,
         subtitle: artifact.overview.completion_criteria,
         width: targetWidth,
         height: targetHeight,
@@ -433,7 +506,29 @@ export async function generateVideo(
     const finalVideoPath = path.join(tempDir, "final_video.mp4");
     await concatSegments(videoSegments, tempDir, finalVideoPath);
 
-    const videoBuffer = await fs.readFile(finalVideoPath);
+    // === MP4チャプター（章がある場合のみ。失敗しても章なしの動画を出す） ===
+    let outputVideoPath = finalVideoPath;
+    if (chapterStarts.length > 0) {
+      try {
+        const segmentDurationsMs: number[] = [];
+        for (const segmentPath of videoSegments) {
+          segmentDurationsMs.push(await getVideoDurationMs(segmentPath));
+        }
+        const chapteredVideoPath = path.join(tempDir, "final_video_chapters.mp4");
+        await applyChapterMetadata(
+          finalVideoPath,
+          planChapters(segmentDurationsMs, chapterStarts),
+          tempDir,
+          chapteredVideoPath,
+        );
+        outputVideoPath = chapteredVideoPath;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push(`チャプターの埋め込みに失敗したため章なしで出力します: ${message.substring(0, 120)}`);
+      }
+    }
+
+    const videoBuffer = await fs.readFile(outputVideoPath);
     const fileKey = `projects/${projectId}/videos/${nanoid()}.mp4`;
     const { url: videoUrl } = await storagePut(fileKey, videoBuffer, "video/mp4");
 
@@ -7,8 +7,9 @@ import * as db from "./db";
 import { nanoid } from "nanoid";
 import { dedupeFramesByDHash, type NormalizedRect } from "./_core/frameAnalysis";
 import { ENV } from "./_core/env";
-import { extractEvidence } from "./evidence/extract";
+import { extractEvidence, type ExtractEvidenceOptions } from "./evidence/extract";
 import { invalidateEvidenceArtifact, saveEvidenceArtifact } from "./evidence/artifactStore";
+import { parseProjectSettings, toExtractEvidenceOptions } from "./projectSettings";
 
 const execFileAsync = promisify(execFile);
 
@@ -394,7 +395,14 @@ export async function processVideo(
     // Phase 1: 証拠抽出パイプライン（一様サンプリング + 操作セグメンテーション）
     // 失敗時は従来のシーン検出にフォールバックする（安定確認後に旧経路は削除予定）
     try {
-      await processWithEvidencePipeline(projectId, videoPath, tempDir);
+      // プロジェクト別のセグメンテーション調整値・除外矩形（未設定項目は ENV 既定値）
+      const project = await db.getProjectById(projectId);
+      await processWithEvidencePipeline(
+        projectId,
+        videoPath,
+        tempDir,
+        toExtractEvidenceOptions(parseProjectSettings(project?.settings)),
+      );
       console.log(`[VideoProcessor] Evidence pipeline complete for project ${projectId}`);
       return;
     } catch (evidenceError) {
@@ -515,10 +523,12 @@ async function processWithEvidencePipeline(
   projectId: number,
   videoPath: string,
   tempDir: string,
+  evidenceOptions: Partial<ExtractEvidenceOptions>,
 ): Promise<void> {
   const framesDir = path.join(tempDir, "evidence_frames");
 
   const { artifact } = await extractEvidence(videoPath, {
+    ...evidenceOptions,
     framesDir,
     onProgress: async (ratio, message) => {
       // 全体進捗の 10%〜60% を証拠抽出に割り当てる
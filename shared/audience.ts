@@ -0,0 +1,37 @@
+import type { OutputLanguage } from "./outputLanguage";
+
+/**
+ * マニュアルの想定読者。同じ録画から、初心者向けの詳しい手順書と
+ * 熟練オペレーター向けの簡潔なチェックリストなどを作り分ける。
+ * novice は想定読者の指定を導入する前の執筆と同じ（プロンプトに追加の指示を足さない）。
+ */
+export const AUDIENCES = ["novice", "operator", "admin"] as const;
+export type Audience = (typeof AUDIENCES)[number];
+
+export const DEFAULT_AUDIENCE: Audience = "novice";
+
+/** 設定画面で使う名前 */
+export const AUDIENCE_LABELS: Record<Audience, string> = {
+  novice: "初心者向け（詳しい手順）",
+  operator: "オペレーター向け（簡潔なチェックリスト）",
+  admin: "管理者向け（設定値と影響）",
+};
+
+/** スライド表紙・動画イントロに出す名前（steps.json の出力言語に合わせる） */
+export const AUDIENCE_EXPORT_LABELS: Record<
+  OutputLanguage,
+  Record<Audience, string>
+> = {
+  ja: {
+    novice: "初心者向け",
+    operator: "オペレーター向け",
+    admin: "管理者向け",
+  },
+  en: {
+    novice: "For beginners",
+    operator: "For operators",
+    admin: "For administrators",
+  },
+  zh: { novice: "新手版", operator: "操作员版", admin: "管理员版" },
+  ko: { novice: "초보자용", operator: "운영자용", admin: "관리자용" },
+};
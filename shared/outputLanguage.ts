@@ -0,0 +1,16 @@
+/**
+ * 生成するマニュアル（ステップ文・スライド・ナレーション音声）の言語。
+ * 録画の画面・発話の言語とは独立に、プロジェクト設定 outputLanguage で選ぶ。
+ */
+export const OUTPUT_LANGUAGES = ["ja", "en", "zh", "ko"] as const;
+export type OutputLanguage = (typeof OUTPUT_LANGUAGES)[number];
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = "ja";
+
+/** 設定画面・執筆プロンプトで使う言語名 */
+export const OUTPUT_LANGUAGE_LABELS: Record<OutputLanguage, string> = {
+  ja: "日本語",
+  en: "英語（English）",
+  zh: "中国語・簡体字（简体中文）",
+  ko: "韓国語（한국어）",
+};